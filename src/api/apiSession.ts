@@ -1,7 +1,7 @@
 import { logger } from '@/ui/logger'
 import { EventEmitter } from 'node:events'
 import { io, Socket } from 'socket.io-client'
-import { AgentState, ClientToServerEvents, MessageContent, Metadata, ServerToClientEvents, Session, Update, UserMessage, UserMessageSchema, Usage } from './types'
+import { AgentState, AgentTerminalMessage, ClientToServerEvents, MessageContent, Metadata, ServerToClientEvents, Session, TerminalMessage, Update, UserMessage, UserMessageSchema, Usage } from './types'
 import { decodeBase64, decrypt, encodeBase64, encrypt } from './encryption';
 import { backoff } from '@/utils/time';
 import { configuration } from '@/configuration';
@@ -239,6 +239,27 @@ export class ApiSessionClient extends EventEmitter {
         });
     }
 
+    /**
+     * Send output or status of a wrapped CLI tool
+     */
+    sendTerminalMessage(body: TerminalMessage) {
+        let content: AgentTerminalMessage = {
+            role: 'agent',
+            content: {
+                type: 'terminal',
+                data: body
+            },
+            meta: {
+                sentFrom: 'cli'
+            }
+        };
+        const encrypted = encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, content));
+        this.socket.emit('message', {
+            sid: this.sessionId,
+            message: encrypted
+        });
+    }
+
     sendSessionEvent(event: {
         type: 'switch', mode: 'local' | 'remote'
     } | {
@@ -282,7 +282,43 @@ export const AgentMessageSchema = z.object({
 
 export type AgentMessage = z.infer<typeof AgentMessageSchema>
 
-export const MessageContentSchema = z.union([UserMessageSchema, AgentMessageSchema])
+/**
+ * Body of a `terminal` agent message, sent by wrapped CLI tools
+ * (universal CLI sessions) instead of Claude/Codex transcripts
+ */
+export const TerminalMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('output'),
+    entries: z.array(z.object({
+      source: z.enum(['stdout', 'stderr']),
+      text: z.string(),
+      ansi: z.string(),
+      timestamp: z.number()
+    }))
+  }),
+  z.object({
+    type: z.literal('status'),
+    status: z.enum(['idle', 'running', 'awaiting-input', 'paused', 'terminated', 'error']),
+    exitCode: z.number().optional(),
+    prompt: z.string().optional(), // Prompt text, when the tool is awaiting input
+    reason: z.string().optional() // Why the session was ended, e.g. a limit it exceeded
+  })
+])
+
+export type TerminalMessage = z.infer<typeof TerminalMessageSchema>
+
+export const AgentTerminalMessageSchema = z.object({
+  role: z.literal('agent'),
+  content: z.object({
+    type: z.literal('terminal'),
+    data: TerminalMessageSchema
+  }),
+  meta: MessageMetaSchema.optional()
+})
+
+export type AgentTerminalMessage = z.infer<typeof AgentTerminalMessageSchema>
+
+export const MessageContentSchema = z.union([UserMessageSchema, AgentMessageSchema, AgentTerminalMessageSchema])
 
 export type MessageContent = z.infer<typeof MessageContentSchema>
 
@@ -312,7 +348,84 @@ export type Metadata = {
   lifecycleStateSince?: number,
   archivedBy?: string,
   archiveReason?: string,
-  flavor?: string
+  flavor?: string,
+  terminalTitle?: string, // Window title set by a wrapped terminal program
+  patternMatches?: { // Tool output pattern matches of a wrapped program, by pattern name
+    [pattern: string]: {
+      count: number,
+      lastMatch: string,
+      lastMatchedAt: number
+    }
+  },
+  progress?: { // Latest progress of a wrapped program's long-running command
+    percent?: number,
+    bytes?: { current: number, total: number },
+    step?: { current: number, total: number },
+    layers?: {
+      [layerId: string]: { status: string, current?: number, total?: number }
+    },
+    line: string,
+    updatedAt: number
+  },
+  tests?: { // Test results of a wrapped test runner, with the failures to open
+    runner: string,
+    status: 'running' | 'passed' | 'failed',
+    passed: number,
+    failed: number,
+    skipped: number,
+    total?: number,
+    durationMs?: number,
+    failures: Array<{
+      suite: string,
+      name: string,
+      file?: string,
+      line?: number,
+      message?: string
+    }>,
+    updatedAt: number
+  },
+  recipe?: { // Steps of a `uhappy run` recipe, which shows up as one session
+    name: string,
+    status: 'running' | 'succeeded' | 'failed' | 'cancelled',
+    steps: Array<{
+      name: string,
+      status: 'pending' | 'running' | 'succeeded' | 'failed' | 'timed-out' | 'skipped' | 'cancelled',
+      exitCode?: number,
+      reason?: string,
+      durationMs?: number
+    }>
+  },
+  diagnostics?: { // Counts of a wrapped compiler or linter's latest run; the list is served by the getDiagnostics RPC
+    source: string,
+    run: number,
+    status: 'running' | 'done',
+    errors: number,
+    warnings: number,
+    updatedAt: number
+  },
+  resources?: { // Latest resource use of a wrapped program's process tree, with its peaks
+    current: {
+      timestamp: number,
+      cpuPercent: number,
+      rssBytes: number,
+      fds: number,
+      threads: number,
+      processes: number,
+      readBytes: number,
+      writeBytes: number,
+      cpuSeconds: number
+    },
+    peakCpuPercent: number,
+    peakRssBytes: number
+  },
+  limitViolations?: Array<{ // Limits of a wrapped program the session exceeded, and what was done about it
+    limit: 'timeout' | 'idleTimeout' | 'maxRssMb' | 'maxCpuSeconds' | 'maxOutputMb',
+    action: 'warn' | 'terminate' | 'pause',
+    threshold: number,
+    value: number,
+    message: string,
+    timestamp: number
+  }>
 };
 
 export type AgentState = {
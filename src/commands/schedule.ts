@@ -0,0 +1,241 @@
+import chalk from 'chalk';
+import { resolve } from 'node:path';
+import { readSchedules } from '@/persistence';
+import { checkIfDaemonRunningAndCleanupStaleState, addDaemonSchedule, removeDaemonSchedule, runDaemonScheduleNow } from '@/daemon/controlClient';
+import { nextCronRun, parseCron } from '@/daemon/cron';
+import { ScheduleEntry, ScheduleRun } from '@/daemon/types';
+
+/**
+ * Handle schedule subcommand
+ *
+ * Commands the daemon runs on a cron schedule:
+ * - schedule add: Schedule a command
+ * - schedule list: Show scheduled commands and their last runs
+ * - schedule remove: Remove a scheduled command
+ * - schedule run-now: Run a scheduled command immediately
+ */
+export async function handleScheduleCommand(args: string[]): Promise<void> {
+  const subcommand = args[0];
+
+  if (!subcommand || subcommand === 'help' || subcommand === '--help' || subcommand === '-h') {
+    showScheduleHelp();
+    return;
+  }
+
+  switch (subcommand) {
+    case 'add':
+      await handleScheduleAdd(args.slice(1));
+      break;
+    case 'list':
+    case 'ls':
+      await handleScheduleList();
+      break;
+    case 'remove':
+    case 'rm':
+      await handleScheduleRemove(args[1]);
+      break;
+    case 'run-now':
+      await handleScheduleRunNow(args[1]);
+      break;
+    default:
+      console.error(chalk.red(`Unknown schedule command: ${subcommand}`));
+      showScheduleHelp();
+      process.exit(1);
+  }
+}
+
+function showScheduleHelp(): void {
+  console.log(`
+${chalk.bold('happy schedule')} - Run wrapped commands on a schedule
+
+${chalk.bold('Usage:')}
+  happy schedule add <cron> [options] -- <command> [args...]   Schedule a command
+  happy schedule list                                         List scheduled commands and their last runs
+  happy schedule remove <id|name>                             Remove a scheduled command
+  happy schedule run-now <id|name>                            Run a scheduled command now
+
+${chalk.bold('Options for add:')}
+  --name <name>    Name shown in notifications (default: the command line)
+  --cwd <dir>      Directory to run in (default: the current directory)
+  --tool <tool>    Tool configuration to use (default: detected from the command)
+
+${chalk.bold('Cron expressions:')}
+  minute hour day-of-month month day-of-week, in local time, e.g.
+  "0 3 * * *" every night at 3:00, "*/15 * * * *" every 15 minutes,
+  "0 9 * * mon-fri" weekdays at 9:00, or @hourly, @daily, @weekly, @monthly
+
+${chalk.bold('Examples:')}
+  happy schedule add "0 3 * * *" --name nightly-audit -- npm audit
+  happy schedule add "*/15 * * * *" -- ./scripts/backup.sh
+  happy schedule run-now nightly-audit
+
+${chalk.bold('Notes:')}
+  • The daemon must be running (happy daemon start)
+  • Runs start from the environment 'schedule add' was called in
+  • Each run is a universal session: see it with 'uhappy list' and 'uhappy history'
+  • Each run's output is also saved under ~/.happy/schedule-logs, for the last 10 runs
+  • A run is skipped while the previous one is still going
+  • Results are pushed to your phone
+`);
+}
+
+async function requireDaemon(): Promise<void> {
+  if (!(await checkIfDaemonRunningAndCleanupStaleState())) {
+    console.error(chalk.red('The daemon is not running.'));
+    console.log(chalk.gray('  Start it with "happy daemon start"'));
+    process.exit(1);
+  }
+}
+
+async function handleScheduleAdd(args: string[]): Promise<void> {
+  const cron = args[0];
+  let name: string | undefined;
+  let cwd = process.cwd();
+  let tool: string | undefined;
+  let commandLine: string[] = [];
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      commandLine = args.slice(i + 1);
+      break;
+    } else if (arg === '--name' && i + 1 < args.length) {
+      name = args[++i];
+    } else if (arg === '--cwd' && i + 1 < args.length) {
+      cwd = resolve(args[++i]);
+    } else if (arg === '--tool' && i + 1 < args.length) {
+      tool = args[++i];
+    } else if (arg.startsWith('-')) {
+      console.error(chalk.red(`Unknown option for schedule add: ${arg}`));
+      process.exit(1);
+    } else {
+      commandLine = args.slice(i);
+      break;
+    }
+  }
+
+  if (!cron || commandLine.length === 0) {
+    console.error(chalk.red('Error: A cron expression and a command are required.'));
+    console.log(chalk.gray('Run "happy schedule --help" for usage information.'));
+    process.exit(1);
+  }
+
+  try {
+    parseCron(cron);
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+
+  await requireDaemon();
+  const [command, ...commandArgs] = commandLine;
+  // Runs start from this environment rather than the daemon's
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined) {
+      env[key] = value;
+    }
+  }
+  const result = await addDaemonSchedule({ cron, command, args: commandArgs, cwd, name, tool, env });
+  if (!result.success || !result.entry) {
+    console.error(chalk.red('Failed to schedule command:'), result.error);
+    process.exit(1);
+  }
+
+  const next = nextCronRun(parseCron(cron));
+  console.log(chalk.green(`✓ Scheduled ${result.entry.id} (${result.entry.name})`));
+  console.log(chalk.gray(`  Next run: ${next ? next.toLocaleString() : 'never'}`));
+}
+
+async function handleScheduleList(): Promise<void> {
+  const entries = await readSchedules();
+  if (entries.length === 0) {
+    console.log('No scheduled commands');
+    return;
+  }
+
+  for (const entry of entries) {
+    console.log(`${chalk.cyan(entry.id)}  ${chalk.bold(entry.name)}  ${chalk.gray(entry.cron)}`);
+    console.log(chalk.gray(`  ${[entry.command, ...entry.args].join(' ')} in ${entry.cwd}`));
+    console.log(`  Next run: ${formatNextRun(entry)}`);
+
+    const lastRun = entry.runs[entry.runs.length - 1];
+    if (lastRun) {
+      console.log(`  Last run: ${formatRun(lastRun)}`);
+      if (lastRun.logPath) {
+        console.log(chalk.gray(`  Log: ${lastRun.logPath}`));
+      }
+    }
+  }
+
+  if (!(await checkIfDaemonRunningAndCleanupStaleState())) {
+    console.log(chalk.yellow('\nThe daemon is not running, so nothing will run until "happy daemon start"'));
+  }
+}
+
+function formatNextRun(entry: ScheduleEntry): string {
+  try {
+    return nextCronRun(parseCron(entry.cron))?.toLocaleString() ?? 'never';
+  } catch (error) {
+    return chalk.red(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function formatRun(run: ScheduleRun): string {
+  const when = new Date(run.startedAt).toLocaleString();
+  const duration = run.endedAt !== undefined ? ` (${Math.round((run.endedAt - run.startedAt) / 1000)}s)` : '';
+  const manual = run.trigger === 'manual' ? ', run manually' : '';
+  const session = run.sessionId ? chalk.gray(` session ${run.sessionId.slice(0, 8)}`) : '';
+
+  switch (run.status) {
+    case 'running':
+      return `${chalk.blue('running')} since ${when}${manual}${session}`;
+    case 'succeeded':
+      return `${chalk.green('succeeded')} ${when}${duration}${manual}${session}`;
+    case 'failed': {
+      const matches = run.patternMatches?.length ? `, matched ${run.patternMatches.join(', ')}` : '';
+      const failure = run.exitCode !== undefined ? `failed with exit code ${run.exitCode}` : `failed: ${run.message}`;
+      return `${chalk.red(failure)} ${when}${duration}${matches}${manual}${session}`;
+    }
+    default:
+      return `${chalk.yellow(run.status)} ${when}: ${run.message}${manual}`;
+  }
+}
+
+async function handleScheduleRemove(ref: string | undefined): Promise<void> {
+  if (!ref) {
+    console.error(chalk.red('Error: The ID or name of the scheduled command is required.'));
+    process.exit(1);
+  }
+
+  await requireDaemon();
+  const result = await removeDaemonSchedule(ref);
+  if (!result.success || !result.entry) {
+    console.error(chalk.red('Failed to remove scheduled command:'), result.error);
+    process.exit(1);
+  }
+  console.log(chalk.green(`✓ Removed ${result.entry.id} (${result.entry.name})`));
+}
+
+async function handleScheduleRunNow(ref: string | undefined): Promise<void> {
+  if (!ref) {
+    console.error(chalk.red('Error: The ID or name of the scheduled command is required.'));
+    process.exit(1);
+  }
+
+  await requireDaemon();
+  const result = await runDaemonScheduleNow(ref);
+  if (!result.success || !result.run) {
+    console.error(chalk.red('Failed to run scheduled command:'), result.error);
+    process.exit(1);
+  }
+
+  const run = result.run;
+  if (run.status === 'running') {
+    console.log(chalk.green(`✓ Started as session ${run.sessionId}`));
+    console.log(chalk.gray(`  See its output with 'uhappy history ${run.sessionId?.slice(0, 8)}' or in ${run.logPath}`));
+  } else {
+    console.log(chalk.yellow(`Not run: ${run.message}`));
+    process.exit(1);
+  }
+}
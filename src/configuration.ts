@@ -22,6 +22,8 @@ class Configuration {
   public readonly privateKeyFile: string
   public readonly daemonStateFile: string
   public readonly daemonLockFile: string
+  public readonly schedulesFile: string
+  public readonly scheduleLogsDir: string
   public readonly currentCliVersion: string
 
   public readonly isExperimentalEnabled: boolean
@@ -49,6 +51,8 @@ class Configuration {
     this.privateKeyFile = join(this.happyHomeDir, 'access.key')
     this.daemonStateFile = join(this.happyHomeDir, 'daemon.state.json')
     this.daemonLockFile = join(this.happyHomeDir, 'daemon.state.json.lock')
+    this.schedulesFile = join(this.happyHomeDir, 'schedules.json')
+    this.scheduleLogsDir = join(this.happyHomeDir, 'schedule-logs')
 
     this.isExperimentalEnabled = ['true', '1', 'yes'].includes(process.env.HAPPY_EXPERIMENTAL?.toLowerCase() || '');
 
@@ -10,6 +10,8 @@ import { projectPath } from '@/projectPath';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import { configuration } from '@/configuration';
+import { ScheduleEntry, ScheduleRun } from './types';
+import { ScheduleOptions } from './scheduler';
 
 async function daemonPost(path: string, body?: any): Promise<{ error?: string } | any> {
   const state = await readDaemonState();
@@ -84,6 +86,18 @@ export async function spawnDaemonSession(directory: string, sessionId?: string):
   return result;
 }
 
+export async function addDaemonSchedule(options: ScheduleOptions): Promise<{ success: boolean; entry?: ScheduleEntry; error?: string }> {
+  return await daemonPost('/schedule-add', options);
+}
+
+export async function removeDaemonSchedule(id: string): Promise<{ success: boolean; entry?: ScheduleEntry; error?: string }> {
+  return await daemonPost('/schedule-remove', { id });
+}
+
+export async function runDaemonScheduleNow(id: string): Promise<{ success: boolean; run?: ScheduleRun; error?: string }> {
+  return await daemonPost('/schedule-run-now', { id });
+}
+
 export async function stopDaemonHttp(): Promise<void> {
   await daemonPost('/stop');
 }
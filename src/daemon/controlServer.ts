@@ -9,6 +9,7 @@ import { serializerCompiler, validatorCompiler, ZodTypeProvider } from 'fastify-
 import { logger } from '@/ui/logger';
 import { Metadata } from '@/api/types';
 import { TrackedSession } from './types';
+import { Scheduler } from './scheduler';
 import { SpawnSessionOptions, SpawnSessionResult } from '@/modules/common/registerCommonHandlers';
 
 export function startDaemonControlServer({
@@ -16,13 +17,15 @@ export function startDaemonControlServer({
   stopSession,
   spawnSession,
   requestShutdown,
-  onHappySessionWebhook
+  onHappySessionWebhook,
+  scheduler
 }: {
   getChildren: () => TrackedSession[];
   stopSession: (sessionId: string) => boolean;
   spawnSession: (options: SpawnSessionOptions) => Promise<SpawnSessionResult>;
   requestShutdown: () => void;
   onHappySessionWebhook: (sessionId: string, metadata: Metadata) => void;
+  scheduler: Scheduler;
 }): Promise<{ port: number; stop: () => Promise<void> }> {
   return new Promise((resolve) => {
     const app = fastify({
@@ -168,6 +171,66 @@ export function startDaemonControlServer({
       }
     });
 
+    // Scheduled commands; an error such as an invalid cron expression comes back as the reason
+    const ScheduleResultSchema = {
+      200: z.object({
+        success: z.boolean(),
+        entry: z.any().optional(), // ScheduleEntry
+        run: z.any().optional(), // ScheduleRun
+        error: z.string().optional()
+      })
+    };
+
+    typed.post('/schedule-add', {
+      schema: {
+        body: z.object({
+          cron: z.string(),
+          command: z.string().min(1),
+          args: z.array(z.string()),
+          cwd: z.string(),
+          name: z.string().optional(),
+          tool: z.string().optional(),
+          env: z.record(z.string(), z.string()).optional()
+        }),
+        response: ScheduleResultSchema
+      }
+    }, async (request) => {
+      logger.debug(`[CONTROL SERVER] Schedule add request: ${request.body.cron} ${request.body.command}`);
+      try {
+        return { success: true, entry: await scheduler.add(request.body) };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    typed.post('/schedule-remove', {
+      schema: {
+        body: z.object({ id: z.string() }),
+        response: ScheduleResultSchema
+      }
+    }, async (request) => {
+      logger.debug(`[CONTROL SERVER] Schedule remove request: ${request.body.id}`);
+      try {
+        return { success: true, entry: await scheduler.remove(request.body.id) };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    typed.post('/schedule-run-now', {
+      schema: {
+        body: z.object({ id: z.string() }),
+        response: ScheduleResultSchema
+      }
+    }, async (request) => {
+      logger.debug(`[CONTROL SERVER] Schedule run-now request: ${request.body.id}`);
+      try {
+        return { success: true, run: await scheduler.runNow(request.body.id) };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
     // Stop daemon
     typed.post('/stop', {
       schema: {
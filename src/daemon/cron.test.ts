@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { cronMatches, nextCronRun, parseCron } from './cron';
+
+// Monday, 19 October 2026, 10:07:30 local time
+const monday = new Date(2026, 9, 19, 10, 7, 30);
+
+function next(expression: string, after: Date = monday): Date | null {
+  return nextCronRun(parseCron(expression), after);
+}
+
+describe('parseCron', () => {
+  it('should expand lists, ranges, steps and names', () => {
+    const schedule = parseCron('*/15 9-11 1,15 jan-mar mon-fri');
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.days]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.weekdays]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should treat 7 as Sunday and expand macros', () => {
+    expect([...parseCron('0 0 * * 7').weekdays]).toEqual([0]);
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+  });
+
+  it('should name the field that is invalid', () => {
+    expect(() => parseCron('* * *')).toThrow('expected 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow("minute '60' is not between 0 and 59");
+    expect(() => parseCron('* 5-1 * * *')).toThrow("hour '5-1' is a backwards range");
+    expect(() => parseCron('*/0 * * * *')).toThrow('has a step of 0');
+  });
+});
+
+describe('nextCronRun', () => {
+  it('should find the next matching minute', () => {
+    expect(next('*/15 * * * *')).toEqual(new Date(2026, 9, 19, 10, 15));
+    expect(next('0 3 * * *')).toEqual(new Date(2026, 9, 20, 3, 0));
+    expect(next('0 0 1 jan *')).toEqual(new Date(2027, 0, 1, 0, 0));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 13th or any Friday, whichever comes first
+    expect(next('0 0 13 * fri')).toEqual(new Date(2026, 9, 23, 0, 0));
+    expect(cronMatches(parseCron('0 0 13 * fri'), new Date(2026, 10, 13, 0, 0))).toBe(true);
+  });
+
+  it('should return null for schedules that never fire', () => {
+    expect(next('0 0 30 2 *')).toBeNull();
+  });
+});
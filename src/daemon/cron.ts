@@ -0,0 +1,164 @@
+/**
+ * Cron expressions for scheduled commands
+ *
+ * Five fields in local time: minute, hour, day of month, month and day of
+ * week. Fields take `*`, lists, ranges and steps (`1-5`, `mon,wed`, `0-59/15`)
+ * and month and day names. As in cron, when both day fields are restricted a
+ * day matches either one. `@hourly`, `@daily`, `@weekly`, `@monthly` and
+ * `@yearly` stand for their usual expressions.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Whether the day of month / day of week fields started with `*` */
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names for the values from `min` on */
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is Sunday too
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES }
+];
+
+/** How far ahead nextCronRun looks before deciding a schedule never fires (e.g. `0 0 30 2 *`) */
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a cron expression, throwing an Error that names the bad field
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim().toLowerCase();
+  const fields = (MACROS[trimmed] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression '${expression}': expected 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) => {
+    try {
+      return parseField(field, FIELDS[index]);
+    } catch (error) {
+      throw new Error(`Invalid cron expression '${expression}': ${FIELDS[index].name} ${error instanceof Error ? error.message : error}`);
+    }
+  });
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+
+  return { minutes, hours, days, months, weekdays, anyDay: fields[2].startsWith('*'), anyWeekday: fields[4].startsWith('*') };
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = /^(\*|[a-z0-9]+(?:-[a-z0-9]+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`'${part}' is not a value, range or step`);
+    }
+
+    const [, range, stepText] = match;
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (step < 1) {
+      throw new Error(`'${part}' has a step of 0`);
+    }
+
+    let from = spec.min;
+    let to = spec.max;
+    if (range !== '*') {
+      const [start, end] = range.split('-');
+      from = parseValue(start, spec);
+      // `5/15` runs from 5 to the end, like `5-59/15`
+      to = end !== undefined ? parseValue(end, spec) : stepText !== undefined ? spec.max : from;
+      if (from > to) {
+        throw new Error(`'${part}' is a backwards range`);
+      }
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(text) ?? -1;
+  const value = named !== -1 ? named + spec.min : /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+  if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+    throw new Error(`'${text}' is not between ${spec.min} and ${spec.max}`);
+  }
+  return value;
+}
+
+/**
+ * Whether the schedule fires in the minute of `date` (local time)
+ */
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  return schedule.minutes.has(date.getMinutes()) && schedule.hours.has(date.getHours())
+    && schedule.months.has(date.getMonth() + 1) && dayMatches(schedule, date);
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const day = schedule.days.has(date.getDate());
+  const weekday = schedule.weekdays.has(date.getDay());
+  if (schedule.anyDay || schedule.anyWeekday) {
+    return day && weekday;
+  }
+  return day || weekday;
+}
+
+/**
+ * The first minute after `after` in which the schedule fires, or null if it never does
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date = new Date()): Date | null {
+  const candidate = new Date(after);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = after.getTime() + SEARCH_LIMIT_MS;
+  while (candidate.getTime() <= limit) {
+    // Skip whole months, days and hours that can't match
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0);
+    } else if (!dayMatches(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0);
+    } else if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1);
+    } else {
+      return candidate;
+    }
+  }
+  return null;
+}
@@ -17,6 +17,8 @@ import { writeDaemonState, DaemonLocallyPersistedState, readDaemonState, acquire
 
 import { cleanupDaemonState, isDaemonRunningCurrentlyInstalledHappyVersion, stopDaemon } from './controlClient';
 import { startDaemonControlServer } from './controlServer';
+import { Scheduler } from './scheduler';
+import { PushNotificationClient } from '@/api/pushNotifications';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import { projectPath } from '@/projectPath';
@@ -397,13 +399,18 @@ export async function startDaemon(): Promise<void> {
       pidToTrackedSession.delete(pid);
     };
 
+    // Scheduled commands run as universal sessions, their outcomes are pushed to the phone
+    const scheduler = new Scheduler(new PushNotificationClient(credentials.token, configuration.serverUrl));
+    await scheduler.start();
+
     // Start control server
     const { port: controlPort, stop: stopControlServer } = await startDaemonControlServer({
       getChildren: getCurrentChildren,
       stopSession,
       spawnSession,
       requestShutdown: () => requestShutdown('happy-cli'),
-      onHappySessionWebhook
+      onHappySessionWebhook,
+      scheduler
     });
 
     // Write initial daemon state (no lock needed for state file)
@@ -548,6 +555,9 @@ export async function startDaemon(): Promise<void> {
         logger.debug('[DAEMON RUN] Health check interval cleared');
       }
 
+      // Runs in progress keep going in the session host
+      scheduler.stop();
+
       // Update daemon state before shutting down
       await apiMachine.updateDaemonState((state: DaemonState | null) => ({
         ...state,
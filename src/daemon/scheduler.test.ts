@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { runOutcome } from './scheduler';
+
+describe('runOutcome', () => {
+  it('should pass on the exit code of a run', () => {
+    expect(runOutcome(0)).toEqual({ status: 'succeeded', exitCode: 0 });
+    expect(runOutcome(2)).toEqual({ status: 'failed', exitCode: 2 });
+  });
+
+  it('should fail a run that was ended by a signal', () => {
+    expect(runOutcome(null, 'SIGKILL')).toEqual({ status: 'failed', message: 'Ended by SIGKILL' });
+    expect(runOutcome(null, 'SIGKILL', 'Exceeded a limit: memory 600 MB > 512 MB')).toEqual({
+      status: 'failed',
+      message: 'Ended by SIGKILL (Exceeded a limit: memory 600 MB > 512 MB)'
+    });
+    expect(runOutcome(null)).toEqual({ status: 'failed', message: 'Ended without an exit code' });
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Scheduled commands for the daemon
+ *
+ * Runs wrapped commands on cron schedules. Each run is a session on the
+ * universal session host, so its output history, pattern matches and Happy
+ * session are those of any other universal session. Runs start from the
+ * environment `schedule add` was called in, and their output is also
+ * written to a log file that outlives the session. A run that is still
+ * going when its next one is due makes that one be skipped. Outcomes are
+ * pushed to the phone, and the most recent runs are kept with the entries
+ * in `schedules.json` under the Happy home directory.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { closeSync, createWriteStream, mkdirSync, openSync, promises as fs } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { configuration } from '@/configuration';
+import { logger } from '@/ui/logger';
+import { readSchedules, writeSchedules } from '@/persistence';
+import { spawnHappyCLI } from '@/utils/spawnHappyCLI';
+import { PushNotificationClient } from '@/api/pushNotifications';
+import { ConfigManager } from '@/universal/ConfigManager';
+import { SessionHostClient } from '@/universal/SessionHostClient';
+import { cronMatches, parseCron } from './cron';
+import { ScheduleEntry, ScheduleRun } from './types';
+
+/** Runs kept per entry */
+const RUNS_KEPT = 10;
+/** How long to wait for a session host started by the scheduler */
+const HOST_START_TIMEOUT_MS = 10_000;
+
+/**
+ * Outcome of a run whose session ended. A session without an exit code
+ * was ended by a signal, so the run failed and the signal says why.
+ */
+export function runOutcome(
+  exitCode: number | null,
+  signal?: string,
+  reason?: string
+): Pick<ScheduleRun, 'status' | 'exitCode' | 'message'> {
+  if (exitCode === null) {
+    const ended = signal ? `Ended by ${signal}` : 'Ended without an exit code';
+    return { status: 'failed', message: reason ? `${ended} (${reason})` : ended };
+  }
+  return { status: exitCode === 0 ? 'succeeded' : 'failed', exitCode };
+}
+
+export interface ScheduleOptions {
+  cron: string;
+  command: string;
+  args: string[];
+  cwd: string;
+  name?: string;
+  tool?: string;
+  env?: Record<string, string>;
+}
+
+export class Scheduler {
+  private entries: ScheduleEntry[] = [];
+  /** Entries with a run in progress */
+  private running = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private readonly hostPaths = new ConfigManager().getConfigPaths();
+  private readonly hostClient = new SessionHostClient(this.hostPaths.hostSocket);
+
+  constructor(private readonly push: PushNotificationClient) {}
+
+  /**
+   * Load the entries and fire them at the start of every minute
+   */
+  async start(): Promise<void> {
+    this.entries = await readSchedules();
+
+    // Runs that were going when the last daemon stopped will never report back
+    for (const run of this.entries.flatMap(entry => entry.runs)) {
+      if (run.status === 'running') {
+        run.status = 'error';
+        run.endedAt = Date.now();
+        run.message = 'The daemon stopped before the run finished';
+      }
+    }
+    await this.save();
+
+    logger.debug(`[SCHEDULER] Loaded ${this.entries.length} scheduled commands`);
+    this.scheduleTick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  list(): ScheduleEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Add an entry; throws if its cron expression or name is invalid
+   */
+  async add(options: ScheduleOptions): Promise<ScheduleEntry> {
+    parseCron(options.cron);
+    const name = options.name ?? [options.command, ...options.args].join(' ');
+    if (this.entries.some(entry => entry.name === name)) {
+      throw new Error(`A scheduled command named '${name}' already exists`);
+    }
+
+    const entry: ScheduleEntry = {
+      id: randomUUID().slice(0, 8),
+      name,
+      cron: options.cron,
+      command: options.command,
+      args: options.args,
+      cwd: options.cwd,
+      tool: options.tool,
+      env: options.env,
+      createdAt: Date.now(),
+      runs: []
+    };
+    this.entries.push(entry);
+    await this.save();
+    logger.debug(`[SCHEDULER] Added ${entry.id} (${entry.name}): ${entry.cron}`);
+    return entry;
+  }
+
+  /**
+   * Remove an entry by ID or name, with the logs of its runs. A run in
+   * progress is left to finish, and its logs are kept.
+   */
+  async remove(ref: string): Promise<ScheduleEntry> {
+    const entry = this.find(ref);
+    this.entries = this.entries.filter(other => other !== entry);
+    await this.save();
+    if (!this.running.has(entry.id)) {
+      await fs.rm(join(configuration.scheduleLogsDir, entry.id), { recursive: true, force: true });
+    }
+    logger.debug(`[SCHEDULER] Removed ${entry.id} (${entry.name})`);
+    return entry;
+  }
+
+  /**
+   * Run an entry now, outside its schedule. Resolves once the run started
+   * (or was skipped because the last one is still going).
+   */
+  async runNow(ref: string): Promise<ScheduleRun> {
+    return this.run(this.find(ref), 'manual');
+  }
+
+  private find(ref: string): ScheduleEntry {
+    const entry = this.entries.find(entry => entry.id === ref)
+      ?? this.entries.find(entry => entry.name === ref)
+      ?? this.entries.find(entry => entry.id.startsWith(ref));
+    if (!entry) {
+      throw new Error(`No scheduled command '${ref}'`);
+    }
+    return entry;
+  }
+
+  private scheduleTick(): void {
+    const now = new Date();
+    const msToNextMinute = 60_000 - (now.getSeconds() * 1000 + now.getMilliseconds());
+    this.timer = setTimeout(() => {
+      this.tick(new Date());
+      this.scheduleTick();
+    }, msToNextMinute);
+  }
+
+  private tick(now: Date): void {
+    for (const entry of this.entries) {
+      try {
+        if (!cronMatches(parseCron(entry.cron), now)) {
+          continue;
+        }
+      } catch (error) {
+        logger.debug(`[SCHEDULER] Invalid cron expression of ${entry.id}, not running it`, error);
+        continue;
+      }
+
+      this.run(entry, 'schedule').catch(error => {
+        logger.debug(`[SCHEDULER] Run of ${entry.id} failed unexpectedly`, error);
+      });
+    }
+  }
+
+  private async run(entry: ScheduleEntry, trigger: ScheduleRun['trigger']): Promise<ScheduleRun> {
+    const run: ScheduleRun = { trigger, status: 'running', startedAt: Date.now() };
+
+    if (this.running.has(entry.id)) {
+      run.status = 'skipped';
+      run.endedAt = run.startedAt;
+      run.message = 'The previous run is still going';
+      logger.debug(`[SCHEDULER] Skipping ${entry.id} (${entry.name}): previous run still going`);
+      await this.record(entry, run);
+      return run;
+    }
+
+    this.running.add(entry.id);
+    await this.record(entry, run);
+
+    try {
+      const client = await this.connectHost();
+      const session = await client.createSession({
+        tool: entry.tool,
+        command: entry.command,
+        args: entry.args,
+        cwd: entry.cwd,
+        baseEnv: entry.env
+      });
+      run.sessionId = session.id;
+      run.logPath = join(configuration.scheduleLogsDir, entry.id, `${run.startedAt}.log`);
+      await this.save();
+      logger.debug(`[SCHEDULER] Started ${entry.id} (${entry.name}) as session ${session.id}`);
+
+      this.followRun(client, entry, run);
+    } catch (error) {
+      this.running.delete(entry.id);
+      await this.finish(entry, run, 'error', { message: error instanceof Error ? error.message : String(error) });
+    }
+    return run;
+  }
+
+  /**
+   * Write the run's output to its log file in the background until its
+   * session ends. Output from before following started is replayed first.
+   */
+  private followRun(client: SessionHostClient, entry: ScheduleEntry, run: ScheduleRun): void {
+    mkdirSync(dirname(run.logPath!), { recursive: true });
+    const log = createWriteStream(run.logPath!, { mode: 0o600 });
+    log.on('error', error => logger.debug(`[SCHEDULER] Failed to write the log of ${entry.id}`, error));
+
+    let exitCode: number | null | undefined;
+    let reason: string | undefined;
+    const { done } = client.follow(run.sessionId!, { format: 'text' }, (event) => {
+      if (event.type === 'output') {
+        log.write(event.data);
+      } else if (event.type === 'terminated') {
+        exitCode = event.exitCode;
+        reason = event.reason;
+      }
+    });
+
+    done
+      .then(async () => {
+        if (exitCode === undefined) {
+          return this.finish(entry, run, 'error', { message: 'Lost the session host before the run finished' });
+        }
+
+        const session = await client.getSession(run.sessionId!).catch(() => null);
+        const { status, ...outcome } = runOutcome(exitCode, session?.signal, reason);
+        await this.finish(entry, run, status, {
+          ...outcome,
+          patternMatches: Object.keys(session?.patternMatches || {})
+        });
+      })
+      .catch(error => this.finish(entry, run, 'error', { message: error instanceof Error ? error.message : String(error) }))
+      .finally(() => {
+        log.end();
+        this.running.delete(entry.id);
+      });
+  }
+
+  private async finish(
+    entry: ScheduleEntry,
+    run: ScheduleRun,
+    status: ScheduleRun['status'],
+    details: Pick<ScheduleRun, 'exitCode' | 'patternMatches' | 'message'>
+  ): Promise<void> {
+    Object.assign(run, details, { status, endedAt: Date.now() });
+    await this.save();
+    logger.debug(`[SCHEDULER] ${entry.id} (${entry.name}) ${status}`, details);
+
+    const seconds = Math.round((run.endedAt! - run.startedAt) / 1000);
+    const outcome = status === 'succeeded'
+      ? `succeeded in ${seconds}s`
+      : status === 'failed'
+        ? run.exitCode !== undefined
+          ? `failed with exit code ${run.exitCode} after ${seconds}s`
+          : `failed after ${seconds}s: ${run.message}`
+        : `could not run: ${run.message}`;
+    const matches = run.patternMatches?.length ? ` (matched ${run.patternMatches.join(', ')})` : '';
+    this.push.sendToAllDevices(`Scheduled: ${entry.name}`, `${outcome}${matches}`, {
+      scheduleId: entry.id,
+      ...(run.sessionId ? { universalSessionId: run.sessionId } : {})
+    });
+  }
+
+  /**
+   * Add a run to the entry's history and save it. The logs of runs that
+   * drop out of the history are deleted.
+   */
+  private async record(entry: ScheduleEntry, run: ScheduleRun): Promise<void> {
+    entry.runs.push(run);
+    const dropped = entry.runs.splice(0, entry.runs.length - RUNS_KEPT);
+    await this.save();
+
+    for (const old of dropped) {
+      if (old.logPath) {
+        await fs.rm(old.logPath, { force: true }).catch(error => {
+          logger.debug(`[SCHEDULER] Failed to delete ${old.logPath}`, error);
+        });
+      }
+    }
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await writeSchedules(this.entries);
+    } catch (error) {
+      logger.debug('[SCHEDULER] Failed to save schedules', error);
+    }
+  }
+
+  /**
+   * Connect to the session host, starting it if it isn't running. The host
+   * is started from the built CLI, like the daemon, and outlives it.
+   */
+  private async connectHost(): Promise<SessionHostClient> {
+    if (await this.hostClient.isRunning()) {
+      return this.hostClient;
+    }
+
+    logger.debug(`[SCHEDULER] Starting the session host, logging to ${this.hostPaths.hostLog}`);
+    mkdirSync(dirname(this.hostPaths.hostLog), { recursive: true });
+    const log = openSync(this.hostPaths.hostLog, 'a');
+    const child = spawnHappyCLI(['daemon', 'start-host-sync'], {
+      detached: true,
+      stdio: ['ignore', log, log],
+      env: process.env
+    });
+    child.unref();
+    closeSync(log);
+
+    const deadline = Date.now() + HOST_START_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 200));
+      if (await this.hostClient.isRunning()) {
+        return this.hostClient;
+      }
+    }
+    throw new Error('The session host did not start');
+  }
+}
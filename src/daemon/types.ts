@@ -17,4 +17,40 @@ export interface TrackedSession {
   error?: string;
   directoryCreated?: boolean;
   message?: string;
-}
\ No newline at end of file
+}
+
+/**
+ * A command the daemon runs on a cron schedule, as a universal session
+ */
+export interface ScheduleEntry {
+  id: string;
+  name: string;
+  /** Cron expression, local time */
+  cron: string;
+  command: string;
+  args: string[];
+  cwd: string;
+  /** Tool whose patterns the session uses; detected from the command otherwise */
+  tool?: string;
+  /** Environment of the `schedule add` call, which every run starts from */
+  env?: Record<string, string>;
+  createdAt: number;
+  /** Most recent runs, oldest first */
+  runs: ScheduleRun[];
+}
+
+export interface ScheduleRun {
+  trigger: 'schedule' | 'manual';
+  status: 'running' | 'succeeded' | 'failed' | 'skipped' | 'error';
+  startedAt: number;
+  endedAt?: number;
+  /** Universal session the run's output is kept in */
+  sessionId?: string;
+  /** File the run's output is written to, kept after the session is gone */
+  logPath?: string;
+  exitCode?: number;
+  /** Patterns of the tool that matched the output */
+  patternMatches?: string[];
+  /** Why the run was skipped, could not run or was ended by a signal */
+  message?: string;
+}
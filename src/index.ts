@@ -26,6 +26,7 @@ import { runDoctorCommand } from './ui/doctor'
 import { listDaemonSessions, stopDaemonSession } from './daemon/controlClient'
 import { handleAuthCommand } from './commands/auth'
 import { handleConnectCommand } from './commands/connect'
+import { handleScheduleCommand } from './commands/schedule'
 import { spawnHappyCLI } from './utils/spawnHappyCLI'
 import { claudeCliPath } from './claude/claudeLocal'
 import { execFileSync } from 'node:child_process'
@@ -279,6 +280,18 @@ ${chalk.bold.cyan('Claude Code Options (from `claude --help`):')}
       process.exit(1)
     }
     return;
+  } else if (subcommand === 'schedule') {
+    // Handle scheduled commands, run by the daemon
+    try {
+      await handleScheduleCommand(args.slice(1));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : 'Unknown error')
+      if (process.env.DEBUG) {
+        console.error(error)
+      }
+      process.exit(1)
+    }
+    return;
   } else if (subcommand === 'daemon') {
     // Show daemon management help
     const daemonSubcommand = args[1]
@@ -342,6 +355,19 @@ ${chalk.bold.cyan('Claude Code Options (from `claude --help`):')}
     } else if (daemonSubcommand === 'start-sync') {
       await startDaemon()
       process.exit(0)
+    } else if (daemonSubcommand === 'start-host-sync') {
+      // Session host for scheduled commands, run from the built CLI
+      const { ConfigManager, runSessionHost } = await import('@/universal/index')
+      const configManager = new ConfigManager()
+      await configManager.initialize()
+      const socketPath = configManager.getConfigPaths().hostSocket
+      try {
+        await runSessionHost(socketPath)
+      } catch (error) {
+        console.error(chalk.red('Failed to start session host:'), error instanceof Error ? error.message : error)
+        process.exit(1)
+      }
+      console.log(`Session host listening on ${socketPath} (PID ${process.pid})`)
     } else if (daemonSubcommand === 'stop') {
       await stopDaemon()
       process.exit(0)
@@ -401,7 +427,10 @@ ${chalk.bold('To clean up runaway processes:')} Use ${chalk.cyan('happy doctor c
 
     // Only intercept help/version if the first argument is not a known command
     const firstArg = args[0];
-    const knownCommands = ['start', 'interactive', 'list', 'send', 'history', 'kill', 'stats', 'config', 'test'];
+    const knownCommands = [
+      'start', 'run', 'interactive', 'list', 'send', 'history', 'snapshot', 'diagnostics', 'kill', 'pause', 'resume',
+      'signal', 'stop', 'stats', 'top', 'detect', 'config', 'replay', 'recordings', 'host', 'remote', 'test'
+    ];
     const isTopLevelCall = !knownCommands.includes(firstArg) && firstArg !== '--';
 
     if (isTopLevelCall) {
@@ -451,6 +480,7 @@ ${chalk.bold('Special Happy CLI Modes:')}
   uhappy connect                       Connect AI vendor API keys
   uhappy notify                        Send push notification
   uhappy daemon                        Manage background service
+  uhappy schedule                      Run commands on a schedule (via the daemon)
   uhappy doctor                        System diagnostics
 
 ${chalk.bold('Examples:')}
@@ -11,6 +11,7 @@ import { constants } from 'node:fs'
 import { configuration } from '@/configuration'
 import * as z from 'zod';
 import { encodeBase64 } from '@/api/encryption';
+import type { ScheduleEntry } from '@/daemon/types';
 
 interface Settings {
   onboardingCompleted: boolean
@@ -320,3 +321,32 @@ export async function releaseDaemonLock(lockHandle: FileHandle): Promise<void> {
   } catch { }
 }
 
+//
+// Schedules
+//
+
+/**
+ * Read the commands the daemon runs on a schedule, with their recent runs
+ */
+export async function readSchedules(): Promise<ScheduleEntry[]> {
+  if (!existsSync(configuration.schedulesFile)) {
+    return [];
+  }
+  try {
+    const content = await readFile(configuration.schedulesFile, 'utf-8');
+    return (JSON.parse(content) as { entries: ScheduleEntry[] }).entries;
+  } catch (error) {
+    console.error(`[PERSISTENCE] Schedules file corrupted: ${configuration.schedulesFile}`, error);
+    return [];
+  }
+}
+
+/**
+ * Write the schedules atomically; only the daemon writes them. They hold the
+ * environment each entry runs with, so only the user can read them.
+ */
+export async function writeSchedules(entries: ScheduleEntry[]): Promise<void> {
+  const tmpFile = configuration.schedulesFile + '.tmp';
+  await writeFile(tmpFile, JSON.stringify({ entries }, null, 2), { mode: 0o600 });
+  await rename(tmpFile, configuration.schedulesFile);
+}
@@ -5,38 +5,103 @@
  * Supports YAML configuration files with hot-reloading.
  */
 
-import { promises as fs } from 'node:fs';
-import { join, dirname } from 'node:path';
+import { EventEmitter } from 'node:events';
+import { promises as fs, existsSync, readFileSync } from 'node:fs';
+import { join, dirname, resolve } from 'node:path';
 import { homedir } from 'node:os';
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
+import { pathToFileURL } from 'node:url';
+import { createHash } from 'node:crypto';
 import YAML from 'yaml';
-import type { ToolConfig, GlobalConfig, PatternConfig, OutputProcessingConfig } from './types.js';
+import type { z } from 'zod';
+import { startFileWatcher } from '@/modules/watcher/startFileWatcher';
+import type {
+  ToolConfig,
+  ToolConfigLayer,
+  GlobalConfig,
+  ConfigLayer,
+  ConfigValueSource,
+  ResolvedToolConfig,
+  ToolDetection,
+  LoadedPlugin,
+  UniversalPlugin,
+  PatternConfig,
+  OutputProcessingConfig,
+  RecipeConfig
+} from './types.js';
+import {
+  GlobalConfigFileSchema,
+  ProjectFileSchema,
+  ToolConfigLayerSchema,
+  ToolConfigSchema,
+  ToolsFileSchema,
+  formatConfigErrors
+} from './configSchema.js';
+import { ToolDetector } from './ToolDetector.js';
+import { testRunnerPlugins } from './TestRunnerAdapters.js';
+import { diagnosticPlugins } from './DiagnosticAdapters.js';
 
-const execAsync = promisify(exec);
+/** Editors write a file in several steps; wait for them to finish */
+const RELOAD_DELAY_MS = 100;
 
-export class ConfigManager {
-  private config = new Map<string, ToolConfig>();
+/** Project tool configuration, found by walking up from a session's working directory */
+export const PROJECT_CONFIG_FILE = '.uhappy.yaml';
+
+export type ConfigFile = 'tools' | 'global';
+
+export interface ConfigManagerEvents {
+  /** Valid changes to a configuration file were loaded */
+  reload: [file: ConfigFile];
+}
+
+export class ConfigManager extends EventEmitter<ConfigManagerEvents> {
+  /** Tools from the user's tools.yaml, layered over the built-in ones */
+  private userTools = new Map<string, ToolConfigLayer>();
+  private readonly builtinTools = this.getDefaultToolConfigs();
+  private readonly toolDetector = new ToolDetector();
+  /** Plugin modules as listed in tools.yaml */
+  private pluginPaths: string[] = [];
+  private readonly builtinPlugins: LoadedPlugin[] = [...testRunnerPlugins, ...diagnosticPlugins]
+    .map(plugin => ({ path: 'builtin', plugin }));
+  private plugins: LoadedPlugin[] = this.builtinPlugins;
+  /** Problems already reported, so resolving tools again doesn't repeat them */
+  private warnings = new Set<string>();
   private globalConfig: GlobalConfig;
+  private readonly defaultGlobalConfig: GlobalConfig;
+  /** Files that failed validation; they are not applied and not overwritten */
+  private invalidFiles = new Set<ConfigFile>();
+  /** Last content read or written, so unchanged files are not reloaded */
+  private fileContents = new Map<ConfigFile, string>();
+  private stopWatchers = new Map<ConfigFile, () => void>();
+  private reloadTimers = new Map<ConfigFile, NodeJS.Timeout>();
   private configDir: string;
   private configPath: string;
   private globalConfigPath: string;
+  private hostSocketPath: string;
 
   constructor(configDir?: string) {
+    super();
     this.configDir = configDir || join(homedir(), '.universal-cli');
     this.configPath = join(this.configDir, 'tools.yaml');
     this.globalConfigPath = join(this.configDir, 'config.yaml');
+    // Windows has no Unix sockets in the filesystem, use a named pipe instead
+    this.hostSocketPath = process.platform === 'win32'
+      ? `\\\\.\\pipe\\universal-cli-${createHash('sha1').update(this.configDir).digest('hex').slice(0, 12)}`
+      : join(this.configDir, 'host.sock');
 
     // Default global configuration
     this.globalConfig = {
-      outputFormats: ['raw', 'text', 'html', 'json'],
+      outputFormats: ['raw', 'text', 'html', 'json', 'table'],
       defaultFormat: 'text',
       bufferSize: 8192,
+      historyMemoryBytes: 2 * 1024 * 1024,
+      historyRetentionDays: 7,
       realTimeThreshold: 100,
       sessionTimeout: 3600,
       maxSessions: 20,
-      logLevel: 'info'
+      logLevel: 'info',
+      recordSessions: false
     };
+    this.defaultGlobalConfig = { ...this.globalConfig };
   }
 
   /**
@@ -46,7 +111,7 @@ export class ConfigManager {
     await this.ensureConfigDir();
     await this.loadGlobalConfig();
     await this.loadToolConfigs();
-    await this.loadDefaultConfigs();
+    await this.loadPlugins();
   }
 
   /**
@@ -61,56 +126,270 @@ export class ConfigManager {
   }
 
   /**
-   * Load global configuration
+   * Load global configuration. Returns false if the file is invalid,
+   * in which case the current settings are kept.
    */
-  private async loadGlobalConfig(): Promise<void> {
-    try {
-      const content = await fs.readFile(this.globalConfigPath, 'utf8');
-      const parsed = YAML.parse(content);
-      this.globalConfig = { ...this.globalConfig, ...parsed };
-    } catch (error) {
+  private async loadGlobalConfig(): Promise<boolean> {
+    const content = await this.readConfigFile('global');
+    if (content === null) {
       // Create default config if it doesn't exist
       await this.saveGlobalConfig();
+      return true;
+    }
+
+    const parsed = this.parseConfigFile('global', content, GlobalConfigFileSchema);
+    if (!parsed) {
+      return false;
     }
+    this.globalConfig = { ...this.defaultGlobalConfig, ...parsed };
+    return true;
   }
 
   /**
-   * Load tool configurations
+   * Load tool configurations. Returns false if the file is invalid,
+   * in which case the current tools are kept.
    */
-  private async loadToolConfigs(): Promise<void> {
-    try {
-      const content = await fs.readFile(this.configPath, 'utf8');
-      const parsed = YAML.parse(content);
+  private async loadToolConfigs(): Promise<boolean> {
+    const content = await this.readConfigFile('tools');
+    if (content === null) {
+      // Create default config if it doesn't exist
+      await this.saveToolConfigs();
+      return true;
+    }
+
+    const parsed = this.parseConfigFile('tools', content, ToolsFileSchema);
+    if (!parsed) {
+      return false;
+    }
+    this.userTools.clear();
+    for (const [name, toolConfig] of Object.entries(parsed.tools || {})) {
+      this.userTools.set(name, toolConfig);
+    }
+    this.pluginPaths = parsed.plugins || [];
+    return true;
+  }
+
+  /**
+   * Import the plugin modules listed in tools.yaml, next to the built-in
+   * ones; a plugin with a built-in one's name replaces it. A plugin that
+   * fails to load is reported and left out; the others still load.
+   */
+  private async loadPlugins(): Promise<void> {
+    const plugins: LoadedPlugin[] = [];
+    const names = new Set<string>();
 
-      if (parsed && parsed.tools) {
-        this.config.clear();
-        for (const [name, toolConfig] of Object.entries(parsed.tools)) {
-          this.config.set(name, toolConfig as ToolConfig);
+    for (const entry of this.pluginPaths) {
+      const path = entry === '~' || entry.startsWith('~/') ? join(homedir(), entry.slice(1)) : resolve(this.configDir, entry);
+      try {
+        const plugin = await this.importPlugin(path);
+        if (names.has(plugin.name)) {
+          throw new Error(`another plugin is already named '${plugin.name}'`);
         }
+        names.add(plugin.name);
+        plugins.push({ path, plugin });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Failed to load plugin ${path}: ${message}`);
+        plugins.push({ path, error: message });
+      }
+    }
+
+    this.plugins = [
+      ...this.builtinPlugins.filter(({ plugin }) => !names.has(plugin!.name)),
+      ...plugins
+    ];
+  }
+
+  private async importPlugin(path: string): Promise<UniversalPlugin> {
+    // The modification time keeps the module cache from serving an edited plugin
+    const { mtimeMs } = await fs.stat(path);
+    const module = await import(`${pathToFileURL(path).href}?v=${mtimeMs}`);
+    const plugin = module.default ?? module;
+
+    if (typeof plugin?.name !== 'string' || plugin.name.length === 0) {
+      throw new Error('the module must export a plugin with a name as its default export');
+    }
+    for (const hook of ['createAdapter', 'registerCommands']) {
+      if (plugin[hook] !== undefined && typeof plugin[hook] !== 'function') {
+        throw new Error(`${hook} must be a function`);
       }
+    }
+    if (plugin.tools !== undefined &&
+        !(Array.isArray(plugin.tools) && plugin.tools.every((tool: unknown) => typeof tool === 'string'))) {
+      throw new Error('tools must be a list of tool names');
+    }
+    return plugin;
+  }
+
+  /**
+   * Built-in plugins and those listed in tools.yaml, including any that failed to load
+   */
+  getPlugins(): LoadedPlugin[] {
+    return [...this.plugins];
+  }
+
+  /**
+   * Loaded plugins that adapt sessions of a tool
+   */
+  getToolPlugins(tool: string): UniversalPlugin[] {
+    return this.plugins
+      .map(({ plugin }) => plugin)
+      .filter((plugin): plugin is UniversalPlugin =>
+        !!plugin?.createAdapter && (!plugin.tools || plugin.tools.includes(tool)));
+  }
+
+  /**
+   * Read a configuration file; null if it doesn't exist
+   */
+  private async readConfigFile(file: ConfigFile): Promise<string | null> {
+    try {
+      const content = await fs.readFile(this.filePath(file), 'utf8');
+      this.fileContents.set(file, content);
+      return content;
     } catch (error) {
-      // Create default config if it doesn't exist
-      await this.saveToolConfigs();
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
     }
   }
 
   /**
-   * Load default tool configurations
+   * Parse and validate a configuration file, warning about its errors.
+   * Returns null if it is invalid.
    */
-  private async loadDefaultConfigs(): Promise<void> {
-    const defaultConfigs = this.getDefaultToolConfigs();
-    let hasNewConfigs = false;
+  private parseConfigFile<T>(file: ConfigFile, content: string, schema: z.ZodType<T>): T | null {
+    const { data, errors } = this.validateConfigContent(content, schema);
+    if (errors.length > 0) {
+      this.invalidFiles.add(file);
+      console.warn(`Ignoring invalid ${this.filePath(file)}:\n  ${errors.join('\n  ')}`);
+      return null;
+    }
+    this.invalidFiles.delete(file);
+    return data!;
+  }
 
-    for (const [name, config] of Object.entries(defaultConfigs)) {
-      if (!this.config.has(name)) {
-        this.config.set(name, config);
-        hasNewConfigs = true;
+  private validateConfigContent<T>(content: string, schema: z.ZodType<T>): { data?: T; errors: string[] } {
+    let parsed: unknown;
+    try {
+      parsed = YAML.parse(content) ?? {};
+    } catch (error) {
+      return { errors: [`YAML syntax error: ${error instanceof Error ? error.message : error}`] };
+    }
+
+    const result = schema.safeParse(parsed);
+    return result.success ? { data: result.data, errors: [] } : { errors: formatConfigErrors(result.error) };
+  }
+
+  /**
+   * Check both configuration files, and the project file for `cwd` if there
+   * is one, without applying them. Files that don't exist yet have no errors.
+   */
+  async validateConfigFiles(cwd?: string): Promise<Array<{ path: string; errors: string[] }>> {
+    const files: Array<[string, z.ZodTypeAny]> = [
+      [this.configPath, ToolsFileSchema],
+      [this.globalConfigPath, GlobalConfigFileSchema]
+    ];
+    const projectPath = cwd ? this.findProjectConfig(cwd) : null;
+    if (projectPath) {
+      files.push([projectPath, ProjectFileSchema]);
+    }
+
+    const results: Array<{ path: string; errors: string[] }> = [];
+    for (const [path, schema] of files) {
+      try {
+        const content = await fs.readFile(path, 'utf8');
+        results.push({ path, errors: this.validateConfigContent<unknown>(content, schema).errors });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          results.push({ path, errors: [`Cannot read file: ${error instanceof Error ? error.message : error}`] });
+        }
       }
     }
+    return results;
+  }
 
-    // Save if we added new default configs
-    if (hasNewConfigs) {
-      await this.saveToolConfigs();
+  /**
+   * Reload the configuration files whenever they change. Invalid changes
+   * are reported and ignored; valid ones are applied and announced with
+   * a `reload` event.
+   */
+  watch(): void {
+    if (this.stopWatchers.size === 0) {
+      this.watchFile('tools');
+      this.watchFile('global');
+    }
+  }
+
+  /**
+   * Stop watching the configuration files
+   */
+  unwatch(): void {
+    for (const stop of this.stopWatchers.values()) {
+      stop();
+    }
+    this.stopWatchers.clear();
+    for (const timer of this.reloadTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.reloadTimers.clear();
+  }
+
+  private watchFile(file: ConfigFile): void {
+    this.stopWatchers.set(file, startFileWatcher(this.filePath(file), () => {
+      clearTimeout(this.reloadTimers.get(file));
+      this.reloadTimers.set(file, setTimeout(() => {
+        this.reloadTimers.delete(file);
+        // Editors often save by replacing the file, which leaves the
+        // watcher on the old one
+        this.stopWatchers.get(file)?.();
+        this.watchFile(file);
+        this.reload(file).catch(error => console.warn(`Failed to reload ${this.filePath(file)}:`, error));
+      }, RELOAD_DELAY_MS));
+    }));
+  }
+
+  private async reload(file: ConfigFile): Promise<void> {
+    const previous = this.fileContents.get(file);
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath(file), 'utf8');
+    } catch (error) {
+      // Deleted or being replaced; the next change brings it back
+      return;
+    }
+    if (content === previous) {
+      return;
+    }
+
+    const loaded = file === 'tools' ? await this.loadToolConfigs() : await this.loadGlobalConfig();
+    if (!loaded) {
+      return;
+    }
+    if (file === 'tools') {
+      await this.loadPlugins();
+    }
+    console.info(`Reloaded ${this.filePath(file)}`);
+    this.emit('reload', file);
+  }
+
+  private filePath(file: ConfigFile): string {
+    return file === 'tools' ? this.configPath : this.globalConfigPath;
+  }
+
+  /**
+   * Saving over a file that failed validation would throw away the user's edits
+   */
+  private assertWritable(file: ConfigFile): void {
+    if (this.invalidFiles.has(file)) {
+      throw new Error(`${this.filePath(file)} has errors; fix them first (see 'uhappy config validate')`);
+    }
+  }
+
+  private warnOnce(message: string): void {
+    if (!this.warnings.has(message)) {
+      this.warnings.add(message);
+      console.warn(message);
     }
   }
 
@@ -122,6 +401,9 @@ export class ConfigManager {
       git: {
         command: 'git',
         description: 'Git version control system',
+        detect: {
+          version: { match: '^git version' }
+        },
         patterns: {
           status: {
             stdout: 'working tree (clean|dirty)',
@@ -153,6 +435,9 @@ export class ConfigManager {
         env: {
           DOCKER_CLI_HINTS: 'false'
         },
+        detect: {
+          version: { match: '^Docker version' }
+        },
         patterns: {
           container_start: {
             stdout: 'container .+ started',
@@ -239,6 +524,10 @@ export class ConfigManager {
       python: {
         command: 'python',
         description: 'Python interpreter',
+        detect: {
+          binaries: ['py'],
+          version: { match: '^Python \\d' }
+        },
         patterns: {
           prompt: {
             stdout: '>>> ',
@@ -259,6 +548,133 @@ export class ConfigManager {
         }
       },
 
+      vitest: {
+        command: 'vitest',
+        description: 'Vitest test runner',
+        outputProcessing: {
+          preserveColors: true,
+          realTime: true
+        },
+        modes: {
+          interactive: true,
+          batch: true
+        }
+      },
+
+      jest: {
+        command: 'jest',
+        description: 'Jest test runner',
+        outputProcessing: {
+          preserveColors: true,
+          realTime: true
+        },
+        modes: {
+          interactive: false,
+          batch: true
+        }
+      },
+
+      pytest: {
+        command: 'pytest',
+        description: 'pytest test runner',
+        detect: {
+          binaries: ['py.test'],
+          argv: ['^\\S*python[\\d.]*(\\.exe)? -m pytest\\b']
+        },
+        outputProcessing: {
+          preserveColors: true,
+          realTime: true
+        },
+        modes: {
+          interactive: false,
+          batch: true
+        }
+      },
+
+      go: {
+        command: 'go',
+        description: 'Go toolchain; `go test` results are read as tests',
+        outputProcessing: {
+          realTime: true
+        },
+        modes: {
+          interactive: false,
+          batch: true
+        }
+      },
+
+      tsc: {
+        command: 'tsc',
+        description: 'TypeScript compiler',
+        outputProcessing: {
+          preserveColors: true,
+          realTime: true
+        },
+        modes: {
+          interactive: false,
+          batch: true
+        }
+      },
+
+      eslint: {
+        command: 'eslint',
+        description: 'ESLint linter',
+        outputProcessing: {
+          preserveColors: true,
+          realTime: true
+        },
+        modes: {
+          interactive: false,
+          batch: true
+        }
+      },
+
+      gcc: {
+        command: 'gcc',
+        description: 'C and C++ compilers (gcc, clang)',
+        detect: {
+          binaries: ['cc', 'g++', 'c++', 'clang', 'clang++']
+        },
+        outputProcessing: {
+          preserveColors: true,
+          realTime: true
+        },
+        modes: {
+          interactive: false,
+          batch: true
+        }
+      },
+
+      cargo: {
+        command: 'cargo',
+        description: 'Rust package manager; compiler errors and warnings are read as diagnostics',
+        outputProcessing: {
+          preserveColors: true,
+          realTime: true
+        },
+        modes: {
+          interactive: false,
+          batch: true
+        }
+      },
+
+      mypy: {
+        command: 'mypy',
+        description: 'mypy type checker',
+        detect: {
+          binaries: ['dmypy'],
+          argv: ['^\\S*python[\\d.]*(\\.exe)? -m mypy\\b']
+        },
+        outputProcessing: {
+          preserveColors: true,
+          realTime: true
+        },
+        modes: {
+          interactive: false,
+          batch: true
+        }
+      },
+
       generic: {
         command: '',
         description: 'Generic CLI tool',
@@ -275,91 +691,214 @@ export class ConfigManager {
   }
 
   /**
-   * Get tool configuration by name
+   * Get tool configuration by name, including the project layer for `cwd`
    */
-  getToolConfig(toolName: string): ToolConfig | null {
-    return this.config.get(toolName) || null;
+  getToolConfig(toolName: string, cwd?: string): ToolConfig | null {
+    return this.resolveTools(cwd).get(toolName)?.config || null;
   }
 
   /**
-   * Get global configuration
+   * Resolve every tool for a working directory: the built-in defaults, the
+   * user's tools.yaml and the nearest .uhappy.yaml are merged in that order,
+   * then each tool is layered over the tool it `extends`. Tools that can't
+   * be resolved are reported and left out.
    */
-  getGlobalConfig(): GlobalConfig {
-    return { ...this.globalConfig };
+  resolveTools(cwd?: string): Map<string, ResolvedToolConfig> {
+    const layers: Array<[ConfigLayer, Record<string, ToolConfigLayer>]> = [
+      ['builtin', this.builtinTools],
+      ['user', Object.fromEntries(this.userTools)],
+      ['project', cwd ? this.loadProjectTools(cwd) : {}]
+    ];
+
+    const resolved = new Map<string, ResolvedToolConfig>();
+    for (const name of new Set(layers.flatMap(([, tools]) => Object.keys(tools)))) {
+      try {
+        const tool = this.resolveTool(name, layers, []);
+        if (typeof tool.config.command !== 'string') {
+          throw new Error('no command (set one or extend another tool)');
+        }
+        resolved.set(name, tool);
+      } catch (error) {
+        this.warnOnce(`Skipping tool '${name}': ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    return resolved;
+  }
+
+  private resolveTool(
+    name: string,
+    layers: Array<[ConfigLayer, Record<string, ToolConfigLayer>]>,
+    chain: string[]
+  ): ResolvedToolConfig {
+    if (chain.includes(name)) {
+      throw new Error(`circular extends (${[...chain, name].join(' → ')})`);
+    }
+
+    const entries = layers.filter(([, tools]) => tools[name]).map(([layer, tools]) => [layer, tools[name]] as const);
+    // The highest layer that names a base tool decides it
+    const base = entries.reduce<string | undefined>((found, [, entry]) => entry.extends ?? found, undefined);
+
+    let tool: ResolvedToolConfig = { name, config: {} as ToolConfig, sources: {} };
+    if (base) {
+      if (!layers.some(([, tools]) => tools[base])) {
+        throw new Error(`extends unknown tool '${base}'`);
+      }
+      tool = { ...structuredClone(this.resolveTool(base, layers, [...chain, name])), name };
+    }
+
+    for (const [layer, { extends: _, ...values }] of entries) {
+      this.mergeLayer(tool.config as unknown as Record<string, unknown>, values, tool.sources, { layer, tool: name });
+    }
+    return tool;
   }
 
   /**
-   * Auto-detect tool type from command
+   * Deep-merge one layer's values over a tool. Objects merge key by key;
+   * arrays and other values replace what lower layers set.
    */
-  async detectTool(command: string): Promise<string | null> {
-    // First check if we have a direct match
-    for (const [name, config] of this.config) {
-      if (config.command === command || name === command) {
-        return name;
+  private mergeLayer(
+    target: Record<string, unknown>,
+    values: Record<string, unknown>,
+    sources: Record<string, ConfigValueSource>,
+    source: ConfigValueSource,
+    prefix = ''
+  ): void {
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) {
+        continue;
+      }
+      const path = prefix ? `${prefix}.${key}` : key;
+
+      if (isObject(value) && isObject(target[key])) {
+        this.mergeLayer(target[key] as Record<string, unknown>, value, sources, source, path);
+        continue;
+      }
+
+      // Whatever lower layers had here is replaced
+      for (const sourcePath of Object.keys(sources)) {
+        if (sourcePath === path || sourcePath.startsWith(`${path}.`)) {
+          delete sources[sourcePath];
+        }
+      }
+      if (isObject(value)) {
+        target[key] = {};
+        this.mergeLayer(target[key] as Record<string, unknown>, value, sources, source, path);
+        // An empty object has no values of its own to credit
+        if (Object.keys(value).length === 0) {
+          sources[path] = source;
+        }
+      } else {
+        target[key] = structuredClone(value);
+        sources[path] = source;
       }
     }
+  }
 
-    // Try to detect based on command output
-    try {
-      const toolType = await this.analyzeCommand(command);
-      if (toolType && this.config.has(toolType)) {
-        return toolType;
+  /**
+   * Find the nearest project configuration file at or above `cwd`
+   */
+  findProjectConfig(cwd: string): string | null {
+    let dir = resolve(cwd);
+    for (;;) {
+      const candidate = join(dir, PROJECT_CONFIG_FILE);
+      if (existsSync(candidate)) {
+        return candidate;
       }
-    } catch (error) {
-      // Detection failed, use generic
+      const parent = dirname(dir);
+      if (parent === dir) {
+        return null;
+      }
+      dir = parent;
     }
+  }
 
-    return 'generic';
+  /**
+   * Tools from the project configuration for `cwd`. The file is read every
+   * time, so edits apply to the next session without a reload.
+   */
+  private loadProjectTools(cwd: string): Record<string, ToolConfigLayer> {
+    const file = this.readProjectFile(cwd);
+    if (!file) {
+      return {};
+    }
+    if (file.errors.length > 0) {
+      this.warnOnce(`Ignoring invalid ${file.path}:\n  ${file.errors.join('\n  ')}`);
+      return {};
+    }
+    return file.data?.tools || {};
   }
 
   /**
-   * Analyze command to determine tool type
+   * Recipes from the project configuration for `cwd`, with the directory
+   * their steps run in. Unlike its tools, an invalid file is an error here.
    */
-  private async analyzeCommand(command: string): Promise<string | null> {
-    const detectionCommands = [
-      `${command} --version 2>&1`,
-      `${command} --help 2>&1`,
-      `${command} -V 2>&1`,
-      `which ${command} 2>&1`,
-      `type ${command} 2>&1`
-    ];
+  getRecipes(cwd: string): { dir: string; recipes: Record<string, RecipeConfig> } | null {
+    const file = this.readProjectFile(cwd);
+    if (!file) {
+      return null;
+    }
+    if (file.errors.length > 0) {
+      throw new Error(`Invalid ${file.path}:\n  ${file.errors.join('\n  ')}`);
+    }
+    return { dir: dirname(file.path), recipes: file.data?.recipes || {} };
+  }
 
-    for (const cmd of detectionCommands) {
-      try {
-        const { stdout, stderr } = await execAsync(cmd, { timeout: 5000 });
-        const output = (stdout + stderr).toLowerCase();
-
-        // Analyze output patterns
-        if (output.includes('git version')) return 'git';
-        if (output.includes('docker version') || output.includes('docker.com')) return 'docker';
-        if (output.includes('npm@') || output.includes('node package manager')) return 'npm';
-        if (output.includes('kubectl') || output.includes('kubernetes')) return 'kubectl';
-        if (output.includes('python') && output.includes('python.org')) return 'python';
-        if (output.includes('node') && output.includes('nodejs.org')) return 'node';
-
-        break; // If we got output, stop trying other commands
-      } catch (error) {
-        // Continue to next detection command
-        continue;
-      }
+  private readProjectFile(cwd: string): { path: string; data?: z.infer<typeof ProjectFileSchema>; errors: string[] } | null {
+    const path = this.findProjectConfig(cwd);
+    if (!path) {
+      return null;
     }
 
-    return null;
+    let content: string;
+    try {
+      content = readFileSync(path, 'utf8');
+    } catch (error) {
+      return { path, errors: [`Cannot read file: ${error instanceof Error ? error.message : error}`] };
+    }
+    return { path, ...this.validateConfigContent(content, ProjectFileSchema) };
+  }
+
+  /**
+   * Get global configuration
+   */
+  getGlobalConfig(): GlobalConfig {
+    return { ...this.globalConfig };
+  }
+
+  /**
+   * Auto-detect tool type from command, with the project's tools for `cwd`
+   */
+  async detectTool(command: string, cwd?: string, args: string[] = []): Promise<string> {
+    return (await this.explainToolDetection(command, args, cwd)).tool;
+  }
+
+  /**
+   * Detect the tool of a command and record each step of the decision
+   */
+  async explainToolDetection(command: string, args: string[] = [], cwd?: string): Promise<ToolDetection> {
+    const tools = new Map(Array.from(this.resolveTools(cwd), ([name, { config }]) => [name, config]));
+    return this.toolDetector.detect([command, ...args], cwd || process.cwd(), tools);
   }
 
   /**
    * Add or update tool configuration
    */
-  async addTool(name: string, config: ToolConfig): Promise<void> {
-    this.config.set(name, config);
+  async addTool(name: string, config: ToolConfigLayer): Promise<void> {
+    this.assertWritable('tools');
+    this.userTools.set(name, config);
     await this.saveToolConfigs();
   }
 
   /**
-   * Remove tool configuration
+   * Remove a tool from the user's configuration; a built-in tool of
+   * the same name takes its place again
    */
   async removeTool(name: string): Promise<void> {
-    this.config.delete(name);
+    this.assertWritable('tools');
+    this.userTools.delete(name);
     await this.saveToolConfigs();
   }
 
@@ -375,8 +914,10 @@ export class ConfigManager {
    * Save tool configurations to file
    */
   private async saveToolConfigs(): Promise<void> {
+    this.assertWritable('tools');
     const configData = {
-      tools: Object.fromEntries(this.config),
+      ...(this.pluginPaths.length > 0 && { plugins: this.pluginPaths }),
+      tools: Object.fromEntries(this.userTools),
       metadata: {
         version: '1.0.0',
         lastUpdated: new Date().toISOString()
@@ -388,6 +929,7 @@ export class ConfigManager {
       lineWidth: 120
     });
 
+    this.fileContents.set('tools', yaml);
     await fs.writeFile(this.configPath, yaml, 'utf8');
   }
 
@@ -395,19 +937,21 @@ export class ConfigManager {
    * Save global configuration to file
    */
   private async saveGlobalConfig(): Promise<void> {
+    this.assertWritable('global');
     const yaml = YAML.stringify(this.globalConfig, {
       indent: 2,
       lineWidth: 120
     });
 
+    this.fileContents.set('global', yaml);
     await fs.writeFile(this.globalConfigPath, yaml, 'utf8');
   }
 
   /**
-   * List all configured tools
+   * List all configured tools, including the project's tools for `cwd`
    */
-  listTools(): Array<{ name: string; config: ToolConfig }> {
-    return Array.from(this.config.entries()).map(([name, config]) => ({
+  listTools(cwd?: string): Array<{ name: string; config: ToolConfig }> {
+    return Array.from(this.resolveTools(cwd).values()).map(({ name, config }) => ({
       name,
       config
     }));
@@ -423,15 +967,9 @@ export class ConfigManager {
       errors.push('Command is required');
     }
 
-    if (config.patterns) {
-      for (const [patternName, pattern] of Object.entries(config.patterns)) {
-        try {
-          if (pattern.stdout) new RegExp(pattern.stdout);
-          if (pattern.stderr) new RegExp(pattern.stderr);
-        } catch (error) {
-          errors.push(`Invalid regex in pattern '${patternName}': ${error}`);
-        }
-      }
+    const result = ToolConfigSchema.safeParse(config);
+    if (!result.success) {
+      errors.push(...formatConfigErrors(result.error));
     }
 
     return {
@@ -447,11 +985,19 @@ export class ConfigManager {
     configDir: string;
     toolsConfig: string;
     globalConfig: string;
+    hostSocket: string;
+    hostLog: string;
+    recordingsDir: string;
+    historyDir: string;
   } {
     return {
       configDir: this.configDir,
       toolsConfig: this.configPath,
-      globalConfig: this.globalConfigPath
+      globalConfig: this.globalConfigPath,
+      hostSocket: this.hostSocketPath,
+      hostLog: join(this.configDir, 'host.log'),
+      recordingsDir: join(this.configDir, 'sessions'),
+      historyDir: join(this.configDir, 'history')
     };
   }
 
@@ -459,8 +1005,7 @@ export class ConfigManager {
    * Reset to default configuration
    */
   async resetToDefaults(): Promise<void> {
-    this.config.clear();
-    await this.loadDefaultConfigs();
+    this.userTools.clear();
     await this.saveToolConfigs();
   }
 
@@ -468,11 +1013,11 @@ export class ConfigManager {
    * Export configuration
    */
   async exportConfig(): Promise<{
-    tools: Record<string, ToolConfig>;
+    tools: Record<string, ToolConfigLayer>;
     global: GlobalConfig;
   }> {
     return {
-      tools: Object.fromEntries(this.config),
+      tools: Object.fromEntries(this.userTools),
       global: this.globalConfig
     };
   }
@@ -481,17 +1026,17 @@ export class ConfigManager {
    * Import configuration
    */
   async importConfig(data: {
-    tools?: Record<string, ToolConfig>;
+    tools?: Record<string, ToolConfigLayer>;
     global?: Partial<GlobalConfig>;
   }): Promise<void> {
     if (data.tools) {
-      this.config.clear();
+      this.userTools.clear();
       for (const [name, config] of Object.entries(data.tools)) {
-        const validation = this.validateToolConfig(config);
-        if (validation.valid) {
-          this.config.set(name, config);
+        const result = ToolConfigLayerSchema.safeParse(config);
+        if (result.success) {
+          this.userTools.set(name, result.data);
         } else {
-          console.warn(`Invalid config for tool '${name}':`, validation.errors);
+          console.warn(`Invalid config for tool '${name}':`, formatConfigErrors(result.error));
         }
       }
       await this.saveToolConfigs();
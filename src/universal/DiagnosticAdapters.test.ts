@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { diagnosticPlugins } from './DiagnosticAdapters.js';
+import type { DiagnosticSummary, ToolAdapter, ToolEvent } from './types.js';
+
+function startAdapter(name: string, command: string, args: string[] = []): { adapter: ToolAdapter | void; events: ToolEvent[] } {
+  const plugin = diagnosticPlugins.find(entry => entry.name === name)!;
+  const events: ToolEvent[] = [];
+  const adapter = plugin.createAdapter!({
+    session: { id: 'session-1', tool: command, command, args, cwd: '/project', mode: 'pipe' },
+    config: null,
+    emit: event => events.push(event),
+    processOutput: () => { throw new Error('not used'); }
+  });
+  return { adapter, events };
+}
+
+function feed(adapter: ToolAdapter | void, lines: string[]): void {
+  lines.forEach((content, sequence) => adapter!.onLine!({ content, complete: true, source: 'stdout', timestamp: 0, sequence }));
+}
+
+function parse(name: string, command: string, lines: string[], args: string[] = []): DiagnosticSummary {
+  const { adapter, events } = startAdapter(name, command, args);
+  feed(adapter, lines);
+  adapter!.onExit!(1);
+  adapter!.dispose!();
+
+  const event = events[events.length - 1];
+  if (event?.type !== 'diagnostics') {
+    throw new Error('No diagnostics were emitted');
+  }
+  return event.summary;
+}
+
+describe('diagnostic adapters', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start a new tsc run on every watch rebuild', () => {
+    vi.useFakeTimers();
+    const { adapter, events } = startAdapter('tsc-diagnostics', 'tsc', ['--watch']);
+    feed(adapter, [
+      '[10:00:00 AM] Starting compilation in watch mode...',
+      '',
+      "src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "src/b.ts:10:1 - error TS2304: Cannot find name 'foo'.",
+      '',
+      '[10:00:02 AM] Found 2 errors. Watching for file changes.'
+    ]);
+    vi.advanceTimersByTime(250);
+
+    expect(events[0]).toMatchObject({ type: 'diagnostics', summary: { run: 1, status: 'done', errors: 2 } });
+    expect(events[0].type === 'diagnostics' && events[0].summary.diagnostics).toEqual([
+      { severity: 'error', message: "Type 'string' is not assignable to type 'number'.", file: '/project/src/a.ts', line: 3, column: 7, code: 'TS2322' },
+      { severity: 'error', message: "Cannot find name 'foo'.", file: '/project/src/b.ts', line: 10, column: 1, code: 'TS2304' }
+    ]);
+
+    feed(adapter, [
+      '[10:01:00 AM] File change detected. Starting incremental compilation...',
+      '[10:01:01 AM] Found 0 errors. Watching for file changes.'
+    ]);
+    vi.advanceTimersByTime(250);
+    expect(events[events.length - 1]).toMatchObject({ summary: { run: 2, status: 'done', errors: 0, diagnostics: [] } });
+    adapter!.dispose!();
+  });
+
+  it('should read eslint files and their problems', () => {
+    const summary = parse('eslint-diagnostics', 'eslint', [
+      '',
+      '/project/src/a.js',
+      "  1:10  error    'x' is defined but never used  no-unused-vars",
+      '  2:1   warning  Unexpected console statement   no-console',
+      '',
+      '✖ 2 problems (1 error, 1 warning)'
+    ]);
+
+    expect(summary).toMatchObject({ errors: 1, warnings: 1 });
+    expect(summary.diagnostics[1]).toEqual({
+      severity: 'warning',
+      message: 'Unexpected console statement',
+      file: '/project/src/a.js',
+      line: 2,
+      column: 1,
+      code: 'no-console'
+    });
+  });
+
+  it('should read gcc diagnostics and skip the source excerpts', () => {
+    const summary = parse('gcc-diagnostics', 'gcc', [
+      "main.c: In function 'main':",
+      "main.c:4:5: warning: unused variable 'x' [-Wunused-variable]",
+      '    4 |     int x;',
+      '      |         ^',
+      "main.c:5:12: error: expected ';' before '}' token"
+    ], ['-c', 'main.c']);
+
+    expect(summary.diagnostics).toEqual([
+      { severity: 'warning', message: "unused variable 'x'", file: '/project/main.c', line: 4, column: 5, code: '-Wunused-variable' },
+      { severity: 'error', message: "expected ';' before '}' token", file: '/project/main.c', line: 5, column: 12 }
+    ]);
+  });
+
+  it('should read cargo diagnostics with their locations on the next line', () => {
+    const summary = parse('cargo-diagnostics', 'cargo', [
+      '   Compiling demo v0.1.0 (/project)',
+      'error[E0425]: cannot find value `y` in this scope',
+      ' --> src/main.rs:3:13',
+      '  |',
+      '3 |     let x = y;',
+      '  |             ^ not found in this scope',
+      '',
+      'warning: unused variable: `x`',
+      ' --> src/main.rs:3:9',
+      '',
+      'error: could not compile `demo` (bin "demo") due to 1 previous error; 1 warning emitted'
+    ], ['build']);
+
+    expect(summary).toMatchObject({ errors: 1, warnings: 1 });
+    expect(summary.diagnostics[0]).toEqual({
+      severity: 'error',
+      message: 'cannot find value `y` in this scope',
+      code: 'E0425',
+      file: '/project/src/main.rs',
+      line: 3,
+      column: 13
+    });
+  });
+
+  it('should leave the output of cargo run to the program', () => {
+    expect(startAdapter('cargo-diagnostics', 'cargo', ['run']).adapter).toBeUndefined();
+    expect(startAdapter('cargo-diagnostics', 'cargo', ['check']).adapter).toBeDefined();
+  });
+
+  it('should read mypy errors and notes', () => {
+    const summary = parse('mypy-diagnostics', 'mypy', [
+      'app/main.py:12: error: Incompatible return value type (got "str", expected "int")  [return-value]',
+      'app/main.py:20:5: note: See https://mypy.rtfd.io',
+      'Found 1 error in 1 file (checked 3 source files)'
+    ]);
+
+    expect(summary).toMatchObject({ status: 'done', errors: 1, warnings: 0 });
+    expect(summary.diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code, diagnostic.line])).toEqual([
+      ['error', 'return-value', 12],
+      ['info', undefined, 20]
+    ]);
+  });
+});
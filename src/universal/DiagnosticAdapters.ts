@@ -0,0 +1,287 @@
+/**
+ * Universal CLI Wrapper - Diagnostic Adapters
+ *
+ * Built-in plugins that read the errors and warnings of tsc, eslint, gcc
+ * (and clang), cargo and mypy into a DiagnosticSummary. Files are resolved
+ * against the session's directory, so a remote client can open them with
+ * Happy's `readFile` RPC. The summary is updated live, and watch modes such
+ * as `tsc --watch` start a new run on every rebuild.
+ */
+
+import { basename, resolve } from 'node:path';
+import { lineParserPlugin, type LineParser } from './LineParserPlugin.js';
+import type { Diagnostic, DiagnosticSummary, ToolAdapterContext, UniversalPlugin } from './types.js';
+
+/** Lines of a diagnostic's message that are kept */
+const MESSAGE_LINES = 10;
+/** Diagnostics kept per run; later ones are still counted */
+const MAX_DIAGNOSTICS = 500;
+
+abstract class DiagnosticParser implements LineParser {
+  protected readonly summary: DiagnosticSummary;
+  /** Diagnostic whose message may continue on the next lines */
+  protected last?: Diagnostic;
+  /** Set whenever the summary changes, cleared by the adapter once sent */
+  changed = false;
+
+  constructor(source: DiagnosticSummary['source'], private readonly cwd: string) {
+    this.summary = { source, run: 1, status: 'running', errors: 0, warnings: 0, diagnostics: [], updatedAt: Date.now() };
+  }
+
+  /**
+   * Read one complete line of the tool's output, without ANSI codes
+   */
+  abstract read(line: string): void;
+
+  /**
+   * The tool exited; whatever it reported is the run's result
+   */
+  finish(): void {
+    this.done();
+  }
+
+  /**
+   * A copy of the summary as it is now
+   */
+  result(): DiagnosticSummary {
+    return structuredClone({ ...this.summary, updatedAt: Date.now() });
+  }
+
+  /**
+   * A rebuild started. The first run is only reset, later ones are counted.
+   */
+  protected startRun(): void {
+    if (this.summary.status === 'done') {
+      this.summary.run++;
+    }
+    this.summary.status = 'running';
+    this.summary.errors = 0;
+    this.summary.warnings = 0;
+    this.summary.diagnostics = [];
+    this.last = undefined;
+    this.changed = true;
+  }
+
+  protected done(): void {
+    this.summary.status = 'done';
+    this.last = undefined;
+    this.changed = true;
+  }
+
+  protected add(diagnostic: Diagnostic): void {
+    if (diagnostic.file) {
+      this.locate(diagnostic, diagnostic.file, diagnostic.line, diagnostic.column);
+    }
+    if (diagnostic.severity === 'error') {
+      this.summary.errors++;
+    } else if (diagnostic.severity === 'warning') {
+      this.summary.warnings++;
+    }
+    if (this.summary.diagnostics.length < MAX_DIAGNOSTICS) {
+      this.summary.diagnostics.push(diagnostic);
+    }
+    this.last = diagnostic;
+    this.changed = true;
+  }
+
+  protected locate(diagnostic: Diagnostic, file: string, line?: number, column?: number): void {
+    diagnostic.file = resolve(this.cwd, file);
+    diagnostic.line = line;
+    diagnostic.column = column;
+    this.changed = true;
+  }
+
+  protected addMessage(diagnostic: Diagnostic, line: string): void {
+    const lines = diagnostic.message.split('\n');
+    if (lines.length < MESSAGE_LINES) {
+      diagnostic.message = [...lines, line].join('\n');
+      this.changed = true;
+    }
+  }
+
+  protected severity(word: string): Diagnostic['severity'] {
+    if (word.includes('error')) {
+      return 'error';
+    }
+    return word === 'warning' ? 'warning' : 'info';
+  }
+
+  protected number(value?: string): number | undefined {
+    return value === undefined ? undefined : parseInt(value, 10);
+  }
+}
+
+/**
+ * tsc, both plain (`a.ts(1,7): error TS2322: ...`) and pretty
+ * (`a.ts:1:7 - error TS2322: ...`, the default in a terminal). Messages
+ * continue on indented lines; pretty output ends them with a blank line.
+ */
+class TscParser extends DiagnosticParser {
+  constructor(cwd: string) {
+    super('tsc', cwd);
+  }
+
+  read(line: string): void {
+    if (/(Starting compilation in watch mode|Starting incremental compilation)\.\.\.$/.test(line)) {
+      this.startRun();
+      return;
+    }
+    // Watch mode puts the time first: `[9:00:01 AM] Found 2 errors. Watching for file changes.`
+    if (/^(\[[^\]]+\] )?Found \d+ errors?\b/.test(line)) {
+      this.done();
+      return;
+    }
+
+    const match = /^(.+?)\((\d+),(\d+)\): (error|warning|message) (TS\d+): (.*)$/.exec(line)
+      || /^(.+?):(\d+):(\d+) - (error|warning|message) (TS\d+): (.*)$/.exec(line);
+    if (match) {
+      const [, file, lineNumber, column, severity, code, message] = match;
+      this.add({ severity: this.severity(severity), message, file, line: this.number(lineNumber), column: this.number(column), code });
+      return;
+    }
+
+    // Errors about the project rather than a file, e.g. a missing tsconfig.json
+    const global = /^(error|warning) (TS\d+): (.*)$/.exec(line);
+    if (global) {
+      this.add({ severity: this.severity(global[1]), message: global[3], code: global[2] });
+      return;
+    }
+
+    if (this.last && /^\s+\S/.test(line)) {
+      this.addMessage(this.last, line.trim());
+    } else {
+      this.last = undefined;
+    }
+  }
+}
+
+/**
+ * eslint's default `stylish` formatter: a file's path, then one indented
+ * `line:col  severity  message  rule` line per problem
+ */
+class EslintParser extends DiagnosticParser {
+  private file?: string;
+
+  constructor(cwd: string) {
+    super('eslint', cwd);
+  }
+
+  read(line: string): void {
+    const problem = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.*?)(?:\s{2,}(\S+))?$/.exec(line);
+    if (problem && this.file) {
+      const [, lineNumber, column, severity, message, code] = problem;
+      this.add({ severity: this.severity(severity), message, file: this.file, line: this.number(lineNumber), column: this.number(column), code });
+    } else if (/^✖ \d+ problems?/.test(line)) {
+      this.done();
+    } else if (/^\S/.test(line)) {
+      this.file = line.trim();
+    }
+  }
+}
+
+/**
+ * gcc and clang: `file:line:col: error: message [-Wflag]`, followed by a code
+ * frame. Notes point at related code and are kept as `info`.
+ */
+class GccParser extends DiagnosticParser {
+  constructor(cwd: string) {
+    super('gcc', cwd);
+  }
+
+  read(line: string): void {
+    const match = /^(.+?):(\d+):(?:(\d+):)? (fatal error|error|warning|note): (.*?)(?: \[(-[^\]]+)\])?$/.exec(line);
+    if (match) {
+      const [, file, lineNumber, column, severity, message, code] = match;
+      this.add({ severity: this.severity(severity), message, file, line: this.number(lineNumber), column: this.number(column), code });
+    }
+  }
+}
+
+/**
+ * cargo (rustc): `error[E0308]: message` with its location on a following
+ * ` --> file:line:col` line. cargo's own closing lines are not diagnostics.
+ */
+class CargoParser extends DiagnosticParser {
+  constructor(cwd: string) {
+    super('cargo', cwd);
+  }
+
+  read(line: string): void {
+    if (/^warning: `[^`]+` \(.+\) generated \d+ warnings?/.test(line)
+      || /^error: (could not compile|aborting due to)/.test(line)
+      || /^warning: build failed, waiting for other jobs/.test(line)) {
+      return;
+    }
+    if (/^\s*Finished /.test(line)) {
+      this.done();
+      return;
+    }
+
+    const header = /^(error|warning)(?:\[(\w+)\])?: (.*)$/.exec(line);
+    if (header) {
+      const [, severity, code, message] = header;
+      this.add({ severity: this.severity(severity), message, code });
+      return;
+    }
+
+    const location = /^\s*--> (.+):(\d+):(\d+)$/.exec(line);
+    // The first location is the diagnostic's own, later ones point at related code
+    if (location && this.last && !this.last.file) {
+      this.locate(this.last, location[1], this.number(location[2]), this.number(location[3]));
+    }
+  }
+}
+
+/**
+ * mypy: `file.py:12: error: message  [code]`, with a column when run with
+ * `--show-column-numbers`
+ */
+class MypyParser extends DiagnosticParser {
+  constructor(cwd: string) {
+    super('mypy', cwd);
+  }
+
+  read(line: string): void {
+    if (/^(Found \d+ errors? in|Success: no issues found)/.test(line)) {
+      this.done();
+      return;
+    }
+
+    const match = /^(.+?\.pyi?):(\d+):(?:(\d+):)? (error|warning|note): (.*?)(?:  \[([\w-]+)\])?$/.exec(line);
+    if (match) {
+      const [, file, lineNumber, column, severity, message, code] = match;
+      this.add({ severity: this.severity(severity), message, file, line: this.number(lineNumber), column: this.number(column), code });
+    }
+  }
+}
+
+/**
+ * A built-in plugin that reads one tool's diagnostics for sessions of it
+ */
+function diagnosticPlugin(
+  name: string,
+  tool: string,
+  createParser: (cwd: string) => DiagnosticParser,
+  reportsDiagnostics?: (session: ToolAdapterContext['session']) => boolean
+): UniversalPlugin {
+  return lineParserPlugin({
+    name,
+    description: `Errors and warnings from ${tool}`,
+    tool,
+    createParser: session => createParser(session.cwd),
+    toEvent: parser => ({ type: 'diagnostics', summary: parser.result() }),
+    applies: reportsDiagnostics
+  });
+}
+
+/** cargo subcommands that compile; `cargo run` output is the program's own */
+const CARGO_BUILDS = ['build', 'b', 'check', 'c', 'clippy', 'test', 't', 'bench', 'doc', 'd', 'rustc'];
+
+export const diagnosticPlugins: UniversalPlugin[] = [
+  diagnosticPlugin('tsc-diagnostics', 'tsc', cwd => new TscParser(cwd)),
+  diagnosticPlugin('eslint-diagnostics', 'eslint', cwd => new EslintParser(cwd)),
+  diagnosticPlugin('gcc-diagnostics', 'gcc', cwd => new GccParser(cwd)),
+  diagnosticPlugin('cargo-diagnostics', 'cargo', cwd => new CargoParser(cwd),
+    session => basename(session.command) !== 'cargo' || CARGO_BUILDS.includes(session.args[0])),
+  diagnosticPlugin('mypy-diagnostics', 'mypy', cwd => new MypyParser(cwd))
+];
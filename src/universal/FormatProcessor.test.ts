@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { FormatProcessor } from './FormatProcessor.js';
+
+describe('FormatProcessor', () => {
+  const processor = new FormatProcessor();
+
+  it('should describe 256-color and truecolor SGR parameters', () => {
+    const [palette] = processor.parseAnsi('\x1b[38;5;196m');
+    expect(palette.type).toBe('color');
+    expect(palette.description).toBe('foreground-#ff0000');
+
+    const [truecolor] = processor.parseAnsi('\x1b[1;48;2;0;128;255m');
+    expect(truecolor.description).toBe('bold, background-#0080ff');
+  });
+
+  it('should read colon-separated truecolor parameters', () => {
+    const [sequence] = processor.parseAnsi('\x1b[38:2::255:128:0m');
+    expect(sequence.description).toBe('foreground-#ff8000');
+  });
+
+  it('should parse window titles with either terminator', () => {
+    const [bell, st] = processor.parseAnsi('\x1b]0;build\x07\x1b]2;deploy\x1b\\');
+    expect(bell).toMatchObject({ type: 'title', params: [0], title: 'build' });
+    expect(st).toMatchObject({ type: 'title', params: [2], title: 'deploy' });
+  });
+
+  it('should parse OSC 8 hyperlinks and prompt marks', () => {
+    const [start, end, mark] = processor.parseAnsi(
+      '\x1b]8;;https://example.com\x07link\x1b]8;;\x07\x1b]133;D;2\x07'
+    );
+    expect(start).toMatchObject({ type: 'hyperlink', url: 'https://example.com' });
+    expect(end).toMatchObject({ type: 'hyperlink', url: '', description: 'End hyperlink' });
+    expect(mark).toMatchObject({ type: 'prompt', description: 'Command finished (exit code 2)' });
+  });
+
+  it('should keep DCS payloads and strip them from text', () => {
+    const input = 'a\x1bPq#0;2;0;0;0\x1b\\b';
+    const [dcs] = processor.parseAnsi(input);
+    expect(dcs).toMatchObject({ type: 'dcs', data: 'q#0;2;0;0;0' });
+    expect(processor.stripAnsi(input)).toBe('ab');
+  });
+
+  it('should render extended colors and safe links as HTML', () => {
+    expect(processor.ansiToHtml('\x1b[38;5;46mok\x1b[0m')).toBe('<span style="color: #00ff00">ok</span>');
+    expect(processor.ansiToHtml('\x1b]8;;https://example.com\x07a\x1b]8;;\x07')).toBe('<a href="https://example.com">a</a>');
+    expect(processor.ansiToHtml('\x1b]8;;javascript:alert(1)\x07a\x1b]8;;\x07')).toBe('a');
+  });
+
+  it('should escape text before adding markup', () => {
+    expect(processor.ansiToHtml('\x1b[1m<b>&</b>')).toBe('<span style="font-weight: bold">&lt;b&gt;&amp;&lt;/b&gt;</span>');
+  });
+});
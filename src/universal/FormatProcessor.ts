@@ -2,14 +2,59 @@
  * Universal CLI Wrapper - Format Processor
  *
  * Handles ANSI escape sequences, colors, cursor movements, and terminal formatting.
- * Supports multiple output formats including raw, text, HTML, and JSON.
+ * Supports multiple output formats including raw, text, HTML, JSON and
+ * extracted tables.
  */
 
-import type { TerminalOutput, AnsiSequence, OutputFormat } from './types.js';
+import type { TerminalOutput, AnsiSequence, OutputFormat, DetectedTable } from './types.js';
+import { xtermColor } from './TerminalScreen.js';
+import { TableDetector } from './TableDetector.js';
+
+/**
+ * SGR state tracked while converting to HTML
+ */
+interface HtmlStyle {
+  fg: string;
+  bg: string;
+  bold: boolean;
+  dim: boolean;
+  italic: boolean;
+  underline: boolean;
+  strikethrough: boolean;
+  inverse: boolean;
+  hidden: boolean;
+}
+
+const PLAIN_STYLE: HtmlStyle = {
+  fg: '',
+  bg: '',
+  bold: false,
+  dim: false,
+  italic: false,
+  underline: false,
+  strikethrough: false,
+  inverse: false,
+  hidden: false
+};
+
+/** URL schemes rendered as links in HTML; other OSC 8 targets stay plain text */
+const LINK_SCHEMES = ['http:', 'https:', 'ftp:', 'mailto:', 'file:'];
+
+export interface SerializeOptions {
+  /** Add the tables found in the output to `json` (default: true) */
+  tableDetection?: boolean;
+}
 
 export class FormatProcessor {
-  private readonly ansiRegex = /\x1b\[[0-9;]*[a-zA-Z]/g;
-  private readonly ansiParamRegex = /\x1b\[([0-9;]*)[a-zA-Z]/;
+  private readonly tableDetector = new TableDetector();
+
+  /**
+   * Escape sequences: CSI, OSC (BEL or ST terminated), DCS/SOS/PM/APC
+   * strings, charset designations and two-character escapes. Unterminated
+   * strings at the end of the input are matched to the end.
+   */
+  private readonly ansiRegex = /\x1b\[[0-?]*[ -\/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\|$)|\x1b[PX^_][^\x1b]*(?:\x1b\\|$)|\x1b[()*+\-.\/#%][ -~]|\x1b[0-~]/g;
+  private readonly ansiParamRegex = /^\x1b\[[<=>?]?([0-9;:]*)/;
 
   // ANSI color codes mapping
   private readonly colorCodes = new Map([
@@ -75,11 +120,12 @@ export class FormatProcessor {
   ]);
 
   /**
-   * Process raw terminal output into structured format
+   * Process raw terminal output into structured format. `decoded` is the
+   * chunk's text from a stateful decoder; without it the chunk is read as UTF-8.
    */
-  processOutput(data: Buffer, source: 'stdout' | 'stderr' = 'stdout'): TerminalOutput {
+  processOutput(data: Buffer, source: 'stdout' | 'stderr' = 'stdout', decoded?: string): TerminalOutput {
     const raw = data;
-    const ansi = data.toString('utf8');
+    const ansi = decoded ?? data.toString('utf8');
     const text = this.stripAnsi(ansi);
     const formatted = this.parseAnsi(ansi);
 
@@ -106,7 +152,6 @@ export class FormatProcessor {
   parseAnsi(input: string): AnsiSequence[] {
     const sequences: AnsiSequence[] = [];
     let match;
-    let lastIndex = 0;
 
     // Reset regex state
     this.ansiRegex.lastIndex = 0;
@@ -114,38 +159,128 @@ export class FormatProcessor {
     while ((match = this.ansiRegex.exec(input)) !== null) {
       const code = match[0];
       const position = match.index;
-      const params = this.extractParams(code);
-      const type = this.detectSequenceType(code);
-      const description = this.describeSequence(code, params, type);
+
+      if (code.startsWith('\x1b]')) {
+        sequences.push({ ...this.parseOsc(code), code, position });
+        continue;
+      }
+      if (code.startsWith('\x1b[')) {
+        const params = this.extractParams(code);
+        const type = this.detectSequenceType(code);
+        sequences.push({
+          type,
+          code,
+          params,
+          description: this.describeSequence(code, params, type),
+          position
+        });
+        continue;
+      }
 
       sequences.push({
-        type,
+        type: code.startsWith('\x1bP') ? 'dcs' : 'unknown',
         code,
-        params,
-        description,
-        position
+        params: [],
+        description: this.describeEscape(code),
+        position,
+        ...(code.length > 2 && /^\x1b[PX^_]/.test(code) ? { data: this.stringPayload(code) } : {})
       });
-
-      lastIndex = this.ansiRegex.lastIndex;
     }
 
     return sequences;
   }
 
   /**
-   * Extract numeric parameters from ANSI sequence
+   * Extract numeric parameters from a CSI sequence. Colon sub-parameters
+   * (`38:2::r:g:b`) are flattened like their semicolon equivalents.
    */
   private extractParams(code: string): number[] {
     const match = code.match(this.ansiParamRegex);
     if (!match || !match[1]) return [];
 
     return match[1]
-      .split(';')
+      .split(/[;:]/)
       .filter(p => p.length > 0)
       .map(p => parseInt(p, 10))
       .filter(n => !isNaN(n));
   }
 
+  /**
+   * Parse an OSC string: window titles (0/2), hyperlinks (8) and shell
+   * integration prompt marks (133). Other commands are kept as `osc`.
+   */
+  private parseOsc(code: string): Omit<AnsiSequence, 'code' | 'position'> {
+    const payload = this.stringPayload(code);
+    const separator = payload.indexOf(';');
+    const command = parseInt(separator === -1 ? payload : payload.slice(0, separator), 10);
+    const data = separator === -1 ? '' : payload.slice(separator + 1);
+    const params = isNaN(command) ? [] : [command];
+
+    switch (command) {
+      case 0:
+      case 2:
+        return { type: 'title', params, data, title: data, description: `Set window title: ${data}` };
+
+      case 8: {
+        // OSC 8 ; params ; URI -- an empty URI closes the link
+        const url = data.slice(data.indexOf(';') + 1);
+        return {
+          type: 'hyperlink',
+          params,
+          data,
+          url,
+          description: url ? `Start hyperlink to ${url}` : 'End hyperlink'
+        };
+      }
+
+      case 133: {
+        const mark = data.charAt(0);
+        const marks: Record<string, string> = {
+          A: 'Prompt start',
+          B: 'Command input start',
+          C: 'Command output start',
+          D: 'Command finished'
+        };
+        const exitCode = mark === 'D' && data.length > 2 ? parseInt(data.slice(2), 10) : NaN;
+        return {
+          type: 'prompt',
+          params,
+          data,
+          description: (marks[mark] || `Prompt mark ${mark}`) + (isNaN(exitCode) ? '' : ` (exit code ${exitCode})`)
+        };
+      }
+
+      default:
+        return { type: 'osc', params, data, description: `OSC ${isNaN(command) ? '?' : command}: ${data}` };
+    }
+  }
+
+  /**
+   * Body of an OSC/DCS-style string, without introducer and terminator
+   */
+  private stringPayload(code: string): string {
+    return code.slice(2).replace(/(?:\x07|\x1b\\)$/, '');
+  }
+
+  private describeEscape(code: string): string {
+    if (code.startsWith('\x1bP')) {
+      return `Device control string: ${this.stringPayload(code)}`;
+    }
+    switch (code.charAt(1)) {
+      case '(': case ')': case '*': case '+':
+        return `Designate character set ${code.charAt(2)}`;
+      case '7': return 'Save cursor';
+      case '8': return 'Restore cursor';
+      case 'c': return 'Reset terminal';
+      case 'D': return 'Index';
+      case 'E': return 'Next line';
+      case 'M': return 'Reverse index';
+      case '=': return 'Application keypad';
+      case '>': return 'Normal keypad';
+      default: return `Escape sequence: ESC ${code.slice(1)}`;
+    }
+  }
+
   /**
    * Detect the type of ANSI sequence
    */
@@ -193,9 +328,20 @@ export class FormatProcessor {
 
     const descriptions: string[] = [];
 
-    for (const param of params) {
+    for (let i = 0; i < params.length; i++) {
+      const param = params[i];
       const paramStr = param.toString();
 
+      if (param === 38 || param === 48 || param === 58) {
+        const target = param === 38 ? 'foreground' : param === 48 ? 'background' : 'underline-color';
+        const color = this.extendedColor(params, i);
+        if (color) {
+          descriptions.push(`${target}-${color.hex}`);
+          i += color.length;
+          continue;
+        }
+      }
+
       if (this.styleCodes.has(paramStr)) {
         descriptions.push(this.styleCodes.get(paramStr)!);
       } else if (this.colorCodes.has(paramStr)) {
@@ -264,9 +410,10 @@ export class FormatProcessor {
   }
 
   /**
-   * Serialize terminal output for transmission in various formats
+   * Serialize terminal output for transmission in various formats. The
+   * `table` format carries only the tables found in the output.
    */
-  serializeForTransmission(output: TerminalOutput, format: OutputFormat): string {
+  serializeForTransmission(output: TerminalOutput, format: OutputFormat, options: SerializeOptions = {}): string {
     switch (format) {
       case 'raw':
         return output.raw.toString('base64');
@@ -282,6 +429,15 @@ export class FormatProcessor {
           text: output.text,
           ansi: output.ansi,
           formatted: output.formatted,
+          ...(options.tableDetection !== false ? { tables: this.detectTables(output.text) } : {}),
+          source: output.source,
+          timestamp: output.timestamp,
+          sequence: output.sequence
+        }, null, 2);
+
+      case 'table':
+        return JSON.stringify({
+          tables: this.detectTables(output.text),
           source: output.source,
           timestamp: output.timestamp
         }, null, 2);
@@ -292,86 +448,155 @@ export class FormatProcessor {
   }
 
   /**
-   * Convert ANSI text to HTML with proper styling
+   * Find column-aligned tables in plain text
+   */
+  detectTables(text: string): DetectedTable[] {
+    return this.tableDetector.detect(text);
+  }
+
+  /**
+   * Convert ANSI text to HTML with proper styling. Text is escaped before
+   * any markup is added; OSC 8 hyperlinks become `<a>` elements.
    */
   ansiToHtml(ansi: string): string {
-    let html = ansi;
-    let openTags: string[] = [];
-
-    // Track current styles
-    let currentStyles = {
-      color: '',
-      backgroundColor: '',
-      bold: false,
-      italic: false,
-      underline: false
+    let html = '';
+    let style: HtmlStyle = { ...PLAIN_STYLE };
+    let link = '';
+    let lastIndex = 0;
+
+    const appendText = (text: string) => {
+      if (!text) return;
+      const escaped = this.escapeHtml(text).replace(/\n/g, '<br>');
+      const css = this.htmlStyleCss(style);
+      let fragment = css ? `<span style="${css}">${escaped}</span>` : escaped;
+      if (link) {
+        fragment = `<a href="${this.escapeHtml(link)}">${fragment}</a>`;
+      }
+      html += fragment;
     };
 
-    // Replace ANSI sequences with HTML
-    html = html.replace(this.ansiRegex, (match) => {
-      const params = this.extractParams(match);
-      let result = '';
-
-      for (const param of params) {
-        if (param === 0) {
-          // Reset all - close all tags
-          result += openTags.reverse().map(tag => `</${tag}>`).join('');
-          openTags = [];
-          currentStyles = { color: '', backgroundColor: '', bold: false, italic: false, underline: false };
-        } else if (param === 1) {
-          // Bold
-          if (!currentStyles.bold) {
-            result += '<strong>';
-            openTags.push('strong');
-            currentStyles.bold = true;
-          }
-        } else if (param === 3) {
-          // Italic
-          if (!currentStyles.italic) {
-            result += '<em>';
-            openTags.push('em');
-            currentStyles.italic = true;
-          }
-        } else if (param === 4) {
-          // Underline
-          if (!currentStyles.underline) {
-            result += '<u>';
-            openTags.push('u');
-            currentStyles.underline = true;
-          }
-        } else if (param >= 30 && param <= 37) {
-          // Foreground color
-          const color = this.colorCodes.get(param.toString());
-          if (color && currentStyles.color !== color.hex) {
-            result += `<span style="color: ${color.hex}">`;
-            openTags.push('span');
-            currentStyles.color = color.hex;
-          }
-        } else if (param >= 40 && param <= 47) {
-          // Background color
-          const color = this.colorCodes.get(param.toString());
-          if (color && currentStyles.backgroundColor !== color.hex) {
-            result += `<span style="background-color: ${color.hex}">`;
-            openTags.push('span');
-            currentStyles.backgroundColor = color.hex;
-          }
+    this.ansiRegex.lastIndex = 0;
+    let match;
+    while ((match = this.ansiRegex.exec(ansi)) !== null) {
+      appendText(ansi.slice(lastIndex, match.index));
+      lastIndex = this.ansiRegex.lastIndex;
+
+      const code = match[0];
+      if (code.startsWith('\x1b[') && code.endsWith('m') && !/^\x1b\[[<=>?]/.test(code)) {
+        style = this.applySgr(style, this.extractParams(code));
+      } else if (code.startsWith('\x1b]8;')) {
+        const { url = '' } = this.parseOsc(code);
+        link = this.isSafeLink(url) ? url : '';
+      }
+      // Cursor movement, titles and other sequences have no HTML rendering
+    }
+    appendText(ansi.slice(lastIndex));
+
+    return html;
+  }
+
+  /**
+   * Apply SGR parameters to an HTML style
+   */
+  private applySgr(current: HtmlStyle, params: number[]): HtmlStyle {
+    const style = { ...current };
+    if (params.length === 0) {
+      return { ...PLAIN_STYLE };
+    }
+
+    for (let i = 0; i < params.length; i++) {
+      const param = params[i];
+
+      if (param === 38 || param === 48 || param === 58) {
+        const color = this.extendedColor(params, i);
+        if (color) {
+          if (param === 38) style.fg = color.hex;
+          if (param === 48) style.bg = color.hex;
+          i += color.length;
         }
+        continue;
       }
 
-      return result;
-    });
+      if (param === 0) Object.assign(style, PLAIN_STYLE);
+      else if (param === 1) style.bold = true;
+      else if (param === 2) style.dim = true;
+      else if (param === 3) style.italic = true;
+      else if (param === 4) style.underline = true;
+      else if (param === 7) style.inverse = true;
+      else if (param === 8) style.hidden = true;
+      else if (param === 9) style.strikethrough = true;
+      else if (param === 22) { style.bold = false; style.dim = false; }
+      else if (param === 23) style.italic = false;
+      else if (param === 24) style.underline = false;
+      else if (param === 27) style.inverse = false;
+      else if (param === 28) style.hidden = false;
+      else if (param === 29) style.strikethrough = false;
+      else if (param === 39) style.fg = '';
+      else if (param === 49) style.bg = '';
+      else if ((param >= 30 && param <= 37) || (param >= 90 && param <= 97)) {
+        style.fg = this.colorCodes.get(param.toString())!.hex;
+      } else if ((param >= 40 && param <= 47) || (param >= 100 && param <= 107)) {
+        style.bg = this.colorCodes.get(param.toString())!.hex;
+      }
+    }
+
+    return style;
+  }
+
+  /**
+   * Read a `38;5;n` or `38;2;r;g;b` color starting at `params[index]`.
+   * `length` is the number of parameters consumed after the 38/48/58.
+   */
+  private extendedColor(params: number[], index: number): { hex: string; length: number } | null {
+    const kind = params[index + 1];
+    if (kind === 5 && params[index + 2] !== undefined) {
+      const colorIndex = params[index + 2];
+      return colorIndex >= 0 && colorIndex <= 255 ? { hex: xtermColor(colorIndex), length: 2 } : null;
+    }
+    if (kind === 2 && params.length >= index + 5) {
+      const hex = params.slice(index + 2, index + 5)
+        .map(value => Math.max(0, Math.min(255, value)).toString(16).padStart(2, '0'))
+        .join('');
+      return { hex: `#${hex}`, length: 4 };
+    }
+    return null;
+  }
 
-    // Close any remaining open tags
-    html += openTags.reverse().map(tag => `</${tag}>`).join('');
+  private htmlStyleCss(style: HtmlStyle): string {
+    let fg = style.fg;
+    let bg = style.bg;
+    if (style.inverse) {
+      [fg, bg] = [bg || '#000000', fg || '#e5e5e5'];
+    }
+
+    const css: string[] = [];
+    if (style.hidden) css.push('visibility: hidden');
+    if (fg) css.push(`color: ${fg}`);
+    if (bg) css.push(`background-color: ${bg}`);
+    if (style.bold) css.push('font-weight: bold');
+    if (style.dim) css.push('opacity: 0.5');
+    if (style.italic) css.push('font-style: italic');
+
+    const decorations = [style.underline && 'underline', style.strikethrough && 'line-through'].filter(Boolean);
+    if (decorations.length > 0) css.push(`text-decoration: ${decorations.join(' ')}`);
+
+    return css.join('; ');
+  }
 
-    // Escape any remaining HTML characters
-    html = html
+  private isSafeLink(url: string): boolean {
+    try {
+      return LINK_SCHEMES.includes(new URL(url).protocol);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private escapeHtml(text: string): string {
+    return text
       .replace(/&/g, '&amp;')
       .replace(/</g, '&lt;')
       .replace(/>/g, '&gt;')
-      .replace(/\n/g, '<br>');
-
-    return html;
+      .replace(/"/g, '&quot;');
   }
 
   /**
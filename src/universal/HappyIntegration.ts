@@ -3,14 +3,26 @@
  *
  * Bridges Universal CLI sessions with Happy CLI's daemon system
  * so sessions appear in the mobile app by creating real Happy API sessions.
+ *
+ * Output is batched and sent as `terminal` agent messages, messages typed in
+ * the mobile app are written to the wrapped process, and the API session is
+ * kept alive until the process exits.
  */
 
 import { randomUUID } from 'node:crypto';
+import os from 'node:os';
+import { join } from 'node:path';
 import { logger } from '@/ui/logger';
-import { readDaemonState, readCredentials } from '@/persistence';
+import { readDaemonState, readCredentials, readSettings } from '@/persistence';
 import { ApiClient } from '@/api/api';
+import { ApiSessionClient } from '@/api/apiSession';
+import { PushNotificationClient } from '@/api/pushNotifications';
+import { configuration } from '@/configuration';
+import { projectPath } from '@/projectPath';
+import packageJson from '../../package.json';
 import type { Session, TerminalOutput } from './types.js';
-import type { Metadata } from '@/api/types';
+import type { Metadata, TerminalMessage } from '@/api/types';
+import type { RpcHandler } from '@/api/rpc/types';
 
 export interface HappySession {
   sessionId: string;
@@ -19,21 +31,49 @@ export interface HappySession {
   args: string[];
   tool: string;
   startTime: number;
-  status: 'idle' | 'running' | 'paused' | 'terminated' | 'error';
+  status: Session['status'];
   cwd: string;
   apiSessionId?: string; // Happy API session ID
 }
 
+/**
+ * Live connection between a Universal CLI session and its Happy API session
+ */
+interface SessionBridge {
+  client: ApiSessionClient;
+  pendingOutput: Extract<TerminalMessage, { type: 'output' }>['entries'];
+  flushTimer: NodeJS.Timeout | null;
+  pendingMetadata: Partial<Metadata> | null;
+  metadataTimer: NodeJS.Timeout | null;
+  keepAliveInterval: NodeJS.Timeout;
+}
+
+/**
+ * Delivers text typed in the mobile app to the wrapped process
+ */
+export type HappyInputHandler = (input: string) => Promise<void>;
+
+/**
+ * What Happy is told about a session; a recipe's run registers as one too
+ */
+export type HappySessionSource = Pick<Session, 'id' | 'command' | 'args' | 'tool' | 'startTime' | 'status' | 'cwd'>;
+
 export class HappyIntegration {
   private activeSessions = new Map<string, HappySession>();
+  private bridges = new Map<string, SessionBridge>();
+
+  private readonly outputFlushDelay = 250;
+  private readonly maxBatchEntries = 100;
+  private readonly keepAliveMs = 2000;
+  private readonly metadataFlushDelay = 1000;
 
   /**
    * Register a Universal CLI session with Happy CLI by creating a real API session
    */
-  async registerSession(universalSession: Session): Promise<string | null> {
+  async registerSession(universalSession: HappySessionSource, onInput?: HappyInputHandler): Promise<string | null> {
     try {
       const happySessionId = randomUUID();
-      
+
       const happySession: HappySession = {
         sessionId: happySessionId,
         universalSessionId: universalSession.id,
@@ -45,26 +85,27 @@ export class HappyIntegration {
         cwd: universalSession.cwd
       };
 
+      const metadata = await this.buildMetadata(happySession);
+
       // Create a real Happy API session first
-      const apiSessionId = await this.createHappyApiSession(happySession);
-      if (apiSessionId) {
-        happySession.apiSessionId = apiSessionId;
-        
-        // Then notify daemon about the session
-        const success = await this.notifyDaemonSessionStarted(happySession);
-        
-        if (success) {
-          this.activeSessions.set(universalSession.id, happySession);
-          logger.debug(`Universal session ${universalSession.id} registered as Happy API session ${apiSessionId}`);
-          return happySessionId;
-        } else {
-          logger.debug(`Failed to register Universal session ${universalSession.id} with daemon`);
-          return null;
-        }
-      } else {
+      const client = await this.createHappyApiSession(happySession, metadata);
+      if (!client) {
         logger.debug(`Failed to create Happy API session for Universal session ${universalSession.id}`);
         return null;
       }
+      happySession.apiSessionId = client.sessionId;
+
+      this.activeSessions.set(universalSession.id, happySession);
+      this.startBridge(universalSession.id, client, onInput);
+      logger.debug(`Universal session ${universalSession.id} registered as Happy API session ${client.sessionId}`);
+
+      // The daemon only tracks the session; the app sees it through the API either way
+      const success = await this.notifyDaemonSessionStarted(happySession, metadata);
+      if (!success) {
+        logger.debug(`Universal session ${universalSession.id} not reported to daemon`);
+      }
+
+      return happySessionId;
     } catch (error) {
       logger.debug(`Error registering Universal session: ${error}`);
       return null;
@@ -72,9 +113,15 @@ export class HappyIntegration {
   }
 
   /**
-   * Update session status in Happy CLI system
+   * Update session status in Happy CLI system. The prompt is sent along
+   * with `awaiting-input` so the app can show what the tool is asking, and
+   * the reason with a session ended for exceeding a limit. Terminated sessions are reported as dead and their bridge is closed.
    */
-  async updateSessionStatus(universalSessionId: string, status: Session['status']): Promise<void> {
+  async updateSessionStatus(
+    universalSessionId: string,
+    status: Session['status'],
+    details: { exitCode?: number; prompt?: string; reason?: string } = {}
+  ): Promise<void> {
     const happySession = this.activeSessions.get(universalSessionId);
     if (!happySession) {
       return;
@@ -82,33 +129,176 @@ export class HappyIntegration {
 
     happySession.status = status;
 
+    const bridge = this.bridges.get(universalSessionId);
+    if (bridge) {
+      this.flushOutput(bridge);
+      bridge.client.sendTerminalMessage({ type: 'status', status, ...details });
+      bridge.client.keepAlive(status === 'running', 'remote');
+    }
+
     // If session is terminated, clean up
     if (status === 'terminated' || status === 'error') {
       this.activeSessions.delete(universalSessionId);
+      await this.closeBridge(universalSessionId);
+    }
+  }
+
+  /**
+   * Merge fields into the Happy API session's metadata, e.g. the window
+   * title. Updates within a second of each other are sent together.
+   */
+  updateSessionMetadata(universalSessionId: string, update: Partial<Metadata>): void {
+    const bridge = this.bridges.get(universalSessionId);
+    if (!bridge) {
+      return;
     }
 
-    // Note: Happy CLI doesn't have a direct API to update session status
-    // The mobile app will see the session as inactive when daemon stops tracking it
+    bridge.pendingMetadata = { ...bridge.pendingMetadata, ...update };
+    if (!bridge.metadataTimer) {
+      bridge.metadataTimer = setTimeout(() => this.flushMetadata(bridge), this.metadataFlushDelay);
+    }
+  }
+
+  /**
+   * Serve an RPC method on the session's Happy API session, beside common
+   * ones such as `readFile`. Sessions that aren't registered are skipped.
+   */
+  registerRpcHandler<TRequest, TResponse>(
+    universalSessionId: string,
+    method: string,
+    handler: RpcHandler<TRequest, TResponse>
+  ): void {
+    this.bridges.get(universalSessionId)?.client.rpcHandlerManager.registerHandler(method, handler);
   }
 
   /**
-   * Forward output to Happy CLI system (if needed)
+   * Send a push notification to the user's devices. Returns false when
+   * there are no Happy credentials to send it with.
+   */
+  async sendPushNotification(universalSessionId: string, title: string, body: string): Promise<boolean> {
+    const credentials = await readCredentials();
+    if (!credentials) {
+      logger.debug(`No Happy CLI credentials found, cannot send push notification for ${universalSessionId}`);
+      return false;
+    }
+
+    const apiSessionId = this.activeSessions.get(universalSessionId)?.apiSessionId;
+    new PushNotificationClient(credentials.token, configuration.serverUrl).sendToAllDevices(title, body, {
+      universalSessionId,
+      ...(apiSessionId ? { sessionId: apiSessionId } : {})
+    });
+    return true;
+  }
+
+  /**
+   * Forward output to the Happy API session. Entries are batched so that
+   * chatty tools do not send one message per chunk.
    */
   async forwardOutput(universalSessionId: string, output: TerminalOutput): Promise<void> {
-    const happySession = this.activeSessions.get(universalSessionId);
-    if (!happySession) {
+    const bridge = this.bridges.get(universalSessionId);
+    if (!bridge) {
       return;
     }
 
-    // Note: Happy CLI handles output through its own API session system
-    // Universal CLI output is shown in terminal directly
-    // For remote viewing, we'd need to implement a more complex bridge
+    bridge.pendingOutput.push({
+      source: output.source,
+      text: output.text,
+      ansi: output.ansi,
+      timestamp: output.timestamp
+    });
+
+    if (bridge.pendingOutput.length >= this.maxBatchEntries) {
+      this.flushOutput(bridge);
+    } else if (!bridge.flushTimer) {
+      bridge.flushTimer = setTimeout(() => this.flushOutput(bridge), this.outputFlushDelay);
+    }
+  }
+
+  /**
+   * Wire up an API session: keep-alive pings and mobile input
+   */
+  private startBridge(universalSessionId: string, client: ApiSessionClient, onInput?: HappyInputHandler): void {
+    client.keepAlive(true, 'remote');
+    const keepAliveInterval = setInterval(() => {
+      const status = this.activeSessions.get(universalSessionId)?.status;
+      client.keepAlive(status === 'running', 'remote');
+    }, this.keepAliveMs);
+
+    if (onInput) {
+      client.onUserMessage((message) => {
+        const text = message.content.text;
+        onInput(text.endsWith('\n') ? text : text + '\n').catch(error => {
+          logger.debug(`Failed to deliver mobile input to Universal session ${universalSessionId}: ${error}`);
+          client.sendSessionEvent({ type: 'message', message: `Input not delivered: ${error instanceof Error ? error.message : error}` });
+        });
+      });
+    }
+
+    this.bridges.set(universalSessionId, {
+      client,
+      pendingOutput: [],
+      flushTimer: null,
+      pendingMetadata: null,
+      metadataTimer: null,
+      keepAliveInterval
+    });
+  }
+
+  private flushMetadata(bridge: SessionBridge): void {
+    if (bridge.metadataTimer) {
+      clearTimeout(bridge.metadataTimer);
+      bridge.metadataTimer = null;
+    }
+    if (!bridge.pendingMetadata) {
+      return;
+    }
+
+    const update = bridge.pendingMetadata;
+    bridge.pendingMetadata = null;
+    bridge.client.updateMetadata((metadata) => ({ ...metadata, ...update }));
+  }
+
+  private flushOutput(bridge: SessionBridge): void {
+    if (bridge.flushTimer) {
+      clearTimeout(bridge.flushTimer);
+      bridge.flushTimer = null;
+    }
+    if (bridge.pendingOutput.length === 0) {
+      return;
+    }
+
+    const entries = bridge.pendingOutput;
+    bridge.pendingOutput = [];
+    bridge.client.sendTerminalMessage({ type: 'output', entries });
+  }
+
+  /**
+   * Send session death and disconnect from the API session
+   */
+  private async closeBridge(universalSessionId: string): Promise<void> {
+    const bridge = this.bridges.get(universalSessionId);
+    if (!bridge) {
+      return;
+    }
+    this.bridges.delete(universalSessionId);
+
+    clearInterval(bridge.keepAliveInterval);
+    this.flushOutput(bridge);
+    this.flushMetadata(bridge);
+
+    try {
+      bridge.client.sendSessionDeath();
+      await bridge.client.flush();
+      await bridge.client.close();
+    } catch (error) {
+      logger.debug(`Error closing Happy API session for Universal session ${universalSessionId}: ${error}`);
+    }
   }
 
   /**
    * Create a real Happy CLI API session
    */
-  private async createHappyApiSession(happySession: HappySession): Promise<string | null> {
+  private async createHappyApiSession(happySession: HappySession, metadata: Metadata): Promise<ApiSessionClient | null> {
     try {
       // Check if we have credentials
       const credentials = await readCredentials();
@@ -120,47 +310,15 @@ export class HappyIntegration {
       // Create API client
       const api = await ApiClient.create(credentials);
 
-      // Import required modules
-      const os = require('os');
-      const path = require('path');
-      const packageJson = require('../../package.json');
-      const { configuration } = require('@/configuration');
-      const { projectPath } = require('@/projectPath');
-
-      // Create metadata for the session
-      const metadata: Metadata = {
-        path: happySession.cwd,
-        host: os.hostname(),
-        version: packageJson.version,
-        name: `Universal CLI: ${happySession.command}`,
-        os: os.platform(),
-        summary: {
-          text: `Running ${happySession.command} ${happySession.args.join(' ')} via Universal CLI`,
-          updatedAt: Date.now()
-        },
-        machineId: undefined, // Will be set by API
-        claudeSessionId: happySession.sessionId, // Use Universal CLI session ID as reference
-        tools: [happySession.tool],
-        homeDir: os.homedir(),
-        happyHomeDir: configuration.happyHomeDir,
-        happyLibDir: projectPath(),
-        happyToolsDir: path.join(configuration.happyHomeDir, 'tools'),
-        startedFromDaemon: false,
-        hostPid: process.pid,
-        startedBy: 'terminal',
-        lifecycleState: happySession.status === 'running' ? 'running' : 'archived',
-        lifecycleStateSince: happySession.startTime,
-        flavor: 'universal-cli'
-      };
-
-      // Create the session via API
-      const session = await api.createSession({
+      // Create the session via API, tagged with our own ID so retries reuse it
+      const session = await api.getOrCreateSession({
+        tag: happySession.sessionId,
         metadata,
-        agentState: null
+        state: { controlledByUser: false }
       });
 
       logger.debug(`Created Happy API session ${session.id} for Universal CLI session ${happySession.universalSessionId}`);
-      return session.id;
+      return api.sessionSyncClient(session);
 
     } catch (error) {
       logger.debug(`Failed to create Happy API session: ${error}`);
@@ -169,9 +327,41 @@ export class HappyIntegration {
   }
 
   /**
-   * Create a proper Happy CLI API session and notify daemon
+   * Happy CLI metadata describing a wrapped tool session
+   */
+  private async buildMetadata(happySession: HappySession): Promise<Metadata> {
+    const settings = await readSettings();
+
+    return {
+      path: happySession.cwd,
+      host: os.hostname(),
+      version: packageJson.version,
+      name: `Universal CLI: ${happySession.command}`,
+      os: os.platform(),
+      summary: {
+        text: `Running ${[happySession.command, ...happySession.args].join(' ')} via Universal CLI`,
+        updatedAt: Date.now()
+      },
+      machineId: settings.machineId,
+      claudeSessionId: happySession.sessionId, // Use Universal CLI session ID as reference
+      tools: [happySession.tool],
+      homeDir: os.homedir(),
+      happyHomeDir: configuration.happyHomeDir,
+      happyLibDir: projectPath(),
+      happyToolsDir: join(configuration.happyHomeDir, 'tools'),
+      startedFromDaemon: false,
+      hostPid: process.pid,
+      startedBy: 'terminal',
+      lifecycleState: 'running',
+      lifecycleStateSince: happySession.startTime,
+      flavor: 'universal-cli'
+    };
+  }
+
+  /**
+   * Notify the daemon about the API session
    */
-  private async notifyDaemonSessionStarted(happySession: HappySession): Promise<boolean> {
+  private async notifyDaemonSessionStarted(happySession: HappySession, metadata: Metadata): Promise<boolean> {
     try {
       const daemonState = await readDaemonState();
       if (!daemonState?.httpPort) {
@@ -187,39 +377,6 @@ export class HappyIntegration {
         return false;
       }
 
-      // Import required modules
-      const os = require('os');
-      const path = require('path');
-      const packageJson = require('../../package.json');
-      const { configuration } = require('@/configuration');
-      const { projectPath } = require('@/projectPath');
-
-      // Create proper Happy CLI metadata format
-      const metadata = {
-        path: happySession.cwd,
-        host: os.hostname(),
-        version: packageJson.version,
-        name: `Universal CLI: ${happySession.command}`,
-        os: os.platform(),
-        summary: {
-          text: `Running ${happySession.command} ${happySession.args.join(' ')} via Universal CLI`,
-          updatedAt: Date.now()
-        },
-        machineId: undefined, // Will be set by daemon
-        claudeSessionId: happySession.sessionId, // Use Universal CLI session ID as reference
-        tools: [happySession.tool],
-        homeDir: os.homedir(),
-        happyHomeDir: configuration.happyHomeDir,
-        happyLibDir: projectPath(),
-        happyToolsDir: path.join(configuration.happyHomeDir, 'tools'),
-        startedFromDaemon: false,
-        hostPid: process.pid,
-        startedBy: 'terminal',
-        lifecycleState: happySession.status === 'running' ? 'running' : 'archived',
-        lifecycleStateSince: happySession.startTime,
-        flavor: 'universal-cli'
-      };
-
       // Send notification with proper metadata format using the API session ID
       const sessionIdToUse = happySession.apiSessionId || happySession.sessionId;
       const response = await fetch(`http://127.0.0.1:${daemonState.httpPort}/session-started`, {
@@ -253,12 +410,13 @@ export class HappyIntegration {
   }
 
   /**
-   * Clean up integration
+   * Clean up integration, reporting any still-bridged sessions as dead
    */
-  cleanup(): void {
+  async cleanup(): Promise<void> {
+    await Promise.all(Array.from(this.bridges.keys()).map(id => this.closeBridge(id)));
     this.activeSessions.clear();
   }
 }
 
 // Singleton instance
-export const happyIntegration = new HappyIntegration();
\ No newline at end of file
+export const happyIntegration = new HappyIntegration();
@@ -0,0 +1,123 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, utimesSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FormatProcessor } from './FormatProcessor.js';
+import { HistoryStore } from './HistoryStore.js';
+import type { Session } from './types.js';
+
+describe('HistoryStore', () => {
+  const formatProcessor = new FormatProcessor();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'history-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createSession(id = 'session-1'): Session {
+    return {
+      id,
+      tool: 'test',
+      command: 'test',
+      args: [],
+      status: 'running',
+      startTime: 0,
+      lastActivity: 0,
+      cwd: dir,
+      env: {},
+      outputHistory: [],
+      inputHistory: [],
+      remoteConnections: new Set()
+    };
+  }
+
+  function appendLines(store: HistoryStore, session: Session, count: number): void {
+    for (let index = 1; index <= count; index++) {
+      const output = formatProcessor.processOutput(Buffer.from(`line ${index}\n`), index % 10 === 0 ? 'stderr' : 'stdout');
+      store.append(session, { ...output, timestamp: index * 1000, sequence: index });
+    }
+  }
+
+  it('should spill the oldest output to disk once over budget', () => {
+    const store = new HistoryStore(dir, formatProcessor, 2000);
+    const session = createSession();
+    appendLines(store, session, 100);
+
+    expect(existsSync(join(dir, 'session-1.ndjson'))).toBe(true);
+    expect(session.outputHistory.length).toBeLessThan(100);
+    expect(session.outputHistory[session.outputHistory.length - 1].sequence).toBe(100);
+    expect(store.count(session)).toBe(100);
+  });
+
+  it('should query spilled and in-memory output alike', () => {
+    const store = new HistoryStore(dir, formatProcessor, 2000);
+    const session = createSession();
+    appendLines(store, session, 100);
+
+    expect(store.query(session).map(output => output.sequence)).toEqual(
+      Array.from({ length: 100 }, (_, index) => index + 1)
+    );
+    expect(store.query(session, { grep: '^line 7$' })[0].text).toBe('line 7\n');
+    expect(store.query(session, { source: 'stderr' }).map(output => output.sequence)).toEqual(
+      [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]
+    );
+  });
+
+  it('should return the newest matches unless reading forward', () => {
+    const store = new HistoryStore(dir, formatProcessor, 2000);
+    const session = createSession();
+    appendLines(store, session, 100);
+
+    expect(store.query(session, { limit: 3 }).map(output => output.sequence)).toEqual([98, 99, 100]);
+    expect(store.query(session, { after: 5, limit: 3 }).map(output => output.sequence)).toEqual([6, 7, 8]);
+    expect(store.query(session, { from: 20000, to: 23000 }).map(output => output.sequence)).toEqual([20, 21, 22]);
+  });
+
+  it('should keep the whole history in the file when a session closes', () => {
+    const store = new HistoryStore(dir, formatProcessor, 2000);
+    const session = createSession();
+    appendLines(store, session, 100);
+    store.close(session);
+
+    const lines = readFileSync(join(dir, 'session-1.ndjson'), 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(100);
+    expect(JSON.parse(lines[99])).toMatchObject({ sequence: 100, ansi: 'line 100\n' });
+  });
+
+  it('should keep lines within the budget and serve them from disk', () => {
+    const store = new HistoryStore(dir, formatProcessor, 2000);
+    const session = createSession();
+    for (let sequence = 1; sequence <= 100; sequence++) {
+      store.appendLine(session, { content: `line ${sequence}`, complete: true, source: 'stdout', timestamp: sequence, sequence });
+    }
+
+    expect(existsSync(join(dir, 'session-1.lines.ndjson'))).toBe(true);
+    expect(store.lines(session).map(line => line.sequence)).toEqual(Array.from({ length: 100 }, (_, index) => index + 1));
+    expect(store.lines(session, { after: 95 }).map(line => line.content)).toEqual(['line 96', 'line 97', 'line 98', 'line 99', 'line 100']);
+    expect(store.lines(session, { limit: 2 }).map(line => line.sequence)).toEqual([99, 100]);
+
+    store.close(session);
+    expect(readFileSync(join(dir, 'session-1.lines.ndjson'), 'utf8').trim().split('\n')).toHaveLength(100);
+  });
+
+  it('should prune only the files of closed sessions past the retention', async () => {
+    const store = new HistoryStore(dir, formatProcessor, 2000);
+    const closed = createSession('closed');
+    const open = createSession('open');
+    appendLines(store, closed, 100);
+    appendLines(store, open, 100);
+    store.close(closed);
+
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(join(dir, 'closed.ndjson'), old, old);
+    utimesSync(join(dir, 'open.ndjson'), old, old);
+
+    expect(await store.prune(3_600_000)).toEqual([]);
+    expect(await store.prune(1000)).toEqual([join(dir, 'closed.ndjson')]);
+    expect(existsSync(join(dir, 'open.ndjson'))).toBe(true);
+  });
+});
@@ -0,0 +1,437 @@
+/**
+ * Universal CLI Wrapper - History Store
+ *
+ * Keeps each session's output history and assembled lines within a memory
+ * budget. The newest output stays in `session.outputHistory` and the newest
+ * lines stay here; when together they grow past the budget, the oldest half
+ * of each is appended to the session's history file
+ * (`~/.universal-cli/history/<session>.ndjson`, lines in
+ * `<session>.lines.ndjson`) as one segment. Every segment is indexed by its
+ * byte range, sequence numbers, time span and streams, so a query only reads
+ * the segments that can hold matching entries.
+ *
+ * When a session closes, the output and lines still in memory are appended
+ * so the files hold its whole history. Files outlive their sessions until
+ * they are pruned or deleted by hand.
+ */
+
+import { closeSync, mkdirSync, openSync, promises as fs, readSync, writeSync } from 'node:fs';
+import { join } from 'node:path';
+import type { HistoryQuery, ParsedLine, Session, TerminalOutput } from './types.js';
+import type { FormatProcessor } from './FormatProcessor.js';
+
+/** Rough in-memory cost of a parsed ANSI sequence object */
+const SEQUENCE_BYTES = 64;
+/** Rough in-memory cost of a line object, besides its content */
+const LINE_BYTES = 64;
+
+interface Segment {
+  offset: number;
+  length: number;
+  count: number;
+  firstSequence: number;
+  lastSequence: number;
+  firstTimestamp: number;
+  lastTimestamp: number;
+  sources: Set<TerminalOutput['source']>;
+}
+
+interface SpilledEntry {
+  sequence: number;
+  timestamp: number;
+  source: TerminalOutput['source'];
+  ansi: string;
+  /** Base64 of the raw bytes, only when they differ from `ansi` as UTF-8 */
+  raw?: string;
+}
+
+/** Entries that can be spilled: output chunks and lines */
+interface Entry {
+  sequence?: number;
+  timestamp: number;
+  source: TerminalOutput['source'];
+}
+
+interface HistoryFile {
+  path: string;
+  segments: Segment[];
+  fd?: number;
+  size: number;
+  spilled: number;
+}
+
+interface SessionHistory {
+  outputBytes: number;
+  output: HistoryFile;
+  lines: ParsedLine[];
+  lineBytes: number;
+  linesFile: HistoryFile;
+}
+
+export class HistoryStore {
+  private histories = new Map<string, SessionHistory>();
+
+  constructor(
+    private readonly dir: string,
+    private readonly formatProcessor: FormatProcessor,
+    private budget: number
+  ) {}
+
+  setBudget(bytes: number): void {
+    this.budget = bytes;
+  }
+
+  /**
+   * Add output to the session's history, spilling the oldest entries to
+   * disk once the in-memory history is over budget
+   */
+  append(session: Session, output: TerminalOutput): void {
+    const history = this.history(session.id);
+    session.outputHistory.push(output);
+    history.outputBytes += this.size(output);
+    this.enforceBudget(session, history);
+  }
+
+  /**
+   * Add a complete line to the session's lines. Lines count against the
+   * same budget as output and are spilled along with it.
+   */
+  appendLine(session: Session, line: ParsedLine): void {
+    const history = this.history(session.id);
+    history.lines.push(line);
+    history.lineBytes += this.lineSize(line);
+    this.enforceBudget(session, history);
+  }
+
+  /**
+   * Number of entries in the session's history, on disk and in memory
+   */
+  count(session: Session): number {
+    return (this.histories.get(session.id)?.output.spilled ?? 0) + session.outputHistory.length;
+  }
+
+  /**
+   * Find the entries of a session's history matching the query, oldest first.
+   * Throws if `grep` is not a valid regular expression.
+   */
+  query(session: Session, query: HistoryQuery = {}): TerminalOutput[] {
+    const grep = query.grep ? new RegExp(query.grep, 'm') : undefined;
+    const limit = query.limit && query.limit > 0 ? query.limit : Infinity;
+    const forward = query.after !== undefined;
+    const history = this.histories.get(session.id);
+    const segments = (history?.output.segments || []).filter(segment => this.segmentMatches(segment, query));
+
+    const results: TerminalOutput[] = [];
+    const collect = (output: TerminalOutput): boolean => {
+      if (this.entryMatches(output.sequence ?? 0, output.timestamp, output.source, query) &&
+          (!grep || grep.test(output.text))) {
+        results.push(output);
+      }
+      return results.length >= limit;
+    };
+
+    if (forward) {
+      for (const segment of segments) {
+        if (this.scanSegment(history!.output, segment, query, grep, limit - results.length, false, results)) {
+          return results;
+        }
+      }
+      for (const output of session.outputHistory) {
+        if (collect(output)) {
+          break;
+        }
+      }
+      return results;
+    }
+
+    // Without `after`, the newest matches win: walk backwards and reverse
+    for (let index = session.outputHistory.length - 1; index >= 0; index--) {
+      if (collect(session.outputHistory[index])) {
+        return results.reverse();
+      }
+    }
+    for (let index = segments.length - 1; index >= 0; index--) {
+      if (this.scanSegment(history!.output, segments[index], query, grep, limit - results.length, true, results)) {
+        break;
+      }
+    }
+    return results.reverse();
+  }
+
+  /**
+   * The session's complete lines after sequence number `after`, oldest
+   * first. With a limit, the newest lines are returned.
+   */
+  lines(session: Session, query: Pick<HistoryQuery, 'after' | 'source' | 'limit'> = {}): ParsedLine[] {
+    const limit = query.limit && query.limit > 0 ? query.limit : Infinity;
+    const history = this.histories.get(session.id);
+    if (!history) {
+      return [];
+    }
+
+    const results: ParsedLine[] = [];
+    const collect = (line: ParsedLine): boolean => {
+      if (this.entryMatches(line.sequence, line.timestamp, line.source, query)) {
+        results.push(line);
+      }
+      return results.length >= limit;
+    };
+
+    for (let index = history.lines.length - 1; index >= 0; index--) {
+      if (collect(history.lines[index])) {
+        return results.reverse();
+      }
+    }
+    const segments = history.linesFile.segments.filter(segment => this.segmentMatches(segment, query));
+    for (let index = segments.length - 1; index >= 0; index--) {
+      const lines = this.readSegment(history.linesFile, segments[index]).reverse();
+      if (lines.some(line => collect(JSON.parse(line) as ParsedLine))) {
+        break;
+      }
+    }
+    return results.reverse();
+  }
+
+  /**
+   * Forget a session's history. If it has history files, the output and
+   * lines still in memory are written to them first and the files are kept.
+   */
+  close(session: Session): void {
+    const history = this.histories.get(session.id);
+    if (!history) {
+      return;
+    }
+    this.histories.delete(session.id);
+
+    const files: Array<[HistoryFile, Buffer]> = [
+      [history.output, this.encode(session.outputHistory, output => this.toSpilled(output))],
+      [history.linesFile, this.encode(history.lines, line => line)]
+    ];
+    for (const [file, data] of files) {
+      if (file.fd === undefined) {
+        continue;
+      }
+      try {
+        writeSync(file.fd, data, 0, data.length, file.size);
+        closeSync(file.fd);
+      } catch (error) {
+        console.warn(`Failed to close history file ${file.path}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Delete the history files last written more than `olderThanMs` ago,
+   * except those of sessions still open. Returns the deleted paths.
+   */
+  async prune(olderThanMs: number): Promise<string[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const now = Date.now();
+    const deleted: string[] = [];
+    for (const name of names) {
+      const sessionId = /^(.+?)(\.lines)?\.ndjson$/.exec(name)?.[1];
+      if (!sessionId || this.histories.has(sessionId)) {
+        continue;
+      }
+      const path = join(this.dir, name);
+      const stat = await fs.stat(path).catch(() => undefined);
+      if (stat && now - stat.mtimeMs > olderThanMs) {
+        await fs.rm(path, { force: true });
+        deleted.push(path);
+      }
+    }
+    return deleted;
+  }
+
+  private history(sessionId: string): SessionHistory {
+    let history = this.histories.get(sessionId);
+    if (!history) {
+      history = {
+        outputBytes: 0,
+        output: { path: join(this.dir, `${sessionId}.ndjson`), segments: [], size: 0, spilled: 0 },
+        lines: [],
+        lineBytes: 0,
+        linesFile: { path: join(this.dir, `${sessionId}.lines.ndjson`), segments: [], size: 0, spilled: 0 }
+      };
+      this.histories.set(sessionId, history);
+    }
+    return history;
+  }
+
+  /**
+   * Once output and lines are over budget together, write the oldest half
+   * of each to its history file, so spills stay infrequent
+   */
+  private enforceBudget(session: Session, history: SessionHistory): void {
+    if (history.outputBytes + history.lineBytes <= this.budget) {
+      return;
+    }
+
+    const outputs = this.countToRelease(session.outputHistory, history.outputBytes, output => this.size(output));
+    const lines = this.countToRelease(history.lines, history.lineBytes, line => this.lineSize(line));
+    try {
+      this.spill(history.output, session.outputHistory.slice(0, outputs), output => this.toSpilled(output));
+      this.spill(history.linesFile, history.lines.slice(0, lines), line => line);
+    } catch (error) {
+      // Keep the history bounded even if the disk is unavailable
+      console.warn(`Failed to spill history of session ${session.id}, dropping oldest output:`, error);
+    }
+
+    for (const output of session.outputHistory.splice(0, outputs)) {
+      history.outputBytes -= this.size(output);
+    }
+    for (const line of history.lines.splice(0, lines)) {
+      history.lineBytes -= this.lineSize(line);
+    }
+  }
+
+  /**
+   * Number of oldest entries to release to get down to half their size,
+   * always keeping the newest entry in memory
+   */
+  private countToRelease<T>(entries: T[], bytes: number, size: (entry: T) => number): number {
+    const target = bytes / 2;
+    let count = 0;
+    while (count < entries.length - 1 && bytes > target) {
+      bytes -= size(entries[count]);
+      count++;
+    }
+    return count;
+  }
+
+  private spill<T extends Entry>(file: HistoryFile, entries: T[], toJson: (entry: T) => unknown): void {
+    if (entries.length === 0) {
+      return;
+    }
+    const data = this.encode(entries, toJson);
+
+    if (file.fd === undefined) {
+      mkdirSync(this.dir, { recursive: true });
+      file.fd = openSync(file.path, 'w+');
+    }
+    writeSync(file.fd, data, 0, data.length, file.size);
+
+    const count = entries.length;
+    file.segments.push({
+      offset: file.size,
+      length: data.length,
+      count,
+      firstSequence: entries[0].sequence ?? 0,
+      lastSequence: entries[count - 1].sequence ?? 0,
+      firstTimestamp: entries[0].timestamp,
+      lastTimestamp: entries[count - 1].timestamp,
+      sources: new Set(entries.map(entry => entry.source))
+    });
+    file.size += data.length;
+    file.spilled += count;
+  }
+
+  /**
+   * Read a segment's matching entries into `results`, newest first when
+   * `backwards`. Returns true once `limit` entries have been collected.
+   */
+  private scanSegment(
+    file: HistoryFile,
+    segment: Segment,
+    query: HistoryQuery,
+    grep: RegExp | undefined,
+    limit: number,
+    backwards: boolean,
+    results: TerminalOutput[]
+  ): boolean {
+    const lines = this.readSegment(file, segment);
+    if (backwards) {
+      lines.reverse();
+    }
+
+    let found = 0;
+    for (const line of lines) {
+      const entry = JSON.parse(line) as SpilledEntry;
+      if (!this.entryMatches(entry.sequence, entry.timestamp, entry.source, query)) {
+        continue;
+      }
+      // Only entries that match are parsed back into full output
+      if (grep && !grep.test(this.formatProcessor.stripAnsi(entry.ansi))) {
+        continue;
+      }
+      results.push(this.fromSpilled(entry));
+      if (++found >= limit) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * The JSON lines of a segment, oldest first
+   */
+  private readSegment(file: HistoryFile, segment: Segment): string[] {
+    const data = Buffer.alloc(segment.length);
+    readSync(file.fd!, data, 0, segment.length, segment.offset);
+    return data.toString('utf8').split('\n').filter(line => line.length > 0);
+  }
+
+  private segmentMatches(segment: Segment, query: HistoryQuery): boolean {
+    return (query.after === undefined || segment.lastSequence > query.after) &&
+      (query.before === undefined || segment.firstSequence < query.before) &&
+      (query.from === undefined || segment.lastTimestamp >= query.from) &&
+      (query.to === undefined || segment.firstTimestamp < query.to) &&
+      (query.source === undefined || segment.sources.has(query.source));
+  }
+
+  private entryMatches(sequence: number, timestamp: number, source: TerminalOutput['source'], query: HistoryQuery): boolean {
+    return (query.after === undefined || sequence > query.after) &&
+      (query.before === undefined || sequence < query.before) &&
+      (query.from === undefined || timestamp >= query.from) &&
+      (query.to === undefined || timestamp < query.to) &&
+      (query.source === undefined || source === query.source);
+  }
+
+  private encode<T>(entries: T[], toJson: (entry: T) => unknown): Buffer {
+    return Buffer.from(entries.map(entry => JSON.stringify(toJson(entry)) + '\n').join(''));
+  }
+
+  private toSpilled(output: TerminalOutput): SpilledEntry {
+    const entry: SpilledEntry = {
+      sequence: output.sequence ?? 0,
+      timestamp: output.timestamp,
+      source: output.source,
+      ansi: output.ansi
+    };
+    // Output decoded from a legacy encoding can't be recovered from `ansi`
+    if (!output.raw.equals(Buffer.from(output.ansi, 'utf8'))) {
+      entry.raw = output.raw.toString('base64');
+    }
+    return entry;
+  }
+
+  private fromSpilled(entry: SpilledEntry): TerminalOutput {
+    const raw = entry.raw === undefined ? Buffer.from(entry.ansi, 'utf8') : Buffer.from(entry.raw, 'base64');
+    return {
+      ...this.formatProcessor.processOutput(raw, entry.source, entry.ansi),
+      timestamp: entry.timestamp,
+      sequence: entry.sequence
+    };
+  }
+
+  /**
+   * Approximate memory held by an entry: the raw bytes, the UTF-16 strings
+   * and the parsed ANSI sequences
+   */
+  private size(output: TerminalOutput): number {
+    return output.raw.length + (output.ansi.length + output.text.length) * 2 + output.formatted.length * SEQUENCE_BYTES;
+  }
+
+  private lineSize(line: ParsedLine): number {
+    return line.content.length * 2 + LINE_BYTES;
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Universal CLI Wrapper - Limit Watchdog
+ *
+ * Checks one session against its limits: how long it runs, how long it
+ * goes without output, how much output it writes and, from the resource
+ * monitor's samples, how much memory and CPU time its process tree uses.
+ * A limit that is exceeded is reported once, with its action; the idle
+ * timeout again after the next output. Acting on it is up to SessionManager.
+ */
+
+import { EventEmitter } from 'node:events';
+import { constants } from 'node:os';
+import type { LimitAction, LimitName, LimitsConfig, LimitViolation, ProcessConfig, ResourceSample } from './types.js';
+
+const BYTES_PER_MB = 1024 * 1024;
+const DEFAULT_GRACE_SECONDS = 10;
+
+export interface LimitWatchdogEvents {
+  violation: [violation: LimitViolation];
+}
+
+export class LimitWatchdog extends EventEmitter<LimitWatchdogEvents> {
+  private exceeded = new Set<LimitName>();
+  private outputBytes = 0;
+  private startedAt = Date.now();
+  private lastOutputAt = Date.now();
+  private paused = false;
+  private timeoutTimer: NodeJS.Timeout | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly limits: LimitsConfig) {
+    super();
+  }
+
+  /**
+   * Whether any limit is set, so a watchdog is worth having
+   */
+  static hasLimits(limits: LimitsConfig): boolean {
+    return [limits.timeout, limits.idleTimeout, limits.maxRssMb, limits.maxCpuSeconds, limits.maxOutputMb]
+      .some(limit => limit !== undefined);
+  }
+
+  /**
+   * Seconds between SIGTERM and SIGKILL when a limit terminates the session
+   */
+  get graceSeconds(): number {
+    return this.limits.graceSeconds ?? DEFAULT_GRACE_SECONDS;
+  }
+
+  actionFor(limit: LimitName): LimitAction {
+    return this.limits.actions?.[limit] ?? this.limits.action ?? 'terminate';
+  }
+
+  /**
+   * The CPU time limit to set at spawn, when exceeding it ends the session.
+   * It applies to each process rather than the tree, but holds even if
+   * nothing is left to sample the tree.
+   */
+  cpuLimit(): ProcessConfig['cpuLimit'] {
+    const { maxCpuSeconds } = this.limits;
+    if (maxCpuSeconds === undefined || this.actionFor('maxCpuSeconds') !== 'terminate') {
+      return undefined;
+    }
+    const softSeconds = Math.ceil(maxCpuSeconds);
+    return { softSeconds, hardSeconds: softSeconds + Math.ceil(this.graceSeconds) };
+  }
+
+  /**
+   * Start the clocks of the timeout and the idle timeout
+   */
+  start(): void {
+    this.startedAt = Date.now();
+    this.lastOutputAt = this.startedAt;
+
+    const { timeout } = this.limits;
+    if (timeout !== undefined) {
+      this.timeoutTimer = setTimeout(() => {
+        this.exceed('timeout', Math.round((Date.now() - this.startedAt) / 1000),
+          (value) => `ran for ${value}s, over the ${timeout}s timeout`);
+      }, timeout * 1000);
+    }
+    this.armIdleTimer();
+  }
+
+  stop(): void {
+    if (this.timeoutTimer) {
+      clearTimeout(this.timeoutTimer);
+      this.timeoutTimer = null;
+    }
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  /**
+   * Count output the session wrote
+   */
+  output(bytes: number): void {
+    this.lastOutputAt = Date.now();
+    this.exceeded.delete('idleTimeout');
+    this.armIdleTimer();
+
+    this.outputBytes += bytes;
+    const { maxOutputMb } = this.limits;
+    if (maxOutputMb !== undefined && this.outputBytes > maxOutputMb * BYTES_PER_MB) {
+      this.exceed('maxOutputMb', this.outputBytes / BYTES_PER_MB,
+        (value) => `wrote ${value} MB of output, over the limit of ${maxOutputMb} MB`);
+    }
+  }
+
+  /**
+   * Check a resource sample of the session's process tree
+   */
+  sample(sample: ResourceSample): void {
+    const { maxRssMb, maxCpuSeconds } = this.limits;
+    if (maxRssMb !== undefined && sample.rssBytes > maxRssMb * BYTES_PER_MB) {
+      this.exceed('maxRssMb', sample.rssBytes / BYTES_PER_MB,
+        (value) => `used ${value} MB of memory, over the limit of ${maxRssMb} MB`);
+    }
+    if (maxCpuSeconds !== undefined && sample.cpuSeconds > maxCpuSeconds) {
+      this.exceed('maxCpuSeconds', sample.cpuSeconds,
+        (value) => `used ${value}s of CPU time, over the limit of ${maxCpuSeconds}s`);
+    }
+  }
+
+  /**
+   * A paused session makes no output, so it can't be idle
+   */
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+    if (paused) {
+      if (this.idleTimer) {
+        clearTimeout(this.idleTimer);
+        this.idleTimer = null;
+      }
+    } else {
+      this.lastOutputAt = Date.now();
+      this.armIdleTimer();
+    }
+  }
+
+  /**
+   * Report the CPU time limit set at spawn if it is what ended the process.
+   * A shell that ran the command reports the signal in its exit code.
+   */
+  processExited(code: number | null, signal: string | null): void {
+    this.stop();
+    const cpuLimit = this.cpuLimit();
+    if (cpuLimit && (signal === 'SIGXCPU' || code === 128 + constants.signals.SIGXCPU)) {
+      this.exceed('maxCpuSeconds', cpuLimit.softSeconds,
+        (value) => `a process used its ${value}s of CPU time and was stopped with SIGXCPU`);
+    }
+  }
+
+  private armIdleTimer(): void {
+    const { idleTimeout } = this.limits;
+    if (idleTimeout === undefined || this.paused) {
+      return;
+    }
+
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+    }
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      this.exceed('idleTimeout', Math.round((Date.now() - this.lastOutputAt) / 1000),
+        (value) => `wrote no output for ${value}s, over the ${idleTimeout}s idle timeout`);
+    }, idleTimeout * 1000);
+  }
+
+  private exceed(limit: LimitName, value: number, describe: (value: number) => string): void {
+    if (this.exceeded.has(limit)) {
+      return;
+    }
+    this.exceeded.add(limit);
+
+    const rounded = Math.round(value * 100) / 100;
+    this.emit('violation', {
+      limit,
+      action: this.actionFor(limit),
+      threshold: this.limits[limit]!,
+      value: rounded,
+      message: describe(rounded),
+      timestamp: Date.now()
+    });
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Universal CLI Wrapper - Line Parser Plugins
+ *
+ * Shared shape of the built-in plugins that read a tool's complete output
+ * lines into a summary, such as the test runner and diagnostic adapters.
+ * The parser's summary is emitted at most every EMIT_INTERVAL_MS while the
+ * tool runs, and once more when it exits.
+ */
+
+import type { ToolAdapter, ToolAdapterContext, ToolEvent, UniversalPlugin } from './types.js';
+
+/** Live summaries are sent at most this often */
+const EMIT_INTERVAL_MS = 250;
+
+export interface LineParser {
+  /** Set whenever the summary changes, cleared by the adapter once sent */
+  changed: boolean;
+  /** Read one complete line of the tool's output, without ANSI codes */
+  read(line: string): void;
+  /** The tool exited and its last lines were read */
+  finish(exitCode?: number): void;
+}
+
+export interface LineParserPluginOptions<P extends LineParser> {
+  name: string;
+  description: string;
+  tool: string;
+  createParser(session: ToolAdapterContext['session']): P;
+  /** The event that reports the parser's summary */
+  toEvent(parser: P): ToolEvent;
+  /** Whether the session's output is the tool's; all of them by default */
+  applies?(session: ToolAdapterContext['session']): boolean;
+}
+
+/**
+ * A plugin that feeds each session of its tool to a new parser
+ */
+export function lineParserPlugin<P extends LineParser>(options: LineParserPluginOptions<P>): UniversalPlugin {
+  return {
+    name: options.name,
+    description: options.description,
+    tools: [options.tool],
+    createAdapter({ session, emit }): ToolAdapter | void {
+      if (options.applies && !options.applies(session)) {
+        return;
+      }
+
+      const parser = options.createParser(session);
+      let timer: NodeJS.Timeout | undefined;
+      const send = () => {
+        clearTimeout(timer);
+        timer = undefined;
+        parser.changed = false;
+        emit(options.toEvent(parser));
+      };
+
+      return {
+        onLine(line) {
+          if (!line.complete) {
+            return;
+          }
+          parser.read(line.content);
+          if (parser.changed && !timer) {
+            timer = setTimeout(send, EMIT_INTERVAL_MS);
+          }
+        },
+        onExit(exitCode) {
+          parser.finish(exitCode);
+          send();
+        },
+        dispose() {
+          clearTimeout(timer);
+        }
+      };
+    }
+  };
+}
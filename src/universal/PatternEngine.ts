@@ -0,0 +1,180 @@
+/**
+ * Universal CLI Wrapper - Pattern Engine
+ *
+ * Matches a tool's configured `patterns` against a session's completed
+ * output lines and carries out their actions: `log` writes the match to the
+ * log, `notify` sends a push notification to the user's devices, and
+ * `trigger` runs a command or POSTs the match to a webhook.
+ */
+
+import { spawn } from 'node:child_process';
+import type { PatternConfig, PatternMatch, PatternTrigger, Session } from './types.js';
+import { happyIntegration } from './HappyIntegration.js';
+
+interface CompiledPattern {
+  name: string;
+  config: PatternConfig;
+  stdout: RegExp | null;
+  stderr: RegExp | null;
+}
+
+const DEFAULT_COOLDOWN_SECONDS = 30;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export class PatternEngine {
+  private patterns: CompiledPattern[] = [];
+  private lastActionAt = new Map<string, number>();
+
+  constructor(private readonly sessionId: string, patterns: Record<string, PatternConfig> = {}) {
+    for (const [name, config] of Object.entries(patterns)) {
+      try {
+        this.patterns.push({
+          name,
+          config,
+          stdout: config.stdout ? new RegExp(config.stdout) : null,
+          stderr: config.stderr ? new RegExp(config.stderr) : null
+        });
+      } catch (error) {
+        console.warn(`Ignoring pattern '${name}' with invalid regex:`, error);
+      }
+    }
+  }
+
+  /**
+   * Whether there is anything to match
+   */
+  isEmpty(): boolean {
+    return this.patterns.length === 0;
+  }
+
+  /**
+   * Match a completed line against every pattern for its stream
+   */
+  match(line: string, source: 'stdout' | 'stderr'): PatternMatch[] {
+    const matches: PatternMatch[] = [];
+
+    for (const pattern of this.patterns) {
+      const regex = pattern[source];
+      const result = regex?.exec(line);
+      if (!result) {
+        continue;
+      }
+
+      matches.push({
+        sessionId: this.sessionId,
+        pattern: pattern.name,
+        description: pattern.config.description,
+        action: pattern.config.action || 'log',
+        source,
+        line,
+        match: result[0],
+        groups: result.slice(1),
+        ...(result.groups ? { namedGroups: { ...result.groups } } : {}),
+        timestamp: Date.now()
+      });
+    }
+
+    return matches;
+  }
+
+  /**
+   * Carry out a match's action. Notify and trigger actions run at most
+   * once per pattern cooldown, so a burst of matching lines does not turn
+   * into a burst of notifications.
+   */
+  async act(match: PatternMatch, session: Session): Promise<void> {
+    const label = match.description || match.pattern;
+
+    if (match.action === 'log') {
+      console.info(`[${session.id.slice(0, 8)}] ${label}: ${match.line}`);
+      return;
+    }
+
+    const config = this.patterns.find(pattern => pattern.name === match.pattern)?.config;
+    const cooldownMs = (config?.cooldown ?? DEFAULT_COOLDOWN_SECONDS) * 1000;
+    const last = this.lastActionAt.get(match.pattern);
+    if (last !== undefined && match.timestamp - last < cooldownMs) {
+      return;
+    }
+    this.lastActionAt.set(match.pattern, match.timestamp);
+
+    if (match.action === 'notify') {
+      const sent = await happyIntegration.sendPushNotification(
+        session.id,
+        `${session.tool}: ${label}`,
+        match.line
+      );
+      if (!sent) {
+        console.info(`[${session.id.slice(0, 8)}] ${label} (no Happy credentials for push): ${match.line}`);
+      }
+      return;
+    }
+
+    if (!config?.trigger) {
+      console.warn(`Pattern '${match.pattern}' uses the trigger action but has no trigger configured`);
+      return;
+    }
+    await this.runTrigger(config.trigger, match, session);
+  }
+
+  private async runTrigger(trigger: PatternTrigger, match: PatternMatch, session: Session): Promise<void> {
+    if (trigger.command) {
+      this.runTriggerCommand(trigger.command, trigger.args || [], match, session);
+    }
+
+    if (trigger.webhook) {
+      try {
+        const response = await fetch(trigger.webhook, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...match,
+            tool: session.tool,
+            command: session.command,
+            args: session.args,
+            cwd: session.cwd
+          }),
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+        });
+        if (!response.ok) {
+          console.warn(`Webhook for pattern '${match.pattern}' returned HTTP ${response.status}`);
+        }
+      } catch (error) {
+        console.warn(`Webhook for pattern '${match.pattern}' failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Start a trigger command in the session's directory. Match details are
+   * passed in the environment: UHAPPY_SESSION_ID, UHAPPY_PATTERN,
+   * UHAPPY_SOURCE, UHAPPY_LINE, UHAPPY_MATCH, UHAPPY_GROUP_<n> and
+   * UHAPPY_GROUP_<NAME>.
+   */
+  private runTriggerCommand(command: string, args: string[], match: PatternMatch, session: Session): void {
+    const env: Record<string, string> = {
+      ...process.env as Record<string, string>,
+      UHAPPY_SESSION_ID: session.id,
+      UHAPPY_PATTERN: match.pattern,
+      UHAPPY_SOURCE: match.source,
+      UHAPPY_LINE: match.line,
+      UHAPPY_MATCH: match.match
+    };
+    match.groups.forEach((group, index) => {
+      env[`UHAPPY_GROUP_${index + 1}`] = group ?? '';
+    });
+    for (const [name, value] of Object.entries(match.namedGroups || {})) {
+      env[`UHAPPY_GROUP_${name.toUpperCase()}`] = value ?? '';
+    }
+
+    const child = spawn(command, args, { cwd: session.cwd, env, stdio: 'ignore' });
+    child.on('error', (error) => {
+      console.warn(`Trigger command for pattern '${match.pattern}' failed to start:`, error);
+    });
+    child.on('exit', (code) => {
+      if (code !== 0 && code !== null) {
+        console.warn(`Trigger command for pattern '${match.pattern}' exited with code ${code}`);
+      }
+    });
+  }
+}
@@ -5,33 +5,61 @@
  * Supports both PTY and regular stdio modes.
  */
 
-import { spawn, ChildProcess } from 'node:child_process';
+import { spawn, ChildProcess, type SpawnOptions } from 'node:child_process';
 import { EventEmitter } from 'node:events';
-import type { ProcessConfig, StreamEvent } from './types.js';
+import { constants } from 'node:os';
+import type { IPty } from 'node-pty';
+import { hasProcfs, descendantsOf, readProcessTable } from './ProcessTree.js';
+import type { ProcessConfig, ProcessMode, StreamEvent, TerminalSize } from './types.js';
 
 export interface ManagedProcess {
   id: string;
-  process: ChildProcess;
+  /** Child process (direct and pipe modes) */
+  process?: ChildProcess;
+  /** Pseudo-terminal (PTY mode) */
+  pty?: IPty;
+  mode: ProcessMode;
   config: ProcessConfig;
   startTime: number;
   status: 'starting' | 'running' | 'paused' | 'terminated' | 'error';
   pid?: number;
   exitCode?: number;
   signal?: string;
+  /**
+   * Descendants seen outside the process's group when it was signalled,
+   * with the group they were in; they are reaped with the group on exit
+   */
+  stragglers?: Map<number, number>;
 }
 
 export interface ProcessEvents {
-  stdout: (data: Buffer, processId: string) => void;
-  stderr: (data: Buffer, processId: string) => void;
-  exit: (code: number | null, signal: string | null, processId: string) => void;
-  error: (error: Error, processId: string) => void;
-  spawn: (processId: string) => void;
+  stdout: [data: Buffer, processId: string];
+  stderr: [data: Buffer, processId: string];
+  exit: [code: number | null, signal: string | null, processId: string];
+  error: [error: Error, processId: string];
+  spawn: [processId: string];
+}
+
+/**
+ * Signal name of `TERM`, `sigterm`, `SIGTERM` or `15`
+ */
+export function parseSignal(value: string): NodeJS.Signals {
+  const upper = value.trim().toUpperCase();
+  const name = /^\d+$/.test(upper)
+    ? Object.entries(constants.signals).find(([, signal]) => signal === parseInt(upper, 10))?.[0]
+    : upper.startsWith('SIG') ? upper : `SIG${upper}`;
+  if (!name || !(name in constants.signals)) {
+    throw new Error(`Unknown signal '${value}'`);
+  }
+  return name as NodeJS.Signals;
 }
 
 export class ProcessManager extends EventEmitter<ProcessEvents> {
   private processes = new Map<string, ManagedProcess>();
   private readonly maxProcesses = 50;
   private readonly defaultTimeout = 30000; // 30 seconds
+  private readonly defaultGraceMs = 5000;
+  private readonly defaultTerminalSize: TerminalSize = { cols: 80, rows: 24 };
 
   /**
    * Spawn a new process with the given configuration
@@ -47,22 +75,32 @@ export class ProcessManager extends EventEmitter<ProcessEvents> {
 
     const managedProcess: ManagedProcess = {
       id: processId,
-      process: null as any, // Will be set below
+      mode: this.resolveMode(config),
       config,
       startTime: Date.now(),
       status: 'starting'
     };
 
     try {
-      const childProcess = this.createChildProcess(config);
-      managedProcess.process = childProcess;
-      managedProcess.pid = childProcess.pid;
+      if (managedProcess.mode === 'pty') {
+        // PTY spawn is synchronous: the terminal exists once spawn() returns
+        const pty = await this.createPty(config);
+        managedProcess.pty = pty;
+        managedProcess.pid = pty.pid;
+
+        this.processes.set(processId, managedProcess);
+        this.setupPtyHandlers(managedProcess);
+      } else {
+        const childProcess = this.createChildProcess(config);
+        managedProcess.process = childProcess;
+        managedProcess.pid = childProcess.pid;
 
-      this.processes.set(processId, managedProcess);
-      this.setupProcessHandlers(managedProcess);
+        this.processes.set(processId, managedProcess);
+        this.setupProcessHandlers(managedProcess);
 
-      // Wait for spawn event or error
-      await this.waitForSpawn(childProcess, processId);
+        // Wait for spawn event or error
+        await this.waitForSpawn(childProcess, processId);
+      }
 
       managedProcess.status = 'running';
       this.emit('spawn', processId);
@@ -75,14 +113,24 @@ export class ProcessManager extends EventEmitter<ProcessEvents> {
     }
   }
 
+  /**
+   * Resolve the stdio mode for a process configuration
+   */
+  private resolveMode(config: ProcessConfig): ProcessMode {
+    if (config.mode) {
+      return config.mode;
+    }
+    return config.directOutput !== false ? 'direct' : 'pipe';
+  }
+
   /**
    * Create child process with appropriate stdio configuration
    */
   private createChildProcess(config: ProcessConfig): ChildProcess {
     // Determine stdio mode: inherit for direct terminal output, pipe for capture
-    const useDirectOutput = config.directOutput !== false; // Default to direct output
+    const useDirectOutput = this.resolveMode(config) === 'direct';
     
-    const spawnOptions = {
+    const spawnOptions: SpawnOptions = {
       cwd: config.cwd || process.cwd(),
       env: {
         ...process.env,
@@ -93,8 +141,8 @@ export class ProcessManager extends EventEmitter<ProcessEvents> {
       },
       // Use inherit for direct output or pipe for capture
       stdio: useDirectOutput ? 
-        ['inherit', 'inherit', 'inherit'] as const : 
-        ['pipe', 'pipe', 'pipe'] as const,
+        ['inherit', 'inherit', 'inherit'] : 
+        ['pipe', 'pipe', 'pipe'],
       // Detach from parent on Unix-like systems only
       detached: process.platform !== 'win32',
       // Kill entire process group when parent exits
@@ -103,17 +151,211 @@ export class ProcessManager extends EventEmitter<ProcessEvents> {
       shell: true
     };
 
+    // The command line goes through the shell anyway, so the limit can go in
+    // front of it. The group keeps a failed ulimit from running any of a
+    // compound command; the shell would join the args on after it otherwise.
+    if (config.cpuLimit && process.platform !== 'win32') {
+      const commandLine = [config.command, ...config.args].join(' ');
+      return spawn(`${this.ulimitCommand(config.cpuLimit)} && {\n${commandLine}\n}`, [], spawnOptions);
+    }
     return spawn(config.command, config.args, spawnOptions);
   }
 
+  /**
+   * Shell commands setting a CPU time limit. The soft limit goes first, as
+   * it may not be above the hard one.
+   */
+  private ulimitCommand(cpuLimit: NonNullable<ProcessConfig['cpuLimit']>): string {
+    return `ulimit -S -t ${cpuLimit.softSeconds} && ulimit -H -t ${cpuLimit.hardSeconds}`;
+  }
+
+  /**
+   * Create a pseudo-terminal running the configured command.
+   * node-pty is a native module, so it is loaded lazily and only for PTY sessions.
+   */
+  private async createPty(config: ProcessConfig): Promise<IPty> {
+    let ptyModule: typeof import('node-pty');
+    try {
+      ptyModule = await import('node-pty');
+    } catch (error) {
+      throw new Error(`PTY mode requires the node-pty module: ${error}`);
+    }
+
+    const size = config.size || this.defaultTerminalSize;
+    const env: Record<string, string> = {};
+    for (const [key, value] of Object.entries({ ...process.env, ...config.env })) {
+      if (value !== undefined) {
+        env[key] = value;
+      }
+    }
+
+    // The command is executed directly (no shell), so the PTY's foreground
+    // process is the tool itself and receives SIGWINCH on resize. A CPU
+    // limit needs a shell to set it, which then replaces itself with the tool.
+    const [file, args] = config.cpuLimit && process.platform !== 'win32'
+      ? ['/bin/sh', ['-c', `${this.ulimitCommand(config.cpuLimit)} && exec "$0" "$@"`, config.command, ...config.args]]
+      : [config.command, config.args];
+    return ptyModule.spawn(file, args, {
+      name: env.TERM || 'xterm-256color',
+      cols: size.cols,
+      rows: size.rows,
+      cwd: config.cwd || process.cwd(),
+      env: {
+        ...env,
+        TERM: env.TERM || 'xterm-256color',
+        // Ensure UTF-8 encoding
+        LANG: 'en_US.UTF-8',
+        LC_ALL: 'en_US.UTF-8'
+      }
+    });
+  }
+
+  /**
+   * Setup event handlers for a PTY-backed process
+   */
+  private setupPtyHandlers(managedProcess: ManagedProcess): void {
+    const { pty, id } = managedProcess;
+    if (!pty) {
+      return;
+    }
+
+    // Terminal output is a single merged stream, reported as stdout
+    pty.onData((data: string) => {
+      this.emit('stdout', Buffer.from(data, 'utf8'), id);
+    });
+
+    pty.onExit(({ exitCode, signal }) => {
+      managedProcess.status = 'terminated';
+      managedProcess.exitCode = exitCode;
+      managedProcess.signal = signal ? this.signalName(signal) : undefined;
+      this.emit('exit', exitCode, managedProcess.signal || null, id);
+      this.reapOrphans(managedProcess);
+
+      // Clean up after a delay to allow final events to be processed
+      setTimeout(() => {
+        this.processes.delete(id);
+      }, 1000);
+    });
+
+    this.setupTimeout(managedProcess);
+  }
+
+  /**
+   * Convert a numeric signal into its name (e.g. 15 -> SIGTERM)
+   */
+  private signalName(signal: number): string {
+    const entry = Object.entries(constants.signals).find(([, value]) => value === signal);
+    return entry ? entry[0] : String(signal);
+  }
+
+  /**
+   * Deliver a signal to a managed process and everything it started. On
+   * Unix the process leads its own process group, as it is spawned
+   * detached or as its terminal's session leader, so the group gets the
+   * signal; descendants that left the group are found by walking the tree.
+   */
+  private signalProcess(managedProcess: ManagedProcess, signal: NodeJS.Signals): void {
+    const { pid } = managedProcess;
+    if (process.platform === 'win32' || pid === undefined) {
+      if (managedProcess.pty) {
+        managedProcess.pty.kill(signal);
+      } else if (managedProcess.process) {
+        managedProcess.process.kill(signal);
+      }
+      return;
+    }
+
+    // Walk the tree first: once the signal lands, children may be reparented
+    const table = readProcessTable();
+    const stragglers = managedProcess.stragglers ?? new Map<number, number>();
+    for (const descendant of descendantsOf(pid, table)) {
+      const pgid = table.get(descendant)?.pgid;
+      if (pgid !== undefined && pgid !== pid) {
+        stragglers.set(descendant, pgid);
+      }
+    }
+    managedProcess.stragglers = stragglers;
+
+    try {
+      process.kill(-pid, signal);
+    } catch (error) {
+      // The group is gone when everything in it has exited
+      if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+        throw error;
+      }
+    }
+    for (const straggler of stragglers.keys()) {
+      this.signalPid(straggler, signal);
+    }
+  }
+
+  private signalPid(pid: number, signal: NodeJS.Signals): void {
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // Already gone
+    }
+  }
+
+  /**
+   * End what an exited process left behind: the rest of its process group
+   * and the stragglers seen in its tree, which are orphans now. They get
+   * SIGTERM, and SIGKILL if still there after the grace period.
+   */
+  private reapOrphans(managedProcess: ManagedProcess): void {
+    const { pid, id } = managedProcess;
+    if (process.platform === 'win32' || pid === undefined) {
+      return;
+    }
+
+    const orphans = this.findOrphans(managedProcess);
+    if (orphans.length === 0) {
+      return;
+    }
+
+    console.debug(`Reaping ${orphans.length} orphaned processes of ${id}: ${orphans.join(', ')}`);
+    orphans.forEach(orphan => this.signalPid(orphan, 'SIGTERM'));
+    setTimeout(() => {
+      this.findOrphans(managedProcess).forEach(orphan => this.signalPid(orphan, 'SIGKILL'));
+    }, this.defaultGraceMs).unref();
+  }
+
+  /**
+   * Processes left in an exited process's group, and stragglers still in the
+   * group they were seen in (a new process may have reused the PID)
+   */
+  private findOrphans(managedProcess: ManagedProcess): number[] {
+    const pid = managedProcess.pid!;
+    if (!hasProcfs()) {
+      // The group is all we know of; signal it blindly
+      try {
+        process.kill(-pid, 0);
+        return [-pid];
+      } catch {
+        return [];
+      }
+    }
+
+    const orphans: number[] = [];
+    for (const entry of readProcessTable().values()) {
+      if (entry.pgid === pid || managedProcess.stragglers?.get(entry.pid) === entry.pgid) {
+        orphans.push(entry.pid);
+      }
+    }
+    return orphans;
+  }
+
   /**
    * Setup event handlers for a managed process
    */
   private setupProcessHandlers(managedProcess: ManagedProcess): void {
-    const { process: childProcess, id, config } = managedProcess;
+    const { process: childProcess, id } = managedProcess;
+    if (!childProcess) {
+      return;
+    }
 
     // Only setup stdio handlers if we're in pipe mode
-    if (config.directOutput === false) {
+    if (managedProcess.mode === 'pipe') {
       // Handle stdout data
       if (childProcess.stdout) {
         childProcess.stdout.on('data', (data: Buffer) => {
@@ -144,9 +386,10 @@ export class ProcessManager extends EventEmitter<ProcessEvents> {
     // Handle process exit
     childProcess.on('exit', (code: number | null, signal: string | null) => {
       managedProcess.status = 'terminated';
-      managedProcess.exitCode = code || undefined;
+      managedProcess.exitCode = code ?? undefined;
       managedProcess.signal = signal || undefined;
       this.emit('exit', code, signal, id);
+      this.reapOrphans(managedProcess);
     });
 
     // Handle process errors
@@ -163,7 +406,14 @@ export class ProcessManager extends EventEmitter<ProcessEvents> {
       }, 1000);
     });
 
-    // Setup timeout if specified
+    this.setupTimeout(managedProcess);
+  }
+
+  /**
+   * Setup timeout if specified
+   */
+  private setupTimeout(managedProcess: ManagedProcess): void {
+    const { id } = managedProcess;
     if (managedProcess.config.timeout && managedProcess.config.timeout > 0) {
       setTimeout(() => {
         if (managedProcess.status === 'running') {
@@ -208,8 +458,13 @@ export class ProcessManager extends EventEmitter<ProcessEvents> {
       throw new Error(`Process ${processId} is not running (status: ${managedProcess.status})`);
     }
 
+    if (managedProcess.pty) {
+      managedProcess.pty.write(input);
+      return;
+    }
+
     const { process: childProcess } = managedProcess;
-    if (!childProcess.stdin) {
+    if (!childProcess?.stdin) {
       throw new Error(`Process ${processId} stdin is not available`);
     }
 
@@ -239,8 +494,13 @@ export class ProcessManager extends EventEmitter<ProcessEvents> {
       throw new Error(`Process ${processId} is not running`);
     }
 
+    if (managedProcess.pty) {
+      managedProcess.pty.write(data.toString('utf8'));
+      return;
+    }
+
     const { process: childProcess } = managedProcess;
-    if (!childProcess.stdin) {
+    if (!childProcess?.stdin) {
       throw new Error(`Process ${processId} stdin is not available`);
     }
 
@@ -256,36 +516,39 @@ export class ProcessManager extends EventEmitter<ProcessEvents> {
   }
 
   /**
-   * Kill a process with specified signal
+   * Kill a process with specified signal. SIGTERM is followed by SIGKILL
+   * if the process is still running after `graceMs`.
    */
-  async kill(processId: string, signal: NodeJS.Signals = 'SIGTERM'): Promise<void> {
+  async kill(processId: string, signal: NodeJS.Signals = 'SIGTERM', graceMs = this.defaultGraceMs): Promise<void> {
     const managedProcess = this.processes.get(processId);
     if (!managedProcess) {
       throw new Error(`Process ${processId} not found`);
     }
 
-    const { process: childProcess } = managedProcess;
-
     if (managedProcess.status === 'terminated') {
       return; // Already terminated
     }
 
     try {
       // Try graceful termination first
-      if (signal === 'SIGTERM' && childProcess.pid) {
-        childProcess.kill('SIGTERM');
+      if (signal === 'SIGTERM' && managedProcess.pid) {
+        this.signalProcess(managedProcess, 'SIGTERM');
+        // A stopped process only handles the signal once it continues
+        if (managedProcess.status === 'paused') {
+          this.signalProcess(managedProcess, 'SIGCONT');
+        }
 
         // Wait a bit for graceful termination
-        await this.waitForTermination(processId, 5000);
+        await this.waitForTermination(processId, graceMs);
 
         // If still running, force kill
         if (managedProcess.status !== 'terminated') {
           console.warn(`Process ${processId} did not terminate gracefully, force killing`);
-          childProcess.kill('SIGKILL');
+          this.signalProcess(managedProcess, 'SIGKILL');
         }
       } else {
         // Direct signal
-        childProcess.kill(signal);
+        this.signalProcess(managedProcess, signal);
       }
 
       managedProcess.status = 'terminated';
@@ -321,6 +584,22 @@ export class ProcessManager extends EventEmitter<ProcessEvents> {
     });
   }
 
+  /**
+   * Send a signal to a process and everything it started
+   */
+  signal(processId: string, signal: NodeJS.Signals): void {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess) {
+      throw new Error(`Process ${processId} not found`);
+    }
+
+    if (managedProcess.status === 'terminated' || managedProcess.status === 'error') {
+      throw new Error(`Process ${processId} is not running (status: ${managedProcess.status})`);
+    }
+
+    this.signalProcess(managedProcess, signal);
+  }
+
   /**
    * Pause a process (send SIGSTOP)
    */
@@ -335,7 +614,7 @@ export class ProcessManager extends EventEmitter<ProcessEvents> {
     }
 
     try {
-      managedProcess.process.kill('SIGSTOP');
+      this.signalProcess(managedProcess, 'SIGSTOP');
       managedProcess.status = 'paused';
     } catch (error) {
       throw new Error(`Failed to pause process ${processId}: ${error}`);
@@ -356,13 +635,37 @@ export class ProcessManager extends EventEmitter<ProcessEvents> {
     }
 
     try {
-      managedProcess.process.kill('SIGCONT');
+      this.signalProcess(managedProcess, 'SIGCONT');
       managedProcess.status = 'running';
     } catch (error) {
       throw new Error(`Failed to resume process ${processId}: ${error}`);
     }
   }
 
+  /**
+   * Resize the terminal of a PTY-backed process.
+   * The kernel delivers SIGWINCH to the terminal's foreground process group.
+   */
+  resize(processId: string, size: TerminalSize): void {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess) {
+      throw new Error(`Process ${processId} not found`);
+    }
+
+    if (!managedProcess.pty) {
+      throw new Error(`Process ${processId} is not running in PTY mode`);
+    }
+
+    if (managedProcess.status === 'terminated') {
+      return;
+    }
+
+    const cols = Math.max(1, Math.floor(size.cols));
+    const rows = Math.max(1, Math.floor(size.rows));
+    managedProcess.pty.resize(cols, rows);
+    managedProcess.config.size = { cols, rows };
+  }
+
   /**
    * Get process information
    */
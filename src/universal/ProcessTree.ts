@@ -0,0 +1,81 @@
+/**
+ * Universal CLI Wrapper - Process Tree
+ *
+ * Reads the system's processes from /proc, so a session's whole tree can be
+ * sampled and signalled: the shell pipe mode runs commands through, the
+ * tools it starts, and whatever those fork. Systems without /proc have no
+ * table to read and get an empty one.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+
+export interface ProcessEntry {
+  pid: number;
+  ppid: number;
+  /** Process group */
+  pgid: number;
+  /** User and system CPU time of the process and its reaped children, in clock ticks */
+  ticks: number;
+  threads: number;
+}
+
+/**
+ * Whether this system has a /proc to read
+ */
+export function hasProcfs(): boolean {
+  return existsSync('/proc/self/stat');
+}
+
+/**
+ * Every process, by PID
+ */
+export function readProcessTable(): Map<number, ProcessEntry> {
+  const table = new Map<number, ProcessEntry>();
+  if (!hasProcfs()) {
+    return table;
+  }
+
+  for (const entry of readdirSync('/proc')) {
+    if (!/^\d+$/.test(entry)) {
+      continue;
+    }
+    try {
+      const stat = readFileSync(`/proc/${entry}/stat`, 'utf8');
+      // The command name is in parentheses and may itself contain spaces or parentheses
+      const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+      const pid = parseInt(entry, 10);
+      table.set(pid, {
+        pid,
+        ppid: parseInt(fields[1], 10),
+        pgid: parseInt(fields[2], 10),
+        // utime, stime, cutime and cstime
+        ticks: fields.slice(11, 15).reduce((sum, field) => sum + parseInt(field, 10), 0),
+        threads: parseInt(fields[17], 10)
+      });
+    } catch {
+      // Exited while we were reading
+    }
+  }
+  return table;
+}
+
+/**
+ * PIDs of a process and all its descendants, the process first
+ */
+export function descendantsOf(root: number, table: Map<number, ProcessEntry>): number[] {
+  const children = new Map<number, number[]>();
+  for (const { pid, ppid } of table.values()) {
+    const siblings = children.get(ppid);
+    if (siblings) {
+      siblings.push(pid);
+    } else {
+      children.set(ppid, [pid]);
+    }
+  }
+
+  const pids = [root];
+  for (let i = 0; i < pids.length; i++) {
+    pids.push(...(children.get(pids[i]) || []));
+  }
+  return pids;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ProgressTracker } from './ProgressTracker.js';
+
+describe('ProgressTracker', () => {
+  it('should read percentages from bars redrawn with carriage returns', () => {
+    const tracker = new ProgressTracker();
+    expect(tracker.update('Downloading  10%\r')?.percent).toBe(10);
+    expect(tracker.update('Downloading  10.4%\r')).toBeNull();
+    expect(tracker.update('Downloading  42%')?.percent).toBe(42);
+  });
+
+  it('should read byte counters in the total unit', () => {
+    const progress = new ProgressTracker().update('12.5/50 MB\n');
+    expect(progress?.bytes).toEqual({ current: 12_500_000, total: 50_000_000 });
+    expect(progress?.percent).toBe(25);
+  });
+
+  it('should read step counters and report each step', () => {
+    const tracker = new ProgressTracker();
+    expect(tracker.update('[3/10] Compiling\n')?.step).toEqual({ current: 3, total: 10 });
+    expect(tracker.update('Step 4/10 : RUN make\n')?.step).toEqual({ current: 4, total: 10 });
+  });
+
+  it('should drop the step once an update has no step counter', () => {
+    const tracker = new ProgressTracker();
+    tracker.update('[3/10] Compiling\n');
+    const progress = tracker.update('Linking 80%\n');
+    expect(progress?.percent).toBe(80);
+    expect(progress?.step).toBeUndefined();
+  });
+
+  it('should combine docker layers into one percentage', () => {
+    const tracker = new ProgressTracker();
+    tracker.update('a1b2c3d4e5f6: Pull complete\n');
+    const progress = tracker.update('0123456789ab: Downloading  5MB/10MB\n');
+    expect(progress?.percent).toBe(62.5);
+    expect(Object.keys(progress?.layers ?? {})).toEqual(['a1b2c3d4e5f6', '0123456789ab']);
+  });
+
+  it('should measure bars only on lines marked by the tool', () => {
+    expect(new ProgressTracker().update('███░░░░░░░\n')).toBeNull();
+    expect(new ProgressTracker({ enabled: true, patterns: ['Uploading'] })
+      .update('Uploading ███░░░░░░░\n')?.percent).toBe(30);
+  });
+});
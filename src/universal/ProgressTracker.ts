@@ -0,0 +1,187 @@
+/**
+ * Universal CLI Wrapper - Progress Tracker
+ *
+ * Reads how far along a command is from its progress output: percentages,
+ * byte counters (`12.3MB/45MB`), step counters (`[3/10]`) and the state of
+ * each layer of a `docker pull`. Progress bars redraw their line with
+ * carriage returns, so every `\r`- or `\n`-separated update is read on its own.
+ */
+
+import type { LayerProgress, OutputProcessingConfig, SessionProgress } from './types.js';
+
+const PERCENT = /(?<![\d.])(\d{1,3}(?:\.\d+)?)\s?%/;
+const BYTES = /(\d+(?:\.\d+)?)\s?([kKMGT]i?B|B)?\s?\/\s?(\d+(?:\.\d+)?)\s?([kKMGT]i?B|B)\b/;
+const STEP = /\[\s*(\d+)\s*\/\s*(\d+)\s*\]|\bStep\s+(\d+)\s*\/\s*(\d+)/i;
+const DOCKER_LAYER = /^([0-9a-f]{12}): (Waiting|Pulling fs layer|Downloading|Verifying Checksum|Download complete|Extracting|Pull complete|Already exists)\b(.*)$/;
+
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1e3, kib: 1024,
+  mb: 1e6, mib: 1024 ** 2,
+  gb: 1e9, gib: 1024 ** 3,
+  tb: 1e12, tib: 1024 ** 4
+};
+
+/** Bar cells, for lines marked by the tool's `progressDetection.patterns` */
+const BAR_FILLED = /[█▓#]/g;
+const BAR_EMPTY = /[░▒]/g;
+const MIN_BAR_WIDTH = 5;
+
+export class ProgressTracker {
+  private partial = '';
+  private progress: SessionProgress | null = null;
+  private reportedKey = '';
+  private readonly barPatterns: string[];
+
+  constructor(config?: OutputProcessingConfig['progressDetection']) {
+    this.barPatterns = config?.patterns || [];
+  }
+
+  /**
+   * Read the updates in a chunk of plain output. Returns the latest progress
+   * when it changed enough to report (a whole percent, a step or a layer
+   * status), otherwise null.
+   */
+  update(text: string): SessionProgress | null {
+    const updates = (this.partial + text).split(/\r\n|\r|\n/);
+    // The unfinished update is read now and again once it is complete,
+    // since a bar redrawn with `\r` may never end its line
+    this.partial = updates[updates.length - 1];
+
+    let read = false;
+    for (const update of updates) {
+      read = this.read(update.trim()) || read;
+    }
+    if (!read || !this.progress) {
+      return null;
+    }
+
+    const key = this.reportKey(this.progress);
+    if (key === this.reportedKey) {
+      return null;
+    }
+    this.reportedKey = key;
+    return this.progress;
+  }
+
+  /**
+   * Latest progress, if any update has been recognized
+   */
+  getProgress(): SessionProgress | null {
+    return this.progress;
+  }
+
+  private read(line: string): boolean {
+    if (!line) {
+      return false;
+    }
+
+    const layer = DOCKER_LAYER.exec(line);
+    if (layer) {
+      this.readLayer(line, layer[1], layer[2], layer[3]);
+      return true;
+    }
+
+    const percent = PERCENT.exec(line);
+    const bytes = BYTES.exec(line);
+    const step = STEP.exec(line);
+    const bar = this.barPercent(line);
+    if (!percent && !bytes && !step && bar === undefined) {
+      return false;
+    }
+
+    const next: SessionProgress = { ...this.progress, line, updatedAt: Date.now() };
+    next.bytes = bytes ? this.parseByteCounter(bytes) : undefined;
+    next.step = step
+      ? { current: parseInt(step[1] ?? step[3], 10), total: parseInt(step[2] ?? step[4], 10) }
+      : undefined;
+
+    let value: number | undefined;
+    if (percent && parseFloat(percent[1]) <= 100) {
+      value = parseFloat(percent[1]);
+    } else if (next.bytes && next.bytes.total > 0) {
+      value = next.bytes.current / next.bytes.total * 100;
+    } else if (bar !== undefined) {
+      value = bar;
+    } else if (next.step && next.step.total > 0) {
+      value = next.step.current / next.step.total * 100;
+    }
+    next.percent = value === undefined ? undefined : this.round(Math.min(value, 100));
+
+    this.progress = next;
+    return true;
+  }
+
+  /**
+   * Docker prints one status line per layer; the overall percentage counts
+   * downloading as the first half of a layer and extracting as the second
+   */
+  private readLayer(line: string, id: string, status: string, rest: string): void {
+    const layers = { ...this.progress?.layers };
+    const counter = BYTES.exec(rest);
+    const layer: LayerProgress = { status };
+    if (counter) {
+      Object.assign(layer, this.parseByteCounter(counter));
+    } else if (layers[id]?.total !== undefined) {
+      layer.total = layers[id].total;
+    }
+    layers[id] = layer;
+
+    const fractions = Object.values(layers).map(entry => {
+      const fraction = entry.current !== undefined && entry.total ? entry.current / entry.total : 0;
+      switch (entry.status) {
+        case 'Downloading': return fraction / 2;
+        case 'Verifying Checksum':
+        case 'Download complete': return 0.5;
+        case 'Extracting': return 0.5 + fraction / 2;
+        case 'Pull complete':
+        case 'Already exists': return 1;
+        default: return 0;
+      }
+    });
+
+    this.progress = {
+      ...this.progress,
+      layers,
+      bytes: undefined,
+      percent: this.round(fractions.reduce((sum, fraction) => sum + fraction, 0) / fractions.length * 100),
+      line,
+      updatedAt: Date.now()
+    };
+  }
+
+  private barPercent(line: string): number | undefined {
+    if (!this.barPatterns.some(pattern => line.includes(pattern))) {
+      return undefined;
+    }
+    const filled = line.match(BAR_FILLED)?.length ?? 0;
+    const empty = line.match(BAR_EMPTY)?.length ?? 0;
+    return filled + empty >= MIN_BAR_WIDTH ? filled / (filled + empty) * 100 : undefined;
+  }
+
+  private parseByteCounter(match: RegExpExecArray): { current: number; total: number } {
+    // `12.3/45 MB` shares the total's unit
+    const unit = match[4];
+    return {
+      current: this.parseBytes(match[1], match[2] || unit),
+      total: this.parseBytes(match[3], unit)
+    };
+  }
+
+  private parseBytes(value: string, unit: string): number {
+    return Math.round(parseFloat(value) * (BYTE_UNITS[unit.toLowerCase()] ?? 1));
+  }
+
+  private round(percent: number): number {
+    return Math.round(percent * 10) / 10;
+  }
+
+  private reportKey(progress: SessionProgress): string {
+    const layers = Object.entries(progress.layers || {}).map(([id, layer]) => `${id}=${layer.status}`);
+    return [
+      progress.percent === undefined ? '' : Math.floor(progress.percent),
+      progress.step ? `${progress.step.current}/${progress.step.total}` : '',
+      layers.join(',')
+    ].join('|');
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Universal CLI Wrapper - Prompt Detector
+ *
+ * Decides whether the unfinished last line of a session's output is a
+ * prompt waiting for the user: a REPL prompt (`>>>`), a confirmation
+ * (`Continue? [y/N]`), a password request or a question like the ones
+ * `npm init` asks. SessionManager only asks once output has gone quiet,
+ * so a partial line that is still being written is not mistaken for one.
+ */
+
+import type { InputDetectionConfig } from './types.js';
+
+/**
+ * Prompts recognised for every tool. Partial lines are trimmed, so the
+ * trailing space most prompts end with is gone.
+ */
+const BUILTIN_PROMPTS: RegExp[] = [
+  /^(>>>|\.\.\.)$/,                         // Python REPL
+  /[[(](y\/n|yes\/no)[\])]\s*[?:]?$/i,      // Confirmations
+  /\bpass(word|phrase)\b[^\n]*:$/i,         // Password prompts
+  /\?\s*(\(.*\))?$/,                        // Questions, with an optional default
+  /:\s*(\(.*\))?$/,                         // `package name: (my-app)`
+  /[>$#%]$/                                 // Shell-style prompts
+];
+
+export class PromptDetector {
+  private toolPrompts: RegExp[] = [];
+  private readonly useBuiltins: boolean;
+
+  constructor(config: InputDetectionConfig = {}) {
+    for (const pattern of config.prompts || []) {
+      try {
+        this.toolPrompts.push(new RegExp(pattern));
+      } catch (error) {
+        console.warn(`Ignoring invalid prompt pattern '${pattern}':`, error);
+      }
+    }
+    this.useBuiltins = config.builtinPrompts !== false;
+  }
+
+  /**
+   * Return the prompt text if the partial line looks like a prompt
+   */
+  detect(partialLine: string | undefined): string | null {
+    const line = partialLine?.trim();
+    if (!line) {
+      return null;
+    }
+
+    if (this.toolPrompts.some(pattern => pattern.test(line))) {
+      return line;
+    }
+    if (this.useBuiltins && BUILTIN_PROMPTS.some(pattern => pattern.test(line))) {
+      return line;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * Universal CLI Wrapper - Recipe Runner
+ *
+ * Runs the steps of a `.uhappy.yaml` recipe one after another, each in a
+ * session of its own that is linked to the run. A step runs when its `when`
+ * conditions on earlier steps hold, and a failed step stops the run unless
+ * it may `continueOnError`. Happy sees the whole run as one session: the
+ * steps' output is forwarded to it and their status is kept in its metadata.
+ */
+
+import { EventEmitter } from 'node:events';
+import { randomUUID } from 'node:crypto';
+import { resolve } from 'node:path';
+import type { SessionManager } from './SessionManager.js';
+import { happyIntegration } from './HappyIntegration.js';
+import type { RecipeConfig, RecipeRun, RecipeStep, RecipeStepRun } from './types.js';
+
+/** How long a step that was told to stop may take to exit */
+const STOP_GRACE_MS = 5000;
+/** Finished runs kept for clients that follow them late */
+const FINISHED_RUNS_KEPT = 20;
+
+export interface RecipeRunnerEvents {
+  /** A run or one of its steps changed */
+  runUpdate: [run: RecipeRun];
+}
+
+interface StepOutcome {
+  exitCode?: number;
+  signal?: string;
+  matches?: string[];
+  error?: string;
+  /** Why the session was ended, if a limit did it */
+  exitReason?: string;
+}
+
+type StopReason = 'timed-out' | 'cancelled';
+
+export class RecipeRunner extends EventEmitter<RecipeRunnerEvents> {
+  private runs = new Map<string, RecipeRun>();
+  /** Stops the step each running run is at */
+  private stopCurrentStep = new Map<string, (reason: StopReason) => void>();
+  /** Environment the steps of each running run start from */
+  private baseEnvs = new Map<string, Record<string, string>>();
+
+  constructor(private readonly sessionManager: SessionManager) {
+    super();
+
+    // Happy sees the run, not the sessions of its steps
+    this.sessionManager.on('output', (sessionId, output) => {
+      const link = this.sessionManager.getSession(sessionId)?.recipe;
+      if (link) {
+        happyIntegration.forwardOutput(link.runId, output).catch(error => {
+          console.warn('Failed to forward recipe output to Happy CLI integration:', error);
+        });
+      }
+    });
+  }
+
+  /**
+   * Start running a recipe. Steps run in `cwd` unless they name a
+   * directory, which is relative to it, and start from `baseEnv`, that of
+   * the client that asked for the run, when given.
+   */
+  start(name: string, recipe: RecipeConfig, cwd: string, baseEnv?: Record<string, string>): RecipeRun {
+    const run: RecipeRun = {
+      id: randomUUID(),
+      recipe: name,
+      cwd,
+      status: 'running',
+      steps: recipe.steps.map(step => ({
+        name: step.name ?? step.command,
+        command: step.command,
+        args: step.args || [],
+        status: 'pending'
+      })),
+      startTime: Date.now()
+    };
+    this.runs.set(run.id, run);
+    if (baseEnv) {
+      this.baseEnvs.set(run.id, baseEnv);
+    }
+
+    this.execute(run, recipe).catch(error => {
+      console.warn(`Recipe '${name}' stopped unexpectedly:`, error);
+      this.finish(run, 'failed');
+    });
+    return run;
+  }
+
+  getRun(runId: string): RecipeRun | null {
+    return this.runs.get(runId) || null;
+  }
+
+  /**
+   * Stop a run: the step it is at is terminated and no further steps run
+   */
+  cancel(runId: string): void {
+    const run = this.runs.get(runId);
+    if (!run) {
+      throw new Error(`Recipe run ${runId} not found`);
+    }
+    if (run.status !== 'running') {
+      return;
+    }
+
+    run.status = 'cancelled';
+    this.stopCurrentStep.get(runId)?.('cancelled');
+    this.update(run);
+  }
+
+  private async execute(run: RecipeRun, recipe: RecipeConfig): Promise<void> {
+    try {
+      await happyIntegration.registerSession({
+        id: run.id,
+        command: `uhappy run ${run.recipe}`,
+        args: [],
+        tool: 'recipe',
+        startTime: run.startTime,
+        status: 'running',
+        cwd: run.cwd
+      }, (input) => this.sendInput(run, input));
+    } catch (error) {
+      console.warn('Failed to register recipe run with Happy CLI integration:', error);
+    }
+    this.update(run);
+
+    let failedStep: RecipeStepRun | undefined;
+    for (const [index, step] of recipe.steps.entries()) {
+      const stepRun = run.steps[index];
+      const skipReason = run.status === 'cancelled'
+        ? 'the run was cancelled'
+        : failedStep ? `'${failedStep.name}' failed` : this.unmetCondition(run, step.when);
+      if (skipReason) {
+        stepRun.status = 'skipped';
+        stepRun.reason = skipReason;
+        this.update(run);
+        continue;
+      }
+
+      await this.runStep(run, index, step);
+      if (['failed', 'timed-out'].includes(stepRun.status) && !step.continueOnError) {
+        failedStep = stepRun;
+      }
+    }
+
+    this.finish(run, run.status === 'cancelled' ? 'cancelled' : failedStep ? 'failed' : 'succeeded');
+  }
+
+  private async runStep(run: RecipeRun, index: number, step: RecipeStep): Promise<void> {
+    const stepRun = run.steps[index];
+    stepRun.status = 'running';
+    stepRun.startTime = Date.now();
+
+    let sessionId: string;
+    try {
+      // Started separately, so nothing the process does is missed
+      sessionId = await this.sessionManager.createSession({
+        tool: step.tool,
+        command: step.command,
+        args: step.args,
+        cwd: resolve(run.cwd, step.cwd ?? '.'),
+        baseEnv: this.baseEnvs.get(run.id),
+        env: step.env,
+        directOutput: false,
+        mode: 'pipe',
+        autoStart: false,
+        recipe: { runId: run.id, name: run.recipe, step: index, stepName: stepRun.name }
+      });
+    } catch (error) {
+      this.endStep(run, stepRun, 'failed', error instanceof Error ? error.message : String(error));
+      return;
+    }
+    stepRun.sessionId = sessionId;
+    if (run.status === 'cancelled') {
+      this.endStep(run, stepRun, 'cancelled', 'the run was cancelled');
+      return;
+    }
+    this.update(run);
+
+    let stopped: StopReason | undefined;
+    const outcome = await new Promise<StepOutcome>((resolveOutcome) => {
+      let graceTimer: NodeJS.Timeout | undefined;
+      const timeoutTimer = step.timeout ? setTimeout(() => stop('timed-out'), step.timeout * 1000) : undefined;
+
+      const finish = (result: StepOutcome) => {
+        clearTimeout(timeoutTimer);
+        clearTimeout(graceTimer);
+        this.sessionManager.off('sessionSettled', onSettled);
+        this.sessionManager.off('sessionError', onError);
+        this.stopCurrentStep.delete(run.id);
+        resolveOutcome(result);
+      };
+      const onSettled = (id: string) => {
+        const session = this.sessionManager.getSession(id);
+        if (id === sessionId && session) {
+          finish({
+            exitCode: session.signal ? undefined : session.exitCode ?? 0,
+            signal: session.signal,
+            matches: Object.keys(session.patternMatches || {}),
+            exitReason: session.exitReason
+          });
+        }
+      };
+      const onError = (id: string, error: Error) => {
+        if (id === sessionId) {
+          finish({ error: error.message });
+        }
+      };
+      const stop = (reason: StopReason) => {
+        if (stopped) {
+          return;
+        }
+        stopped = reason;
+        this.sessionManager.terminateSession(sessionId).catch(() => {
+          // Already gone
+        });
+        graceTimer = setTimeout(() => finish({ error: 'did not exit after being stopped' }), STOP_GRACE_MS);
+      };
+
+      this.sessionManager.on('sessionSettled', onSettled);
+      this.sessionManager.on('sessionError', onError);
+      this.stopCurrentStep.set(run.id, stop);
+      this.sessionManager.startSession(sessionId).catch(() => {
+        // Reported as a sessionError
+      });
+    });
+
+    stepRun.exitCode = outcome.exitCode;
+    stepRun.matches = outcome.matches;
+    if (stopped === 'timed-out') {
+      this.endStep(run, stepRun, 'timed-out', `timed out after ${step.timeout}s`);
+    } else if (stopped === 'cancelled') {
+      this.endStep(run, stepRun, 'cancelled', 'the run was cancelled');
+    } else if (outcome.error) {
+      this.endStep(run, stepRun, 'failed', outcome.error);
+    } else if (outcome.exitReason) {
+      this.endStep(run, stepRun, 'failed', outcome.exitReason);
+    } else if (outcome.signal) {
+      this.endStep(run, stepRun, 'failed', `killed by ${outcome.signal}`);
+    } else if (outcome.exitCode !== 0) {
+      this.endStep(run, stepRun, 'failed', `exit code ${outcome.exitCode}`);
+    } else {
+      this.endStep(run, stepRun, 'succeeded');
+    }
+  }
+
+  private endStep(run: RecipeRun, stepRun: RecipeStepRun, status: RecipeStepRun['status'], reason?: string): void {
+    stepRun.status = status;
+    stepRun.reason = reason;
+    stepRun.endTime = Date.now();
+    this.update(run);
+  }
+
+  /**
+   * Why a step's `when` conditions don't hold, or null if they do
+   */
+  private unmetCondition(run: RecipeRun, when: RecipeStep['when']): string | null {
+    for (const condition of [when ?? []].flat()) {
+      const step = run.steps.find(entry => entry.name === condition.step);
+      if (!step || step.startTime === undefined) {
+        return `'${condition.step}' did not run`;
+      }
+
+      if (condition.exitCode !== undefined) {
+        const codes = [condition.exitCode].flat();
+        if (step.exitCode === undefined || !codes.includes(step.exitCode)) {
+          const actual = step.exitCode === undefined ? 'did not exit with a code' : `exited with ${step.exitCode}`;
+          return `'${step.name}' ${actual}, not ${codes.join(' or ')}`;
+        }
+      }
+      if (condition.matched && !step.matches?.includes(condition.matched)) {
+        return `'${step.name}' never matched '${condition.matched}'`;
+      }
+      if (condition.notMatched && step.matches?.includes(condition.notMatched)) {
+        return `'${step.name}' matched '${condition.notMatched}'`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Input typed in the Happy app goes to the step that is running
+   */
+  private async sendInput(run: RecipeRun, input: string): Promise<void> {
+    const sessionId = run.steps.find(step => step.status === 'running')?.sessionId;
+    if (!sessionId) {
+      throw new Error(`No step of recipe '${run.recipe}' is running`);
+    }
+    await this.sessionManager.sendInput(sessionId, input);
+  }
+
+  private finish(run: RecipeRun, status: RecipeRun['status']): void {
+    run.status = status;
+    run.endTime = Date.now();
+    this.baseEnvs.delete(run.id);
+    this.update(run);
+    happyIntegration.updateSessionStatus(run.id, 'terminated', { exitCode: status === 'succeeded' ? 0 : 1 }).catch(error => {
+      console.warn('Failed to update recipe status in Happy CLI integration:', error);
+    });
+
+    const finished = Array.from(this.runs.values()).filter(entry => entry.endTime !== undefined);
+    for (const old of finished.slice(0, -FINISHED_RUNS_KEPT)) {
+      this.runs.delete(old.id);
+    }
+  }
+
+  /**
+   * Tell clients and Happy about a change to a run
+   */
+  private update(run: RecipeRun): void {
+    this.emit('runUpdate', run);
+    happyIntegration.updateSessionMetadata(run.id, {
+      recipe: {
+        name: run.recipe,
+        status: run.status,
+        steps: run.steps.map(step => ({
+          name: step.name,
+          status: step.status,
+          exitCode: step.exitCode,
+          reason: step.reason,
+          durationMs: step.startTime !== undefined && step.endTime !== undefined ? step.endTime - step.startTime : undefined
+        }))
+      }
+    });
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Universal CLI Wrapper - Recording Store
+ *
+ * Finds, reads and prunes the asciicast recordings that SessionRecorder
+ * writes to the sessions directory (`~/.universal-cli/sessions`).
+ */
+
+import { promises as fs } from 'node:fs';
+import { basename, join } from 'node:path';
+import type { AsciicastEvent, AsciicastHeader, RecordingInfo } from './types.js';
+
+const EXTENSION = '.cast';
+
+/**
+ * How much of each end of a file to read when listing. Enough for the
+ * header and the last event in practically every recording.
+ */
+const PEEK_BYTES = 64 * 1024;
+
+export class RecordingStore {
+  constructor(readonly dir: string) {}
+
+  async ensureDir(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+  }
+
+  /**
+   * Path a session's recording is written to
+   */
+  recordingPath(sessionId: string): string {
+    return join(this.dir, `${sessionId}${EXTENSION}`);
+  }
+
+  /**
+   * List recordings, newest first
+   */
+  async list(): Promise<RecordingInfo[]> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.dir)).filter(file => file.endsWith(EXTENSION));
+    } catch (error) {
+      return []; // No recordings yet
+    }
+
+    const recordings: RecordingInfo[] = [];
+    for (const file of files) {
+      try {
+        recordings.push(await this.info(join(this.dir, file)));
+      } catch (error) {
+        // Skip unreadable or foreign files
+      }
+    }
+
+    return recordings.sort((a, b) => b.header.timestamp - a.header.timestamp);
+  }
+
+  /**
+   * Resolve a file path, or a full or partial session ID, to a recording path
+   */
+  async resolve(ref: string): Promise<string> {
+    try {
+      if ((await fs.stat(ref)).isFile()) {
+        return ref;
+      }
+    } catch (error) {
+      // Not a path, try as a session ID
+    }
+
+    let files: string[] = [];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      // No recordings directory yet
+    }
+
+    const matches = files.filter(file => file.endsWith(EXTENSION) && file.startsWith(ref));
+    if (matches.length === 0) {
+      throw new Error(`Recording not found: ${ref}`);
+    }
+    if (matches.length > 1) {
+      const candidates = matches.map(file => file.slice(0, 8)).join(', ');
+      throw new Error(`Recording '${ref}' is ambiguous (matches ${candidates})`);
+    }
+    return join(this.dir, matches[0]);
+  }
+
+  /**
+   * Read a whole recording
+   */
+  async read(path: string): Promise<{ header: AsciicastHeader; events: AsciicastEvent[] }> {
+    const lines = (await fs.readFile(path, 'utf8')).split('\n').filter(line => line.length > 0);
+    if (lines.length === 0) {
+      throw new Error(`Empty recording: ${path}`);
+    }
+
+    const header = this.parseHeader(lines[0], path);
+    const events: AsciicastEvent[] = [];
+    for (const line of lines.slice(1)) {
+      try {
+        events.push(JSON.parse(line));
+      } catch (error) {
+        // A recording cut off mid-write ends with a partial line
+      }
+    }
+    return { header, events };
+  }
+
+  /**
+   * Delete recordings older than `olderThanMs` and/or beyond the newest
+   * `keep`. Returns the deleted paths.
+   */
+  async prune(options: { olderThanMs?: number; keep?: number }): Promise<string[]> {
+    const recordings = await this.list();
+    const now = Date.now();
+
+    const doomed = recordings.filter((recording, index) => {
+      if (options.keep !== undefined && index >= options.keep) {
+        return true;
+      }
+      return options.olderThanMs !== undefined && now - recording.modifiedAt > options.olderThanMs;
+    });
+
+    for (const recording of doomed) {
+      await fs.rm(recording.path, { force: true });
+    }
+    return doomed.map(recording => recording.path);
+  }
+
+  /**
+   * Header, duration and size of a recording, without reading all of it
+   */
+  private async info(path: string): Promise<RecordingInfo> {
+    const stat = await fs.stat(path);
+    const handle = await fs.open(path, 'r');
+
+    try {
+      const head = Buffer.alloc(Math.min(PEEK_BYTES, stat.size));
+      await handle.read(head, 0, head.length, 0);
+      const header = this.parseHeader(head.toString('utf8').split('\n')[0], path);
+
+      const tailStart = Math.max(0, stat.size - PEEK_BYTES);
+      const tail = Buffer.alloc(stat.size - tailStart);
+      await handle.read(tail, 0, tail.length, tailStart);
+
+      let duration = 0;
+      const lines = tail.toString('utf8').split('\n').filter(line => line.startsWith('['));
+      for (let i = lines.length - 1; i >= 0; i--) {
+        try {
+          duration = JSON.parse(lines[i])[0];
+          break;
+        } catch (error) {
+          // Partial line, try the one before
+        }
+      }
+
+      return {
+        path,
+        sessionId: basename(path, EXTENSION),
+        header,
+        duration,
+        size: stat.size,
+        modifiedAt: stat.mtimeMs
+      };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private parseHeader(line: string, path: string): AsciicastHeader {
+    let header: AsciicastHeader;
+    try {
+      header = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Not an asciicast file: ${path}`);
+    }
+    if (header.version !== 2) {
+      throw new Error(`Unsupported asciicast version ${header.version} in ${path}`);
+    }
+    return header;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Universal CLI Wrapper - Remote Control Client
+ *
+ * Node client for RemoteControlServer. Emits every RemoteMessage received
+ * from the server as a `message` event, and also by its type (`output`,
+ * `status`, `control`, `snapshot`, `error`).
+ */
+
+import { EventEmitter } from 'node:events';
+import { WebSocket } from 'ws';
+import type { RemoteControlAction, RemoteMessage, SnapshotFormat, TerminalSize } from './types.js';
+
+export class RemoteControlClient extends EventEmitter {
+  private socket: WebSocket | null = null;
+  private clientId: string | null = null;
+
+  /**
+   * Connect to a server, e.g. `ws://127.0.0.1:3000`, with its token (which
+   * may also be in the URL). Passing `sessionId` attaches on connect; with
+   * `snapshot`, the server sends the current screen instead of replaying
+   * history.
+   */
+  connect(
+    url: string,
+    options: { token?: string; sessionId?: string; replay?: number; snapshot?: SnapshotFormat } = {}
+  ): Promise<void> {
+    const target = new URL(url);
+    if (options.token) {
+      target.searchParams.set('token', options.token);
+    }
+    if (options.sessionId) {
+      target.searchParams.set('sessionId', options.sessionId);
+    }
+    if (options.replay !== undefined) {
+      target.searchParams.set('replay', String(options.replay));
+    }
+    if (options.snapshot) {
+      target.searchParams.set('snapshot', options.snapshot);
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(target);
+
+      socket.once('open', () => {
+        socket.off('error', reject);
+        this.socket = socket;
+        // A refused connection closes too, but only rejects
+        socket.on('close', (code, reason) => {
+          this.socket = null;
+          this.emit('close', code, reason.toString());
+        });
+        resolve();
+      });
+      socket.once('error', reject);
+
+      socket.on('message', (data) => {
+        let message: RemoteMessage;
+        try {
+          message = JSON.parse(data.toString());
+        } catch (error) {
+          this.emit('error', new Error('Invalid message from remote control server'));
+          return;
+        }
+        if (message.clientId) {
+          this.clientId = message.clientId;
+        }
+        this.emit('message', message);
+        this.emit(message.type, message);
+      });
+    });
+  }
+
+  /**
+   * Client ID assigned by the server, known after the first status message
+   */
+  getClientId(): string | null {
+    return this.clientId;
+  }
+
+  attach(sessionId: string, replay?: number, snapshot?: SnapshotFormat): void {
+    this.control(sessionId, 'attach', { replay, snapshot });
+  }
+
+  detach(sessionId: string): void {
+    this.control(sessionId, 'detach');
+  }
+
+  sendInput(sessionId: string, input: string): void {
+    this.send({ type: 'input', sessionId, data: { input }, timestamp: Date.now() });
+  }
+
+  requestStatus(sessionId: string): void {
+    this.send({ type: 'status', sessionId, data: {}, timestamp: Date.now() });
+  }
+
+  /**
+   * Ask for the session's current screen; it arrives as a `snapshot` message
+   */
+  requestSnapshot(sessionId: string, format: SnapshotFormat = 'text'): void {
+    this.control(sessionId, 'snapshot', { format });
+  }
+
+  pause(sessionId: string): void {
+    this.control(sessionId, 'pause');
+  }
+
+  resume(sessionId: string): void {
+    this.control(sessionId, 'resume');
+  }
+
+  kill(sessionId: string, force = false): void {
+    this.control(sessionId, 'kill', { force });
+  }
+
+  /**
+   * Send a signal, by name or number, to the session's process group
+   */
+  signal(sessionId: string, signal: string | number): void {
+    this.control(sessionId, 'signal', { signal });
+  }
+
+  resize(sessionId: string, size: TerminalSize): void {
+    this.control(sessionId, 'resize', { ...size });
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private control(sessionId: string, action: RemoteControlAction, data: Record<string, unknown> = {}): void {
+    this.send({ type: 'control', sessionId, data: { action, ...data }, timestamp: Date.now() });
+  }
+
+  private send(message: RemoteMessage): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error('Remote control client is not connected');
+    }
+    this.socket.send(JSON.stringify(message));
+  }
+}
@@ -0,0 +1,422 @@
+/**
+ * Universal CLI Wrapper - Remote Control Server
+ *
+ * WebSocket server that lets remote clients attach to sessions and drive them
+ * with the RemoteMessage protocol (input/output/control/status/error).
+ *
+ * Clients attach either by connecting to `/?sessionId=<id>&replay=<n>` or by
+ * sending a `control` message with `{ action: 'attach', replay }`. Attached
+ * clients receive the last `replay` output entries, then live output and
+ * status changes. Passing `snapshot=<text|html|json>` instead sends the
+ * current rendered screen in place of the history replay, which suits
+ * full-screen programs whose raw output only makes sense from the start.
+ *
+ * Every server has a random token that clients must present, as a `token`
+ * query parameter or an `Authorization: Bearer` header. Browsers send an
+ * Origin with every WebSocket, so a page the user visits could otherwise
+ * reach a server on localhost; connections from origins that are not
+ * allowed explicitly are refused even with the token.
+ */
+
+import { randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { SessionManager } from './SessionManager.js';
+import { parseSignal } from './ProcessManager.js';
+import type { RemoteControlAction, RemoteMessage, Session, SnapshotFormat, TerminalOutput } from './types.js';
+
+const SNAPSHOT_FORMATS: SnapshotFormat[] = ['text', 'html', 'json'];
+
+interface RemoteClient {
+  id: string;
+  socket: WebSocket;
+  sessions: Set<string>;
+  alive: boolean;
+}
+
+export class RemoteControlServer {
+  private server: WebSocketServer | null = null;
+  private clients = new Map<string, RemoteClient>();
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private allowedOrigins = new Set<string>();
+
+  private readonly heartbeatMs = 30000;
+  private readonly defaultReplay = 100;
+
+  /** Secret clients present to connect */
+  readonly token = randomBytes(24).toString('base64url');
+
+  constructor(private readonly sessionManager: SessionManager) {}
+
+  /**
+   * Let browser pages from these origins (e.g. `https://app.example.com`) connect
+   */
+  allowOrigins(origins: string[]): void {
+    origins.forEach(origin => this.allowedOrigins.add(origin));
+  }
+
+  /**
+   * Start listening. Binds to localhost unless another host is given.
+   */
+  start(port: number, host = '127.0.0.1'): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      const server = new WebSocketServer({
+        port,
+        host,
+        verifyClient: (info, callback) => {
+          const refusal = this.refuse(info.req, info.origin);
+          if (refusal) {
+            callback(false, refusal.status, refusal.message);
+          } else {
+            callback(true);
+          }
+        }
+      });
+
+      server.once('error', reject);
+      server.once('listening', () => {
+        server.off('error', reject);
+        this.server = server;
+        this.heartbeatInterval = setInterval(() => this.checkHeartbeats(), this.heartbeatMs);
+        resolve(server.address() as AddressInfo);
+      });
+
+      server.on('connection', (socket, request) => {
+        const url = new URL(request.url || '/', 'ws://localhost');
+        this.handleConnection(socket, url.searchParams);
+      });
+    });
+  }
+
+  /**
+   * Disconnect all clients and stop listening
+   */
+  async stop(): Promise<void> {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
+    for (const client of this.clients.values()) {
+      client.socket.close(1001, 'Server shutting down');
+      this.detachAll(client);
+    }
+    this.clients.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Address the server is listening on, if started
+   */
+  address(): AddressInfo | null {
+    return this.server ? this.server.address() as AddressInfo : null;
+  }
+
+  /**
+   * Why a connection request is refused, if it is
+   */
+  private refuse(request: IncomingMessage, origin: string | undefined): { status: number; message: string } | null {
+    if (origin && !this.allowedOrigins.has(origin)) {
+      return { status: 403, message: `Origin ${origin} is not allowed` };
+    }
+
+    const url = new URL(request.url || '/', 'ws://localhost');
+    const bearer = /^Bearer (.+)$/.exec(request.headers.authorization ?? '')?.[1];
+    const token = Buffer.from(url.searchParams.get('token') ?? bearer ?? '');
+    const expected = Buffer.from(this.token);
+    if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+      return { status: 401, message: 'Invalid or missing token' };
+    }
+    return null;
+  }
+
+  private handleConnection(socket: WebSocket, params: URLSearchParams): void {
+    const client: RemoteClient = {
+      id: randomUUID(),
+      socket,
+      sessions: new Set(),
+      alive: true
+    };
+    this.clients.set(client.id, client);
+
+    socket.on('pong', () => {
+      client.alive = true;
+    });
+
+    socket.on('message', (data) => {
+      let message: RemoteMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (error) {
+        this.sendError(client, '', 'Invalid JSON message');
+        return;
+      }
+      if (typeof message !== 'object' || message === null || Array.isArray(message) || typeof message.type !== 'string') {
+        this.sendError(client, '', 'Message must be an object with a string `type`');
+        return;
+      }
+      this.handleMessage(client, message).catch(error => {
+        this.sendError(client, message?.sessionId ?? '', error instanceof Error ? error.message : String(error));
+      });
+    });
+
+    socket.on('close', () => {
+      this.detachAll(client);
+      this.clients.delete(client.id);
+    });
+
+    socket.on('error', (error) => {
+      console.warn(`Remote client ${client.id} socket error:`, error);
+    });
+
+    const sessionId = params.get('sessionId');
+    if (sessionId) {
+      const replay = params.has('replay') ? parseInt(params.get('replay')!, 10) : undefined;
+      try {
+        this.attach(client, sessionId, replay, params.get('snapshot') || undefined);
+      } catch (error) {
+        this.sendError(client, sessionId, error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  private async handleMessage(client: RemoteClient, message: RemoteMessage): Promise<void> {
+    switch (message.type) {
+      case 'input': {
+        const session = this.requireAttached(client, message.sessionId);
+        const input = typeof message.data === 'string' ? message.data : message.data?.input;
+        if (typeof input !== 'string') {
+          throw new Error('Input message requires a string `input`');
+        }
+        await this.sessionManager.sendInput(session.id, input, client.id);
+        return;
+      }
+
+      case 'control':
+        await this.handleControl(client, message);
+        return;
+
+      case 'status': {
+        const session = this.requireAttached(client, message.sessionId);
+        this.sendStatus(client, session);
+        return;
+      }
+
+      default:
+        throw new Error(`Unsupported message type from client: ${message.type}`);
+    }
+  }
+
+  private async handleControl(client: RemoteClient, message: RemoteMessage): Promise<void> {
+    const action = message.data?.action as RemoteControlAction | undefined;
+
+    switch (action) {
+      case 'attach':
+        this.attach(client, message.sessionId, message.data.replay, message.data.snapshot);
+        return;
+
+      case 'detach':
+        this.detach(client, this.requireAttached(client, message.sessionId).id);
+        return;
+
+      case 'pause':
+        await this.sessionManager.pauseSession(this.requireAttached(client, message.sessionId).id);
+        return;
+
+      case 'resume':
+        await this.sessionManager.resumeSession(this.requireAttached(client, message.sessionId).id);
+        return;
+
+      case 'kill':
+        await this.sessionManager.terminateSession(
+          this.requireAttached(client, message.sessionId).id,
+          message.data.force === true
+        );
+        return;
+
+      case 'signal': {
+        const { signal } = message.data;
+        if (typeof signal !== 'string' && typeof signal !== 'number') {
+          throw new Error('Signal requires a `signal` name or number');
+        }
+        await this.sessionManager.signalSession(
+          this.requireAttached(client, message.sessionId).id,
+          parseSignal(String(signal))
+        );
+        return;
+      }
+
+      case 'resize': {
+        const { cols, rows } = message.data;
+        if (typeof cols !== 'number' || typeof rows !== 'number') {
+          throw new Error('Resize requires numeric `cols` and `rows`');
+        }
+        this.sessionManager.resizeSession(this.requireAttached(client, message.sessionId).id, { cols, rows }, client.id);
+        return;
+      }
+
+      case 'snapshot':
+        this.sendSnapshot(client, this.requireAttached(client, message.sessionId), message.data.format || 'text');
+        return;
+
+      default:
+        throw new Error(`Unknown control action: ${action}`);
+    }
+  }
+
+  /**
+   * Attach a client to a session and replay its recent history, or send
+   * a snapshot of its screen if a snapshot format is given
+   */
+  private attach(client: RemoteClient, sessionIdOrPrefix: string, replay?: number, snapshot?: string): void {
+    const session = this.findSession(sessionIdOrPrefix);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionIdOrPrefix}`);
+    }
+
+    client.sessions.add(session.id);
+    this.sessionManager.addRemoteConnection(session.id, client.id, (message) => this.send(client, message));
+    this.sendStatus(client, session);
+
+    if (snapshot) {
+      this.sendSnapshot(client, session, snapshot);
+      return;
+    }
+
+    const count = replay ?? this.defaultReplay;
+    if (count > 0) {
+      for (const output of this.sessionManager.getSessionOutputs(session.id, { limit: count })) {
+        this.send(client, {
+          type: 'output',
+          sessionId: session.id,
+          data: { ...this.outputData(output), replay: true },
+          timestamp: Date.now()
+        });
+      }
+    }
+  }
+
+  private detach(client: RemoteClient, sessionId: string): void {
+    client.sessions.delete(sessionId);
+    this.sessionManager.removeRemoteConnection(sessionId, client.id);
+  }
+
+  private detachAll(client: RemoteClient): void {
+    for (const sessionId of Array.from(client.sessions)) {
+      this.detach(client, sessionId);
+    }
+  }
+
+  /**
+   * Resolve a session the client is attached to
+   */
+  private requireAttached(client: RemoteClient, sessionIdOrPrefix: string): Session {
+    const session = this.findSession(sessionIdOrPrefix);
+    if (!session || !client.sessions.has(session.id)) {
+      throw new Error(`Not attached to session: ${sessionIdOrPrefix}`);
+    }
+    return session;
+  }
+
+  /**
+   * Find a session by full or unambiguous partial ID
+   */
+  private findSession(sessionIdOrPrefix: string): Session | null {
+    if (!sessionIdOrPrefix) {
+      return null;
+    }
+    const exact = this.sessionManager.getSession(sessionIdOrPrefix);
+    if (exact) {
+      return exact;
+    }
+    const matches = this.sessionManager.listSessions().filter(s => s.id.startsWith(sessionIdOrPrefix));
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  private sendStatus(client: RemoteClient, session: Session): void {
+    this.send(client, {
+      type: 'status',
+      sessionId: session.id,
+      data: {
+        status: session.status,
+        command: session.command,
+        args: session.args,
+        tool: session.tool,
+        mode: session.mode,
+        terminalSize: session.terminalSize,
+        title: session.title,
+        prompt: session.prompt,
+        progress: session.progress,
+        pid: session.pid,
+        exitCode: session.exitCode,
+        exitReason: session.exitReason
+      },
+      timestamp: Date.now(),
+      clientId: client.id
+    });
+  }
+
+  private sendSnapshot(client: RemoteClient, session: Session, format: string): void {
+    if (!SNAPSHOT_FORMATS.includes(format as SnapshotFormat)) {
+      throw new Error(`Invalid snapshot format: ${format} (expected ${SNAPSHOT_FORMATS.join(', ')})`);
+    }
+    this.send(client, {
+      type: 'snapshot',
+      sessionId: session.id,
+      data: {
+        format,
+        snapshot: this.sessionManager.getSessionSnapshot(session.id, format as SnapshotFormat)
+      },
+      timestamp: Date.now(),
+      clientId: client.id
+    });
+  }
+
+  private sendError(client: RemoteClient, sessionId: string, error: string): void {
+    this.send(client, {
+      type: 'error',
+      sessionId,
+      data: { error },
+      timestamp: Date.now(),
+      clientId: client.id
+    });
+  }
+
+  private send(client: RemoteClient, message: RemoteMessage): void {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Output payload, in the same shape SessionManager broadcasts live output
+   */
+  private outputData(output: TerminalOutput) {
+    return {
+      source: output.source,
+      text: output.text,
+      ansi: output.ansi,
+      timestamp: output.timestamp
+    };
+  }
+
+  /**
+   * Drop clients that did not answer the previous ping
+   */
+  private checkHeartbeats(): void {
+    for (const client of this.clients.values()) {
+      if (!client.alive) {
+        client.socket.terminate();
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }
+}
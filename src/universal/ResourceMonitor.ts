@@ -0,0 +1,181 @@
+/**
+ * Universal CLI Wrapper - Resource Monitor
+ *
+ * Samples the CPU, memory, file descriptors, threads and storage IO of each
+ * session's process tree from /proc. The tree includes every descendant of
+ * the session's process, since pipe mode runs commands through a shell and
+ * tools such as dev servers fork workers. Samples are kept for a while so
+ * clients can see how use changed. Systems without /proc are not sampled.
+ */
+
+import { EventEmitter } from 'node:events';
+import { readdirSync, readFileSync } from 'node:fs';
+import { descendantsOf, hasProcfs, readProcessTable, type ProcessEntry } from './ProcessTree.js';
+import type { ResourceSample } from './types.js';
+
+/** Samples kept per session: ten minutes at the default interval */
+const HISTORY_SIZE = 300;
+/** /proc reports CPU time in clock ticks, which are 1/100 s on Linux */
+const TICKS_PER_SECOND = 100;
+
+export interface ResourceMonitorEvents {
+  sample: [sessionId: string, sample: ResourceSample];
+}
+
+interface WatchedTree {
+  pid: number;
+  /** CPU time of the tree at the previous sample */
+  cpuSeconds: number;
+  sampledAt?: number;
+}
+
+export class ResourceMonitor extends EventEmitter<ResourceMonitorEvents> {
+  private watched = new Map<string, WatchedTree>();
+  private histories = new Map<string, ResourceSample[]>();
+  private timer: NodeJS.Timeout | null = null;
+  private readonly supported = hasProcfs();
+
+  constructor(private readonly intervalMs = 2000) {
+    super();
+  }
+
+  /**
+   * Whether this system has a /proc to read
+   */
+  isSupported(): boolean {
+    return this.supported;
+  }
+
+  /**
+   * Start sampling the process tree rooted at `pid`
+   */
+  watch(sessionId: string, pid: number): void {
+    if (!this.supported) {
+      return;
+    }
+
+    this.watched.set(sessionId, { pid, cpuSeconds: 0 });
+    if (!this.timer) {
+      this.timer = setInterval(() => this.sampleAll(), this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Stop sampling a session; its samples are kept until `clear`
+   */
+  unwatch(sessionId: string): void {
+    this.watched.delete(sessionId);
+    if (this.watched.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  clear(sessionId: string): void {
+    this.unwatch(sessionId);
+    this.histories.delete(sessionId);
+  }
+
+  /**
+   * The session's samples, oldest first
+   */
+  getHistory(sessionId: string): ResourceSample[] {
+    return this.histories.get(sessionId) || [];
+  }
+
+  private sampleAll(): void {
+    let table: Map<number, ProcessEntry>;
+    try {
+      table = readProcessTable();
+    } catch (error) {
+      console.warn('Failed to read processes from /proc:', error);
+      return;
+    }
+
+    for (const [sessionId, tree] of this.watched) {
+      if (!table.has(tree.pid)) {
+        continue;
+      }
+
+      const sample = this.sampleTree(tree, descendantsOf(tree.pid, table), table);
+      const history = this.histories.get(sessionId) || [];
+      history.push(sample);
+      history.splice(0, history.length - HISTORY_SIZE);
+      this.histories.set(sessionId, history);
+      this.emit('sample', sessionId, sample);
+    }
+  }
+
+  private sampleTree(tree: WatchedTree, pids: number[], table: Map<number, ProcessEntry>): ResourceSample {
+    const now = Date.now();
+    const sample: ResourceSample = {
+      timestamp: now,
+      cpuPercent: 0,
+      rssBytes: 0,
+      fds: 0,
+      threads: 0,
+      processes: pids.length,
+      readBytes: 0,
+      writeBytes: 0,
+      cpuSeconds: 0
+    };
+
+    // Children that exited add their CPU time to their parent once it reaps
+    // them, so the tree's total only loses that of orphans
+    let ticks = 0;
+    for (const pid of pids) {
+      const entry = table.get(pid)!;
+      ticks += entry.ticks;
+      sample.threads += entry.threads;
+      sample.rssBytes += this.readRss(pid);
+      sample.fds += this.countFds(pid);
+
+      const io = this.readIo(pid);
+      sample.readBytes += io.readBytes;
+      sample.writeBytes += io.writeBytes;
+    }
+
+    sample.cpuSeconds = Math.max(tree.cpuSeconds, ticks / TICKS_PER_SECOND);
+    if (tree.sampledAt !== undefined) {
+      const seconds = (now - tree.sampledAt) / 1000;
+      sample.cpuPercent = Math.round((sample.cpuSeconds - tree.cpuSeconds) / seconds * 1000) / 10;
+    }
+    tree.cpuSeconds = sample.cpuSeconds;
+    tree.sampledAt = now;
+    return sample;
+  }
+
+  private readRss(pid: number): number {
+    try {
+      const status = readFileSync(`/proc/${pid}/status`, 'utf8');
+      const match = /^VmRSS:\s+(\d+) kB/m.exec(status);
+      return match ? parseInt(match[1], 10) * 1024 : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  private countFds(pid: number): number {
+    try {
+      return readdirSync(`/proc/${pid}/fd`).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Storage IO; other users' processes can't be read and count as none
+   */
+  private readIo(pid: number): { readBytes: number; writeBytes: number } {
+    try {
+      const io = readFileSync(`/proc/${pid}/io`, 'utf8');
+      return {
+        readBytes: parseInt(/^read_bytes: (\d+)/m.exec(io)?.[1] ?? '0', 10),
+        writeBytes: parseInt(/^write_bytes: (\d+)/m.exec(io)?.[1] ?? '0', 10)
+      };
+    } catch {
+      return { readBytes: 0, writeBytes: 0 };
+    }
+  }
+}
@@ -0,0 +1,563 @@
+/**
+ * Universal CLI Wrapper - Session Host
+ *
+ * Long-lived process that owns all sessions and exposes them over a local
+ * Unix socket (named pipe on Windows), so that separate `uhappy` invocations
+ * can list, drive and follow the same sessions. The host also owns any
+ * WebSocket remote control servers started with `start --remote`.
+ */
+
+import { promises as fs } from 'node:fs';
+import fastify, { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { serializerCompiler, validatorCompiler, ZodTypeProvider } from 'fastify-type-provider-zod';
+import { SessionManager } from './SessionManager.js';
+import { parseSignal } from './ProcessManager.js';
+import { RemoteControlServer } from './RemoteControlServer.js';
+import { RecipeRunner } from './RecipeRunner.js';
+import { LimitsConfigSchema, RecipeConfigSchema } from './configSchema.js';
+import type { LimitViolation, OutputFormat, ParsedLine, RecipeRun, Session, SessionInfo, TerminalOutput } from './types.js';
+
+const OutputFormatSchema = z.enum(['raw', 'text', 'html', 'json', 'table']);
+
+const SnapshotFormatSchema = z.enum(['text', 'html', 'json']);
+
+const SessionRefSchema = z.object({
+  sessionId: z.string().min(1)
+});
+
+const RecipeRunRefSchema = z.object({
+  runId: z.string().min(1)
+});
+
+/**
+ * Error with an HTTP status, returned to clients as `{ error }`
+ */
+class HostRequestError extends Error {
+  constructor(message: string, readonly statusCode: number) {
+    super(message);
+  }
+}
+
+export class SessionHost {
+  private app: FastifyInstance | null = null;
+  private remoteServers = new Map<number, RemoteControlServer>();
+  private readonly recipeRunner: RecipeRunner;
+  private readonly startedAt = Date.now();
+
+  constructor(
+    private readonly sessionManager: SessionManager,
+    private readonly socketPath: string,
+    private readonly onShutdownRequested: () => void = () => {}
+  ) {
+    this.recipeRunner = new RecipeRunner(sessionManager);
+  }
+
+  /**
+   * Start listening on the host socket
+   */
+  async start(): Promise<void> {
+    await this.removeStaleSocket();
+
+    const app = fastify({
+      logger: false
+    });
+    app.setValidatorCompiler(validatorCompiler);
+    app.setSerializerCompiler(serializerCompiler);
+    app.setErrorHandler((error, _request, reply) => {
+      const statusCode = error instanceof HostRequestError ? error.statusCode : (error.statusCode || 500);
+      reply.code(statusCode).send({ error: error.message });
+    });
+
+    this.registerRoutes(app);
+
+    await app.listen({ path: this.socketPath });
+    this.app = app;
+  }
+
+  /**
+   * Stop listening and remove the socket file
+   */
+  async stop(): Promise<void> {
+    for (const server of this.remoteServers.values()) {
+      await server.stop();
+    }
+    this.remoteServers.clear();
+
+    if (this.app) {
+      await this.app.close();
+      this.app = null;
+    }
+    if (process.platform !== 'win32') {
+      await fs.rm(this.socketPath, { force: true });
+    }
+  }
+
+  /**
+   * Remove a socket file left behind by a host that did not shut down cleanly
+   */
+  private async removeStaleSocket(): Promise<void> {
+    if (process.platform === 'win32') {
+      return;
+    }
+    try {
+      await fs.stat(this.socketPath);
+    } catch (error) {
+      return; // No socket file
+    }
+
+    const { SessionHostClient } = await import('./SessionHostClient.js');
+    if (await new SessionHostClient(this.socketPath).isRunning()) {
+      throw new Error(`Session host is already running on ${this.socketPath}`);
+    }
+    await fs.rm(this.socketPath, { force: true });
+  }
+
+  private registerRoutes(app: FastifyInstance): void {
+    const typed = app.withTypeProvider<ZodTypeProvider>();
+
+    typed.post('/ping', async () => ({
+      pid: process.pid,
+      startedAt: this.startedAt
+    }));
+
+    typed.post('/sessions/create', {
+      schema: {
+        body: z.object({
+          tool: z.string().optional(),
+          command: z.string().min(1),
+          args: z.array(z.string()).optional(),
+          cwd: z.string().optional(),
+          baseEnv: z.record(z.string()).optional(),
+          env: z.record(z.string()).optional(),
+          mode: z.enum(['pipe', 'pty']).optional(),
+          size: z.object({ cols: z.number(), rows: z.number() }).optional(),
+          record: z.boolean().optional(),
+          limits: LimitsConfigSchema.optional()
+        })
+      }
+    }, async (request) => {
+      // The host has no terminal of its own, so output is always captured
+      const sessionId = await this.sessionManager.createSession({
+        ...request.body,
+        directOutput: false,
+        mode: request.body.mode || 'pipe',
+        autoStart: true
+      });
+      return { session: this.toSessionInfo(this.sessionManager.getSession(sessionId)!) };
+    });
+
+    typed.post('/sessions/list', async () => ({
+      sessions: this.sessionManager.listSessions().map(session => this.toSessionInfo(session))
+    }));
+
+    typed.post('/sessions/get', {
+      schema: { body: SessionRefSchema }
+    }, async (request) => ({
+      session: this.toSessionInfo(this.resolveSession(request.body.sessionId))
+    }));
+
+    typed.post('/sessions/input', {
+      schema: {
+        body: SessionRefSchema.extend({
+          input: z.string()
+        })
+      }
+    }, async (request) => {
+      const session = this.resolveSession(request.body.sessionId);
+      await this.sessionManager.sendInput(session.id, request.body.input);
+      return { sessionId: session.id };
+    });
+
+    typed.post('/sessions/resize', {
+      schema: {
+        body: SessionRefSchema.extend({
+          cols: z.number().int().positive(),
+          rows: z.number().int().positive()
+        })
+      }
+    }, async (request) => {
+      const session = this.resolveSession(request.body.sessionId);
+      this.sessionManager.resizeSession(session.id, { cols: request.body.cols, rows: request.body.rows });
+      return { sessionId: session.id };
+    });
+
+    typed.post('/sessions/history', {
+      schema: {
+        body: SessionRefSchema.extend({
+          format: OutputFormatSchema.default('text'),
+          limit: z.number().int().nonnegative().optional(),
+          after: z.number().int().nonnegative().optional(),
+          before: z.number().int().nonnegative().optional(),
+          from: z.number().nonnegative().optional(),
+          to: z.number().nonnegative().optional(),
+          source: z.enum(['stdout', 'stderr']).optional(),
+          grep: z.string().optional()
+        })
+      }
+    }, async (request) => {
+      const session = this.resolveSession(request.body.sessionId);
+      const { format, grep, limit, after, before, from, to, source } = request.body;
+      if (grep !== undefined) {
+        try {
+          new RegExp(grep);
+        } catch (error) {
+          throw new HostRequestError(`Invalid search pattern '${grep}': ${error instanceof Error ? error.message : error}`, 400);
+        }
+      }
+      return {
+        sessionId: session.id,
+        history: this.sessionManager.getSessionHistory(session.id, format, { limit, after, before, from, to, source, grep })
+      };
+    });
+
+    typed.post('/sessions/lines', {
+      schema: {
+        body: SessionRefSchema.extend({
+          since: z.number().int().nonnegative().optional(),
+          source: z.enum(['stdout', 'stderr']).optional(),
+          limit: z.number().int().nonnegative().optional()
+        })
+      }
+    }, async (request) => {
+      const session = this.resolveSession(request.body.sessionId);
+      const { since, source, limit } = request.body;
+      return {
+        sessionId: session.id,
+        lines: this.sessionManager.getSessionLines(session.id, { since, source, limit })
+      };
+    });
+
+    typed.post('/sessions/snapshot', {
+      schema: {
+        body: SessionRefSchema.extend({
+          format: SnapshotFormatSchema.default('text')
+        })
+      }
+    }, async (request) => {
+      const session = this.resolveSession(request.body.sessionId);
+      if (!this.sessionManager.getSessionScreen(session.id)) {
+        throw new HostRequestError(`Session ${session.id} has no screen to snapshot`, 409);
+      }
+      return {
+        sessionId: session.id,
+        snapshot: this.sessionManager.getSessionSnapshot(session.id, request.body.format)
+      };
+    });
+
+    typed.post('/sessions/follow', {
+      schema: {
+        body: SessionRefSchema.extend({
+          format: OutputFormatSchema.default('text'),
+          limit: z.number().int().nonnegative().optional(),
+          lines: z.boolean().optional()
+        })
+      }
+    }, async (request, reply) => {
+      const session = this.resolveSession(request.body.sessionId);
+      this.streamSession(session, request.body, reply);
+    });
+
+    typed.post('/sessions/kill', {
+      schema: {
+        body: SessionRefSchema.extend({
+          force: z.boolean().optional()
+        })
+      }
+    }, async (request) => {
+      const session = this.resolveSession(request.body.sessionId);
+      await this.sessionManager.terminateSession(session.id, request.body.force);
+      return { sessionId: session.id };
+    });
+
+    typed.post('/sessions/pause', {
+      schema: { body: SessionRefSchema }
+    }, async (request) => {
+      const session = this.resolveSession(request.body.sessionId);
+      await this.sessionManager.pauseSession(session.id);
+      return { sessionId: session.id };
+    });
+
+    typed.post('/sessions/resume', {
+      schema: { body: SessionRefSchema }
+    }, async (request) => {
+      const session = this.resolveSession(request.body.sessionId);
+      await this.sessionManager.resumeSession(session.id);
+      return { sessionId: session.id };
+    });
+
+    typed.post('/sessions/signal', {
+      schema: { body: SessionRefSchema.extend({ signal: z.string().min(1) }) }
+    }, async (request) => {
+      const session = this.resolveSession(request.body.sessionId);
+      let signal: NodeJS.Signals;
+      try {
+        signal = parseSignal(request.body.signal);
+      } catch (error) {
+        throw new HostRequestError(error instanceof Error ? error.message : String(error), 400);
+      }
+      await this.sessionManager.signalSession(session.id, signal);
+      return { sessionId: session.id, signal };
+    });
+
+    typed.post('/recipes/run', {
+      schema: {
+        body: z.object({
+          name: z.string().min(1),
+          recipe: RecipeConfigSchema,
+          cwd: z.string(),
+          baseEnv: z.record(z.string()).optional()
+        })
+      }
+    }, async (request) => {
+      const { name, recipe, cwd, baseEnv } = request.body;
+      return { run: this.recipeRunner.start(name, recipe, cwd, baseEnv) };
+    });
+
+    typed.post('/recipes/follow', {
+      schema: {
+        body: RecipeRunRefSchema.extend({
+          format: OutputFormatSchema.default('text')
+        })
+      }
+    }, async (request, reply) => {
+      this.streamRecipeRun(this.resolveRecipeRun(request.body.runId), request.body.format, reply);
+    });
+
+    typed.post('/recipes/cancel', {
+      schema: { body: RecipeRunRefSchema }
+    }, async (request) => {
+      const run = this.resolveRecipeRun(request.body.runId);
+      this.recipeRunner.cancel(run.id);
+      return { runId: run.id };
+    });
+
+    typed.post('/stats', async () => ({
+      stats: this.sessionManager.getStats()
+    }));
+
+    typed.post('/remote/start', {
+      schema: {
+        body: z.object({
+          port: z.number().int().min(0).max(65535),
+          host: z.string().optional(),
+          allowedOrigins: z.array(z.string()).optional()
+        })
+      }
+    }, async (request) => {
+      const { port, host, allowedOrigins = [] } = request.body;
+      const existing = this.remoteServers.get(port);
+      if (existing) {
+        existing.allowOrigins(allowedOrigins);
+        return { ...existing.address()!, token: existing.token, alreadyRunning: true };
+      }
+
+      const server = new RemoteControlServer(this.sessionManager);
+      server.allowOrigins(allowedOrigins);
+      try {
+        const address = await server.start(port, host);
+        this.remoteServers.set(address.port, server);
+        return { ...address, token: server.token, alreadyRunning: false };
+      } catch (error) {
+        throw new HostRequestError(`Failed to start remote control server on port ${port}: ${error instanceof Error ? error.message : error}`, 500);
+      }
+    });
+
+    typed.post('/shutdown', async () => {
+      // Give time for response to arrive
+      setTimeout(() => this.onShutdownRequested(), 50);
+      return { status: 'stopping' };
+    });
+  }
+
+  /**
+   * Stream a session's output to the client as newline-delimited JSON,
+   * either as output entries or, with `lines`, as complete lines. The last
+   * `limit` entries or lines are replayed first. Limits the session exceeds
+   * are sent as they are; the stream ends when the session terminates, with
+   * the reason if a limit ended it, or when the client disconnects.
+   */
+  private streamSession(
+    session: Session,
+    options: { format: OutputFormat; limit?: number; lines?: boolean },
+    reply: FastifyReply
+  ): void {
+    const { format, limit, lines } = options;
+    const sessionId = session.id;
+    const raw = reply.raw;
+    reply.hijack();
+    raw.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+
+    const write = (event: Record<string, unknown>) => {
+      raw.write(JSON.stringify(event) + '\n');
+    };
+
+    const onOutput = (id: string, output: TerminalOutput) => {
+      if (id === sessionId) {
+        write({ type: 'output', data: this.sessionManager.serializeOutput(output, format, sessionId) });
+      }
+    };
+    const onLine = (id: string, line: ParsedLine) => {
+      if (id === sessionId && line.complete) {
+        write({ type: 'line', line });
+      }
+    };
+    const onLimitExceeded = (id: string, violation: LimitViolation) => {
+      if (id === sessionId) {
+        write({ type: 'limit', violation });
+      }
+    };
+    const onTerminated = (id: string, exitCode?: number) => {
+      if (id === sessionId) {
+        write({ type: 'terminated', exitCode: exitCode ?? null, reason: session.exitReason });
+        finish();
+      }
+    };
+    const finish = () => {
+      this.sessionManager.off('output', onOutput);
+      this.sessionManager.off('line', onLine);
+      this.sessionManager.off('limitExceeded', onLimitExceeded);
+      this.sessionManager.off('sessionTerminated', onTerminated);
+      raw.end();
+    };
+
+    write({ type: 'session', session: this.toSessionInfo(session) });
+    if (lines) {
+      if (limit === undefined || limit > 0) {
+        for (const line of this.sessionManager.getSessionLines(sessionId, { limit })) {
+          write({ type: 'line', line });
+        }
+      }
+    } else if (limit === undefined || limit > 0) {
+      for (const entry of this.sessionManager.getSessionHistory(sessionId, format, limit)) {
+        write({ type: 'output', data: entry });
+      }
+    }
+
+    if (session.status === 'terminated' || session.status === 'error') {
+      write({ type: 'terminated', exitCode: session.exitCode ?? null, reason: session.exitReason });
+      raw.end();
+      return;
+    }
+
+    if (lines) {
+      this.sessionManager.on('line', onLine);
+    } else {
+      this.sessionManager.on('output', onOutput);
+    }
+    this.sessionManager.on('limitExceeded', onLimitExceeded);
+    this.sessionManager.on('sessionTerminated', onTerminated);
+    raw.on('close', finish);
+  }
+
+  /**
+   * Stream a recipe run to the client as newline-delimited JSON: the run
+   * whenever it or a step changes, and its steps' output. The stream ends
+   * when the run does or the client disconnects.
+   */
+  private streamRecipeRun(run: RecipeRun, format: OutputFormat, reply: FastifyReply): void {
+    const raw = reply.raw;
+    reply.hijack();
+    raw.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+
+    const write = (event: Record<string, unknown>) => {
+      raw.write(JSON.stringify(event) + '\n');
+    };
+
+    const onUpdate = (updated: RecipeRun) => {
+      if (updated.id === run.id) {
+        write({ type: 'run', run: updated });
+        if (updated.endTime !== undefined) {
+          finish();
+        }
+      }
+    };
+    const onOutput = (sessionId: string, output: TerminalOutput) => {
+      const link = this.sessionManager.getSession(sessionId)?.recipe;
+      if (link?.runId === run.id) {
+        write({ type: 'output', step: link.step, data: this.sessionManager.serializeOutput(output, format, sessionId) });
+      }
+    };
+    const finish = () => {
+      this.recipeRunner.off('runUpdate', onUpdate);
+      this.sessionManager.off('output', onOutput);
+      raw.end();
+    };
+
+    write({ type: 'run', run });
+    if (run.endTime !== undefined) {
+      raw.end();
+      return;
+    }
+    this.recipeRunner.on('runUpdate', onUpdate);
+    this.sessionManager.on('output', onOutput);
+    raw.on('close', finish);
+  }
+
+  private resolveRecipeRun(runId: string): RecipeRun {
+    const run = this.recipeRunner.getRun(runId);
+    if (!run) {
+      throw new HostRequestError(`Recipe run ${runId} not found`, 404);
+    }
+    return run;
+  }
+
+  /**
+   * Resolve a full or partial session ID to a session
+   */
+  private resolveSession(idOrPrefix: string): Session {
+    const exact = this.sessionManager.getSession(idOrPrefix);
+    if (exact) {
+      return exact;
+    }
+
+    const matches = this.sessionManager.listSessions().filter(s => s.id.startsWith(idOrPrefix));
+    if (matches.length === 0) {
+      throw new HostRequestError(`Session not found: ${idOrPrefix}`, 404);
+    }
+    if (matches.length > 1) {
+      const candidates = matches.map(s => s.id.slice(0, 8)).join(', ');
+      throw new HostRequestError(`Session ID '${idOrPrefix}' is ambiguous (matches ${candidates})`, 409);
+    }
+    return matches[0];
+  }
+
+  private toSessionInfo(session: Session): SessionInfo {
+    const { env, outputHistory, inputHistory, remoteConnections, ...rest } = session;
+    return {
+      ...rest,
+      remoteConnections: remoteConnections.size,
+      historySize: this.sessionManager.getSessionHistorySize(session.id)
+    };
+  }
+}
+
+/**
+ * Run a session host in this process until it is asked to shut down or the
+ * process is signalled. Resolves once the host is listening.
+ */
+export async function runSessionHost(socketPath: string): Promise<void> {
+  const sessionManager = new SessionManager();
+  await sessionManager.initialize({ watchConfig: true });
+
+  let stopping = false;
+  const stopHost = async () => {
+    if (stopping) return;
+    stopping = true;
+    console.log('Shutting down session host...');
+    await host.stop().catch(() => {});
+    await sessionManager.shutdown();
+    process.exit(0);
+  };
+
+  const host = new SessionHost(sessionManager, socketPath, stopHost);
+  try {
+    await host.start();
+  } catch (error) {
+    await sessionManager.shutdown();
+    throw error;
+  }
+
+  process.on('SIGINT', stopHost);
+  process.on('SIGTERM', stopHost);
+}
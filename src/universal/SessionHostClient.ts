@@ -0,0 +1,358 @@
+/**
+ * Universal CLI Wrapper - Session Host Client
+ *
+ * Talks to the session host over its local socket. Used by the CLI
+ * subcommands, which hold no sessions of their own.
+ */
+
+import { request as httpRequest, IncomingMessage } from 'node:http';
+import type {
+  HistoryQuery,
+  LimitsConfig,
+  LimitViolation,
+  OutputFormat,
+  ParsedLine,
+  ProcessMode,
+  RecipeConfig,
+  RecipeRun,
+  SessionInfo,
+  SnapshotFormat,
+  TerminalSize
+} from './types.js';
+
+/**
+ * Thrown when no session host is listening on the socket
+ */
+export class SessionHostNotRunningError extends Error {
+  constructor(socketPath: string) {
+    super(`Session host is not running (no listener on ${socketPath})`);
+    this.name = 'SessionHostNotRunningError';
+  }
+}
+
+export type FollowEvent =
+  | { type: 'session'; session: SessionInfo }
+  | { type: 'output'; data: string }
+  | { type: 'line'; line: ParsedLine }
+  | { type: 'limit'; violation: LimitViolation }
+  /** `reason` is set when the session was ended for exceeding a limit */
+  | { type: 'terminated'; exitCode: number | null; reason?: string };
+
+export type RecipeFollowEvent =
+  | { type: 'run'; run: RecipeRun }
+  /** Output of the step with this index */
+  | { type: 'output'; step: number; data: string };
+
+export class SessionHostClient {
+  private readonly requestTimeout = 10000;
+
+  constructor(private readonly socketPath: string) {}
+
+  /**
+   * Check whether a host is answering on the socket
+   */
+  async isRunning(): Promise<boolean> {
+    try {
+      await this.ping();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async ping(): Promise<{ pid: number; startedAt: number }> {
+    return this.post('/ping');
+  }
+
+  async createSession(options: {
+    tool?: string;
+    command: string;
+    args?: string[];
+    cwd?: string;
+    env?: Record<string, string>;
+    mode?: Exclude<ProcessMode, 'direct'>;
+    size?: TerminalSize;
+    record?: boolean;
+    limits?: LimitsConfig;
+    /** Environment the session starts from; this process's by default */
+    baseEnv?: Record<string, string>;
+  }): Promise<SessionInfo> {
+    const { session } = await this.post('/sessions/create', { ...options, baseEnv: options.baseEnv ?? this.environment() });
+    return session;
+  }
+
+  async listSessions(): Promise<SessionInfo[]> {
+    const { sessions } = await this.post('/sessions/list');
+    return sessions;
+  }
+
+  /**
+   * Get a session by full or partial ID
+   */
+  async getSession(sessionId: string): Promise<SessionInfo> {
+    const { session } = await this.post('/sessions/get', { sessionId });
+    return session;
+  }
+
+  async sendInput(sessionId: string, input: string): Promise<void> {
+    await this.post('/sessions/input', { sessionId, input });
+  }
+
+  async resizeSession(sessionId: string, size: TerminalSize): Promise<void> {
+    await this.post('/sessions/resize', { sessionId, ...size });
+  }
+
+  /**
+   * Get a session's output history; a number keeps only the newest entries
+   */
+  async getSessionHistory(
+    sessionId: string,
+    format: OutputFormat = 'text',
+    query?: number | HistoryQuery
+  ): Promise<string[]> {
+    const { history } = await this.post('/sessions/history', {
+      sessionId,
+      format,
+      ...(typeof query === 'number' ? { limit: query } : query)
+    });
+    return history;
+  }
+
+  /**
+   * Get a session's complete output lines, optionally only those after a sequence number
+   */
+  async getSessionLines(
+    sessionId: string,
+    options: { since?: number; source?: 'stdout' | 'stderr'; limit?: number } = {}
+  ): Promise<ParsedLine[]> {
+    const { lines } = await this.post('/sessions/lines', { sessionId, ...options });
+    return lines;
+  }
+
+  /**
+   * Render the session's current visible screen
+   */
+  async getSnapshot(sessionId: string, format: SnapshotFormat = 'text'): Promise<string> {
+    const { snapshot } = await this.post('/sessions/snapshot', { sessionId, format });
+    return snapshot;
+  }
+
+  async terminateSession(sessionId: string, force = false): Promise<string> {
+    const result = await this.post('/sessions/kill', { sessionId, force });
+    return result.sessionId;
+  }
+
+  async pauseSession(sessionId: string): Promise<string> {
+    const result = await this.post('/sessions/pause', { sessionId });
+    return result.sessionId;
+  }
+
+  async resumeSession(sessionId: string): Promise<string> {
+    const result = await this.post('/sessions/resume', { sessionId });
+    return result.sessionId;
+  }
+
+  /**
+   * Send a signal, by name or number, to a session's process group
+   */
+  async signalSession(sessionId: string, signal: string): Promise<{ sessionId: string; signal: string }> {
+    return this.post('/sessions/signal', { sessionId, signal });
+  }
+
+  async getStats(): Promise<any> {
+    const { stats } = await this.post('/stats');
+    return stats;
+  }
+
+  /**
+   * Start a WebSocket remote control server inside the host. Reuses the
+   * server if one is already listening on the port. Clients connect with
+   * the returned token; browsers only from `allowedOrigins`.
+   */
+  async startRemoteServer(
+    port: number,
+    host?: string,
+    allowedOrigins?: string[]
+  ): Promise<{ address: string; port: number; token: string; alreadyRunning: boolean }> {
+    return this.post('/remote/start', { port, host, allowedOrigins });
+  }
+
+  async shutdown(): Promise<void> {
+    await this.post('/shutdown');
+  }
+
+  /**
+   * Follow a session's output, as output entries or, with `lines`, as
+   * complete lines. Resolves when the session terminates or the returned
+   * `stop` function is called.
+   */
+  follow(
+    sessionId: string,
+    options: { format?: OutputFormat; limit?: number; lines?: boolean },
+    onEvent: (event: FollowEvent) => void
+  ): { done: Promise<void>; stop: () => void } {
+    return this.stream('/sessions/follow', {
+      sessionId,
+      format: options.format || 'text',
+      limit: options.limit,
+      lines: options.lines
+    }, onEvent);
+  }
+
+  /**
+   * Run a recipe in the host; its steps run relative to `cwd`
+   */
+  async runRecipe(name: string, recipe: RecipeConfig, cwd: string): Promise<RecipeRun> {
+    const { run } = await this.post('/recipes/run', { name, recipe, cwd, baseEnv: this.environment() });
+    return run;
+  }
+
+  /**
+   * Follow a recipe run's progress and its steps' output. Resolves when
+   * the run ends or the returned `stop` function is called.
+   */
+  followRecipe(
+    runId: string,
+    options: { format?: OutputFormat },
+    onEvent: (event: RecipeFollowEvent) => void
+  ): { done: Promise<void>; stop: () => void } {
+    return this.stream('/recipes/follow', { runId, format: options.format || 'text' }, onEvent);
+  }
+
+  async cancelRecipe(runId: string): Promise<void> {
+    await this.post('/recipes/cancel', { runId });
+  }
+
+  /**
+   * POST a JSON body and read the newline-delimited JSON events of the response
+   */
+  private stream<T>(path: string, body: unknown, onEvent: (event: T) => void): { done: Promise<void>; stop: () => void } {
+    let stop = () => {};
+
+    const done = new Promise<void>((resolve, reject) => {
+      const req = this.openRequest(path, body, async (res) => {
+        if (res.statusCode !== 200) {
+          reject(await this.responseError(res));
+          return;
+        }
+
+        let buffered = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          buffered += chunk;
+          try {
+            let newline: number;
+            while ((newline = buffered.indexOf('\n')) !== -1) {
+              const line = buffered.slice(0, newline);
+              buffered = buffered.slice(newline + 1);
+              if (line.length > 0) {
+                onEvent(JSON.parse(line));
+              }
+            }
+          } catch (error) {
+            reject(error);
+            req.destroy();
+          }
+        });
+        res.on('end', () => resolve());
+        res.on('close', () => resolve());
+      }, reject);
+
+      stop = () => {
+        req.destroy();
+        resolve();
+      };
+    });
+
+    return { done, stop: () => stop() };
+  }
+
+  /**
+   * This process's environment, which sessions and recipe steps it starts
+   * begin from instead of the host's
+   */
+  private environment(): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const [key, value] of Object.entries(process.env)) {
+      if (value !== undefined) {
+        env[key] = value;
+      }
+    }
+    return env;
+  }
+
+  /**
+   * POST a JSON body and parse the JSON response
+   */
+  private post(path: string, body?: unknown): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const req = this.openRequest(path, body, async (res) => {
+        if (res.statusCode !== 200) {
+          reject(await this.responseError(res));
+          return;
+        }
+        try {
+          resolve(JSON.parse(await this.readBody(res)));
+        } catch (error) {
+          reject(new Error(`Invalid response from session host for ${path}: ${error}`));
+        }
+      }, reject);
+
+      req.setTimeout(this.requestTimeout, () => {
+        req.destroy(new Error(`Session host request timed out: ${path}`));
+      });
+    });
+  }
+
+  private openRequest(
+    path: string,
+    body: unknown,
+    onResponse: (res: IncomingMessage) => void,
+    onError: (error: Error) => void
+  ) {
+    const payload = JSON.stringify(body || {});
+    const req = httpRequest({
+      socketPath: this.socketPath,
+      path,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(payload)
+      }
+    }, onResponse);
+
+    req.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED') {
+        onError(new SessionHostNotRunningError(this.socketPath));
+      } else {
+        onError(error);
+      }
+    });
+
+    req.end(payload);
+    return req;
+  }
+
+  private readBody(res: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let data = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => { data += chunk; });
+      res.on('end', () => resolve(data));
+      res.on('error', reject);
+    });
+  }
+
+  private async responseError(res: IncomingMessage): Promise<Error> {
+    const body = await this.readBody(res);
+    try {
+      const parsed = JSON.parse(body);
+      if (parsed.error) {
+        return new Error(parsed.error);
+      }
+    } catch (error) {
+      // Not JSON, fall through
+    }
+    return new Error(`Session host returned HTTP ${res.statusCode}`);
+  }
+}
@@ -8,29 +8,66 @@
 import { EventEmitter } from 'node:events';
 import { randomUUID } from 'node:crypto';
 import type {
+  DiagnosticSummary,
+  GetDiagnosticsRequest,
+  GetDiagnosticsResponse,
+  HistoryQuery,
+  LimitsConfig,
+  LimitViolation,
   Session,
   RemoteMessage,
   TerminalOutput,
   OutputFormat,
+  ParsedLine,
+  PatternMatch,
+  ResourceSample,
+  SessionProgress,
+  SessionResources,
   ProcessConfig,
-  ToolConfig
+  ProcessMode,
+  RemoteTransport,
+  SnapshotFormat,
+  TerminalSize,
+  TestSummary,
+  ToolAdapter,
+  ToolConfig,
+  ToolEvent
 } from './types.js';
 import { ProcessManager } from './ProcessManager.js';
 import { StreamParser } from './StreamParser.js';
-import { FormatProcessor } from './FormatProcessor.js';
+import { FormatProcessor, type SerializeOptions } from './FormatProcessor.js';
 import { ConfigManager } from './ConfigManager.js';
+import { SessionRecorder } from './SessionRecorder.js';
+import { RecordingStore } from './RecordingStore.js';
+import { TerminalScreen } from './TerminalScreen.js';
+import { PatternEngine } from './PatternEngine.js';
+import { PromptDetector } from './PromptDetector.js';
+import { ProgressTracker } from './ProgressTracker.js';
+import { HistoryStore } from './HistoryStore.js';
+import { ResourceMonitor } from './ResourceMonitor.js';
+import { LimitWatchdog } from './LimitWatchdog.js';
 import { happyIntegration } from './HappyIntegration.js';
 
 export interface SessionEvents {
-  sessionCreated: (sessionId: string) => void;
-  sessionStarted: (sessionId: string) => void;
-  sessionTerminated: (sessionId: string, exitCode?: number) => void;
-  sessionError: (sessionId: string, error: Error) => void;
-  output: (sessionId: string, output: TerminalOutput) => void;
-  input: (sessionId: string, input: string) => void;
-  statusChange: (sessionId: string, status: Session['status']) => void;
-  remoteConnect: (sessionId: string, clientId: string) => void;
-  remoteDisconnect: (sessionId: string, clientId: string) => void;
+  sessionCreated: [sessionId: string];
+  sessionStarted: [sessionId: string];
+  sessionTerminated: [sessionId: string, exitCode?: number];
+  /** A terminated session's last output has been read and its plugins told */
+  sessionSettled: [sessionId: string];
+  sessionError: [sessionId: string, error: Error];
+  output: [sessionId: string, output: TerminalOutput];
+  input: [sessionId: string, input: string];
+  statusChange: [sessionId: string, status: Session['status']];
+  titleChange: [sessionId: string, title: string];
+  patternMatched: [sessionId: string, match: PatternMatch];
+  line: [sessionId: string, line: ParsedLine];
+  progress: [sessionId: string, progress: SessionProgress];
+  resources: [sessionId: string, sample: ResourceSample];
+  limitExceeded: [sessionId: string, violation: LimitViolation];
+  toolEvent: [sessionId: string, event: ToolEvent, plugin: string];
+  resize: [sessionId: string, size: TerminalSize];
+  remoteConnect: [sessionId: string, clientId: string];
+  remoteDisconnect: [sessionId: string, clientId: string];
 }
 
 export class SessionManager extends EventEmitter<SessionEvents> {
@@ -39,22 +76,82 @@ export class SessionManager extends EventEmitter<SessionEvents> {
   private streamParser = new StreamParser();
   private formatProcessor = new FormatProcessor();
   private configManager = new ConfigManager();
+  private historyStore = new HistoryStore(
+    this.configManager.getConfigPaths().historyDir,
+    this.formatProcessor,
+    this.configManager.getGlobalConfig().historyMemoryBytes
+  );
+  private remoteTransports = new Map<string, RemoteTransport>();
+  private recorders = new Map<string, SessionRecorder>();
+  private recordSessions = new Set<string>();
+  private screens = new Map<string, TerminalScreen>();
+  private patternEngines = new Map<string, PatternEngine>();
+  private promptDetectors = new Map<string, { detector: PromptDetector; idleMs: number; notify: boolean }>();
+  private progressTrackers = new Map<string, ProgressTracker>();
+  /** Plugin adapters of each session, by plugin name */
+  private adapters = new Map<string, Map<string, ToolAdapter>>();
+  /** Each session's tool configuration, resolved for its working directory */
+  private toolConfigs = new Map<string, ToolConfig | null>();
+  private inputCheckTimers = new Map<string, NodeJS.Timeout>();
+  private lastInputAt = new Map<string, number>();
+  private resourceMonitor = new ResourceMonitor();
+  /** When each session's resources were last sent to Happy */
+  private resourcesSentAt = new Map<string, number>();
+  private watchdogs = new Map<string, LimitWatchdog>();
 
   private readonly maxSessions = 50;
   private readonly sessionTimeout = 3600000; // 1 hour
+  private readonly defaultPromptIdleMs = 500;
+  private readonly promptNotifyQuietMs = 30000; // No push while the user is typing
+  private readonly testFailureLimit = 50; // Failures sent to Happy, to keep metadata small
+  private readonly testMessageLimit = 1000;
+  private readonly resourcesMetadataIntervalMs = 10000; // Samples are too frequent to send each to Happy
   private sessionCleanupInterval: NodeJS.Timeout;
 
   constructor() {
     super();
     this.setupProcessHandlers();
     this.setupCleanupInterval();
+    this.configManager.on('reload', () => this.applyConfig());
   }
 
   /**
-   * Initialize the session manager
+   * Initialize the session manager. With `watchConfig`, changes to the
+   * configuration files are picked up while it runs.
    */
-  async initialize(): Promise<void> {
+  async initialize(options: { watchConfig?: boolean } = {}): Promise<void> {
     await this.configManager.initialize();
+    this.historyStore.setBudget(this.configManager.getGlobalConfig().historyMemoryBytes);
+    this.pruneHistory();
+    if (options.watchConfig) {
+      this.configManager.watch();
+    }
+  }
+
+  /**
+   * Apply reloaded configuration. Patterns, env, prompts and encoding are
+   * read when a session starts, so they apply to the next session; output
+   * options also change for the sessions already running.
+   */
+  private applyConfig(): void {
+    this.historyStore.setBudget(this.configManager.getGlobalConfig().historyMemoryBytes);
+
+    for (const session of this.sessions.values()) {
+      if (session.status === 'terminated' || session.status === 'error' || !this.screens.has(session.id)) {
+        continue;
+      }
+      const toolConfig = this.configManager.getToolConfig(session.tool, session.cwd);
+      this.toolConfigs.set(session.id, toolConfig);
+      const outputProcessing = toolConfig?.outputProcessing;
+      this.streamParser.configureSession(session.id, { normalization: outputProcessing?.lineNormalization });
+
+      const progressDetection = outputProcessing?.progressDetection;
+      if (progressDetection?.enabled === false) {
+        this.progressTrackers.delete(session.id);
+      } else {
+        this.progressTrackers.set(session.id, new ProgressTracker(progressDetection));
+      }
+    }
   }
 
   /**
@@ -65,44 +162,87 @@ export class SessionManager extends EventEmitter<SessionEvents> {
     command: string;
     args?: string[];
     cwd?: string;
+    /** Environment the session starts from, e.g. its client's; defaults to this process's */
+    baseEnv?: Record<string, string>;
     env?: Record<string, string>;
     autoStart?: boolean;
     directOutput?: boolean;
+    mode?: ProcessMode;
+    size?: TerminalSize;
+    /** Record to an asciicast file; defaults to the `recordSessions` setting */
+    record?: boolean;
+    /** Recipe step the session runs; Happy sees the recipe's run instead of the session */
+    recipe?: Session['recipe'];
+    /** Limits of this session, over those of its tool */
+    limits?: LimitsConfig;
   }): Promise<string> {
     if (this.sessions.size >= this.maxSessions) {
       throw new Error(`Maximum number of sessions (${this.maxSessions}) reached`);
     }
 
     const sessionId = randomUUID();
-    const tool = options.tool || await this.configManager.detectTool(options.command) || 'generic';
-    const toolConfig = this.configManager.getToolConfig(tool);
+    const cwd = options.cwd || process.cwd();
+    const tool = options.tool || await this.configManager.detectTool(options.command, cwd, options.args);
+    const toolConfig = this.configManager.getToolConfig(tool, cwd);
+    const mode = options.mode || toolConfig?.mode;
+
+    // Running a tool by its name runs its command, so a tool can be an alias (`dev` → `pnpm dev`)
+    let command = options.command;
+    let args = options.args || [];
+    if (command === tool && toolConfig?.command) {
+      command = toolConfig.command;
+      args = [...(toolConfig.args || []), ...args];
+    }
 
     const session: Session = {
       id: sessionId,
       tool,
-      command: options.command,
-      args: options.args || [],
+      command,
+      args,
       status: 'idle',
       startTime: Date.now(),
       lastActivity: Date.now(),
-      cwd: options.cwd || process.cwd(),
+      cwd,
       env: {
-        ...process.env,
+        ...(options.baseEnv ?? process.env),
         ...toolConfig?.env,
         ...options.env
       },
       directOutput: options.directOutput !== false, // Default to true
+      mode,
+      terminalSize: mode === 'pty' ? options.size : undefined,
       outputHistory: [],
       inputHistory: [],
-      remoteConnections: new Set()
+      remoteConnections: new Set(),
+      recipe: options.recipe
     };
 
+    const limits: LimitsConfig = {
+      ...toolConfig?.limits,
+      ...options.limits,
+      actions: { ...toolConfig?.limits?.actions, ...options.limits?.actions }
+    };
+    if (LimitWatchdog.hasLimits(limits)) {
+      session.limits = limits;
+    }
+
     this.sessions.set(sessionId, session);
+    this.toolConfigs.set(sessionId, toolConfig);
+    if (options.record ?? this.configManager.getGlobalConfig().recordSessions) {
+      this.recordSessions.add(sessionId);
+    }
     this.emit('sessionCreated', sessionId);
 
     // Register with Happy CLI integration for mobile app visibility
     try {
-      await happyIntegration.registerSession(session);
+      if (!options.recipe) {
+        await happyIntegration.registerSession(session, (input) => this.sendInput(sessionId, input));
+        happyIntegration.registerRpcHandler<GetDiagnosticsRequest, GetDiagnosticsResponse>(
+          sessionId,
+          'getDiagnostics',
+          (request) => this.getDiagnostics(sessionId, request)
+        );
+      }
     } catch (error) {
       // Don't fail session creation if integration fails
       console.warn('Failed to register session with Happy CLI integration:', error);
@@ -131,18 +271,79 @@ export class SessionManager extends EventEmitter<SessionEvents> {
     this.updateSessionStatus(sessionId, 'running');
 
     try {
+      // Direct output never reaches us, so it can't be counted or be idle
+      const direct = (session.mode ?? (session.directOutput ? 'direct' : 'pipe')) === 'direct';
+      const watchdog = session.limits
+        ? new LimitWatchdog(direct ? { ...session.limits, idleTimeout: undefined, maxOutputMb: undefined } : session.limits)
+        : undefined;
+
       const processConfig: ProcessConfig = {
         command: session.command,
         args: session.args,
         cwd: session.cwd,
         env: session.env,
-        directOutput: session.directOutput
+        directOutput: session.directOutput,
+        mode: session.mode,
+        size: session.terminalSize,
+        cpuLimit: watchdog?.cpuLimit()
       };
 
+      // Decoding has to be set up before the first output arrives
+      const toolConfig = this.toolConfigs.get(sessionId);
+      this.streamParser.configureSession(sessionId, {
+        encoding: toolConfig?.encoding,
+        normalization: toolConfig?.outputProcessing?.lineNormalization
+      });
+
       const managedProcess = await this.processManager.spawn(sessionId, processConfig);
       session.pid = managedProcess.pid;
+      if (session.pid !== undefined) {
+        this.resourceMonitor.watch(sessionId, session.pid);
+      }
+      if (watchdog) {
+        this.watchdogs.set(sessionId, watchdog);
+        watchdog.on('violation', (violation) => this.handleLimitViolation(sessionId, violation, watchdog.graceSeconds));
+        watchdog.start();
+      }
+      session.mode = managedProcess.mode;
+      if (managedProcess.mode === 'pty') {
+        session.terminalSize = managedProcess.config.size;
+      }
       session.lastActivity = Date.now();
 
+      // Direct output never reaches us, so there is no screen to emulate
+      if (session.mode !== 'direct') {
+        this.screens.set(sessionId, new TerminalScreen(
+          session.terminalSize || { cols: 80, rows: 24 },
+          session.mode !== 'pty'
+        ));
+
+        const engine = new PatternEngine(sessionId, toolConfig?.patterns);
+        if (!engine.isEmpty()) {
+          this.patternEngines.set(sessionId, engine);
+        }
+
+        const inputDetection = toolConfig?.inputDetection || {};
+        if (inputDetection.enabled !== false) {
+          this.promptDetectors.set(sessionId, {
+            detector: new PromptDetector(inputDetection),
+            idleMs: inputDetection.idleMs ?? this.defaultPromptIdleMs,
+            notify: inputDetection.notify !== false
+          });
+        }
+
+        const progressDetection = toolConfig?.outputProcessing?.progressDetection;
+        if (progressDetection?.enabled !== false) {
+          this.progressTrackers.set(sessionId, new ProgressTracker(progressDetection));
+        }
+
+        this.createAdapters(session, toolConfig ?? null);
+      }
+
+      if (this.recordSessions.has(sessionId)) {
+        await this.startRecording(session);
+      }
+
       this.emit('sessionStarted', sessionId);
     } catch (error) {
       this.updateSessionStatus(sessionId, 'error');
@@ -160,15 +361,18 @@ export class SessionManager extends EventEmitter<SessionEvents> {
       throw new Error(`Session ${sessionId} not found`);
     }
 
-    if (session.status !== 'running') {
+    if (session.status !== 'running' && session.status !== 'awaiting-input') {
       throw new Error(`Session ${sessionId} is not running (status: ${session.status})`);
     }
 
     try {
       await this.processManager.send(sessionId, input);
+      this.lastInputAt.set(sessionId, Date.now());
+      this.leavePrompt(sessionId);
 
       session.inputHistory.push(input);
       session.lastActivity = Date.now();
+      this.recorders.get(sessionId)?.input(input);
 
       this.emit('input', sessionId, input);
 
@@ -201,28 +405,116 @@ export class SessionManager extends EventEmitter<SessionEvents> {
   }
 
   /**
-   * Get session history in specified format
+   * Get session history in specified format. A number keeps only the
+   * newest entries; a query also pages, filters and searches the history,
+   * including output already spilled to disk.
    */
   getSessionHistory(
     sessionId: string,
     format: OutputFormat = 'text',
-    limit?: number
+    query?: number | HistoryQuery
   ): string[] {
     const session = this.sessions.get(sessionId);
     if (!session) {
       return [];
     }
 
-    let history = session.outputHistory;
-    if (limit && limit > 0) {
-      history = history.slice(-limit);
+    const history = this.getSessionOutputs(sessionId, typeof query === 'number' ? { limit: query } : query);
+    if (format === 'table') {
+      return this.getSessionTables(history);
     }
 
+    const options = this.serializeOptions(session);
     return history.map(output =>
-      this.formatProcessor.serializeForTransmission(output, format)
+      this.formatProcessor.serializeForTransmission(output, format, options)
     );
   }
 
+  /**
+   * Get the entries of a session's output history matching the query, oldest first
+   */
+  getSessionOutputs(sessionId: string, query: HistoryQuery = {}): TerminalOutput[] {
+    const session = this.sessions.get(sessionId);
+    return session ? this.historyStore.query(session, query) : [];
+  }
+
+  /**
+   * Number of entries in a session's output history, including those on disk
+   */
+  getSessionHistorySize(sessionId: string): number {
+    const session = this.sessions.get(sessionId);
+    return session ? this.historyStore.count(session) : 0;
+  }
+
+  /**
+   * Resource samples of a session's process tree, oldest first
+   */
+  getResourceHistory(sessionId: string): ResourceSample[] {
+    return this.resourceMonitor.getHistory(sessionId);
+  }
+
+  /**
+   * Get a session's complete lines in order. `since` is a sequence number:
+   * only later lines are returned, so a consumer can poll for new lines.
+   */
+  getSessionLines(
+    sessionId: string,
+    options: { since?: number; source?: 'stdout' | 'stderr'; limit?: number } = {}
+  ): ParsedLine[] {
+    const session = this.sessions.get(sessionId);
+    return session
+      ? this.historyStore.lines(session, { after: options.since, source: options.source, limit: options.limit })
+      : [];
+  }
+
+  /**
+   * Extract tables from history. A table usually arrives in several chunks,
+   * sometimes with stderr output in between, so each stream's output is
+   * joined first; one entry is returned per stream that has tables.
+   */
+  private getSessionTables(history: TerminalOutput[]): string[] {
+    const streams = new Map<TerminalOutput['source'], TerminalOutput>();
+    for (const output of history) {
+      const joined = streams.get(output.source);
+      streams.set(output.source, joined ? { ...joined, text: joined.text + output.text } : output);
+    }
+
+    return Array.from(streams.values())
+      .filter(output => this.formatProcessor.detectTables(output.text).length > 0)
+      .map(output => this.formatProcessor.serializeForTransmission(output, 'table'));
+  }
+
+  /**
+   * Render the current visible screen of a session
+   */
+  getSessionSnapshot(sessionId: string, format: SnapshotFormat = 'text'): string {
+    const screen = this.screens.get(sessionId);
+    if (!screen) {
+      throw new Error(`Session ${sessionId} has no screen (not started or direct output)`);
+    }
+    return screen.snapshot(format);
+  }
+
+  /**
+   * Get the emulated screen of a session, if it has one
+   */
+  getSessionScreen(sessionId: string): TerminalScreen | undefined {
+    return this.screens.get(sessionId);
+  }
+
+  /**
+   * Serialize a single output entry in the specified format
+   */
+  serializeOutput(output: TerminalOutput, format: OutputFormat = 'text', sessionId?: string): string {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    return this.formatProcessor.serializeForTransmission(output, format, session ? this.serializeOptions(session) : {});
+  }
+
+  private serializeOptions(session: Session): SerializeOptions {
+    const outputProcessing = this.toolConfigs.get(session.id)?.outputProcessing;
+    return { tableDetection: outputProcessing?.tableDetection !== false };
+  }
+
   /**
    * Pause a session
    */
@@ -232,12 +524,14 @@ export class SessionManager extends EventEmitter<SessionEvents> {
       throw new Error(`Session ${sessionId} not found`);
     }
 
-    if (session.status !== 'running') {
+    if (session.status !== 'running' && session.status !== 'awaiting-input') {
       throw new Error(`Session ${sessionId} is not running`);
     }
 
     try {
       await this.processManager.pause(sessionId);
+      session.prompt = undefined;
+      this.watchdogs.get(sessionId)?.setPaused(true);
       this.updateSessionStatus(sessionId, 'paused');
     } catch (error) {
       throw new Error(`Failed to pause session ${sessionId}: ${error}`);
@@ -259,7 +553,9 @@ export class SessionManager extends EventEmitter<SessionEvents> {
 
     try {
       await this.processManager.resume(sessionId);
+      this.watchdogs.get(sessionId)?.setPaused(false);
       this.updateSessionStatus(sessionId, 'running');
+      this.scheduleInputCheck(sessionId);
     } catch (error) {
       throw new Error(`Failed to resume session ${sessionId}: ${error}`);
     }
@@ -298,14 +594,79 @@ export class SessionManager extends EventEmitter<SessionEvents> {
   }
 
   /**
-   * Add remote connection to session
+   * Send a signal to a session's process group. SIGSTOP pauses the session
+   * and SIGCONT resumes it, so its status follows.
+   */
+  async signalSession(sessionId: string, signal: NodeJS.Signals): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    if (session.status === 'terminated' || session.status === 'error') {
+      throw new Error(`Session ${sessionId} is not running`);
+    }
+
+    if (signal === 'SIGSTOP') {
+      await this.pauseSession(sessionId);
+    } else if (signal === 'SIGCONT' && session.status === 'paused') {
+      await this.resumeSession(sessionId);
+    } else {
+      this.processManager.signal(sessionId, signal);
+    }
+  }
+
+  /**
+   * Resize the terminal of a PTY session
    */
-  addRemoteConnection(sessionId: string, clientId: string): boolean {
+  resizeSession(sessionId: string, size: TerminalSize, clientId?: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    if (session.mode !== 'pty') {
+      throw new Error(`Session ${sessionId} is not running in PTY mode`);
+    }
+
+    if (session.status === 'terminated' || session.status === 'error') {
+      return;
+    }
+
+    this.processManager.resize(sessionId, size);
+    session.terminalSize = this.processManager.getProcess(sessionId)?.config.size || size;
+    session.lastActivity = Date.now();
+
+    this.recorders.get(sessionId)?.resize(session.terminalSize);
+    this.screens.get(sessionId)?.resize(session.terminalSize);
+    this.emit('resize', sessionId, session.terminalSize);
+
+    // Let other viewers adapt their rendering to the new size
+    this.broadcastToRemote(sessionId, {
+      type: 'control',
+      sessionId,
+      data: {
+        action: 'resize',
+        ...session.terminalSize
+      },
+      timestamp: Date.now(),
+      clientId
+    }, clientId);
+  }
+
+  /**
+   * Add remote connection to session.
+   * The transport, if given, is used to deliver messages to the client.
+   */
+  addRemoteConnection(sessionId: string, clientId: string, transport?: RemoteTransport): boolean {
     const session = this.sessions.get(sessionId);
     if (!session) {
       return false;
     }
 
+    if (transport) {
+      this.remoteTransports.set(clientId, transport);
+    }
     session.remoteConnections.add(clientId);
     session.lastActivity = Date.now();
     this.emit('remoteConnect', sessionId, clientId);
@@ -325,6 +686,7 @@ export class SessionManager extends EventEmitter<SessionEvents> {
     if (removed) {
       this.emit('remoteDisconnect', sessionId, clientId);
     }
+    this.releaseRemoteTransport(clientId);
     return removed;
   }
 
@@ -335,10 +697,15 @@ export class SessionManager extends EventEmitter<SessionEvents> {
     totalSessions: number;
     runningSessions: number;
     idleSessions: number;
+    awaitingInputSessions: number;
     pausedSessions: number;
     terminatedSessions: number;
     totalRemoteConnections: number;
     processStats: any;
+    resources: {
+      supported: boolean;
+      sessions: Array<{ sessionId: string; status: Session['status']; command: string } & SessionResources & { history: ResourceSample[] }>;
+    };
   } {
     const sessions = Array.from(this.sessions.values());
 
@@ -346,6 +713,7 @@ export class SessionManager extends EventEmitter<SessionEvents> {
     const statusCounts = {
       idle: 0,
       running: 0,
+      'awaiting-input': 0,
       paused: 0,
       terminated: 0,
       error: 0
@@ -360,11 +728,393 @@ export class SessionManager extends EventEmitter<SessionEvents> {
       totalSessions: sessions.length,
       runningSessions: statusCounts.running,
       idleSessions: statusCounts.idle,
+      awaitingInputSessions: statusCounts['awaiting-input'],
       pausedSessions: statusCounts.paused,
       terminatedSessions: statusCounts.terminated,
       totalRemoteConnections,
-      processStats: this.processManager.getStats()
+      processStats: this.processManager.getStats(),
+      resources: {
+        supported: this.resourceMonitor.isSupported(),
+        sessions: sessions
+          .filter(session => session.resources)
+          .map(session => ({
+            sessionId: session.id,
+            status: session.status,
+            command: [session.command, ...session.args].join(' '),
+            ...session.resources!,
+            history: this.resourceMonitor.getHistory(session.id)
+          }))
+      }
+    };
+  }
+
+  /**
+   * Check for a prompt once output has been quiet for the tool's idle time
+   */
+  private scheduleInputCheck(sessionId: string): void {
+    const detection = this.promptDetectors.get(sessionId);
+    if (!detection) {
+      return;
+    }
+
+    clearTimeout(this.inputCheckTimers.get(sessionId));
+    this.inputCheckTimers.set(sessionId, setTimeout(() => {
+      this.inputCheckTimers.delete(sessionId);
+      this.checkAwaitingInput(sessionId);
+    }, detection.idleMs));
+  }
+
+  /**
+   * Move a quiet session to `awaiting-input` if its partial last line is a prompt
+   */
+  private checkAwaitingInput(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    const detection = this.promptDetectors.get(sessionId);
+    if (!session || !detection || session.status !== 'running') {
+      return;
+    }
+
+    const partial = this.streamParser.getPendingPartialLines(sessionId);
+    const prompt = detection.detector.detect(partial.stdout) ?? detection.detector.detect(partial.stderr);
+    if (prompt) {
+      this.enterPrompt(session, prompt, detection.notify);
+    }
+  }
+
+  /**
+   * Move a running session to `awaiting-input` at a prompt
+   */
+  private enterPrompt(session: Session, prompt: string, notify: boolean): void {
+    session.prompt = prompt;
+    this.updateSessionStatus(session.id, 'awaiting-input');
+    this.broadcastPromptState(session);
+
+    // Someone answering from the phone or a terminal right now doesn't need a push
+    const lastInput = this.lastInputAt.get(session.id) ?? 0;
+    if (notify && Date.now() - lastInput > this.promptNotifyQuietMs) {
+      happyIntegration.sendPushNotification(session.id, `${session.tool} is waiting for you`, prompt).catch(error => {
+        console.warn('Failed to send awaiting-input notification:', error);
+      });
+    }
+  }
+
+  /**
+   * Return an `awaiting-input` session to `running` after input or new output
+   */
+  private leavePrompt(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.status !== 'awaiting-input') {
+      return;
+    }
+
+    session.prompt = undefined;
+    this.updateSessionStatus(sessionId, 'running');
+    this.broadcastPromptState(session);
+  }
+
+  private broadcastPromptState(session: Session): void {
+    this.broadcastToRemote(session.id, {
+      type: 'status',
+      sessionId: session.id,
+      data: {
+        status: session.status,
+        prompt: session.prompt
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Count a pattern match, report it and carry out its action
+   */
+  private handlePatternMatch(session: Session, engine: PatternEngine, match: PatternMatch): void {
+    const summary = session.patternMatches || (session.patternMatches = {});
+    summary[match.pattern] = {
+      count: (summary[match.pattern]?.count || 0) + 1,
+      lastMatch: match.match,
+      lastMatchedAt: match.timestamp
+    };
+
+    this.emit('patternMatched', session.id, match);
+    happyIntegration.updateSessionMetadata(session.id, { patternMatches: { ...summary } });
+
+    engine.act(match, session).catch(error => {
+      console.warn(`Failed to run action for pattern '${match.pattern}':`, error);
+    });
+  }
+
+  /**
+   * Record the latest progress and pass it on to listeners, remote clients
+   * and Happy, so a phone can show a live progress bar
+   */
+  private updateSessionProgress(session: Session, progress: SessionProgress): void {
+    session.progress = progress;
+    this.emit('progress', session.id, progress);
+    happyIntegration.updateSessionMetadata(session.id, { progress });
+
+    this.broadcastToRemote(session.id, {
+      type: 'progress',
+      sessionId: session.id,
+      data: progress,
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Start an adapter for each plugin that handles the session's tool
+   */
+  private createAdapters(session: Session, toolConfig: ToolConfig | null): void {
+    const adapters = new Map<string, ToolAdapter>();
+    for (const plugin of this.configManager.getToolPlugins(session.tool)) {
+      try {
+        const adapter = plugin.createAdapter!({
+          session: { id: session.id, tool: session.tool, command: session.command, args: session.args, cwd: session.cwd, mode: session.mode },
+          config: toolConfig,
+          emit: (event) => this.handleToolEvent(session.id, plugin.name, event),
+          processOutput: (ansi, source) => this.formatProcessor.processOutput(Buffer.from(ansi, 'utf8'), source, ansi)
+        });
+        if (adapter) {
+          adapters.set(plugin.name, adapter);
+        }
+      } catch (error) {
+        console.warn(`Plugin '${plugin.name}' failed to start for session ${session.id}:`, error);
+      }
+    }
+    if (adapters.size > 0) {
+      this.adapters.set(session.id, adapters);
+    }
+  }
+
+  /**
+   * Call a hook of every adapter of a session. An adapter that throws is
+   * dropped from the session, so a broken plugin can't break the session.
+   */
+  private runAdapters(sessionId: string, hook: (adapter: ToolAdapter) => void): void {
+    const adapters = this.adapters.get(sessionId);
+    for (const [name, adapter] of adapters || []) {
+      try {
+        hook(adapter);
+      } catch (error) {
+        console.warn(`Plugin '${name}' failed in session ${sessionId} and was disabled for it:`, error);
+        adapters!.delete(name);
+        this.disposeAdapter(sessionId, name, adapter);
+      }
+    }
+  }
+
+  private disposeAdapters(sessionId: string): void {
+    for (const [name, adapter] of this.adapters.get(sessionId) || []) {
+      this.disposeAdapter(sessionId, name, adapter);
+    }
+    this.adapters.delete(sessionId);
+  }
+
+  private disposeAdapter(sessionId: string, name: string, adapter: ToolAdapter): void {
+    try {
+      adapter.dispose?.();
+    } catch (error) {
+      console.warn(`Plugin '${name}' failed to clean up session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Act on an event from a plugin and pass it on to listeners and remote clients
+   */
+  private handleToolEvent(sessionId: string, plugin: string, event: ToolEvent): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    switch (event?.type) {
+      case 'tests':
+        this.updateSessionTests(session, event.summary);
+        break;
+      case 'diagnostics':
+        this.updateSessionDiagnostics(session, event.summary);
+        break;
+      case 'progress':
+        this.updateSessionProgress(session, { ...event.progress, updatedAt: Date.now() });
+        break;
+      case 'prompt':
+        if (session.status === 'running') {
+          this.enterPrompt(session, event.prompt, this.promptDetectors.get(sessionId)?.notify ?? true);
+        }
+        break;
+      case 'diagnostic':
+      case 'test':
+      case 'custom':
+        break;
+      default:
+        console.warn(`Plugin '${plugin}' emitted an unknown event in session ${sessionId}:`, event);
+        return;
+    }
+
+    this.emit('toolEvent', sessionId, event, plugin);
+    this.broadcastToRemote(sessionId, {
+      type: 'event',
+      sessionId,
+      data: { plugin, ...event },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Keep a test runner's latest results and give Happy the counts and
+   * failures, so a phone can show them and open each failure
+   */
+  private updateSessionTests(session: Session, summary: TestSummary): void {
+    session.tests = summary;
+    const failures = summary.suites.flatMap(suite => suite.tests
+      .filter(test => test.status === 'failed')
+      .map(test => ({
+        suite: suite.name,
+        name: test.name,
+        file: test.file,
+        line: test.line,
+        message: test.message?.slice(0, this.testMessageLimit)
+      })));
+
+    happyIntegration.updateSessionMetadata(session.id, {
+      tests: {
+        runner: summary.runner,
+        status: summary.status,
+        passed: summary.passed,
+        failed: summary.failed,
+        skipped: summary.skipped,
+        total: summary.total,
+        durationMs: summary.durationMs,
+        failures: failures.slice(0, this.testFailureLimit),
+        updatedAt: summary.updatedAt
+      }
+    });
+  }
+
+  /**
+   * Keep a compiler or linter's latest run. Happy gets the counts; the
+   * diagnostics themselves are fetched with the `getDiagnostics` RPC.
+   */
+  private updateSessionDiagnostics(session: Session, summary: DiagnosticSummary): void {
+    session.diagnostics = summary;
+    happyIntegration.updateSessionMetadata(session.id, {
+      diagnostics: {
+        source: summary.source,
+        run: summary.run,
+        status: summary.status,
+        errors: summary.errors,
+        warnings: summary.warnings,
+        updatedAt: summary.updatedAt
+      }
+    });
+  }
+
+  /**
+   * Keep the latest sample and the peaks. Happy gets them every few seconds
+   * rather than with each sample; the history is in `getResourceHistory`.
+   */
+  private updateSessionResources(sessionId: string, sample: ResourceSample): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    session.resources = {
+      current: sample,
+      peakCpuPercent: Math.max(session.resources?.peakCpuPercent ?? 0, sample.cpuPercent),
+      peakRssBytes: Math.max(session.resources?.peakRssBytes ?? 0, sample.rssBytes)
     };
+    this.emit('resources', sessionId, sample);
+    this.watchdogs.get(sessionId)?.sample(sample);
+
+    if (sample.timestamp - (this.resourcesSentAt.get(sessionId) ?? 0) >= this.resourcesMetadataIntervalMs) {
+      this.resourcesSentAt.set(sessionId, sample.timestamp);
+      happyIntegration.updateSessionMetadata(sessionId, { resources: session.resources });
+    }
+  }
+
+  /**
+   * Record a limit the session exceeded, tell listeners, remote clients and
+   * the phone, and take the limit's action. Ending the session is recorded
+   * as the reason it exited.
+   */
+  private handleLimitViolation(sessionId: string, violation: LimitViolation, graceSeconds: number): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    session.limitViolations = [...(session.limitViolations || []), violation];
+    if (violation.action === 'terminate' && !session.exitReason) {
+      session.exitReason = `Exceeded a limit: ${violation.message}`;
+    }
+    this.emit('limitExceeded', sessionId, violation);
+    this.broadcastToRemote(sessionId, {
+      type: 'limit',
+      sessionId,
+      data: violation,
+      timestamp: Date.now()
+    });
+
+    happyIntegration.updateSessionMetadata(sessionId, { limitViolations: session.limitViolations });
+    const outcome = { warn: 'is over a limit', terminate: 'was stopped', pause: 'was paused' }[violation.action];
+    happyIntegration.sendPushNotification(sessionId, `${session.tool} ${outcome}`, violation.message).catch(error => {
+      console.warn('Failed to send limit notification:', error);
+    });
+
+    if (violation.action === 'terminate' && session.status !== 'terminated' && session.status !== 'error') {
+      this.processManager.kill(sessionId, 'SIGTERM', graceSeconds * 1000).catch(error => {
+        console.warn(`Failed to terminate session ${sessionId} over its limit:`, error);
+      });
+    } else if (violation.action === 'pause' && (session.status === 'running' || session.status === 'awaiting-input')) {
+      this.pauseSession(sessionId).catch(error => {
+        console.warn(`Failed to pause session ${sessionId} over its limit:`, error);
+      });
+    }
+  }
+
+  /**
+   * Handler of the `getDiagnostics` RPC
+   */
+  private getDiagnostics(sessionId: string, request?: GetDiagnosticsRequest): GetDiagnosticsResponse {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return { success: false, error: `Session ${sessionId} not found` };
+    }
+    if (!session.diagnostics) {
+      return { success: true };
+    }
+
+    const severity = request?.severity;
+    return {
+      success: true,
+      diagnostics: severity
+        ? { ...session.diagnostics, diagnostics: session.diagnostics.diagnostics.filter(entry => entry.severity === severity) }
+        : session.diagnostics
+    };
+  }
+
+  /**
+   * Record a window title change and pass it on to listeners and Happy
+   */
+  private updateSessionTitle(sessionId: string, title: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.title === title) {
+      return;
+    }
+
+    session.title = title;
+    this.emit('titleChange', sessionId, title);
+    happyIntegration.updateSessionMetadata(sessionId, { terminalTitle: title });
+
+    this.broadcastToRemote(sessionId, {
+      type: 'status',
+      sessionId,
+      data: {
+        status: session.status,
+        title
+      },
+      timestamp: Date.now()
+    });
   }
 
   /**
@@ -386,6 +1136,37 @@ export class SessionManager extends EventEmitter<SessionEvents> {
     this.processManager.on('error', (error: Error, processId: string) => {
       this.handleProcessError(processId, error);
     });
+
+    this.streamParser.on('line', (sessionId: string, line: ParsedLine) => {
+      this.handleLine(sessionId, line);
+    });
+
+    this.resourceMonitor.on('sample', (sessionId, sample) => {
+      this.updateSessionResources(sessionId, sample);
+    });
+  }
+
+  /**
+   * Handle a line assembled by the stream parser. Complete lines are kept
+   * for getSessionLines and matched against the tool's patterns.
+   */
+  private handleLine(sessionId: string, line: ParsedLine): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    if (line.complete) {
+      this.historyStore.appendLine(session, line);
+
+      const patternEngine = this.patternEngines.get(sessionId);
+      for (const match of patternEngine?.match(line.content, line.source) || []) {
+        this.handlePatternMatch(session, patternEngine!, match);
+      }
+    }
+
+    this.runAdapters(sessionId, adapter => adapter.onLine?.(line));
+    this.emit('line', sessionId, line);
   }
 
   /**
@@ -399,18 +1180,48 @@ export class SessionManager extends EventEmitter<SessionEvents> {
 
     // Update activity
     session.lastActivity = Date.now();
+    this.leavePrompt(sessionId);
+    this.watchdogs.get(sessionId)?.output(data.length);
+
+    // Process the output; the stream parser's decoder keeps multibyte
+    // characters split across chunks intact
+    let output = this.formatProcessor.processOutput(data, source, this.streamParser.decode(sessionId, source, data));
+    this.runAdapters(sessionId, adapter => {
+      const changed = adapter.onOutput?.(output);
+      if (changed) {
+        if (typeof changed.ansi !== 'string' || typeof changed.text !== 'string') {
+          throw new Error('onOutput must return terminal output (see processOutput)');
+        }
+        output = changed;
+      }
+    });
+    output.sequence = this.streamParser.createStreamChunk(source, data).sequence;
+    this.historyStore.append(session, output);
+    this.recorders.get(sessionId)?.output(output);
+    this.screens.get(sessionId)?.write(output.ansi);
 
-    // Process the output
-    const output = this.formatProcessor.processOutput(data, source);
-    session.outputHistory.push(output);
+    // Emit output event
+    this.emit('output', sessionId, output);
 
-    // Limit history size to prevent memory issues
-    if (session.outputHistory.length > 10000) {
-      session.outputHistory = session.outputHistory.slice(-5000);
+    const titles = output.formatted.filter(sequence => sequence.type === 'title');
+    if (titles.length > 0) {
+      this.updateSessionTitle(sessionId, titles[titles.length - 1].title || '');
     }
 
-    // Emit output event
-    this.emit('output', sessionId, output);
+    const progress = this.progressTrackers.get(sessionId)?.update(output.text);
+    if (progress) {
+      this.updateSessionProgress(session, progress);
+    }
+
+    // Assemble lines; they come back as `line` events, and the partial
+    // last line is kept by the stream parser for prompt detection
+    this.streamParser.processRealTimeStream(sessionId, source, output.text);
+    this.scheduleInputCheck(sessionId);
+
+    // Forward to the Happy API session, if the session is bridged
+    happyIntegration.forwardOutput(sessionId, output).catch(error => {
+      console.warn('Failed to forward output to Happy CLI integration:', error);
+    });
 
     // Broadcast to remote clients
     this.broadcastToRemote(sessionId, {
@@ -435,10 +1246,25 @@ export class SessionManager extends EventEmitter<SessionEvents> {
       return;
     }
 
-    session.exitCode = code || undefined;
+    // A limit set at spawn may be what ended it, which gives the reason
+    this.watchdogs.get(sessionId)?.processExited(code, signal);
+    this.watchdogs.delete(sessionId);
+
+    session.exitCode = code ?? undefined;
+    session.signal = signal || undefined;
+    this.resourceMonitor.unwatch(sessionId);
     this.updateSessionStatus(sessionId, 'terminated');
 
-    this.emit('sessionTerminated', sessionId, code || undefined);
+    // Pipe output can still arrive after exit, so close the recording and
+    // complete the last unterminated lines a bit later
+    setTimeout(() => {
+      this.stopRecording(sessionId);
+      this.streamParser.flushPendingLines(sessionId);
+      this.runAdapters(sessionId, adapter => adapter.onExit?.(session.exitCode));
+      this.emit('sessionSettled', sessionId);
+    }, 1000);
+
+    this.emit('sessionTerminated', sessionId, code ?? undefined);
 
     // Broadcast to remote clients
     this.broadcastToRemote(sessionId, {
@@ -447,7 +1273,8 @@ export class SessionManager extends EventEmitter<SessionEvents> {
       data: {
         status: 'terminated',
         exitCode: code,
-        signal
+        signal,
+        reason: session.exitReason
       },
       timestamp: Date.now()
     });
@@ -491,7 +1318,11 @@ export class SessionManager extends EventEmitter<SessionEvents> {
     this.emit('statusChange', sessionId, status);
 
     // Update status in Happy CLI integration
-    happyIntegration.updateSessionStatus(sessionId, status).catch(error => {
+    happyIntegration.updateSessionStatus(sessionId, status, {
+      exitCode: session.exitCode,
+      prompt: session.prompt,
+      reason: session.exitReason
+    }).catch(error => {
       // Don't fail status update if integration fails
       console.warn('Failed to update session status in Happy CLI integration:', error);
     });
@@ -512,24 +1343,37 @@ export class SessionManager extends EventEmitter<SessionEvents> {
 
     for (const clientId of session.remoteConnections) {
       if (clientId !== excludeClientId) {
-        // TODO: Implement actual message sending to remote clients
-        // This would typically involve WebSocket connections or HTTP callbacks
         this.sendToRemoteClient(clientId, message);
       }
     }
   }
 
   /**
-   * Send message to remote client (placeholder)
+   * Send message to remote client through its registered transport
    */
   private sendToRemoteClient(clientId: string, message: RemoteMessage): void {
-    // TODO: Implement actual remote transport
-    // For now, just log for debugging
-    console.debug(`[SessionManager] Would send to client ${clientId}:`, {
-      type: message.type,
-      sessionId: message.sessionId,
-      timestamp: message.timestamp
-    });
+    const transport = this.remoteTransports.get(clientId);
+    if (!transport) {
+      return;
+    }
+
+    try {
+      transport(message);
+    } catch (error) {
+      console.warn(`Failed to send message to remote client ${clientId}:`, error);
+    }
+  }
+
+  /**
+   * Forget a client's transport once it is attached to no session
+   */
+  private releaseRemoteTransport(clientId: string): void {
+    for (const session of this.sessions.values()) {
+      if (session.remoteConnections.has(clientId)) {
+        return;
+      }
+    }
+    this.remoteTransports.delete(clientId);
   }
 
   /**
@@ -564,6 +1408,21 @@ export class SessionManager extends EventEmitter<SessionEvents> {
         });
       }
     }
+
+    this.pruneHistory();
+  }
+
+  /**
+   * Delete the history files of ended sessions once they are past
+   * `historyRetentionDays`
+   */
+  private pruneHistory(): void {
+    const days = this.configManager.getGlobalConfig().historyRetentionDays;
+    if (days > 0) {
+      this.historyStore.prune(days * 24 * 60 * 60 * 1000).catch(error => {
+        console.warn('Failed to prune history files:', error);
+      });
+    }
   }
 
   /**
@@ -577,13 +1436,63 @@ export class SessionManager extends EventEmitter<SessionEvents> {
 
     // Clear stream parser buffers
     this.streamParser.clearSession(sessionId);
+    this.stopRecording(sessionId);
+    this.recordSessions.delete(sessionId);
+    this.screens.delete(sessionId);
+    this.patternEngines.delete(sessionId);
+    this.promptDetectors.delete(sessionId);
+    this.progressTrackers.delete(sessionId);
+    this.disposeAdapters(sessionId);
+    this.toolConfigs.delete(sessionId);
+    this.historyStore.close(session);
+    this.lastInputAt.delete(sessionId);
+    this.resourceMonitor.clear(sessionId);
+    this.resourcesSentAt.delete(sessionId);
+    this.watchdogs.get(sessionId)?.stop();
+    this.watchdogs.delete(sessionId);
+    clearTimeout(this.inputCheckTimers.get(sessionId));
+    this.inputCheckTimers.delete(sessionId);
 
     // Remove from sessions map
     this.sessions.delete(sessionId);
 
+    for (const clientId of session.remoteConnections) {
+      this.releaseRemoteTransport(clientId);
+    }
+
     console.debug(`Cleaned up session: ${sessionId}`);
   }
 
+  /**
+   * Start writing a session to its asciicast file. Sessions with
+   * direct output have nothing to record.
+   */
+  private async startRecording(session: Session): Promise<void> {
+    if (session.mode === 'direct') {
+      console.warn(`Session ${session.id} uses direct output and cannot be recorded`);
+      return;
+    }
+
+    try {
+      const store = new RecordingStore(this.configManager.getConfigPaths().recordingsDir);
+      await store.ensureDir();
+      const recorder = new SessionRecorder(store.recordingPath(session.id), session);
+      this.recorders.set(session.id, recorder);
+      session.recordingPath = recorder.path;
+    } catch (error) {
+      // Don't fail the session if recording cannot start
+      console.warn(`Failed to start recording session ${session.id}:`, error);
+    }
+  }
+
+  private async stopRecording(sessionId: string): Promise<void> {
+    const recorder = this.recorders.get(sessionId);
+    if (recorder) {
+      this.recorders.delete(sessionId);
+      await recorder.close();
+    }
+  }
+
   /**
    * Shutdown session manager
    */
@@ -592,6 +1501,7 @@ export class SessionManager extends EventEmitter<SessionEvents> {
     if (this.sessionCleanupInterval) {
       clearInterval(this.sessionCleanupInterval);
     }
+    this.configManager.unwatch();
 
     // Terminate all running sessions
     const terminationPromises = Array.from(this.sessions.keys()).map(sessionId =>
@@ -605,6 +1515,20 @@ export class SessionManager extends EventEmitter<SessionEvents> {
     // Kill all processes
     await this.processManager.killAll();
 
+    await Promise.all(Array.from(this.recorders.keys()).map(sessionId => this.stopRecording(sessionId)));
+    for (const [sessionId, session] of this.sessions) {
+      this.historyStore.close(session);
+      this.resourceMonitor.clear(sessionId);
+      this.watchdogs.get(sessionId)?.stop();
+    }
+    this.watchdogs.clear();
+    for (const sessionId of Array.from(this.adapters.keys())) {
+      this.disposeAdapters(sessionId);
+    }
+
+    // Report any sessions still bridged to Happy as dead
+    await happyIntegration.cleanup();
+
     console.info('Session manager shutdown complete');
   }
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+/**
+ * Universal CLI Wrapper - Session Recorder
+ *
+ * Writes a session to disk as an asciicast v2 file: a JSON header line,
+ * then one `[time, code, data]` line per output, input or resize event.
+ * Times come from the timestamps on TerminalOutput, relative to the
+ * session start, so playback keeps the original pacing.
+ */
+
+import { createWriteStream, WriteStream } from 'node:fs';
+import { StringDecoder } from 'node:string_decoder';
+import type { AsciicastEvent, AsciicastHeader, Session, TerminalOutput, TerminalSize } from './types.js';
+
+const DEFAULT_SIZE: TerminalSize = { cols: 80, rows: 24 };
+
+export class SessionRecorder {
+  private stream: WriteStream;
+  private decoders = {
+    stdout: new StringDecoder('utf8'),
+    stderr: new StringDecoder('utf8')
+  };
+  private readonly startTime: number;
+  private readonly translateNewlines: boolean;
+  private closed = false;
+
+  constructor(readonly path: string, session: Session) {
+    this.startTime = session.startTime;
+    // Pipe output has bare LFs; a terminal player needs CRLF to return to column 0
+    this.translateNewlines = session.mode !== 'pty';
+
+    const size = session.terminalSize || DEFAULT_SIZE;
+    const command = [session.command, ...session.args].join(' ');
+    const header: AsciicastHeader = {
+      version: 2,
+      width: size.cols,
+      height: size.rows,
+      timestamp: Math.floor(session.startTime / 1000),
+      command,
+      title: `${session.tool}: ${command}`,
+      env: {
+        TERM: session.env.TERM || 'xterm-256color',
+        SHELL: session.env.SHELL || ''
+      }
+    };
+
+    this.stream = createWriteStream(path, { flags: 'w', mode: 0o600 });
+    this.stream.on('error', (error) => {
+      console.warn(`Recording to ${path} failed:`, error);
+      this.closed = true;
+    });
+    this.stream.write(JSON.stringify(header) + '\n');
+  }
+
+  /**
+   * Record an output chunk at its capture time
+   */
+  output(output: TerminalOutput): void {
+    let data = this.decoders[output.source].write(output.raw);
+    if (this.translateNewlines) {
+      data = data.replace(/\r?\n/g, '\r\n');
+    }
+    if (data.length > 0) {
+      this.write([this.elapsed(output.timestamp), 'o', data]);
+    }
+  }
+
+  /**
+   * Record input sent to the session
+   */
+  input(data: string, timestamp = Date.now()): void {
+    this.write([this.elapsed(timestamp), 'i', data]);
+  }
+
+  /**
+   * Record a terminal resize
+   */
+  resize(size: TerminalSize, timestamp = Date.now()): void {
+    this.write([this.elapsed(timestamp), 'r', `${size.cols}x${size.rows}`]);
+  }
+
+  /**
+   * Flush and close the file
+   */
+  close(): Promise<void> {
+    if (this.closed) {
+      return Promise.resolve();
+    }
+    this.closed = true;
+    return new Promise(resolve => this.stream.end(() => resolve()));
+  }
+
+  private elapsed(timestamp: number): number {
+    return Math.max(0, timestamp - this.startTime) / 1000;
+  }
+
+  private write(event: AsciicastEvent): void {
+    if (!this.closed) {
+      this.stream.write(JSON.stringify(event) + '\n');
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { StreamParser } from './StreamParser.js';
+
+describe('StreamParser', () => {
+  const parser = new StreamParser();
+
+  afterEach(() => {
+    parser.clearSession('s1');
+  });
+
+  it('should hold back a multibyte character split across chunks', () => {
+    const bytes = Buffer.from('héllo 日本');
+    const first = parser.decode('s1', 'stdout', bytes.subarray(0, 2));
+    const second = parser.decode('s1', 'stdout', bytes.subarray(2, 12));
+    const third = parser.decode('s1', 'stdout', bytes.subarray(12));
+    expect([first, second, third]).toEqual(['h', 'éllo 日', '本']);
+  });
+
+  it('should decode each stream separately', () => {
+    const bytes = Buffer.from('é');
+    expect(parser.decode('s1', 'stdout', bytes.subarray(0, 1))).toBe('');
+    expect(parser.decode('s1', 'stderr', Buffer.from('err'))).toBe('err');
+    expect(parser.decode('s1', 'stdout', bytes.subarray(1))).toBe('é');
+  });
+
+  it('should fall back to windows-1252 for output that is not UTF-8', () => {
+    expect(parser.decode('s1', 'stdout', Buffer.from([0x63, 0x61, 0x66, 0xe9, 0x21]))).toBe('café!');
+    expect(parser.decode('s1', 'stdout', Buffer.from([0xe8, 0x0a]))).toBe('è\n');
+  });
+
+  it('should only decode the bytes that are not UTF-8 as windows-1252', () => {
+    const bytes = Buffer.from('日本');
+    expect(parser.decode('s1', 'stdout', bytes.subarray(0, 4))).toBe('日');
+    expect(parser.decode('s1', 'stdout', Buffer.concat([bytes.subarray(4), Buffer.from([0xe9, 0x21])]))).toBe('本é!');
+    expect(parser.decode('s1', 'stdout', Buffer.from('ça va'))).toBe('ça va');
+  });
+
+  it('should decode with the configured encoding', () => {
+    parser.configureSession('s1', { encoding: 'shift_jis' });
+    expect(parser.decode('s1', 'stdout', Buffer.from([0x93, 0xfa, 0x96, 0x7b]))).toBe('日本');
+  });
+
+  it('should split complete lines without breaking characters', () => {
+    const bytes = Buffer.from('первая\nвторая\n');
+    expect(parser.processChunk('s1', 'stdout', bytes.subarray(0, 5))).toEqual([]);
+    const lines = parser.processChunk('s1', 'stdout', bytes.subarray(5));
+    expect(lines.map(line => line.content)).toEqual(['первая', 'вторая']);
+  });
+
+  it('should end lines at CRLF and keep the last redraw of a partial line', () => {
+    expect(parser.processRealTimeStream('s1', 'stdout', 'done\r\n').completeLines.map(line => line.content)).toEqual(['done']);
+    expect(parser.processRealTimeStream('s1', 'stdout', ' 10%\r 50%\r100%').partialLine?.content).toBe('100%');
+  });
+
+  it('should normalize lines as configured', () => {
+    const lines = (normalization?: 'preserve' | 'trim-right' | 'collapse') => {
+      parser.configureSession('s1', { normalization });
+      return parser.processRealTimeStream('s1', 'stdout', '  a   b  \n').completeLines[0].content;
+    };
+    expect(lines()).toBe('  a   b');
+    expect(lines('preserve')).toBe('  a   b  ');
+    expect(lines('collapse')).toBe('a b');
+  });
+});
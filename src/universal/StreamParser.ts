@@ -2,15 +2,127 @@
  * Universal CLI Wrapper - Stream Parser
  *
  * Handles real-time stream parsing, buffering, and line assembly
- * from CLI tools with complex output patterns.
+ * from CLI tools with complex output patterns. Every line it assembles,
+ * partial or complete, is also emitted as a `line` event.
  */
 
-import type { StreamChunk, ParsedLine, TerminalOutput } from './types.js';
+import { EventEmitter } from 'node:events';
+import { TextDecoder } from 'node:util';
+import type { StreamChunk, ParsedLine, TerminalOutput, LineNormalization } from './types.js';
 import { FormatProcessor } from './FormatProcessor.js';
 
-export class StreamParser {
+export interface StreamParserEvents {
+  line: [sessionId: string, line: ParsedLine];
+}
+
+export interface SessionStreamOptions {
+  /** Output encoding; unset means UTF-8 with a fallback to LEGACY_ENCODING */
+  encoding?: string;
+  normalization?: LineNormalization;
+}
+
+/** Assumed for output that is not valid UTF-8 */
+const LEGACY_ENCODING = 'windows-1252';
+
+interface StreamDecoder {
+  decode(input: Buffer, options: { stream: true }): string;
+}
+
+/**
+ * Decodes output of unknown encoding as UTF-8. Bytes that are not part of
+ * a valid UTF-8 character are decoded as LEGACY_ENCODING one at a time,
+ * and the output around them is still read as UTF-8. The bytes of a
+ * character left incomplete at the end of a chunk are held for the next one.
+ */
+class FallbackDecoder implements StreamDecoder {
+  private readonly utf8 = new TextDecoder('utf-8', { fatal: true });
+  private readonly legacy = new TextDecoder(LEGACY_ENCODING);
+  private pending: Buffer | null = null;
+
+  constructor(private readonly onFallback: () => void) {}
+
+  decode(input: Buffer): string {
+    const bytes = this.pending ? Buffer.concat([this.pending, input]) : input;
+    const end = bytes.length - incompleteUtf8Tail(bytes);
+    this.pending = end < bytes.length ? Buffer.from(bytes.subarray(end)) : null;
+
+    const complete = bytes.subarray(0, end);
+    try {
+      return this.utf8.decode(complete);
+    } catch {
+      this.onFallback();
+      return this.decodeMixed(complete);
+    }
+  }
+
+  private decodeMixed(bytes: Buffer): string {
+    let text = '';
+    let start = 0;
+    let i = 0;
+    while (i < bytes.length) {
+      const length = utf8CharLength(bytes, i);
+      if (length > 0) {
+        i += length;
+        continue;
+      }
+      text += bytes.toString('utf8', start, i) + this.legacy.decode(bytes.subarray(i, i + 1));
+      start = ++i;
+    }
+    return text + bytes.toString('utf8', start);
+  }
+}
+
+/**
+ * Length of the valid UTF-8 character at an offset, or 0 if the bytes
+ * there are not one
+ */
+function utf8CharLength(bytes: Buffer, offset: number): number {
+  const lead = bytes[offset];
+  if (lead < 0x80) {
+    return 1;
+  }
+  const length = lead >= 0xf5 ? 0 : lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc2 ? 2 : 0;
+  if (length === 0 || offset + length > bytes.length) {
+    return 0;
+  }
+
+  // Overlong forms, surrogates and code points past U+10FFFF
+  const second = bytes[offset + 1];
+  if ((lead === 0xe0 && second < 0xa0) || (lead === 0xed && second >= 0xa0) ||
+      (lead === 0xf0 && second < 0x90) || (lead === 0xf4 && second >= 0x90)) {
+    return 0;
+  }
+  for (let i = offset + 1; i < offset + length; i++) {
+    if ((bytes[i] & 0xc0) !== 0x80) {
+      return 0;
+    }
+  }
+  return length;
+}
+
+/**
+ * Number of bytes at the end of a buffer that start a UTF-8 character
+ * without finishing it
+ */
+function incompleteUtf8Tail(bytes: Buffer): number {
+  for (let i = bytes.length - 1; i >= Math.max(0, bytes.length - 3); i--) {
+    const byte = bytes[i];
+    if ((byte & 0xc0) === 0x80) {
+      continue;
+    }
+    const length = byte >= 0xf5 ? 1 : byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc2 ? 2 : 1;
+    return bytes.length - i < length ? bytes.length - i : 0;
+  }
+  return 0;
+}
+
+export class StreamParser extends EventEmitter<StreamParserEvents> {
   private buffers = new Map<string, Buffer>();
   private lineBuffers = new Map<string, string>();
+  private decoders = new Map<string, StreamDecoder>();
+  /** Sessions whose output has been decoded as LEGACY_ENCODING */
+  private legacySessions = new Set<string>();
+  private sessionOptions = new Map<string, SessionStreamOptions>();
   private sequenceCounter = 0;
   private formatProcessor = new FormatProcessor();
 
@@ -22,6 +134,52 @@ export class StreamParser {
   // Timers for incomplete lines
   private lineTimeouts = new Map<string, NodeJS.Timeout>();
 
+  /**
+   * Passing an encoding, even an unset one, starts new decoders.
+   * Changing the encoding restarts decoding with a new decoder.
+   */
+  configureSession(sessionId: string, options: SessionStreamOptions): void {
+    this.sessionOptions.set(sessionId, { ...this.sessionOptions.get(sessionId), ...options });
+    if ('encoding' in options) {
+      this.decoders.delete(`${sessionId}:stdout`);
+      this.decoders.delete(`${sessionId}:stderr`);
+    }
+  }
+
+  /**
+   * Decode a chunk of a session's output. A multibyte character split
+   * across chunks is held back until the rest of it arrives.
+   */
+  decode(sessionId: string, source: 'stdout' | 'stderr', data: Buffer): string {
+    const sessionKey = `${sessionId}:${source}`;
+    let decoder = this.decoders.get(sessionKey);
+    if (!decoder) {
+      decoder = this.createDecoder(sessionId);
+      this.decoders.set(sessionKey, decoder);
+    }
+
+    return decoder.decode(data, { stream: true });
+  }
+
+  private createDecoder(sessionId: string): StreamDecoder {
+    const encoding = this.sessionOptions.get(sessionId)?.encoding;
+    if (!encoding) {
+      return new FallbackDecoder(() => {
+        if (!this.legacySessions.has(sessionId)) {
+          this.legacySessions.add(sessionId);
+          console.warn(`Output of session ${sessionId} is not valid UTF-8, decoding those parts as ${LEGACY_ENCODING}`);
+        }
+      });
+    }
+
+    try {
+      return new TextDecoder(encoding);
+    } catch {
+      console.warn(`Unknown encoding '${encoding}' for session ${sessionId}, using UTF-8`);
+      return new TextDecoder('utf-8');
+    }
+  }
+
   /**
    * Process a chunk of data from a stream
    */
@@ -46,30 +204,31 @@ export class StreamParser {
     }
 
     // Extract complete lines
-    const lines = this.extractCompleteLines(sessionKey);
+    const lines = this.extractCompleteLines(sessionId, source);
 
-    return lines.map(line => ({
+    return lines.map(line => this.emitLine(sessionId, {
       content: line,
       complete: true,
-      source,
-      timestamp: Date.now()
+      source
     }));
   }
 
   /**
-   * Process real-time stream data that may contain partial lines
+   * Process real-time stream data that may contain partial lines. Raw
+   * bytes go through the session's decoder; text is taken as already decoded.
    */
   processRealTimeStream(
     sessionId: string,
     source: 'stdout' | 'stderr',
-    data: Buffer
+    data: Buffer | string
   ): {
     completeLines: ParsedLine[];
     partialLine?: ParsedLine;
     hasProgress?: boolean;
   } {
     const sessionKey = `${sessionId}:${source}`;
-    const text = data.toString('utf8');
+    const decoded = typeof data === 'string' ? data : this.decode(sessionId, source, data);
+    const text = decoded.replace(/\r\n/g, '\n');
 
     // Handle carriage returns (progress indicators, live updates)
     const hasCarriageReturn = text.includes('\r');
@@ -95,12 +254,11 @@ export class StreamParser {
     for (let i = 0; i < lines.length - 1; i++) {
       const line = lines[i];
       if (line.length > 0) {
-        completeLines.push({
-          content: this.processSingleLine(line),
+        completeLines.push(this.emitLine(sessionId, {
+          content: this.processSingleLine(sessionId, line),
           complete: true,
-          source,
-          timestamp: Date.now()
-        });
+          source
+        }));
       }
     }
 
@@ -125,20 +283,18 @@ export class StreamParser {
     if (lastLine.length > 0) {
       if (lastLine.length > this.maxLineLength) {
         // Line too long, treat as complete and clear buffer
-        completeLines.push({
-          content: this.processSingleLine(lastLine),
+        completeLines.push(this.emitLine(sessionId, {
+          content: this.processSingleLine(sessionId, lastLine),
           complete: true,
-          source,
-          timestamp: Date.now()
-        });
+          source
+        }));
         this.lineBuffers.set(sessionKey, '');
       } else {
-        result.partialLine = {
-          content: this.processSingleLine(lastLine),
+        result.partialLine = this.emitLine(sessionId, {
+          content: this.processSingleLine(sessionId, lastLine),
           complete: false,
-          source,
-          timestamp: Date.now()
-        };
+          source
+        });
 
         // Set timeout to force completion of partial line
         this.lineTimeouts.set(timeoutKey, setTimeout(() => {
@@ -183,52 +339,49 @@ export class StreamParser {
   /**
    * Extract complete lines from buffer
    */
-  private extractCompleteLines(sessionKey: string): string[] {
+  private extractCompleteLines(sessionId: string, source: 'stdout' | 'stderr'): string[] {
+    const sessionKey = `${sessionId}:${source}`;
     const buffer = this.buffers.get(sessionKey);
     if (!buffer) return [];
 
-    const text = buffer.toString('utf8');
-    const lines = text.split('\n');
+    // Split on the newline byte, which is never part of a multibyte
+    // character, and keep the bytes of the last (incomplete) line as they are
+    const end = buffer.lastIndexOf(0x0a);
+    if (end === -1) return [];
+    this.buffers.set(sessionKey, buffer.subarray(end + 1));
 
-    // Keep the last line in buffer (might be incomplete)
-    const lastLine = lines.pop() || '';
-    this.buffers.set(sessionKey, Buffer.from(lastLine, 'utf8'));
+    const encoding = this.sessionOptions.get(sessionId)?.encoding;
+    const text = this.decodeComplete(buffer.subarray(0, end), encoding);
 
     // Return complete lines, processed
-    return lines
+    return text.split('\n')
       .filter(line => line.length > 0)
-      .map(line => this.processSingleLine(line));
+      .map(line => this.processSingleLine(sessionId, line));
   }
 
-  /**
-   * Process a single line of text
-   */
-  private processSingleLine(line: string): string {
-    // Remove excessive whitespace
-    let processed = line.trim();
-
-    // Handle common CLI patterns
-    processed = this.normalizeCommonPatterns(processed);
-
-    return processed;
+  private decodeComplete(data: Buffer, encoding: string | undefined): string {
+    try {
+      return new TextDecoder(encoding || 'utf-8').decode(data);
+    } catch {
+      return data.toString('utf8');
+    }
   }
 
   /**
-   * Normalize common CLI output patterns
+   * Process a single line of text with the session's normalization
    */
-  private normalizeCommonPatterns(line: string): string {
-    let normalized = line;
-
-    // Remove bell characters
-    normalized = normalized.replace(/\x07/g, '');
-
-    // Normalize multiple spaces to single space
-    normalized = normalized.replace(/\s+/g, ' ');
-
-    // Remove trailing carriage returns
-    normalized = normalized.replace(/\r+$/, '');
-
-    return normalized;
+  private processSingleLine(sessionId: string, line: string): string {
+    // Bell characters and trailing carriage returns are never content
+    const cleaned = line.replace(/\x07/g, '').replace(/\r+$/, '');
+
+    switch (this.sessionOptions.get(sessionId)?.normalization) {
+      case 'preserve':
+        return cleaned;
+      case 'collapse':
+        return cleaned.trim().replace(/\s+/g, ' ');
+      default:
+        return cleaned.trimEnd();
+    }
   }
 
   /**
@@ -239,19 +392,16 @@ export class StreamParser {
     const partialLine = this.lineBuffers.get(sessionKey);
 
     if (partialLine && partialLine.length > 0) {
-      // Emit as complete line
-      const completeLine: ParsedLine = {
-        content: this.processSingleLine(partialLine),
-        complete: true,
-        source,
-        timestamp: Date.now()
-      };
-
       // Clear the buffer
       this.lineBuffers.set(sessionKey, '');
 
-      // Emit to listeners (would need event system)
-      this.emitForcedCompleteLine(sessionId, completeLine);
+      // Emit as complete line
+      this.emitLine(sessionId, {
+        content: this.processSingleLine(sessionId, partialLine),
+        complete: true,
+        forced: true,
+        source
+      });
     }
 
     // Clean up timeout
@@ -304,6 +454,10 @@ export class StreamParser {
     this.buffers.delete(stderrKey);
     this.lineBuffers.delete(stdoutKey);
     this.lineBuffers.delete(stderrKey);
+    this.decoders.delete(stdoutKey);
+    this.decoders.delete(stderrKey);
+    this.legacySessions.delete(sessionId);
+    this.sessionOptions.delete(sessionId);
 
     // Clear timeouts
     [stdoutKey, stderrKey].forEach(key => {
@@ -350,37 +504,45 @@ export class StreamParser {
     // Flush stdout
     const stdoutPartial = this.lineBuffers.get(stdoutKey);
     if (stdoutPartial && stdoutPartial.length > 0) {
-      flushedLines.push({
-        content: this.processSingleLine(stdoutPartial),
-        complete: true,
-        source: 'stdout',
-        timestamp: Date.now()
-      });
       this.lineBuffers.set(stdoutKey, '');
+      flushedLines.push(this.emitLine(sessionId, {
+        content: this.processSingleLine(sessionId, stdoutPartial),
+        complete: true,
+        source: 'stdout'
+      }));
     }
 
     // Flush stderr
     const stderrPartial = this.lineBuffers.get(stderrKey);
     if (stderrPartial && stderrPartial.length > 0) {
-      flushedLines.push({
-        content: this.processSingleLine(stderrPartial),
-        complete: true,
-        source: 'stderr',
-        timestamp: Date.now()
-      });
       this.lineBuffers.set(stderrKey, '');
+      flushedLines.push(this.emitLine(sessionId, {
+        content: this.processSingleLine(sessionId, stderrPartial),
+        complete: true,
+        source: 'stderr'
+      }));
     }
 
+    // Nothing is left to force complete
+    [stdoutKey, stderrKey].forEach(key => {
+      clearTimeout(this.lineTimeouts.get(key));
+      this.lineTimeouts.delete(key);
+    });
+
     return flushedLines;
   }
 
   /**
-   * Event emitter placeholder for forced completion
-   * In a real implementation, this would emit to an event system
+   * Stamp a line with the next sequence number and emit it
    */
-  private emitForcedCompleteLine(sessionId: string, line: ParsedLine): void {
-    // TODO: Implement event emission system
-    console.debug(`Forced completion for ${sessionId}: ${line.content}`);
+  private emitLine(sessionId: string, line: Omit<ParsedLine, 'timestamp' | 'sequence'>): ParsedLine {
+    const parsed: ParsedLine = {
+      ...line,
+      timestamp: Date.now(),
+      sequence: ++this.sequenceCounter
+    };
+    this.emit('line', sessionId, parsed);
+    return parsed;
   }
 
   /**
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { TableDetector } from './TableDetector.js';
+
+describe('TableDetector', () => {
+  const detector = new TableDetector();
+
+  it('should read kubectl-style tables', () => {
+    const [table] = detector.detect([
+      'NAME                     READY   STATUS    RESTARTS   AGE',
+      'web-7d4b9c8f5d-abcde     1/1     Running   0          3d',
+      'worker-5f6b7c8d9e-fghij  0/1     Pending   2          5m'
+    ].join('\n'));
+
+    expect(table.columns).toEqual(['NAME', 'READY', 'STATUS', 'RESTARTS', 'AGE']);
+    expect(table.rows[1]).toEqual({ NAME: 'worker-5f6b7c8d9e-fghij', READY: '0/1', STATUS: 'Pending', RESTARTS: '2', AGE: '5m' });
+  });
+
+  it('should keep headers with spaces and right-aligned numbers together', () => {
+    const [table] = detector.detect([
+      'Filesystem      Size  Used Avail Use% Mounted on',
+      '/dev/sda1        50G   20G   28G  42% /',
+      'tmpfs           7.8G     0  7.8G   0% /dev/shm'
+    ].join('\n'));
+
+    expect(table.columns).toEqual(['Filesystem', 'Size', 'Used', 'Avail', 'Use%', 'Mounted on']);
+    expect(table.rows[1]).toMatchObject({ Used: '0', 'Mounted on': '/dev/shm' });
+  });
+
+  it('should keep command arguments in the last column', () => {
+    const [table] = detector.detect([
+      'CONTAINER ID   IMAGE          COMMAND',
+      'a1b2c3d4e5f6   nginx:latest   nginx -g daemon off;'
+    ].join('\n'));
+
+    expect(table.columns).toEqual(['CONTAINER ID', 'IMAGE', 'COMMAND']);
+    expect(table.rows[0].COMMAND).toBe('nginx -g daemon off;');
+  });
+
+  it('should find a table below a message and report its header line', () => {
+    const tables = detector.detect([
+      'Fetching pods...',
+      'NAME   STATUS',
+      'api    Running',
+      '',
+      'Done in 2 seconds.'
+    ].join('\n'));
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].line).toBe(1);
+    expect(tables[0].rows).toEqual([{ NAME: 'api', STATUS: 'Running' }]);
+  });
+
+  it('should not take prose or headerless output for a table', () => {
+    expect(detector.detect('This is a sentence.\nAnd another one.')).toEqual([]);
+    expect(detector.detect([
+      '-rw-r--r--  1 user  staff  120 Jan  1 10:00 a.txt',
+      '-rw-r--r--  1 user  staff  340 Jan  1 10:00 b.txt'
+    ].join('\n'))).toEqual([]);
+  });
+
+  it('should number repeated column names', () => {
+    const [table] = detector.detect('NAME   NAME\na      b');
+    expect(table.columns).toEqual(['NAME', 'NAME_2']);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Universal CLI Wrapper - Table Detector
+ *
+ * Recognizes column-aligned tables in plain output (`kubectl get pods`,
+ * `docker ps`, `ps aux`, `df -h`) and turns them into rows of JSON objects.
+ * Columns are found from whitespace alignment: a character position that is
+ * blank on the header and every row separates two columns, so right-aligned
+ * numbers and headers with spaces (`CONTAINER ID`, `Mounted on`) both work.
+ */
+
+import type { DetectedTable } from './types.js';
+
+/** Lines before a block's header that may be a title or message */
+const MAX_HEADER_OFFSET = 2;
+
+/** Longer "column names" are prose that happens to line up */
+const MAX_HEADER_WORDS = 3;
+
+interface ColumnSpan {
+  start: number;
+  /** Exclusive; `Infinity` for the last column, which runs to the end of the line */
+  end: number;
+}
+
+export class TableDetector {
+  /**
+   * Find the tables in a piece of plain text. A table is a run of non-blank
+   * lines: a header followed by at least one row.
+   */
+  detect(text: string): DetectedTable[] {
+    const lines = text.split('\n').map(line => this.expandTabs(line.replace(/\r$/, '')).trimEnd());
+    const tables: DetectedTable[] = [];
+
+    let blockStart = 0;
+    for (let i = 0; i <= lines.length; i++) {
+      if (i < lines.length && lines[i].trim().length > 0) {
+        continue;
+      }
+      if (i - blockStart >= 2) {
+        const table = this.detectInBlock(lines, blockStart, i);
+        if (table) {
+          tables.push(table);
+        }
+      }
+      blockStart = i + 1;
+    }
+
+    return tables;
+  }
+
+  /**
+   * Try the first lines of a block as the header, so a message printed
+   * right above a table doesn't hide it
+   */
+  private detectInBlock(lines: string[], start: number, end: number): DetectedTable | null {
+    for (let header = start; header <= start + MAX_HEADER_OFFSET && end - header >= 2; header++) {
+      const table = this.parseTable(lines, header, end);
+      if (table) {
+        return table;
+      }
+    }
+    return null;
+  }
+
+  private parseTable(lines: string[], header: number, end: number): DetectedTable | null {
+    const headerLine = lines[header];
+    // Aligned headers are padded; prose almost never has two spaces in a row
+    if (!/\S {2,}\S/.test(headerLine)) {
+      return null;
+    }
+
+    const block = lines.slice(header, end);
+    const spans = this.mergeSpans(this.findSpans(block), headerLine, block.slice(1));
+    const cells = this.splitCells(block, spans);
+    const names = cells[0];
+    // Numbers in the "header" mean it is a data row of a table without one (`ls -l`)
+    if (names.length < 2 || names.some(name => name.split(' ').length > MAX_HEADER_WORDS || !/\p{L}/u.test(name))) {
+      return null;
+    }
+
+    const columns = this.uniqueNames(names);
+    const rows = cells.slice(1).map(values => {
+      const row: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        row[column] = values[index];
+      });
+      return row;
+    });
+
+    return { columns, rows, line: header };
+  }
+
+  /**
+   * Cut every line of the block into its column values. A value too wide
+   * for its column (a large `VSZ` in `ps aux`) leaves no blank position
+   * between columns, so one span can hold several headers; such a span is
+   * split into words when every line has as many words in it as the header.
+   */
+  private splitCells(block: string[], spans: ColumnSpan[]): string[][] {
+    const cells: string[][] = block.map(() => []);
+
+    for (const span of spans) {
+      const values = block.map(line => this.cell(line, span));
+      const words = values.map(value => value.split(/\s+/));
+      const split = words[0].length > 1 && words.every(lineWords => lineWords.length === words[0].length);
+      block.forEach((_, index) => {
+        cells[index].push(...(split ? words[index] : [values[index]]));
+      });
+    }
+
+    return cells;
+  }
+
+  /**
+   * Split the block into runs of positions that are not blank on every line
+   */
+  private findSpans(block: string[]): ColumnSpan[] {
+    const width = Math.max(...block.map(line => line.length));
+    const spans: ColumnSpan[] = [];
+    let spanStart = -1;
+
+    for (let position = 0; position <= width; position++) {
+      const blank = position === width || block.every(line => (line[position] ?? ' ') === ' ');
+      if (!blank && spanStart < 0) {
+        spanStart = position;
+      } else if (blank && spanStart >= 0) {
+        spans.push({ start: spanStart, end: position });
+        spanStart = -1;
+      }
+    }
+
+    if (spans.length > 0) {
+      spans[spans.length - 1].end = Infinity;
+    }
+    return spans;
+  }
+
+  /**
+   * Fold spans into the column on their left when they have no header
+   * (arguments in a `COMMAND` column), or when they have no values and
+   * their header continues the previous one after a single space (`Mounted on`)
+   */
+  private mergeSpans(spans: ColumnSpan[], headerLine: string, rows: string[]): ColumnSpan[] {
+    const merged: ColumnSpan[] = [];
+
+    for (const span of spans) {
+      const hasHeader = this.cell(headerLine, span).length > 0;
+      const hasValues = rows.some(row => this.cell(row, span).length > 0);
+      const previous = merged[merged.length - 1];
+
+      if (previous && (!hasHeader || (!hasValues && this.continuesHeader(headerLine, span)))) {
+        previous.end = span.end;
+      } else if (!hasHeader) {
+        // Values before the first header are not a table
+        return [];
+      } else {
+        merged.push({ ...span });
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Whether the span's header word follows the previous word after one space
+   */
+  private continuesHeader(headerLine: string, span: ColumnSpan): boolean {
+    let position = span.start;
+    while (headerLine[position] === ' ') {
+      position++;
+    }
+    return position >= 2 && headerLine[position - 1] === ' ' && headerLine[position - 2] !== ' ';
+  }
+
+  private cell(line: string, span: ColumnSpan): string {
+    return line.slice(span.start, span.end === Infinity ? undefined : span.end).trim();
+  }
+
+  private uniqueNames(names: string[]): string[] {
+    const seen = new Map<string, number>();
+    return names.map(name => {
+      const count = (seen.get(name) ?? 0) + 1;
+      seen.set(name, count);
+      return count === 1 ? name : `${name}_${count}`;
+    });
+  }
+
+  private expandTabs(line: string): string {
+    if (!line.includes('\t')) {
+      return line;
+    }
+    let expanded = '';
+    for (const char of line) {
+      expanded += char === '\t' ? ' '.repeat(8 - (expanded.length % 8)) : char;
+    }
+    return expanded;
+  }
+}
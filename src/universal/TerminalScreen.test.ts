@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { TerminalScreen, xtermColor } from './TerminalScreen.js';
+
+describe('TerminalScreen', () => {
+  it('should move the cursor and overwrite cells', () => {
+    const screen = new TerminalScreen({ cols: 20, rows: 5 });
+    screen.write('hello world\x1b[1;7HWORLD\x1b[3;1Hthird');
+    expect(screen.getLines()).toEqual(['hello WORLD', '', 'third', '', '']);
+  });
+
+  it('should erase lines and the rest of the screen', () => {
+    const screen = new TerminalScreen({ cols: 10, rows: 3 });
+    screen.write('aaaa\r\nbbbb\r\ncccc\x1b[2;3H\x1b[K');
+    expect(screen.getLines()).toEqual(['aaaa', 'bb', 'cccc']);
+    screen.write('\x1b[J');
+    expect(screen.getLines()).toEqual(['aaaa', 'bb', '']);
+  });
+
+  it('should scroll once the bottom row is full', () => {
+    const screen = new TerminalScreen({ cols: 10, rows: 2 }, true);
+    screen.write('one\ntwo\nthree');
+    expect(screen.toText()).toBe('two\nthree');
+  });
+
+  it('should keep the normal screen while a program uses the alternate one', () => {
+    const screen = new TerminalScreen({ cols: 10, rows: 2 });
+    screen.write('shell$\x1b[?1049h\x1b[Hvim');
+    expect(screen.toJSON().alternateScreen).toBe(true);
+    expect(screen.toText()).toBe('vim');
+    screen.write('\x1b[?1049l');
+    expect(screen.toText()).toBe('shell$');
+  });
+
+  it('should give wide characters two columns', () => {
+    const screen = new TerminalScreen({ cols: 10, rows: 1 });
+    screen.write('日本x');
+    expect(screen.toJSON().cursor.x).toBe(5);
+  });
+
+  it('should draw DEC line drawing characters', () => {
+    const screen = new TerminalScreen({ cols: 10, rows: 1 });
+    screen.write('\x1b(0lqk\x1b(B');
+    expect(screen.toText()).toBe('┌─┐');
+  });
+
+  it('should resolve colors and attributes in snapshots', () => {
+    const screen = new TerminalScreen({ cols: 10, rows: 1 });
+    screen.write('\x1b[1;38;5;196mred\x1b[0m \x1b[48;2;0;128;255mblue');
+    const [line] = screen.toJSON().lines;
+    expect(line.runs).toEqual([
+      { text: 'red', fg: '#ff0000', bold: true },
+      { text: ' ' },
+      { text: 'blue', bg: '#0080ff' }
+    ]);
+    expect(screen.toHtml()).toContain('<span style="');
+  });
+
+  it('should take the window title from OSC 0 and 2', () => {
+    const screen = new TerminalScreen({ cols: 10, rows: 1 });
+    screen.write('\x1b]0;shell\x07');
+    expect(screen.title).toBe('shell');
+    screen.write('\x1b]2;build\x1b\\');
+    expect(screen.title).toBe('build');
+  });
+
+  it('should keep the cursor line when shrinking', () => {
+    const screen = new TerminalScreen({ cols: 10, rows: 4 });
+    screen.write('1\r\n2\r\n3\r\n4');
+    screen.resize({ cols: 5, rows: 2 });
+    expect(screen.getLines()).toEqual(['3', '4']);
+    expect(screen.getSize()).toEqual({ cols: 5, rows: 2 });
+  });
+});
+
+describe('xtermColor', () => {
+  it('should map the color cube and the gray ramp', () => {
+    expect(xtermColor(16)).toBe('#000000');
+    expect(xtermColor(231)).toBe('#ffffff');
+    expect(xtermColor(232)).toBe('#080808');
+  });
+});
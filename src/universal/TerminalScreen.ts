@@ -0,0 +1,1107 @@
+/**
+ * Universal CLI Wrapper - Terminal Screen
+ *
+ * Headless VT100/xterm screen emulator. Consumes a session's ANSI output and
+ * applies it to a cell grid the way a terminal would: cursor movement, erase,
+ * insert/delete, scroll regions, SGR attributes, DEC line drawing and the
+ * alternate screen. The visible screen can be rendered as text, HTML or JSON,
+ * which gives a readable picture of full-screen TUIs whose raw output is a
+ * stream of redraws.
+ *
+ * Queries that expect a reply (DSR, DA, window reports) are ignored, since
+ * the screen has no way to answer the program.
+ */
+
+import type { CellAttributes, ScreenCell, ScreenSnapshot, SnapshotFormat, TerminalColor, TerminalSize } from './types.js';
+
+const DEFAULT_ATTRS: CellAttributes = Object.freeze({
+  fg: null,
+  bg: null,
+  bold: false,
+  dim: false,
+  italic: false,
+  underline: false,
+  blink: false,
+  inverse: false,
+  hidden: false,
+  strikethrough: false
+});
+
+const BLANK_CELL: ScreenCell = Object.freeze({ char: ' ', attrs: DEFAULT_ATTRS });
+
+const DEFAULT_FG = '#e5e5e5';
+const DEFAULT_BG = '#000000';
+
+/**
+ * The 16 standard colors, matching FormatProcessor's color table
+ */
+const BASE_PALETTE = [
+  '#000000', '#cd0000', '#00cd00', '#cdcd00', '#0000ee', '#cd00cd', '#00cdcd', '#e5e5e5',
+  '#7f7f7f', '#ff0000', '#00ff00', '#ffff00', '#5c5cff', '#ff00ff', '#00ffff', '#ffffff'
+];
+
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/**
+ * DEC special graphics character set (`ESC ( 0`), used for line drawing
+ */
+const DEC_GRAPHICS: Record<string, string> = {
+  '`': '◆', 'a': '▒', 'b': '␉', 'c': '␌', 'd': '␍', 'e': '␊', 'f': '°', 'g': '±',
+  'h': '␤', 'i': '␋', 'j': '┘', 'k': '┐', 'l': '┌', 'm': '└', 'n': '┼', 'o': '⎺',
+  'p': '⎻', 'q': '─', 'r': '⎼', 's': '⎽', 't': '├', 'u': '┤', 'v': '┴', 'w': '┬',
+  'x': '│', 'y': '≤', 'z': '≥', '{': 'π', '|': '≠', '}': '£', '~': '·'
+};
+
+/** Longest OSC string kept; longer ones are truncated */
+const MAX_OSC_LENGTH = 4096;
+
+/**
+ * Hex value of an xterm 256-color palette index
+ */
+export function xtermColor(index: number): string {
+  if (index < 16) {
+    return BASE_PALETTE[index];
+  }
+  if (index < 232) {
+    const n = index - 16;
+    const toHex = (level: number) => CUBE_LEVELS[level].toString(16).padStart(2, '0');
+    return `#${toHex(Math.floor(n / 36))}${toHex(Math.floor(n / 6) % 6)}${toHex(n % 6)}`;
+  }
+  const gray = (8 + (index - 232) * 10).toString(16).padStart(2, '0');
+  return `#${gray}${gray}${gray}`;
+}
+
+/**
+ * Number of columns a code point occupies: 0 for combining marks,
+ * 2 for East Asian wide characters and emoji
+ */
+function charWidth(code: number): 0 | 1 | 2 {
+  if (
+    (code >= 0x0300 && code <= 0x036f) ||
+    (code >= 0x1ab0 && code <= 0x1aff) ||
+    (code >= 0x1dc0 && code <= 0x1dff) ||
+    (code >= 0x200b && code <= 0x200f) ||
+    (code >= 0x20d0 && code <= 0x20ff) ||
+    (code >= 0xfe00 && code <= 0xfe0f) ||
+    (code >= 0xfe20 && code <= 0xfe2f)
+  ) {
+    return 0;
+  }
+  if (
+    (code >= 0x1100 && code <= 0x115f) ||
+    (code >= 0x2e80 && code <= 0x303e) ||
+    (code >= 0x3041 && code <= 0x33ff) ||
+    (code >= 0x3400 && code <= 0x4dbf) ||
+    (code >= 0x4e00 && code <= 0x9fff) ||
+    (code >= 0xa000 && code <= 0xa4cf) ||
+    (code >= 0xac00 && code <= 0xd7a3) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0xfe30 && code <= 0xfe4f) ||
+    (code >= 0xff00 && code <= 0xff60) ||
+    (code >= 0xffe0 && code <= 0xffe6) ||
+    (code >= 0x1f300 && code <= 0x1f64f) ||
+    (code >= 0x1f900 && code <= 0x1f9ff) ||
+    (code >= 0x20000 && code <= 0x3fffd)
+  ) {
+    return 2;
+  }
+  return 1;
+}
+
+interface SavedCursor {
+  x: number;
+  y: number;
+  attrs: CellAttributes;
+  originMode: boolean;
+  charsets: [string, string];
+  activeCharset: 0 | 1;
+}
+
+interface ScreenBuffer {
+  lines: ScreenCell[][];
+  savedCursor: SavedCursor | null;
+}
+
+type ParserState = 'ground' | 'escape' | 'charset' | 'escapeHash' | 'csi' | 'osc' | 'oscEscape' | 'string' | 'stringEscape';
+
+export class TerminalScreen {
+  private cols: number;
+  private rows: number;
+  private normal: ScreenBuffer;
+  private alternate: ScreenBuffer;
+  private buffer: ScreenBuffer;
+
+  // Cursor and rendition state
+  private x = 0;
+  private y = 0;
+  private pendingWrap = false;
+  private attrs: CellAttributes = DEFAULT_ATTRS;
+  private charsets: [string, string] = ['B', 'B'];
+  private activeCharset: 0 | 1 = 0;
+  private lastPrinted = '';
+
+  // Modes
+  private scrollTop = 0;
+  private scrollBottom: number;
+  private originMode = false;
+  private autoWrap = true;
+  private insertMode = false;
+  private cursorVisible = true;
+  private tabStops = new Set<number>();
+
+  // Parser state
+  private state: ParserState = 'ground';
+  private csiPrefix = '';
+  private csiParams = '';
+  private csiIntermediates = '';
+  private charsetTarget: 0 | 1 | null = 0;
+  private oscData = '';
+
+  /** Window title set with OSC 0/2 */
+  title = '';
+
+  /**
+   * @param newlineMode treat LF as CR+LF, for output that did not go through
+   *   a terminal line discipline (pipe sessions)
+   */
+  constructor(size: TerminalSize, private newlineMode = false) {
+    this.cols = Math.max(1, size.cols);
+    this.rows = Math.max(1, size.rows);
+    this.scrollBottom = this.rows - 1;
+    this.normal = { lines: this.blankLines(this.rows), savedCursor: null };
+    this.alternate = { lines: this.blankLines(this.rows), savedCursor: null };
+    this.buffer = this.normal;
+    this.resetTabStops();
+  }
+
+  /**
+   * Feed terminal output to the screen
+   */
+  write(data: string): void {
+    for (const ch of data) {
+      this.consume(ch);
+    }
+  }
+
+  /**
+   * Change the screen size, keeping the cursor line visible
+   */
+  resize(size: TerminalSize): void {
+    const cols = Math.max(1, size.cols);
+    const rows = Math.max(1, size.rows);
+
+    for (const buffer of [this.normal, this.alternate]) {
+      // Drop lines above the cursor first, like a terminal scrolling them away
+      if (rows < buffer.lines.length && buffer === this.buffer) {
+        const overflow = Math.max(0, this.y - (rows - 1));
+        buffer.lines.splice(0, overflow);
+        this.y -= overflow;
+      }
+      buffer.lines = buffer.lines.slice(0, rows);
+      while (buffer.lines.length < rows) {
+        buffer.lines.push(this.blankLine(cols));
+      }
+      buffer.lines = buffer.lines.map(line =>
+        line.length >= cols ? line.slice(0, cols) : line.concat(this.blankLine(cols - line.length))
+      );
+    }
+
+    this.cols = cols;
+    this.rows = rows;
+    this.scrollTop = 0;
+    this.scrollBottom = rows - 1;
+    this.x = Math.min(this.x, cols - 1);
+    this.y = Math.min(this.y, rows - 1);
+    this.pendingWrap = false;
+    this.resetTabStops();
+  }
+
+  getSize(): TerminalSize {
+    return { cols: this.cols, rows: this.rows };
+  }
+
+  /**
+   * Plain text of each visible row, without trailing spaces
+   */
+  getLines(): string[] {
+    return this.buffer.lines.map(line => this.lineText(line).trimEnd());
+  }
+
+  /**
+   * Render the visible screen
+   */
+  snapshot(format: SnapshotFormat): string {
+    switch (format) {
+      case 'html':
+        return this.toHtml();
+      case 'json':
+        return JSON.stringify(this.toJSON(), null, 2);
+      case 'text':
+      default:
+        return this.toText();
+    }
+  }
+
+  /**
+   * Visible screen as text, without trailing blank rows
+   */
+  toText(): string {
+    const lines = this.getLines();
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Visible screen as a `<pre>` block with inline styles
+   */
+  toHtml(): string {
+    const rows = this.buffer.lines.map(line =>
+      this.lineRuns(line).map(run => {
+        const text = this.escapeHtml(run.text);
+        const style = this.cssFor(run.attrs);
+        return style ? `<span style="${style}">${text}</span>` : text;
+      }).join('')
+    );
+    return `<pre class="terminal-screen" style="background-color: ${DEFAULT_BG}; color: ${DEFAULT_FG}">${rows.join('\n')}</pre>`;
+  }
+
+  toJSON(): ScreenSnapshot {
+    return {
+      cols: this.cols,
+      rows: this.rows,
+      cursor: { x: this.x, y: this.y, visible: this.cursorVisible },
+      alternateScreen: this.buffer === this.alternate,
+      title: this.title,
+      lines: this.buffer.lines.map(line => ({
+        text: this.lineText(line).trimEnd(),
+        runs: this.lineRuns(line).map(({ text, attrs }) => {
+          const run: ScreenSnapshot['lines'][number]['runs'][number] = { text };
+          if (attrs.fg !== null) run.fg = this.resolveColor(attrs.fg);
+          if (attrs.bg !== null) run.bg = this.resolveColor(attrs.bg);
+          for (const key of ['bold', 'dim', 'italic', 'underline', 'blink', 'inverse', 'hidden', 'strikethrough'] as const) {
+            if (attrs[key]) run[key] = true;
+          }
+          return run;
+        })
+      }))
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Parser
+  // ---------------------------------------------------------------------------
+
+  private consume(ch: string): void {
+    const code = ch.codePointAt(0)!;
+
+    switch (this.state) {
+      case 'ground':
+        if (code === 0x1b) {
+          this.state = 'escape';
+        } else if (code === 0x9b) {
+          this.startCsi();
+        } else if (code < 0x20 || code === 0x7f) {
+          this.control(code);
+        } else if (code < 0x80 || code >= 0xa0) {
+          this.print(ch, code);
+        }
+        return;
+
+      case 'escape':
+        if (code < 0x20 && code !== 0x1b) {
+          this.control(code);
+          return;
+        }
+        this.state = 'ground';
+        this.escape(ch);
+        return;
+
+      case 'charset':
+        if (this.charsetTarget !== null) {
+          this.charsets[this.charsetTarget] = ch;
+        }
+        this.state = 'ground';
+        return;
+
+      case 'escapeHash':
+        if (ch === '8') {
+          this.fillScreen('E');
+        }
+        this.state = 'ground';
+        return;
+
+      case 'csi':
+        if (code === 0x1b) {
+          this.state = 'escape';
+        } else if (code === 0x18 || code === 0x1a) {
+          this.state = 'ground';
+        } else if (code < 0x20) {
+          this.control(code);
+        } else if (code >= 0x30 && code <= 0x3b) {
+          this.csiParams += ch;
+        } else if (code >= 0x3c && code <= 0x3f) {
+          this.csiPrefix += ch;
+        } else if (code >= 0x20 && code <= 0x2f) {
+          this.csiIntermediates += ch;
+        } else if (code >= 0x40 && code <= 0x7e) {
+          this.state = 'ground';
+          this.dispatchCsi(ch);
+        }
+        return;
+
+      case 'osc':
+        if (code === 0x07) {
+          this.finishOsc();
+        } else if (code === 0x1b) {
+          this.state = 'oscEscape';
+        } else if (this.oscData.length < MAX_OSC_LENGTH) {
+          this.oscData += ch;
+        }
+        return;
+
+      case 'oscEscape':
+        this.finishOsc();
+        if (ch !== '\\') {
+          this.state = 'escape';
+          this.consume(ch);
+        }
+        return;
+
+      case 'string':
+        // DCS, SOS, PM and APC payloads are skipped
+        if (code === 0x1b) {
+          this.state = 'stringEscape';
+        } else if (code === 0x07) {
+          this.state = 'ground';
+        }
+        return;
+
+      case 'stringEscape':
+        this.state = 'ground';
+        if (ch !== '\\') {
+          this.state = 'escape';
+          this.consume(ch);
+        }
+        return;
+    }
+  }
+
+  private control(code: number): void {
+    switch (code) {
+      case 0x08: // BS
+        if (this.x > 0) this.x--;
+        this.pendingWrap = false;
+        break;
+      case 0x09: // HT
+        this.tabForward(1);
+        break;
+      case 0x0a: // LF
+      case 0x0b: // VT
+      case 0x0c: // FF
+        this.lineFeed();
+        if (this.newlineMode) this.x = 0;
+        break;
+      case 0x0d: // CR
+        this.x = 0;
+        this.pendingWrap = false;
+        break;
+      case 0x0e: // SO
+        this.activeCharset = 1;
+        break;
+      case 0x0f: // SI
+        this.activeCharset = 0;
+        break;
+      case 0x18: // CAN
+      case 0x1a: // SUB
+        this.state = 'ground';
+        break;
+      // BEL and the rest have no effect on the screen
+    }
+  }
+
+  private escape(ch: string): void {
+    switch (ch) {
+      case '[':
+        this.startCsi();
+        break;
+      case ']':
+        this.oscData = '';
+        this.state = 'osc';
+        break;
+      case 'P': case 'X': case '^': case '_':
+        this.state = 'string';
+        break;
+      case '(':
+        this.charsetTarget = 0;
+        this.state = 'charset';
+        break;
+      case ')':
+        this.charsetTarget = 1;
+        this.state = 'charset';
+        break;
+      case '*': case '+': case '-': case '.': case '/':
+        // G2/G3 designations are consumed but not used
+        this.charsetTarget = null;
+        this.state = 'charset';
+        break;
+      case '#':
+        this.state = 'escapeHash';
+        break;
+      case '7':
+        this.saveCursor();
+        break;
+      case '8':
+        this.restoreCursor();
+        break;
+      case 'D':
+        this.lineFeed();
+        break;
+      case 'E':
+        this.x = 0;
+        this.lineFeed();
+        break;
+      case 'M':
+        this.reverseIndex();
+        break;
+      case 'H':
+        this.tabStops.add(this.x);
+        break;
+      case 'c':
+        this.reset();
+        break;
+      // Keypad modes and the rest do not affect the screen
+    }
+  }
+
+  private startCsi(): void {
+    this.csiPrefix = '';
+    this.csiParams = '';
+    this.csiIntermediates = '';
+    this.state = 'csi';
+  }
+
+  private finishOsc(): void {
+    this.state = 'ground';
+    const separator = this.oscData.indexOf(';');
+    const command = separator === -1 ? this.oscData : this.oscData.slice(0, separator);
+    if (command === '0' || command === '2') {
+      this.title = separator === -1 ? '' : this.oscData.slice(separator + 1);
+    }
+    this.oscData = '';
+  }
+
+  /**
+   * Numeric CSI parameters; missing ones are NaN. Colon sub-parameters
+   * are dropped except in SGR, which reads the raw string.
+   */
+  private params(): number[] {
+    if (this.csiParams === '') {
+      return [];
+    }
+    return this.csiParams.split(';').map(p => p === '' ? NaN : parseInt(p.split(':')[0], 10));
+  }
+
+  private dispatchCsi(final: string): void {
+    const params = this.params();
+    // Parameter with a default for missing or zero values
+    const p = (index: number, fallback = 1) => {
+      const value = params[index];
+      return Number.isNaN(value) || value === undefined || value === 0 ? fallback : value;
+    };
+
+    if (this.csiIntermediates !== '') {
+      if (this.csiIntermediates === '!' && final === 'p') {
+        this.softReset();
+      }
+      return; // Cursor style and other intermediate forms don't change the grid
+    }
+
+    if (this.csiPrefix === '?') {
+      if (final === 'h' || final === 'l') {
+        for (const mode of params) {
+          this.setPrivateMode(mode, final === 'h');
+        }
+      } else if (final === 'J') {
+        this.eraseInDisplay(params[0] || 0);
+      } else if (final === 'K') {
+        this.eraseInLine(params[0] || 0);
+      }
+      return;
+    }
+    if (this.csiPrefix !== '') {
+      return; // Secondary DA and other queries
+    }
+
+    switch (final) {
+      case '@': this.insertChars(p(0)); break;
+      case 'A': this.moveCursor(this.x, this.y - p(0), true); break;
+      case 'B': case 'e': this.moveCursor(this.x, this.y + p(0), true); break;
+      case 'C': case 'a': this.moveCursor(this.x + p(0), this.y); break;
+      case 'D': this.moveCursor(this.x - p(0), this.y); break;
+      case 'E': this.moveCursor(0, this.y + p(0), true); break;
+      case 'F': this.moveCursor(0, this.y - p(0), true); break;
+      case 'G': case '`': this.moveCursor(p(0) - 1, this.y); break;
+      case 'H': case 'f': this.setCursor(p(1) - 1, p(0) - 1); break;
+      case 'I': this.tabForward(p(0)); break;
+      case 'J': this.eraseInDisplay(params[0] || 0); break;
+      case 'K': this.eraseInLine(params[0] || 0); break;
+      case 'L': this.insertLines(p(0)); break;
+      case 'M': this.deleteLines(p(0)); break;
+      case 'P': this.deleteChars(p(0)); break;
+      case 'S': this.scrollUp(p(0)); break;
+      case 'T': this.scrollDown(p(0)); break;
+      case 'X': this.eraseChars(p(0)); break;
+      case 'Z': this.tabBackward(p(0)); break;
+      case 'b': this.repeatLast(p(0)); break;
+      case 'd': this.setCursor(this.x, p(0) - 1); break;
+      case 'g':
+        if ((params[0] || 0) === 0) this.tabStops.delete(this.x);
+        else if (params[0] === 3) this.tabStops.clear();
+        break;
+      case 'h': case 'l':
+        for (const mode of params) {
+          if (mode === 4) this.insertMode = final === 'h';
+          if (mode === 20) this.newlineMode = final === 'h';
+        }
+        break;
+      case 'm': this.selectGraphicRendition(); break;
+      case 'r': this.setScrollRegion(p(0) - 1, p(1, this.rows) - 1); break;
+      case 's': this.saveCursor(); break;
+      case 'u': this.restoreCursor(); break;
+      // DSR, DA and window operations expect replies we cannot send
+    }
+  }
+
+  private setPrivateMode(mode: number, enable: boolean): void {
+    switch (mode) {
+      case 6:
+        this.originMode = enable;
+        this.setCursor(0, 0);
+        break;
+      case 7:
+        this.autoWrap = enable;
+        break;
+      case 25:
+        this.cursorVisible = enable;
+        break;
+      case 47:
+      case 1047:
+        this.useAlternateScreen(enable, mode === 1047);
+        break;
+      case 1048:
+        if (enable) this.saveCursor(); else this.restoreCursor();
+        break;
+      case 1049:
+        if (enable) {
+          this.saveCursor();
+          this.useAlternateScreen(true, true);
+        } else {
+          this.useAlternateScreen(false, false);
+          this.restoreCursor();
+        }
+        break;
+      // Mouse, bracketed paste, cursor keys etc. don't affect the screen
+    }
+  }
+
+  private selectGraphicRendition(): void {
+    const tokens = this.csiParams === '' ? ['0'] : this.csiParams.split(';');
+    const attrs: CellAttributes = { ...this.attrs };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.includes(':')) {
+        // ITU T.416 form: 38:5:n, 38:2::r:g:b, 4:3 (curly underline)
+        const parts = token.split(':').map(part => parseInt(part, 10));
+        if (parts[0] === 38 || parts[0] === 48) {
+          const color = parts[1] === 5 ? parts[2]
+            : parts[1] === 2 ? this.rgb(parts.length >= 6 ? parts.slice(3, 6) : parts.slice(2, 5))
+            : null;
+          if (color !== null && color !== undefined && !Number.isNaN(color)) {
+            if (parts[0] === 38) attrs.fg = color; else attrs.bg = color;
+          }
+        } else if (parts[0] === 4) {
+          attrs.underline = parts[1] !== 0;
+        }
+        continue;
+      }
+
+      const code = token === '' ? 0 : parseInt(token, 10);
+      if (code === 38 || code === 48 || code === 58) {
+        let color: TerminalColor | null = null;
+        if (tokens[i + 1] === '5') {
+          color = parseInt(tokens[i + 2], 10);
+          i += 2;
+        } else if (tokens[i + 1] === '2') {
+          color = this.rgb(tokens.slice(i + 2, i + 5).map(value => parseInt(value, 10)));
+          i += 4;
+        }
+        // 58 is underline color, which is not rendered
+        if (color !== null && !Number.isNaN(color) && code !== 58) {
+          if (code === 38) attrs.fg = color; else attrs.bg = color;
+        }
+        continue;
+      }
+
+      if (code === 0) Object.assign(attrs, DEFAULT_ATTRS);
+      else if (code === 1) attrs.bold = true;
+      else if (code === 2) attrs.dim = true;
+      else if (code === 3) attrs.italic = true;
+      else if (code === 4 || code === 21) attrs.underline = true;
+      else if (code === 5 || code === 6) attrs.blink = true;
+      else if (code === 7) attrs.inverse = true;
+      else if (code === 8) attrs.hidden = true;
+      else if (code === 9) attrs.strikethrough = true;
+      else if (code === 22) { attrs.bold = false; attrs.dim = false; }
+      else if (code === 23) attrs.italic = false;
+      else if (code === 24) attrs.underline = false;
+      else if (code === 25) attrs.blink = false;
+      else if (code === 27) attrs.inverse = false;
+      else if (code === 28) attrs.hidden = false;
+      else if (code === 29) attrs.strikethrough = false;
+      else if (code >= 30 && code <= 37) attrs.fg = code - 30;
+      else if (code === 39) attrs.fg = null;
+      else if (code >= 40 && code <= 47) attrs.bg = code - 40;
+      else if (code === 49) attrs.bg = null;
+      else if (code >= 90 && code <= 97) attrs.fg = code - 90 + 8;
+      else if (code >= 100 && code <= 107) attrs.bg = code - 100 + 8;
+    }
+
+    this.attrs = attrs;
+  }
+
+  private rgb(values: number[]): string | null {
+    if (values.length < 3 || values.some(value => Number.isNaN(value))) {
+      return null;
+    }
+    return '#' + values.map(value => Math.max(0, Math.min(255, value)).toString(16).padStart(2, '0')).join('');
+  }
+
+  // ---------------------------------------------------------------------------
+  // Screen operations
+  // ---------------------------------------------------------------------------
+
+  private print(ch: string, code: number): void {
+    if (this.charsets[this.activeCharset] === '0' && DEC_GRAPHICS[ch]) {
+      ch = DEC_GRAPHICS[ch];
+    }
+
+    const width = charWidth(code);
+    if (width === 0) {
+      this.appendCombining(ch);
+      return;
+    }
+
+    if (this.pendingWrap && this.autoWrap) {
+      this.x = 0;
+      this.lineFeed();
+    }
+    this.pendingWrap = false;
+
+    // A wide character that does not fit wraps as a whole
+    if (width === 2 && this.x === this.cols - 1) {
+      if (!this.autoWrap) {
+        return;
+      }
+      this.setCell(this.x, this.y, this.eraseCell());
+      this.x = 0;
+      this.lineFeed();
+    }
+
+    const line = this.buffer.lines[this.y];
+    if (this.insertMode) {
+      line.splice(this.x, 0, ...this.blankLine(width));
+      line.length = this.cols;
+    }
+
+    line[this.x] = { char: ch, attrs: this.attrs };
+    if (width === 2 && this.x + 1 < this.cols) {
+      line[this.x + 1] = { char: '', attrs: this.attrs };
+    }
+    this.lastPrinted = ch;
+
+    this.x += width;
+    if (this.x >= this.cols) {
+      this.x = this.cols - 1;
+      this.pendingWrap = this.autoWrap;
+    }
+  }
+
+  /**
+   * Attach a combining mark to the previously printed cell
+   */
+  private appendCombining(ch: string): void {
+    let x = this.pendingWrap ? this.x : this.x - 1;
+    const line = this.buffer.lines[this.y];
+    if (x >= 0 && line[x].char === '' && x > 0) {
+      x--; // Second half of a wide character
+    }
+    if (x >= 0) {
+      line[x] = { char: line[x].char + ch, attrs: line[x].attrs };
+    }
+  }
+
+  private repeatLast(count: number): void {
+    if (this.lastPrinted === '') {
+      return;
+    }
+    for (let i = 0; i < count; i++) {
+      this.print(this.lastPrinted, this.lastPrinted.codePointAt(0)!);
+    }
+  }
+
+  private lineFeed(): void {
+    this.pendingWrap = false;
+    if (this.y === this.scrollBottom) {
+      this.scrollUp(1);
+    } else if (this.y < this.rows - 1) {
+      this.y++;
+    }
+  }
+
+  private reverseIndex(): void {
+    this.pendingWrap = false;
+    if (this.y === this.scrollTop) {
+      this.scrollDown(1);
+    } else if (this.y > 0) {
+      this.y--;
+    }
+  }
+
+  private scrollUp(count: number): void {
+    const height = this.scrollBottom - this.scrollTop + 1;
+    const n = Math.min(count, height);
+    const lines = this.buffer.lines;
+    lines.splice(this.scrollTop, n);
+    lines.splice(this.scrollBottom - n + 1, 0, ...this.eraseLines(n));
+  }
+
+  private scrollDown(count: number): void {
+    const height = this.scrollBottom - this.scrollTop + 1;
+    const n = Math.min(count, height);
+    const lines = this.buffer.lines;
+    lines.splice(this.scrollBottom - n + 1, n);
+    lines.splice(this.scrollTop, 0, ...this.eraseLines(n));
+  }
+
+  private insertLines(count: number): void {
+    if (this.y < this.scrollTop || this.y > this.scrollBottom) {
+      return;
+    }
+    const n = Math.min(count, this.scrollBottom - this.y + 1);
+    const lines = this.buffer.lines;
+    lines.splice(this.scrollBottom - n + 1, n);
+    lines.splice(this.y, 0, ...this.eraseLines(n));
+    this.x = 0;
+    this.pendingWrap = false;
+  }
+
+  private deleteLines(count: number): void {
+    if (this.y < this.scrollTop || this.y > this.scrollBottom) {
+      return;
+    }
+    const n = Math.min(count, this.scrollBottom - this.y + 1);
+    const lines = this.buffer.lines;
+    lines.splice(this.y, n);
+    lines.splice(this.scrollBottom - n + 1, 0, ...this.eraseLines(n));
+    this.x = 0;
+    this.pendingWrap = false;
+  }
+
+  private insertChars(count: number): void {
+    const line = this.buffer.lines[this.y];
+    const n = Math.min(count, this.cols - this.x);
+    line.splice(this.x, 0, ...Array.from({ length: n }, () => this.eraseCell()));
+    line.length = this.cols;
+    this.pendingWrap = false;
+  }
+
+  private deleteChars(count: number): void {
+    const line = this.buffer.lines[this.y];
+    const n = Math.min(count, this.cols - this.x);
+    line.splice(this.x, n);
+    line.push(...Array.from({ length: n }, () => this.eraseCell()));
+    this.pendingWrap = false;
+  }
+
+  private eraseChars(count: number): void {
+    const end = Math.min(this.cols, this.x + count);
+    for (let x = this.x; x < end; x++) {
+      this.setCell(x, this.y, this.eraseCell());
+    }
+    this.pendingWrap = false;
+  }
+
+  private eraseInLine(mode: number): void {
+    const [start, end] = mode === 0 ? [this.x, this.cols]
+      : mode === 1 ? [0, this.x + 1]
+      : [0, this.cols];
+    for (let x = start; x < end; x++) {
+      this.setCell(x, this.y, this.eraseCell());
+    }
+    this.pendingWrap = false;
+  }
+
+  private eraseInDisplay(mode: number): void {
+    if (mode === 0) {
+      this.eraseInLine(0);
+      for (let y = this.y + 1; y < this.rows; y++) {
+        this.buffer.lines[y] = this.eraseLine();
+      }
+    } else if (mode === 1) {
+      this.eraseInLine(1);
+      for (let y = 0; y < this.y; y++) {
+        this.buffer.lines[y] = this.eraseLine();
+      }
+    } else if (mode === 2) {
+      this.buffer.lines = this.eraseLines(this.rows);
+    }
+    // Mode 3 clears scrollback, which the screen does not keep
+  }
+
+  private fillScreen(ch: string): void {
+    const cell: ScreenCell = { char: ch, attrs: DEFAULT_ATTRS };
+    this.buffer.lines = Array.from({ length: this.rows }, () => Array.from({ length: this.cols }, () => cell));
+  }
+
+  private moveCursor(x: number, y: number, stayInRegion = false): void {
+    let top = 0;
+    let bottom = this.rows - 1;
+    // Vertical movement stops at the scroll margins when starting inside them
+    if (stayInRegion && this.y >= this.scrollTop && this.y <= this.scrollBottom) {
+      top = this.scrollTop;
+      bottom = this.scrollBottom;
+    }
+    this.x = Math.max(0, Math.min(this.cols - 1, x));
+    this.y = Math.max(top, Math.min(bottom, y));
+    this.pendingWrap = false;
+  }
+
+  /**
+   * Absolute positioning; rows are relative to the scroll region in origin mode
+   */
+  private setCursor(x: number, y: number): void {
+    if (this.originMode) {
+      this.x = Math.max(0, Math.min(this.cols - 1, x));
+      this.y = Math.max(this.scrollTop, Math.min(this.scrollBottom, y + this.scrollTop));
+      this.pendingWrap = false;
+    } else {
+      this.moveCursor(x, y);
+    }
+  }
+
+  private setScrollRegion(top: number, bottom: number): void {
+    bottom = Math.min(bottom, this.rows - 1);
+    if (top < bottom) {
+      this.scrollTop = top;
+      this.scrollBottom = bottom;
+      this.setCursor(0, 0);
+    }
+  }
+
+  private tabForward(count: number): void {
+    for (let i = 0; i < count && this.x < this.cols - 1; i++) {
+      do {
+        this.x++;
+      } while (this.x < this.cols - 1 && !this.tabStops.has(this.x));
+    }
+    this.pendingWrap = false;
+  }
+
+  private tabBackward(count: number): void {
+    for (let i = 0; i < count && this.x > 0; i++) {
+      do {
+        this.x--;
+      } while (this.x > 0 && !this.tabStops.has(this.x));
+    }
+    this.pendingWrap = false;
+  }
+
+  private resetTabStops(): void {
+    this.tabStops.clear();
+    for (let x = 8; x < this.cols; x += 8) {
+      this.tabStops.add(x);
+    }
+  }
+
+  private saveCursor(): void {
+    this.buffer.savedCursor = {
+      x: this.x,
+      y: this.y,
+      attrs: this.attrs,
+      originMode: this.originMode,
+      charsets: [...this.charsets],
+      activeCharset: this.activeCharset
+    };
+  }
+
+  private restoreCursor(): void {
+    const saved = this.buffer.savedCursor;
+    if (!saved) {
+      this.x = 0;
+      this.y = 0;
+      this.attrs = DEFAULT_ATTRS;
+      this.pendingWrap = false;
+      return;
+    }
+    this.x = Math.min(saved.x, this.cols - 1);
+    this.y = Math.min(saved.y, this.rows - 1);
+    this.attrs = saved.attrs;
+    this.originMode = saved.originMode;
+    this.charsets = [...saved.charsets];
+    this.activeCharset = saved.activeCharset;
+    this.pendingWrap = false;
+  }
+
+  private useAlternateScreen(enable: boolean, clear: boolean): void {
+    const target = enable ? this.alternate : this.normal;
+    if (this.buffer === target) {
+      return;
+    }
+    if (enable && clear) {
+      this.alternate.lines = this.blankLines(this.rows);
+    }
+    this.buffer = target;
+    this.pendingWrap = false;
+  }
+
+  /**
+   * DECSTR: reset modes and rendition, keep the screen contents
+   */
+  private softReset(): void {
+    this.attrs = DEFAULT_ATTRS;
+    this.insertMode = false;
+    this.originMode = false;
+    this.autoWrap = true;
+    this.cursorVisible = true;
+    this.scrollTop = 0;
+    this.scrollBottom = this.rows - 1;
+    this.charsets = ['B', 'B'];
+    this.activeCharset = 0;
+    this.normal.savedCursor = null;
+    this.alternate.savedCursor = null;
+  }
+
+  /**
+   * RIS: full reset
+   */
+  private reset(): void {
+    this.softReset();
+    this.normal = { lines: this.blankLines(this.rows), savedCursor: null };
+    this.alternate = { lines: this.blankLines(this.rows), savedCursor: null };
+    this.buffer = this.normal;
+    this.x = 0;
+    this.y = 0;
+    this.pendingWrap = false;
+    this.title = '';
+    this.resetTabStops();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private setCell(x: number, y: number, cell: ScreenCell): void {
+    this.buffer.lines[y][x] = cell;
+  }
+
+  /**
+   * Cell left behind by erase operations: blank, with the current background
+   */
+  private eraseCell(): ScreenCell {
+    if (this.attrs.bg === null) {
+      return BLANK_CELL;
+    }
+    return { char: ' ', attrs: { ...DEFAULT_ATTRS, bg: this.attrs.bg } };
+  }
+
+  private eraseLine(): ScreenCell[] {
+    const cell = this.eraseCell();
+    return Array.from({ length: this.cols }, () => cell);
+  }
+
+  private eraseLines(count: number): ScreenCell[][] {
+    return Array.from({ length: count }, () => this.eraseLine());
+  }
+
+  private blankLine(cols = this.cols): ScreenCell[] {
+    return Array.from({ length: cols }, () => BLANK_CELL);
+  }
+
+  private blankLines(count: number): ScreenCell[][] {
+    return Array.from({ length: count }, () => this.blankLine());
+  }
+
+  private lineText(line: ScreenCell[]): string {
+    return line.map(cell => cell.char).join('');
+  }
+
+  /**
+   * Split a line into runs of cells with the same attributes. Trailing
+   * blank cells with default attributes are dropped.
+   */
+  private lineRuns(line: ScreenCell[]): { text: string; attrs: CellAttributes }[] {
+    let end = line.length;
+    while (end > 0 && line[end - 1].char === ' ' && line[end - 1].attrs === DEFAULT_ATTRS) {
+      end--;
+    }
+
+    const runs: { text: string; attrs: CellAttributes }[] = [];
+    for (let x = 0; x < end; x++) {
+      const cell = line[x];
+      const last = runs[runs.length - 1];
+      if (last && this.sameAttrs(last.attrs, cell.attrs)) {
+        last.text += cell.char;
+      } else {
+        runs.push({ text: cell.char, attrs: cell.attrs });
+      }
+    }
+    return runs;
+  }
+
+  private sameAttrs(a: CellAttributes, b: CellAttributes): boolean {
+    if (a === b) {
+      return true;
+    }
+    return (Object.keys(DEFAULT_ATTRS) as (keyof CellAttributes)[]).every(key => a[key] === b[key]);
+  }
+
+  private resolveColor(color: TerminalColor): string {
+    return typeof color === 'number' ? xtermColor(color) : color;
+  }
+
+  private cssFor(attrs: CellAttributes): string {
+    let fg = attrs.fg !== null ? this.resolveColor(attrs.fg) : null;
+    let bg = attrs.bg !== null ? this.resolveColor(attrs.bg) : null;
+    if (attrs.inverse) {
+      [fg, bg] = [bg || DEFAULT_BG, fg || DEFAULT_FG];
+    }
+
+    const styles: string[] = [];
+    if (attrs.hidden) styles.push('color: transparent');
+    else if (fg) styles.push(`color: ${fg}`);
+    if (bg) styles.push(`background-color: ${bg}`);
+    if (attrs.bold) styles.push('font-weight: bold');
+    if (attrs.dim) styles.push('opacity: 0.5');
+    if (attrs.italic) styles.push('font-style: italic');
+
+    const decorations: string[] = [];
+    if (attrs.underline) decorations.push('underline');
+    if (attrs.strikethrough) decorations.push('line-through');
+    if (attrs.blink) decorations.push('blink');
+    if (decorations.length > 0) styles.push(`text-decoration: ${decorations.join(' ')}`);
+
+    return styles.join('; ');
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
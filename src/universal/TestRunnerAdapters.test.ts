@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { testRunnerPlugins } from './TestRunnerAdapters.js';
+import type { TestSummary, ToolAdapter, ToolEvent } from './types.js';
+
+function startAdapter(name: string, command: string, args: string[] = []): { adapter: ToolAdapter | void; events: ToolEvent[] } {
+  const plugin = testRunnerPlugins.find(entry => entry.name === name)!;
+  const events: ToolEvent[] = [];
+  const adapter = plugin.createAdapter!({
+    session: { id: 'session-1', tool: command, command, args, cwd: '/project', mode: 'pipe' },
+    config: null,
+    emit: event => events.push(event),
+    processOutput: () => { throw new Error('not used'); }
+  });
+  return { adapter, events };
+}
+
+function parse(name: string, command: string, lines: string[], exitCode?: number, args: string[] = []): TestSummary {
+  const { adapter, events } = startAdapter(name, command, args);
+  lines.forEach((content, sequence) => adapter!.onLine!({ content, complete: true, source: 'stdout', timestamp: 0, sequence }));
+  adapter!.onExit!(exitCode);
+  adapter!.dispose!();
+
+  const event = events[events.length - 1];
+  if (event?.type !== 'tests') {
+    throw new Error('No test summary was emitted');
+  }
+  return event.summary;
+}
+
+describe('test runner adapters', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should read vitest files, failures and their locations', () => {
+    const summary = parse('vitest-results', 'vitest', [
+      ' ✓ src/a.test.ts (2 tests) 5ms',
+      ' ❯ src/b.test.ts (3 tests | 1 failed | 1 skipped) 12ms',
+      '   × b > fails 3ms',
+      '     → expected 1 to be 2',
+      '',
+      '⎯⎯⎯⎯⎯⎯⎯ Failed Tests 1 ⎯⎯⎯⎯⎯⎯⎯',
+      '',
+      ' FAIL  src/b.test.ts > b > fails',
+      'AssertionError: expected 1 to be 2',
+      ' ❯ src/b.test.ts:7:15',
+      '',
+      ' Test Files  1 failed | 1 passed (2)',
+      '      Tests  1 failed | 3 passed | 1 skipped (5)'
+    ], 1);
+
+    expect(summary).toMatchObject({ runner: 'vitest', status: 'failed', passed: 3, failed: 1, skipped: 1 });
+    expect(summary.suites.map(suite => [suite.name, suite.status])).toEqual([
+      ['src/a.test.ts', 'passed'],
+      ['src/b.test.ts', 'failed']
+    ]);
+    expect(summary.suites[1].tests).toEqual([{
+      name: 'b > fails',
+      status: 'failed',
+      durationMs: 3,
+      message: 'AssertionError: expected 1 to be 2',
+      file: 'src/b.test.ts',
+      line: 7
+    }]);
+  });
+
+  it('should read jest suites and its closing totals', () => {
+    const summary = parse('jest-results', 'jest', [
+      'PASS src/a.test.js (1.2 s)',
+      'FAIL src/b.test.js',
+      '  ● math › adds',
+      '',
+      '    expect(received).toBe(expected)',
+      '',
+      '      at Object.<anonymous> (src/b.test.js:4:17)',
+      '',
+      'Tests:       1 failed, 1 skipped, 3 passed, 5 total',
+      'Time:        2.5 s'
+    ], 1);
+
+    expect(summary).toMatchObject({ status: 'failed', passed: 3, failed: 1, skipped: 1, total: 5, durationMs: 2500 });
+    expect(summary.suites[1].tests[0]).toMatchObject({
+      name: 'math > adds',
+      message: 'expect(received).toBe(expected)',
+      file: 'src/b.test.js',
+      line: 4
+    });
+  });
+
+  it('should read pytest progress, failures and the short summary', () => {
+    const summary = parse('pytest-results', 'pytest', [
+      '============================= test session starts ==============================',
+      'collected 3 items',
+      '',
+      'tests/test_a.py .F.                                                      [100%]',
+      '',
+      '=================================== FAILURES ===================================',
+      '__________________________________ test_two __________________________________',
+      '',
+      '    def test_two():',
+      '>       assert 1 == 2',
+      'E       assert 1 == 2',
+      '',
+      'tests/test_a.py:5: AssertionError',
+      '=========================== short test summary info ============================',
+      'FAILED tests/test_a.py::test_two - assert 1 == 2',
+      '========================= 1 failed, 2 passed in 0.12s ========================='
+    ], 1);
+
+    expect(summary).toMatchObject({ status: 'failed', passed: 2, failed: 1, total: 3, durationMs: 120 });
+    expect(summary.suites[0].tests).toEqual([
+      { name: 'test_two', status: 'failed', message: 'assert 1 == 2', file: 'tests/test_a.py', line: 5 }
+    ]);
+  });
+
+  it('should read verbose go test output by package', () => {
+    const summary = parse('go-test-results', 'go', [
+      '=== RUN   TestAdd',
+      '--- PASS: TestAdd (0.00s)',
+      '=== RUN   TestSub',
+      '    math_test.go:12: got 1, want 2',
+      '--- FAIL: TestSub (0.01s)',
+      'FAIL',
+      'FAIL\texample.com/math\t0.012s',
+      'ok  \texample.com/util\t0.003s'
+    ], 1, ['test', '-v', './...']);
+
+    expect(summary.suites.map(suite => [suite.name, suite.status])).toEqual([
+      ['example.com/math', 'failed'],
+      ['example.com/util', 'passed']
+    ]);
+    expect(summary.suites[0].tests[1]).toEqual({
+      name: 'TestSub',
+      status: 'failed',
+      durationMs: 10,
+      file: 'math_test.go',
+      line: 12,
+      message: 'got 1, want 2'
+    });
+  });
+
+  it('should only follow go sessions that run tests', () => {
+    expect(startAdapter('go-test-results', 'go', ['build', './...']).adapter).toBeUndefined();
+  });
+
+  it('should fail a run whose runner exited with an error', () => {
+    const summary = parse('vitest-results', 'vitest', [' ✓ src/a.test.ts (2 tests) 5ms'], 1);
+    expect(summary).toMatchObject({ status: 'failed', passed: 2, failed: 0 });
+  });
+
+  it('should send live summaries at most every 250ms', () => {
+    vi.useFakeTimers();
+    const { adapter, events } = startAdapter('vitest-results', 'vitest');
+    adapter!.onLine!({ content: ' ✓ src/a.test.ts (2 tests) 5ms', complete: true, source: 'stdout', timestamp: 0, sequence: 1 });
+    adapter!.onLine!({ content: ' ✓ src/c.test.ts (1 test) 2ms', complete: true, source: 'stdout', timestamp: 0, sequence: 2 });
+    expect(events).toHaveLength(0);
+
+    vi.advanceTimersByTime(250);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'tests', summary: { status: 'running', passed: 3 } });
+    adapter!.dispose!();
+  });
+});
@@ -0,0 +1,604 @@
+/**
+ * Universal CLI Wrapper - Test Runner Adapters
+ *
+ * Built-in plugins that read the default reporters of vitest, jest, pytest
+ * and `go test` into a TestSummary: suites, tests, their status and duration,
+ * and where and why each failure happened. The summary is updated live as
+ * the runner reports and completed when it exits.
+ *
+ * Default reporters only name the tests that fail (and every test when run
+ * verbosely), so counts come from the reporters' per-file and closing
+ * summaries rather than from the named tests.
+ */
+
+import { basename } from 'node:path';
+import { lineParserPlugin, type LineParser } from './LineParserPlugin.js';
+import type { ToolAdapterContext, TestResult, TestSuite, TestSummary, UniversalPlugin } from './types.js';
+
+/** Lines of a failure message that are kept */
+const MESSAGE_LINES = 10;
+
+type Counts = Pick<TestSummary, 'passed' | 'failed' | 'skipped'>;
+
+abstract class TestReportParser implements LineParser {
+  protected readonly summary: TestSummary;
+  /** Counts from the runner's closing summary; they win over the suites' */
+  protected totals?: Counts;
+  /** Set whenever the summary changes, cleared by the adapter once sent */
+  changed = false;
+
+  constructor(runner: TestSummary['runner']) {
+    this.summary = { runner, status: 'running', passed: 0, failed: 0, skipped: 0, suites: [], updatedAt: Date.now() };
+  }
+
+  /**
+   * Read one complete line of the reporter's output, without ANSI codes
+   */
+  abstract read(line: string): void;
+
+  /**
+   * The runner exited; suites still running are settled by their failures
+   */
+  finish(exitCode?: number): void {
+    for (const suite of this.summary.suites) {
+      if (suite.status === 'running') {
+        suite.status = suite.failed > 0 ? 'failed' : 'passed';
+      }
+      for (const test of suite.tests) {
+        if (test.status === 'running') {
+          test.status = 'failed';
+        }
+      }
+    }
+    this.summary.status = this.counts().failed > 0 || (exitCode ?? 0) !== 0 ? 'failed' : 'passed';
+    this.changed = true;
+  }
+
+  /**
+   * A copy of the summary as it is now
+   */
+  result(): TestSummary {
+    return structuredClone({ ...this.summary, ...this.counts(), updatedAt: Date.now() });
+  }
+
+  private counts(): Counts {
+    if (this.totals) {
+      return this.totals;
+    }
+    return this.summary.suites.reduce(
+      (counts, suite) => ({
+        passed: counts.passed + suite.passed,
+        failed: counts.failed + suite.failed,
+        skipped: counts.skipped + suite.skipped
+      }),
+      { passed: 0, failed: 0, skipped: 0 }
+    );
+  }
+
+  protected suite(name: string): TestSuite {
+    let suite = this.summary.suites.find(entry => entry.name === name);
+    if (!suite) {
+      suite = { name, status: 'running', passed: 0, failed: 0, skipped: 0, tests: [] };
+      this.summary.suites.push(suite);
+    }
+    this.changed = true;
+    return suite;
+  }
+
+  protected test(suite: TestSuite, name: string): TestResult {
+    let test = suite.tests.find(entry => entry.name === name);
+    if (!test) {
+      test = { name, status: 'running' };
+      suite.tests.push(test);
+    }
+    this.changed = true;
+    return test;
+  }
+
+  /**
+   * Counts from a list like `1 failed | 3 passed | 1 skipped`
+   */
+  protected parseCounts(text: string, kinds: Record<string, keyof Counts>): Counts {
+    const counts: Counts = { passed: 0, failed: 0, skipped: 0 };
+    for (const [, count, kind] of text.matchAll(/(\d+) (\w+)/g)) {
+      const key = kinds[kind];
+      if (key) {
+        counts[key] += parseInt(count, 10);
+      }
+    }
+    return counts;
+  }
+
+  protected duration(value: string, unit: string): number {
+    return Math.round(parseFloat(value) * (unit === 's' ? 1000 : 1));
+  }
+
+  protected addMessage(test: TestResult, line: string): void {
+    const lines = test.message ? test.message.split('\n') : [];
+    if (lines.length < MESSAGE_LINES) {
+      test.message = [...lines, line].join('\n');
+      this.changed = true;
+    }
+  }
+}
+
+/**
+ * vitest's default reporter: one line per test file with its counts, the
+ * failed tests below it, then a section with each failure's error and location
+ */
+class VitestParser extends TestReportParser {
+  private current?: TestSuite;
+  private lastTest?: TestResult;
+  /** Test whose error is being read in the failures section */
+  private failure?: TestResult;
+
+  constructor() {
+    super('vitest');
+  }
+
+  read(line: string): void {
+    const file = /^\s?([✓❯×↓])\s+(\S+)\s+\((\d+) tests?((?:\s*\|\s*\d+ \w+)*)\)(?:\s+(\d+(?:\.\d+)?)(ms|s))?$/u.exec(line);
+    if (file) {
+      const suite = this.suite(file[2]);
+      const counts = this.parseCounts(file[4], { failed: 'failed', skipped: 'skipped', todo: 'skipped' });
+      Object.assign(suite, counts, { passed: parseInt(file[3], 10) - counts.failed - counts.skipped });
+      suite.status = file[1] === '✓' ? 'passed' : file[1] === '↓' ? 'skipped' : 'failed';
+      if (file[5]) {
+        suite.durationMs = this.duration(file[5], file[6]);
+      }
+      this.current = suite;
+      return;
+    }
+
+    const test = /^ {3,}([✓×❯↓])\s+(.+?)(?:\s+(\d+(?:\.\d+)?)(ms|s))?$/u.exec(line);
+    if (test && this.current && !this.failure) {
+      const name = test[2].startsWith(`${this.current.name} > `) ? test[2].slice(this.current.name.length + 3) : test[2];
+      const result = this.test(this.current, name);
+      result.status = test[1] === '✓' ? 'passed' : test[1] === '↓' ? 'skipped' : 'failed';
+      if (test[3]) {
+        result.durationMs = this.duration(test[3], test[4]);
+      }
+      this.lastTest = result;
+      return;
+    }
+
+    const reason = /^\s+→ (.+)$/.exec(line);
+    if (reason && this.lastTest && !this.failure) {
+      this.addMessage(this.lastTest, reason[1]);
+      return;
+    }
+
+    const failed = /^ FAIL {1,2}(\S+) > (.+)$/.exec(line);
+    if (failed) {
+      this.failure = this.test(this.suite(failed[1]), failed[2]);
+      this.failure.status = 'failed';
+      this.failure.message = undefined;
+      return;
+    }
+
+    if (this.failure) {
+      const location = /^\s*❯ (\S+?):(\d+):\d+$/u.exec(line);
+      if (line.startsWith('⎯')) {
+        this.failure = undefined;
+      } else if (location) {
+        this.failure.file ??= location[1];
+        this.failure.line ??= parseInt(location[2], 10);
+        this.changed = true;
+      } else if (line.trim() && !this.failure.file) {
+        // The error comes first; the diff and code frame follow its location
+        this.addMessage(this.failure, line.trim());
+      }
+      return;
+    }
+
+    const totals = /^\s*Tests\s{2,}(.+?)(?:\s+\((\d+)\))?$/.exec(line);
+    if (totals) {
+      this.totals = this.parseCounts(totals[1], { failed: 'failed', passed: 'passed', skipped: 'skipped', todo: 'skipped' });
+      if (totals[2]) {
+        this.summary.total = parseInt(totals[2], 10);
+      }
+      this.changed = true;
+      return;
+    }
+
+    const duration = /^\s*Duration\s+(\d+(?:\.\d+)?)(ms|s)\b/.exec(line);
+    if (duration) {
+      this.summary.durationMs = this.duration(duration[1], duration[2]);
+      this.changed = true;
+    }
+  }
+}
+
+/**
+ * jest's default reporter (on stderr): `PASS`/`FAIL` per test file, every
+ * test under its describe blocks when verbose, and a `●` block per failure
+ */
+class JestParser extends TestReportParser {
+  private current?: TestSuite;
+  /** Describe blocks of the verbose listing, by indentation */
+  private describes: string[] = [];
+  private failure?: TestResult;
+  /** The failure's message is complete once its code frame or stack starts */
+  private messageDone = false;
+
+  constructor() {
+    super('jest');
+  }
+
+  read(line: string): void {
+    const file = /^(PASS|FAIL)\s+(.+?)(?:\s+\((\d+(?:\.\d+)?) ?(ms|s)\))?$/.exec(line);
+    if (file) {
+      this.current = this.suite(file[2]);
+      this.current.status = file[1] === 'PASS' ? 'passed' : 'failed';
+      if (file[3]) {
+        this.current.durationMs = this.duration(file[3], file[4]);
+      }
+      this.describes = [];
+      this.failure = undefined;
+      return;
+    }
+
+    const failure = /^\s+● (.+)$/.exec(line);
+    if (failure && this.current) {
+      this.failure = undefined;
+      if (failure[1].startsWith('Console')) {
+        return;
+      }
+      const name = failure[1] === 'Test suite failed to run' ? failure[1] : failure[1].replace(/ › /g, ' > ');
+      const test = this.test(this.current, name);
+      if (test.status !== 'failed') {
+        test.status = 'failed';
+        this.current.failed++;
+      }
+      this.current.status = 'failed';
+      test.message = undefined;
+      this.failure = test;
+      this.messageDone = false;
+      return;
+    }
+
+    if (this.failure) {
+      this.readFailure(this.failure, line);
+      return;
+    }
+
+    const test = /^(\s+)([✓✕○])\s+(?:(?:skipped|todo) )?(.+?)(?:\s+\((\d+(?:\.\d+)?) ?(ms|s)\))?$/.exec(line);
+    if (test && this.current) {
+      const depth = test[1].length / 2 - 1;
+      const result = this.test(this.current, [...this.describes.slice(0, depth), test[3]].join(' > '));
+      if (result.status === 'running') {
+        const status = test[2] === '✓' ? 'passed' : test[2] === '✕' ? 'failed' : 'skipped';
+        result.status = status;
+        this.current[status]++;
+      }
+      if (test[4]) {
+        result.durationMs = this.duration(test[4], test[5]);
+      }
+      return;
+    }
+
+    const describe = /^(\s+)(\S.*)$/.exec(line);
+    if (describe && this.current && line.length > 0 && !/^\s*(Tests|Test Suites|Snapshots|Time):/.test(line)) {
+      const depth = describe[1].length / 2 - 1;
+      this.describes = [...this.describes.slice(0, depth), describe[2]];
+      return;
+    }
+
+    const totals = /^Tests:\s+(.+)$/.exec(line);
+    if (totals) {
+      this.totals = this.parseCounts(totals[1], { failed: 'failed', passed: 'passed', skipped: 'skipped', todo: 'skipped' });
+      const total = /(\d+) total/.exec(totals[1]);
+      if (total) {
+        this.summary.total = parseInt(total[1], 10);
+      }
+      this.changed = true;
+      return;
+    }
+
+    const time = /^Time:\s+(\d+(?:\.\d+)?) ?(ms|s)\b/.exec(line);
+    if (time) {
+      this.summary.durationMs = this.duration(time[1], time[2]);
+      this.changed = true;
+    }
+  }
+
+  private readFailure(test: TestResult, line: string): void {
+    if (/^(Test Suites|Tests):/.test(line)) {
+      this.failure = undefined;
+      this.read(line);
+      return;
+    }
+
+    const frame = /^\s+at .*?\(?([^\s()]+?):(\d+):\d+\)?$/.exec(line);
+    if (frame) {
+      this.messageDone = true;
+      if (!test.file && !frame[1].includes('node_modules') && !frame[1].startsWith('node:')) {
+        test.file = frame[1];
+        test.line = parseInt(frame[2], 10);
+        this.changed = true;
+      }
+      return;
+    }
+    if (/^\s+>?\s*\d+ \|/.test(line)) {
+      this.messageDone = true;
+    } else if (!this.messageDone && line.trim()) {
+      this.addMessage(test, line.trim());
+    }
+  }
+}
+
+/**
+ * pytest's default output: a progress line of `.FEsxX` per test file (or a
+ * line per test with -v), the failures with their tracebacks, a short summary
+ * naming each failed test and the closing counts
+ */
+class PytestParser extends TestReportParser {
+  private current?: TestSuite;
+  private section: 'progress' | 'failures' | 'summary' = 'progress';
+  /** Failure details by test name (`TestClass.test_name`), until the short summary places them */
+  private failures = new Map<string, TestResult>();
+  private failure?: TestResult;
+
+  constructor() {
+    super('pytest');
+  }
+
+  read(line: string): void {
+    const heading = /^=+ (.+?) =+$/.exec(line);
+    if (heading) {
+      this.readHeading(heading[1]);
+      return;
+    }
+
+    if (this.section === 'progress') {
+      this.readProgress(line);
+    } else if (this.section === 'failures') {
+      this.readFailure(line);
+    } else {
+      this.readShortSummary(line);
+    }
+  }
+
+  private readHeading(title: string): void {
+    if (title === 'FAILURES' || title === 'ERRORS') {
+      this.section = 'failures';
+      return;
+    }
+    if (title === 'short test summary info') {
+      this.section = 'summary';
+      return;
+    }
+
+    const closing = /^(.+) in (\d+(?:\.\d+)?)s\b/.exec(title);
+    if (closing) {
+      this.totals = this.parseCounts(closing[1], {
+        passed: 'passed', xpassed: 'passed',
+        failed: 'failed', error: 'failed', errors: 'failed',
+        skipped: 'skipped', xfailed: 'skipped'
+      });
+      this.summary.durationMs = this.duration(closing[2], 's');
+      this.changed = true;
+    }
+  }
+
+  private readProgress(line: string): void {
+    const collected = /^collected (\d+) items?/.exec(line);
+    if (collected) {
+      this.summary.total = parseInt(collected[1], 10);
+      this.changed = true;
+      return;
+    }
+
+    const verbose = /^(\S+\.py)::(\S.*?) (PASSED|FAILED|ERROR|SKIPPED|XFAIL|XPASS)\b/.exec(line);
+    if (verbose) {
+      const suite = this.suite(verbose[1]);
+      const test = this.test(suite, verbose[2]);
+      if (test.status === 'running') {
+        const status = this.status(verbose[3]);
+        test.status = status;
+        suite[status]++;
+      }
+      this.current = suite;
+      return;
+    }
+
+    const progress = /^(?:(\S+\.py) )?([.FEsxX]+)\s*(?:\[\s*\d+%\])?$/.exec(line);
+    if (progress && (progress[1] || this.current)) {
+      const suite = progress[1] ? this.suite(progress[1]) : this.current!;
+      for (const outcome of progress[2]) {
+        const status = outcome === '.' || outcome === 'X' ? 'passed' : outcome === 'F' || outcome === 'E' ? 'failed' : 'skipped';
+        suite[status]++;
+      }
+      suite.status = suite.failed > 0 ? 'failed' : 'running';
+      this.current = suite;
+      this.changed = true;
+    }
+  }
+
+  private readFailure(line: string): void {
+    const header = /^_{3,} (.+?) _{3,}$/.exec(line);
+    if (header) {
+      const name = header[1].replace(/^ERROR at \w+ of /, '');
+      this.failure = { name, status: 'failed' };
+      this.failures.set(name, this.failure);
+      return;
+    }
+    if (!this.failure) {
+      return;
+    }
+
+    const error = /^E\s+(.*)$/.exec(line);
+    if (error) {
+      this.addMessage(this.failure, error[1]);
+      return;
+    }
+    // The last location of the traceback is where it failed
+    const location = /^(\S+\.py):(\d+): /.exec(line);
+    if (location) {
+      this.failure.file = location[1];
+      this.failure.line = parseInt(location[2], 10);
+    }
+  }
+
+  private readShortSummary(line: string): void {
+    const failed = /^(FAILED|ERROR) (\S+?\.py)::(\S+)(?: - (.*))?$/.exec(line);
+    if (!failed) {
+      return;
+    }
+
+    const suite = this.suite(failed[2]);
+    suite.status = 'failed';
+    const test = this.test(suite, failed[3]);
+    const details = this.failures.get(failed[3].replace(/::/g, '.'));
+    Object.assign(test, details, { name: failed[3], status: 'failed' });
+    if (!test.message && failed[4]) {
+      test.message = failed[4];
+    }
+    if (!test.file) {
+      test.file = failed[2];
+    }
+  }
+
+  private status(outcome: string): 'passed' | 'failed' | 'skipped' {
+    switch (outcome) {
+      case 'PASSED':
+      case 'XPASS':
+        return 'passed';
+      case 'FAILED':
+      case 'ERROR':
+        return 'failed';
+      default:
+        return 'skipped';
+    }
+  }
+}
+
+/**
+ * `go test`: `--- PASS/FAIL/SKIP` per test (only failures unless -v), the
+ * test's log lines, and an `ok`/`FAIL` line per package once it finishes.
+ * Tests are reported before their package is named, so they are gathered in
+ * a suite that is named by the package line.
+ */
+class GoTestParser extends TestReportParser {
+  private static readonly PENDING = '(running)';
+  private current?: TestResult;
+  /** Log lines of the running test; with -v they come before its result */
+  private logs: string[] = [];
+  private failure?: TestResult;
+
+  constructor() {
+    super('go');
+  }
+
+  read(line: string): void {
+    const run = /^=== RUN\s+([^/\s]+)$/.exec(line);
+    if (run) {
+      this.current = this.test(this.suite(GoTestParser.PENDING), run[1]);
+      this.logs = [];
+      this.failure = undefined;
+      return;
+    }
+
+    const result = /^(\s*)--- (PASS|FAIL|SKIP): (\S+) \((\d+(?:\.\d+)?)s\)$/.exec(line);
+    if (result) {
+      // Subtests are part of their top-level test
+      if (result[1].length === 0) {
+        this.readResult(result[3], result[2], result[4]);
+      }
+      return;
+    }
+
+    const pkg = /^(ok|FAIL|\?)\s+(\S+)\s+(?:(\d+(?:\.\d+)?)s|\(cached\)|\[no test files\])/.exec(line);
+    if (pkg) {
+      this.readPackage(pkg[1], pkg[2], pkg[3]);
+      return;
+    }
+
+    const log = /^\s+(\S.*)$/.exec(line);
+    if (log) {
+      if (this.failure) {
+        this.readLog(this.failure, log[1]);
+      } else if (this.current) {
+        this.logs.push(log[1]);
+      }
+    }
+  }
+
+  private readResult(name: string, outcome: string, seconds: string): void {
+    const suite = this.suite(GoTestParser.PENDING);
+    const test = this.test(suite, name);
+    const status = outcome === 'PASS' ? 'passed' : outcome === 'FAIL' ? 'failed' : 'skipped';
+    if (test.status === 'running') {
+      suite[status]++;
+    }
+    test.status = status;
+    test.durationMs = this.duration(seconds, 's');
+
+    this.failure = undefined;
+    if (status === 'failed') {
+      for (const log of this.logs) {
+        this.readLog(test, log);
+      }
+      // Without -v the logs follow the result
+      this.failure = test;
+    }
+    this.logs = [];
+    this.current = undefined;
+  }
+
+  private readLog(test: TestResult, text: string): void {
+    const location = /^(\S+\.go):(\d+): (.*)$/.exec(text);
+    if (location && !test.file) {
+      test.file = location[1];
+      test.line = parseInt(location[2], 10);
+    }
+    if (!text.startsWith('---')) {
+      this.addMessage(test, location ? location[3] : text);
+    }
+  }
+
+  private readPackage(outcome: string, name: string, seconds?: string): void {
+    const suite = this.summary.suites.find(entry => entry.name === GoTestParser.PENDING);
+    if (outcome === '?') {
+      return;
+    }
+
+    const pkg = suite || this.suite(name);
+    pkg.name = name;
+    pkg.status = outcome === 'ok' ? 'passed' : 'failed';
+    if (seconds) {
+      pkg.durationMs = this.duration(seconds, 's');
+    }
+    this.failure = undefined;
+    this.current = undefined;
+    this.changed = true;
+  }
+}
+
+/**
+ * A built-in plugin that parses one runner's output for sessions of its tool
+ */
+function testRunnerPlugin(
+  name: string,
+  tool: string,
+  createParser: () => TestReportParser,
+  runsTests?: (session: ToolAdapterContext['session']) => boolean
+): UniversalPlugin {
+  return lineParserPlugin({
+    name,
+    description: `Test results from ${tool}'s default reporter`,
+    tool,
+    createParser: () => createParser(),
+    toEvent: parser => ({ type: 'tests', summary: parser.result() }),
+    applies: runsTests
+  });
+}
+
+export const testRunnerPlugins: UniversalPlugin[] = [
+  testRunnerPlugin('vitest-results', 'vitest', () => new VitestParser()),
+  testRunnerPlugin('jest-results', 'jest', () => new JestParser()),
+  testRunnerPlugin('pytest-results', 'pytest', () => new PytestParser()),
+  // The go tool also builds, vets and formats
+  testRunnerPlugin('go-test-results', 'go', () => new GoTestParser(),
+    session => basename(session.command) !== 'go' || session.args[0] === 'test')
+];
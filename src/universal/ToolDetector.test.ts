@@ -0,0 +1,82 @@
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ToolDetector } from './ToolDetector.js';
+import type { ToolConfig } from './types.js';
+
+describe('ToolDetector', () => {
+  const detector = new ToolDetector();
+  let dir: string;
+
+  const tools = new Map<string, ToolConfig>([
+    ['vitest', { command: 'vitest' }],
+    ['jest', { command: 'jest' }],
+    ['python', { command: 'python', detect: { binaries: ['py.test'] } }],
+    ['node', { command: 'node' }],
+    ['e2e', { command: 'npm', detect: { argv: ['^npm run e2e'] } }]
+  ]);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'tool-detector-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeExecutable(path: string, content: string): void {
+    mkdirSync(join(path, '..'), { recursive: true });
+    writeFileSync(path, content);
+    chmodSync(path, 0o755);
+  }
+
+  it('should unwrap package runners and keep the innermost command', async () => {
+    const detection = await detector.detect(['npx', '-p', 'vitest@1', 'vitest', 'run'], dir, tools);
+    expect(detection.tool).toBe('vitest');
+    expect(detection.argv).toEqual(['vitest', 'run']);
+
+    expect((await detector.detect(['poetry', 'run', 'py.test', '-x'], dir, tools)).tool).toBe('python');
+    expect((await detector.detect(['env', 'CI=1', 'jest'], dir, tools)).tool).toBe('jest');
+  });
+
+  it('should prefer detect.argv rules over names', async () => {
+    const detection = await detector.detect(['npm', 'run', 'e2e'], dir, tools);
+    expect(detection.tool).toBe('e2e');
+    expect(detection.steps[0]).toContain('/^npm run e2e/');
+  });
+
+  it('should match names with a version or an extension', async () => {
+    expect((await detector.detect(['python3.12', '-m', 'http.server'], dir, tools)).tool).toBe('python');
+    expect((await detector.detect(['./scripts/jest.js'], dir, tools)).tool).toBe('jest');
+  });
+
+  it('should follow symlinks in the project bin directory', async () => {
+    writeExecutable(join(dir, 'node_modules/vitest/vitest.mjs'), '');
+    mkdirSync(join(dir, 'node_modules/.bin'));
+    symlinkSync('../vitest/vitest.mjs', join(dir, 'node_modules/.bin/vt'));
+
+    const detection = await detector.detect(['npx', 'vt'], join(dir, 'packages'), tools);
+    expect(detection.tool).toBe('vitest');
+  });
+
+  it('should read the interpreter of a script', async () => {
+    writeExecutable(join(dir, 'serve'), '#!/usr/bin/env -S node --no-warnings\nconsole.log(1)\n');
+    expect((await detector.detect(['./serve'], dir, tools)).tool).toBe('node');
+  });
+
+  it('should probe unknown binaries with --version', async () => {
+    const runtimes = new Map<string, ToolConfig>([
+      ['runtime', { command: 'runtime', detect: { version: { match: '^v\\d+\\.' } } }]
+    ]);
+    const detection = await detector.detect([process.execPath, '-e', ''], dir, runtimes);
+    expect(detection.tool).toBe('runtime');
+    expect(detection.steps).toContain(`'node --version' printed: ${process.version}`);
+  });
+
+  it('should fall back to generic and explain why', async () => {
+    const detection = await detector.detect(['no-such-command-here'], dir, tools);
+    expect(detection.tool).toBe('generic');
+    expect(detection.steps).toEqual(["'no-such-command-here' was not found", "no tool recognized, using 'generic'"]);
+  });
+});
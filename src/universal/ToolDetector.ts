@@ -0,0 +1,339 @@
+/**
+ * Universal CLI Wrapper - Tool Detector
+ *
+ * Works out which configured tool a command runs. Package runners such as
+ * `npx vitest` or `poetry run pytest` are unwrapped first, and the
+ * innermost command is tried before the ones wrapping it. A command is
+ * recognized by its tools' `detect.argv` rules, its name, the real executable
+ * behind symlinks like `node_modules/.bin/jest`, the interpreter of a script,
+ * and as a last resort by running the binary with `--version`. Every step is
+ * recorded so `uhappy detect` can explain the decision.
+ */
+
+import { execFile } from 'node:child_process';
+import { constants, promises as fs } from 'node:fs';
+import { basename, delimiter, dirname, join, resolve } from 'node:path';
+import { promisify } from 'node:util';
+import type { ToolConfig, ToolDetection } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+const PROBE_TIMEOUT_MS = 3000;
+const SHEBANG_BYTES = 256;
+
+interface Wrapper {
+  command: string;
+  /** Subcommand that runs the wrapped command, e.g. `exec` for `pnpm exec` */
+  subcommands?: string[];
+  /** Options that take a separate value, e.g. `npx -p <package>` */
+  valueOptions?: string[];
+  /** Look in the project's `node_modules/.bin` or `.venv/bin` for the wrapped command */
+  localBin?: string;
+}
+
+const WRAPPERS: Wrapper[] = [
+  { command: 'npx', valueOptions: ['-p', '--package'], localBin: 'node_modules/.bin' },
+  { command: 'bunx', localBin: 'node_modules/.bin' },
+  { command: 'npm', subcommands: ['exec', 'x'], valueOptions: ['-p', '--package', '-w', '--workspace'], localBin: 'node_modules/.bin' },
+  { command: 'pnpm', subcommands: ['exec', 'dlx'], valueOptions: ['-C', '--dir', '--filter'], localBin: 'node_modules/.bin' },
+  { command: 'yarn', subcommands: ['exec', 'dlx'], valueOptions: ['-p', '--package'], localBin: 'node_modules/.bin' },
+  { command: 'poetry', subcommands: ['run'], valueOptions: ['-C', '--directory', '-P', '--project'], localBin: '.venv/bin' },
+  { command: 'uv', subcommands: ['run'], valueOptions: ['--with', '--python', '-p', '--project', '--directory', '--package', '--extra', '--group'], localBin: '.venv/bin' },
+  { command: 'uvx', valueOptions: ['--with', '--from', '--python', '-p'] },
+  { command: 'pipenv', subcommands: ['run'] },
+  { command: 'bundle', subcommands: ['exec'] },
+  { command: 'env', valueOptions: ['-u', '--unset', '-C', '--chdir'] }
+];
+
+/** Script extensions that don't take part in a command's name */
+const SCRIPT_EXTENSION = /\.(js|mjs|cjs|ts|py|rb|sh|exe|cmd|bat)$/i;
+/** Version suffix of an executable name: `python3.12`, `node-20` */
+const VERSION_SUFFIX = /^(.*?[a-z])-?\d+(\.\d+)*$/i;
+
+interface Candidate {
+  argv: string[];
+  /** Set when the command was run by a wrapper that looks in a project directory */
+  localBin?: string;
+}
+
+export class ToolDetector {
+  /** Probe output by executable, its modification time and the probe's arguments */
+  private probeCache = new Map<string, Promise<string | null>>();
+
+  /**
+   * Detect the tool of a command line. Falls back to `generic`.
+   */
+  async detect(argv: string[], cwd: string, tools: Map<string, ToolConfig>): Promise<ToolDetection> {
+    const steps: string[] = [];
+    const candidates: Candidate[] = [{ argv }];
+    for (let outer = candidates[0]; ;) {
+      const inner = this.unwrap(outer.argv);
+      if (!inner) {
+        break;
+      }
+      steps.push(`'${outer.argv[0]}' runs another command: ${inner.argv.join(' ')}`);
+      candidates.unshift(inner);
+      outer = inner;
+    }
+
+    for (const candidate of candidates) {
+      const tool = await this.detectCommand(candidate, cwd, tools, steps);
+      if (tool) {
+        return { tool, steps, argv: candidate.argv };
+      }
+    }
+
+    steps.push("no tool recognized, using 'generic'");
+    return { tool: 'generic', steps, argv };
+  }
+
+  /**
+   * The command a wrapper runs, or null if `argv` doesn't run one
+   */
+  private unwrap(argv: string[]): Candidate | null {
+    const wrapper = WRAPPERS.find(entry => entry.command === this.executableName(argv[0]));
+    if (!wrapper) {
+      return null;
+    }
+
+    let index = 1;
+    if (wrapper.subcommands) {
+      if (!wrapper.subcommands.includes(argv[1])) {
+        return null;
+      }
+      index = 2;
+    }
+    while (index < argv.length) {
+      const arg = argv[index];
+      if (arg === '--') {
+        index++;
+        break;
+      }
+      if (wrapper.valueOptions?.includes(arg)) {
+        index += 2;
+      } else if (arg.startsWith('-') || (wrapper.command === 'env' && /^\w+=/.test(arg))) {
+        index++;
+      } else {
+        break;
+      }
+    }
+
+    return index < argv.length ? { argv: argv.slice(index), localBin: wrapper.localBin } : null;
+  }
+
+  private async detectCommand(
+    candidate: Candidate,
+    cwd: string,
+    tools: Map<string, ToolConfig>,
+    steps: string[]
+  ): Promise<string | null> {
+    const [command] = candidate.argv;
+
+    // Rules written for the command line are the most specific
+    const line = candidate.argv.join(' ');
+    for (const [name, config] of tools) {
+      const pattern = config.detect?.argv?.find(regex => new RegExp(regex).test(line));
+      if (pattern !== undefined) {
+        steps.push(`'${line}' matches /${pattern}/ of tool '${name}'`);
+        return name;
+      }
+    }
+
+    // A tool's name wins over another tool's command, so aliases take effect
+    if (tools.has(command)) {
+      steps.push(`'${command}' is the name of tool '${command}'`);
+      return command;
+    }
+    for (const [name, config] of tools) {
+      if (config.command && config.command === command) {
+        steps.push(`'${command}' is the command of tool '${name}'`);
+        return name;
+      }
+    }
+
+    let tool = this.matchName(basename(command), tools, steps);
+    if (tool) {
+      return tool;
+    }
+
+    const executable = await this.resolveExecutable(command, cwd, candidate.localBin);
+    if (!executable) {
+      steps.push(`'${command}' was not found`);
+      return null;
+    }
+    const real = await fs.realpath(executable).catch(() => executable);
+    steps.push(real === executable ? `'${command}' is ${executable}` : `'${command}' is ${executable} → ${real}`);
+    if (basename(real) !== basename(command)) {
+      tool = this.matchName(basename(real), tools, steps);
+      if (tool) {
+        return tool;
+      }
+    }
+
+    const interpreter = await this.readShebang(real);
+    if (interpreter) {
+      steps.push(`${basename(real)} is a script run by '${interpreter}'`);
+      return this.matchName(basename(interpreter), tools, steps);
+    }
+    return this.probe(real, tools, steps);
+  }
+
+  /**
+   * Match an executable name against tool names, commands and
+   * `detect.binaries`, then again without its extension and version
+   */
+  private matchName(name: string, tools: Map<string, ToolConfig>, steps: string[]): string | null {
+    const names = new Set([name]);
+    const stem = name.replace(SCRIPT_EXTENSION, '');
+    names.add(stem);
+    names.add(stem.replace(VERSION_SUFFIX, '$1'));
+
+    for (const candidate of names) {
+      if (tools.has(candidate) && tools.get(candidate)!.command) {
+        steps.push(`'${name}' names tool '${candidate}'`);
+        return candidate;
+      }
+      for (const [tool, config] of tools) {
+        if (config.command && this.executableName(config.command) === candidate) {
+          steps.push(`'${name}' is the command of tool '${tool}'`);
+          return tool;
+        }
+        if (config.detect?.binaries?.includes(candidate)) {
+          steps.push(`'${name}' is listed in detect.binaries of tool '${tool}'`);
+          return tool;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Run the binary with each distinct set of probe arguments and match the
+   * output against the tools' `detect.version` rules
+   */
+  private async probe(executable: string, tools: Map<string, ToolConfig>, steps: string[]): Promise<string | null> {
+    const rules = Array.from(tools)
+      .filter(([, config]) => config.detect?.version)
+      .map(([name, config]) => ({ name, args: config.detect!.version!.args || ['--version'], match: config.detect!.version!.match }));
+    if (rules.length === 0) {
+      return null;
+    }
+
+    const outputs = new Map<string, string | null>();
+    for (const rule of rules) {
+      const key = rule.args.join(' ');
+      if (!outputs.has(key)) {
+        const output = await this.runProbe(executable, rule.args);
+        outputs.set(key, output);
+        steps.push(output === null
+          ? `probing '${basename(executable)} ${key}' failed`
+          : `'${basename(executable)} ${key}' printed: ${output.trim().split('\n')[0]}`);
+      }
+      const output = outputs.get(key);
+      if (output !== null && output !== undefined && new RegExp(rule.match, 'm').test(output)) {
+        steps.push(`the output matches /${rule.match}/ of tool '${rule.name}'`);
+        return rule.name;
+      }
+    }
+    return null;
+  }
+
+  private async runProbe(executable: string, args: string[]): Promise<string | null> {
+    let mtime = 0;
+    try {
+      mtime = (await fs.stat(executable)).mtimeMs;
+    } catch {
+      return null;
+    }
+
+    // Keyed by modification time so an upgraded binary is probed again
+    const key = `${executable}\0${mtime}\0${args.join('\0')}`;
+    let output = this.probeCache.get(key);
+    if (!output) {
+      output = execFileAsync(executable, args, { timeout: PROBE_TIMEOUT_MS }).then(
+        ({ stdout, stderr }) => stdout + stderr,
+        // Some tools print their version to stderr or exit non-zero
+        (error: { stdout?: string; stderr?: string }) => (error.stdout || '') + (error.stderr || '') || null
+      );
+      this.probeCache.set(key, output);
+    }
+    return output;
+  }
+
+  /**
+   * Find the executable a command runs: a path relative to `cwd`, the
+   * project's `localBin` directory for wrapped commands, or `PATH`
+   */
+  private async resolveExecutable(command: string, cwd: string, localBin?: string): Promise<string | null> {
+    if (command.includes('/') || command.includes('\\')) {
+      const path = resolve(cwd, command);
+      return await this.isExecutable(path) ? path : null;
+    }
+
+    const dirs: string[] = [];
+    if (localBin) {
+      for (let dir = resolve(cwd); ; dir = dirname(dir)) {
+        dirs.push(join(dir, localBin));
+        if (dirname(dir) === dir) {
+          break;
+        }
+      }
+    }
+    dirs.push(...(process.env.PATH || '').split(delimiter).filter(Boolean));
+
+    const extensions = process.platform === 'win32'
+      ? ['', ...(process.env.PATHEXT || '.EXE;.CMD;.BAT').split(';')]
+      : [''];
+    for (const dir of dirs) {
+      for (const extension of extensions) {
+        const path = join(dir, command + extension);
+        if (await this.isExecutable(path)) {
+          return path;
+        }
+      }
+    }
+    return null;
+  }
+
+  private async isExecutable(path: string): Promise<boolean> {
+    try {
+      const stat = await fs.stat(path);
+      await fs.access(path, constants.X_OK);
+      return stat.isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Interpreter named by a script's `#!` line, skipping `env` and its options
+   */
+  private async readShebang(path: string): Promise<string | null> {
+    let head: string;
+    try {
+      const file = await fs.open(path, 'r');
+      try {
+        const buffer = Buffer.alloc(SHEBANG_BYTES);
+        const { bytesRead } = await file.read(buffer, 0, SHEBANG_BYTES, 0);
+        head = buffer.toString('utf8', 0, bytesRead);
+      } finally {
+        await file.close();
+      }
+    } catch {
+      return null;
+    }
+    if (!head.startsWith('#!')) {
+      return null;
+    }
+
+    const words = head.slice(2).split('\n')[0].trim().split(/\s+/);
+    if (basename(words[0]) !== 'env') {
+      return words[0] || null;
+    }
+    return words.slice(1).find(word => !word.startsWith('-') && !/^\w+=/.test(word)) || null;
+  }
+
+  private executableName(command: string): string {
+    return basename(command).replace(/\.(exe|cmd|bat)$/i, '');
+  }
+}
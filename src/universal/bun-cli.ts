@@ -60,7 +60,7 @@ program
   .option('-t, --tool <tool>', 'Specify tool type for better parsing')
   .option('-c, --cwd <dir>', 'Working directory')
   .option('-e, --env <vars>', 'Environment variables (JSON format)')
-  .option('-f, --format <format>', 'Output format (text|html|json|raw)', 'text')
+  .option('-f, --format <format>', 'Output format (text|html|json|raw|table)', 'text')
   .action(async (command: string, args: string[], options) => {
     await initializeCLI();
 
@@ -87,8 +87,7 @@ program
           } else if (options.format === 'ansi') {
             console.log(output.ansi);
           } else {
-            const formatted = sessionManager.getSessionHistory(id, options.format as OutputFormat, 1)[0];
-            console.log(formatted);
+            console.log(sessionManager.serializeOutput(output, options.format as OutputFormat, id));
           }
         }
       });
@@ -7,10 +7,34 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { SessionManager, ConfigManager, type OutputFormat } from './index.js';
+import { spawn } from 'node:child_process';
+import { openSync } from 'node:fs';
+import {
+  SessionManager,
+  ConfigManager,
+  runSessionHost,
+  SessionHostClient,
+  RecordingStore,
+  PROJECT_CONFIG_FILE,
+  configJsonSchema,
+  type Diagnostic,
+  type DiagnosticSummary,
+  type HistoryQuery,
+  type LimitsConfig,
+  type LimitViolation,
+  type OutputFormat,
+  type ParsedLine,
+  type RecipeRun,
+  type RecipeStepRun,
+  type SessionInfo,
+  type SessionProgress,
+  type SessionResources,
+  type SnapshotFormat,
+  type TerminalSize,
+  type TestSummary
+} from './index.js';
 
 const program = new Command();
-const sessionManager = new SessionManager();
 const configManager = new ConfigManager();
 
 // Global CLI state
@@ -23,7 +47,7 @@ async function initializeCLI(): Promise<void> {
   if (initialized) return;
 
   try {
-    await sessionManager.initialize();
+    await configManager.initialize();
     initialized = true;
   } catch (error) {
     console.error(chalk.red('Failed to initialize CLI system:'), error);
@@ -32,17 +56,367 @@ async function initializeCLI(): Promise<void> {
 }
 
 /**
- * Graceful shutdown
+ * Connect to the session host, which owns all sessions.
+ * With autoStart, a host is spawned in the background if none is running.
+ */
+async function connectHost(autoStart = false): Promise<SessionHostClient> {
+  const paths = configManager.getConfigPaths();
+  const client = new SessionHostClient(paths.hostSocket);
+
+  if (await client.isRunning()) {
+    return client;
+  }
+
+  if (!autoStart) {
+    console.error(chalk.red('Session host is not running.'));
+    console.error(chalk.gray(`Start a session with 'uhappy start <command>' or run 'uhappy host start'.`));
+    process.exit(1);
+  }
+
+  spawnHostProcess(paths.hostLog);
+
+  const deadline = Date.now() + 10000;
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+    if (await client.isRunning()) {
+      return client;
+    }
+  }
+
+  console.error(chalk.red('Session host failed to start.'));
+  console.error(chalk.gray(`See ${paths.hostLog} for details.`));
+  process.exit(1);
+}
+
+/**
+ * Spawn a detached session host that outlives this invocation
+ */
+function spawnHostProcess(logPath: string): void {
+  const log = openSync(logPath, 'a');
+  const child = spawn(process.execPath, [
+    ...process.execArgv,
+    process.argv[1],
+    'host',
+    'start',
+    '--foreground'
+  ], {
+    detached: true,
+    stdio: ['ignore', log, log],
+    env: process.env
+  });
+  child.unref();
+}
+
+/**
+ * Report a failed host request and exit
+ */
+function exitWithError(message: string, error: unknown): never {
+  console.error(chalk.red(message), error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+/**
+ * Current size of the local terminal, if stdout is a TTY
+ */
+function localTerminalSize(): TerminalSize | undefined {
+  if (!process.stdout.isTTY) {
+    return undefined;
+  }
+  return { cols: process.stdout.columns, rows: process.stdout.rows };
+}
+
+/**
+ * One-line summary of a session's progress, e.g. `42% 12.3 MB/45.0 MB step 3/10`
+ */
+function formatProgress(progress: SessionProgress): string {
+  const parts: string[] = [];
+  if (progress.percent !== undefined) {
+    parts.push(`${Math.floor(progress.percent)}%`);
+  }
+  if (progress.bytes) {
+    const mb = (bytes: number) => (bytes / 1e6).toFixed(1);
+    parts.push(`${mb(progress.bytes.current)} MB/${mb(progress.bytes.total)} MB`);
+  }
+  if (progress.step) {
+    parts.push(`step ${progress.step.current}/${progress.step.total}`);
+  }
+  if (progress.layers) {
+    const layers = Object.values(progress.layers);
+    const done = layers.filter(layer => layer.status === 'Pull complete' || layer.status === 'Already exists');
+    parts.push(`${done.length}/${layers.length} layers`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * One-line summary of a test run, e.g. `42 passed, 3 failed, 1 skipped (running)`
+ */
+function formatTests(tests: TestSummary): string {
+  const counts = [`${tests.passed} passed`];
+  if (tests.failed > 0) {
+    counts.push(chalk.red(`${tests.failed} failed`));
+  }
+  if (tests.skipped > 0) {
+    counts.push(`${tests.skipped} skipped`);
+  }
+  return `${counts.join(', ')} (${tests.status})`;
+}
+
+/**
+ * One-line summary of a compiler or linter run, e.g. `3 errors, 1 warning (run 2, done)`
+ */
+function formatDiagnostics(diagnostics: DiagnosticSummary): string {
+  const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+  const errors = plural(diagnostics.errors, 'error');
+  return `${diagnostics.errors > 0 ? chalk.red(errors) : errors}, ${plural(diagnostics.warnings, 'warning')}`
+    + ` (run ${diagnostics.run}, ${diagnostics.status})`;
+}
+
+/**
+ * Byte count with a binary unit, e.g. `12.3 MiB`
+ */
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * One-line summary of a process tree's resource use, e.g.
+ * `CPU 12.5% (peak 98%), RSS 80.2 MiB (peak 1.2 GiB), 3 processes, 14 threads, 42 FDs, IO 1.0 MiB read / 0 B written`
+ */
+function formatResources(resources: SessionResources): string {
+  const { current } = resources;
+  return `CPU ${current.cpuPercent}% (peak ${resources.peakCpuPercent}%), `
+    + `RSS ${formatBytes(current.rssBytes)} (peak ${formatBytes(resources.peakRssBytes)}), `
+    + `${current.processes} process${current.processes === 1 ? '' : 'es'}, ${current.threads} threads, ${current.fds} FDs, `
+    + `IO ${formatBytes(current.readBytes)} read / ${formatBytes(current.writeBytes)} written`;
+}
+
+/**
+ * Limits given on the command line, or undefined if none were
+ */
+function parseLimits(options: Record<string, string | undefined>): LimitsConfig | undefined {
+  const positive = (flag: string, value: string | undefined) => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const parsed = parseFloat(value);
+    if (!(parsed > 0)) {
+      exitWithError(`Invalid ${flag}:`, value);
+    }
+    return parsed;
+  };
+
+  const limits: LimitsConfig = {
+    timeout: positive('--timeout', options.timeout),
+    idleTimeout: positive('--idle-timeout', options.idleTimeout),
+    maxRssMb: positive('--max-rss', options.maxRss),
+    maxCpuSeconds: positive('--max-cpu', options.maxCpu),
+    maxOutputMb: positive('--max-output', options.maxOutput)
+  };
+  if (options.onLimit !== undefined) {
+    if (!['warn', 'terminate', 'pause'].includes(options.onLimit)) {
+      exitWithError('Invalid --on-limit action:', options.onLimit);
+    }
+    limits.action = options.onLimit as LimitsConfig['action'];
+  }
+  if (options.grace !== undefined) {
+    limits.graceSeconds = parseFloat(options.grace);
+    if (!(limits.graceSeconds >= 0)) {
+      exitWithError('Invalid --grace:', options.grace);
+    }
+  }
+
+  const given = Object.entries(limits).filter(([, value]) => value !== undefined);
+  return given.length > 0 ? Object.fromEntries(given) : undefined;
+}
+
+/**
+ * A limit a session exceeded, e.g. `⚠ Limit exceeded, terminating: used 612 MB of memory, over the limit of 512 MB`
  */
-async function shutdown(): Promise<void> {
-  console.log(chalk.yellow('Shutting down...'));
-  await sessionManager.shutdown();
-  process.exit(0);
+function formatLimitViolation(violation: LimitViolation): string {
+  const action = { warn: '', terminate: ', terminating', pause: ', pausing' }[violation.action];
+  const color = violation.action === 'warn' ? chalk.yellow : chalk.red;
+  return color(`⚠ Limit exceeded${action}: ${violation.message}`);
+}
+
+/**
+ * A recipe step's outcome, e.g. `✗ migrate: exit code 1 (3.2s)`
+ */
+function formatRecipeStep(step: RecipeStepRun): string {
+  const duration = step.startTime !== undefined && step.endTime !== undefined
+    ? chalk.gray(` (${((step.endTime - step.startTime) / 1000).toFixed(1)}s)`)
+    : '';
+  switch (step.status) {
+    case 'succeeded':
+      return chalk.green(`✓ ${step.name}`) + duration;
+    case 'failed':
+    case 'timed-out':
+      return chalk.red(`✗ ${step.name}: ${step.reason}`) + duration;
+    case 'cancelled':
+      return chalk.yellow(`✗ ${step.name}: cancelled`) + duration;
+    case 'skipped':
+      return chalk.gray(`- ${step.name} skipped: ${step.reason}`);
+    default:
+      return `${step.status === 'running' ? '▶' : '·'} ${step.name}`;
+  }
+}
+
+/**
+ * Parse a `--since` value: a duration back from now (`30s`, `10m`, `2h`, `1d`)
+ * or a date and time `Date.parse` understands. Returns ms since the epoch.
+ */
+function parseSince(value: string): number {
+  const duration = /^(\d+(?:\.\d+)?)(s|m|h|d)$/.exec(value.trim());
+  if (duration) {
+    const unitMs = { s: 1000, m: 60000, h: 3600000, d: 86400000 }[duration[2] as 's' | 'm' | 'h' | 'd'];
+    return Date.now() - parseFloat(duration[1]) * unitMs;
+  }
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    exitWithError('Invalid --since time (use e.g. 30s, 10m, 2h, 1d or a date):', value);
+  }
+  return time;
+}
+
+/**
+ * Show a recipe run's steps as they start and end, with their output, then
+ * a summary. Ctrl+C cancels the run. Exits with 0 if the run succeeded.
+ */
+async function followRecipeRun(client: SessionHostClient, run: RecipeRun, format: OutputFormat): Promise<never> {
+  process.on('SIGINT', async () => {
+    console.log(chalk.yellow('Cancelling recipe...'));
+    await client.cancelRecipe(run.id).catch(() => {});
+  });
+
+  const shown = run.steps.map(step => step.status);
+  const { done } = client.followRecipe(run.id, { format }, (event) => {
+    if (event.type === 'output') {
+      console.log(event.data);
+      return;
+    }
+
+    run = event.run;
+    run.steps.forEach((step, index) => {
+      if (step.status === shown[index]) {
+        return;
+      }
+      shown[index] = step.status;
+      if (step.status === 'running') {
+        console.log(chalk.blue(`▶ [${index + 1}/${run.steps.length}] ${step.name}: ${[step.command, ...step.args].join(' ')}`));
+      } else if (step.status !== 'pending') {
+        console.log(formatRecipeStep(step));
+      }
+    });
+  });
+
+  try {
+    await done;
+  } catch (error) {
+    exitWithError('Lost connection to recipe:', error);
+  }
+
+  const seconds = (((run.endTime ?? Date.now()) - run.startTime) / 1000).toFixed(1);
+  const color = run.status === 'succeeded' ? chalk.green : run.status === 'cancelled' ? chalk.yellow : chalk.red;
+  console.log(color(`\nRecipe ${run.recipe} ${run.status} in ${seconds}s`));
+  for (const step of run.steps) {
+    console.log(`  ${formatRecipeStep(step)}`);
+  }
+  process.exit(run.status === 'succeeded' ? 0 : run.status === 'cancelled' ? 130 : 1);
 }
 
-// Handle process signals
-process.on('SIGINT', shutdown);
-process.on('SIGTERM', shutdown);
+/**
+ * Attach the local terminal to a hosted session until it terminates.
+ *
+ * PTY sessions get raw keystrokes and local window size changes (SIGWINCH)
+ * passed through, and their output is written untouched so TUIs render
+ * correctly. Other sessions print each output entry in the given format,
+ * and Ctrl+C terminates the session.
+ */
+async function attachToSession(
+  client: SessionHostClient,
+  session: SessionInfo,
+  format: OutputFormat = 'text'
+): Promise<never> {
+  const sessionId = session.id;
+  const isPty = session.mode === 'pty';
+
+  if (isPty) {
+    if (process.stdin.isTTY) {
+      process.stdin.setRawMode(true);
+    }
+    process.stdin.setEncoding('utf8');
+    process.stdin.resume();
+
+    // One request at a time, so keystrokes and pastes arrive in order
+    let input = Promise.resolve();
+    process.stdin.on('data', (data: string) => {
+      input = input
+        .then(() => client.sendInput(sessionId, data))
+        .catch(() => {
+          // Session may have exited between keystrokes
+        });
+    });
+
+    process.stdout.on('resize', () => {
+      const size = localTerminalSize();
+      if (size) {
+        client.resizeSession(sessionId, size).catch(() => {
+          // Session may have exited before the resize arrived
+        });
+      }
+    });
+  } else {
+    process.on('SIGINT', async () => {
+      console.log(chalk.yellow('Shutting down...'));
+      await client.terminateSession(sessionId).catch(() => {});
+      process.exit(130);
+    });
+  }
+
+  let exitCode = 0;
+  let exitReason: string | undefined;
+  const { done } = client.follow(sessionId, { format: isPty ? 'raw' : format }, (event) => {
+    if (event.type === 'output') {
+      if (isPty) {
+        process.stdout.write(Buffer.from(event.data, 'base64'));
+      } else {
+        console.log(event.data);
+      }
+    } else if (event.type === 'limit') {
+      if (!isPty) {
+        console.log(formatLimitViolation(event.violation));
+      }
+    } else if (event.type === 'terminated') {
+      exitReason = event.reason;
+      // Ended by a signal, which leaves no exit code
+      exitCode = event.exitCode ?? 1;
+    }
+  });
+
+  try {
+    await done;
+  } catch (error) {
+    exitWithError('Lost connection to session:', error);
+  }
+
+  if (isPty && process.stdin.isTTY) {
+    process.stdin.setRawMode(false);
+  }
+  if (!isPty) {
+    console.log(chalk.yellow(`Session terminated with exit code: ${exitCode}`));
+  }
+  if (exitReason) {
+    console.log(chalk.red(exitReason));
+  }
+  process.exit(exitCode);
+}
 
 // Setup CLI commands
 program
@@ -63,11 +437,23 @@ program
   .option('--env <vars>', 'Environment variables (JSON format)')
   .option('-r, --remote', 'Enable remote control')
   .option('-p, --port <port>', 'Port for remote control (default: 3000)', '3000')
-  .option('-f, --format <format>', 'Output format (text|html|json|raw)', 'text')
-  .option('--no-output', 'Capture output without showing in terminal (for remote control)')
-  .option('--direct', 'Show output directly in terminal (default behavior)')
+  .option('--bind <address>', 'Address the remote control server listens on', '127.0.0.1')
+  .option('--allow-origin <origins...>', 'Browser origins allowed to connect to the remote control server')
+  .option('-f, --format <format>', 'Output format (text|html|json|raw|table)', 'text')
+  .option('--no-output', 'Leave the session running in the background without showing its output')
+  .option('--pty', 'Run the command in a pseudo-terminal (for TUIs and REPLs)')
+  .option('--record', 'Record the session as an asciicast file')
+  .option('--timeout <seconds>', 'Limit how long the session may run')
+  .option('--idle-timeout <seconds>', 'Limit how long the session may go without output')
+  .option('--max-rss <MB>', 'Limit the resident memory of its process tree')
+  .option('--max-cpu <seconds>', 'Limit the CPU time of its process tree')
+  .option('--max-output <MB>', 'Limit how much output it may write')
+  .option('--on-limit <action>', 'What to do when a limit is exceeded (warn|terminate|pause)')
+  .option('--grace <seconds>', 'Seconds between SIGTERM and SIGKILL when terminating for a limit')
   .action(async (command: string, args: string[], options) => {
+    const limits = parseLimits(options);
     await initializeCLI();
+    const client = await connectHost(true);
 
     try {
       let env = {};
@@ -80,45 +466,97 @@ program
         }
       }
 
-      // Determine output mode: direct output is default unless --no-output is specified
-      const directOutput = !options.noOutput;
-
-      const sessionId = await sessionManager.createSession({
+      // Sessions live in the session host, so the command keeps running
+      // in the background unless we attach to it
+      const session = await client.createSession({
         tool: options.tool,
         command,
         args,
-        cwd: options.cwd,
+        cwd: options.cwd || process.cwd(),
         env,
-        autoStart: true,
-        directOutput
+        mode: options.pty ? 'pty' : 'pipe',
+        size: options.pty ? localTerminalSize() : undefined,
+        record: options.record,
+        limits
       });
 
-      console.log(chalk.green(`Session started: ${sessionId}`));
+      console.log(chalk.green(`Session started: ${session.id}`));
+      if (session.recordingPath) {
+        console.log(chalk.gray(`Recording to ${session.recordingPath}`));
+      }
 
       if (options.remote) {
-        console.log(chalk.blue(`Remote control available on port ${options.port}`));
-        // TODO: Start remote control server
+        const remote = await client.startRemoteServer(parseInt(options.port, 10), options.bind, options.allowOrigin);
+        console.log(chalk.blue(`Remote control available at ws://${remote.address}:${remote.port}/?sessionId=${session.id}&token=${remote.token}`));
       }
 
-      // Monitor session output
-      sessionManager.on('output', (id, output) => {
-        if (id === sessionId) {
-          const formatted = sessionManager.getSessionHistory(id, options.format as OutputFormat, 1)[0];
-          console.log(formatted);
-        }
-      });
+      if (options.output === false) {
+        console.log(chalk.gray(`Follow its output with: uhappy history ${session.id.slice(0, 8)} --follow`));
+        process.exit(0);
+      }
 
-      sessionManager.on('sessionTerminated', (id, exitCode) => {
-        if (id === sessionId) {
-          console.log(chalk.yellow(`Session terminated with exit code: ${exitCode || 0}`));
-          process.exit(exitCode || 0);
-        }
-      });
+      await attachToSession(client, session, options.format as OutputFormat);
 
     } catch (error) {
-      console.error(chalk.red('Failed to start session:'), error);
-      process.exit(1);
+      exitWithError('Failed to start session:', error);
+    }
+  });
+
+/**
+ * Run a recipe of the project's .uhappy.yaml
+ */
+program
+  .command('run')
+  .description(`Run a recipe from the project's ${PROJECT_CONFIG_FILE}, or list the recipes`)
+  .argument('[recipe]', 'Recipe name')
+  .option('-f, --format <format>', "Output format of the steps' output (text|html|json|raw|table)", 'text')
+  .option('--no-output', 'Leave the recipe running in the background without showing its progress')
+  .action(async (name: string | undefined, options) => {
+    await initializeCLI();
+
+    let project: ReturnType<ConfigManager['getRecipes']>;
+    try {
+      project = configManager.getRecipes(process.cwd());
+    } catch (error) {
+      exitWithError('Cannot read recipes:', error);
+    }
+    if (!project) {
+      exitWithError('No recipes:', `no ${PROJECT_CONFIG_FILE} in ${process.cwd()} or above`);
     }
+
+    const names = Object.keys(project.recipes);
+    if (!name) {
+      if (names.length === 0) {
+        console.log(chalk.yellow(`No recipes in ${project.dir}/${PROJECT_CONFIG_FILE}`));
+        return;
+      }
+      console.log(chalk.blue('Recipes:'));
+      for (const [recipeName, recipe] of Object.entries(project.recipes)) {
+        const description = recipe.description ? ` - ${recipe.description}` : '';
+        console.log(`  ${chalk.white(recipeName)}${description} ${chalk.gray(`(${recipe.steps.length} steps)`)}`);
+      }
+      return;
+    }
+
+    const recipe = project.recipes[name];
+    if (!recipe) {
+      exitWithError(`Unknown recipe '${name}':`, names.length > 0 ? `the recipes are ${names.join(', ')}` : 'there are none');
+    }
+
+    const client = await connectHost(true);
+    let run: RecipeRun;
+    try {
+      run = await client.runRecipe(name, recipe, project.dir);
+    } catch (error) {
+      exitWithError('Failed to start recipe:', error);
+    }
+
+    console.log(chalk.green(`Recipe ${name} started: ${run.id}`));
+    if (options.output === false) {
+      console.log(chalk.gray(`Its steps are listed by: uhappy list -v`));
+      process.exit(0);
+    }
+    await followRecipeRun(client, run, options.format as OutputFormat);
   });
 
 /**
@@ -130,8 +568,14 @@ program
   .option('-v, --verbose', 'Show detailed information')
   .action(async (options) => {
     await initializeCLI();
+    const client = await connectHost();
 
-    const sessions = sessionManager.listSessions();
+    let sessions: SessionInfo[];
+    try {
+      sessions = await client.listSessions();
+    } catch (error) {
+      exitWithError('Failed to list sessions:', error);
+    }
 
     if (sessions.length === 0) {
       console.log(chalk.yellow('No active sessions'));
@@ -142,6 +586,7 @@ program
 
     sessions.forEach(session => {
       const status = session.status === 'running' ? chalk.green(session.status) :
+                    session.status === 'awaiting-input' ? chalk.magenta(session.status) :
                     session.status === 'paused' ? chalk.yellow(session.status) :
                     session.status === 'terminated' ? chalk.gray(session.status) :
                     chalk.red(session.status);
@@ -151,9 +596,48 @@ program
       if (options.verbose) {
         console.log(`  ${chalk.blue(session.id.slice(0, 8))} - ${chalk.white(session.command)} ${session.args.join(' ')}`);
         console.log(`    Status: ${status}, Tool: ${session.tool}, Uptime: ${uptime}s`);
-        console.log(`    Remote connections: ${session.remoteConnections.size}, PID: ${session.pid || 'N/A'}`);
+        console.log(`    Remote connections: ${session.remoteConnections}, PID: ${session.pid || 'N/A'}`);
+        if (session.prompt) {
+          console.log(`    Waiting at: ${session.prompt}`);
+        }
+        if (session.title) {
+          console.log(`    Title: ${session.title}`);
+        }
+        if (session.patternMatches) {
+          const matches = Object.entries(session.patternMatches)
+            .map(([name, summary]) => `${name} ×${summary.count} (last: ${summary.lastMatch})`);
+          console.log(`    Patterns: ${matches.join(', ')}`);
+        }
+        if (session.progress) {
+          console.log(`    Progress: ${formatProgress(session.progress)}`);
+        }
+        if (session.tests) {
+          console.log(`    Tests: ${formatTests(session.tests)}`);
+        }
+        if (session.diagnostics) {
+          console.log(`    Diagnostics: ${formatDiagnostics(session.diagnostics)}`);
+        }
+        if (session.resources) {
+          console.log(`    Resources: ${formatResources(session.resources)}`);
+        }
+        for (const violation of session.limitViolations || []) {
+          console.log(`    ${formatLimitViolation(violation)}`);
+        }
+        if (session.exitReason) {
+          console.log(`    Exit reason: ${session.exitReason}`);
+        }
+        if (session.recipe) {
+          console.log(`    Recipe: ${session.recipe.name}, step ${session.recipe.step + 1} (${session.recipe.stepName})`);
+        }
+        if (session.recordingPath) {
+          console.log(`    Recording: ${session.recordingPath}`);
+        }
       } else {
-        console.log(`  ${chalk.blue(session.id.slice(0, 8))} - ${chalk.white(session.command)} [${status}] (${uptime}s)`);
+        const prompt = session.prompt ? chalk.gray(` "${session.prompt}"`) : '';
+        const progress = session.progress?.percent !== undefined && session.status === 'running'
+          ? chalk.cyan(` ${Math.floor(session.progress.percent)}%`)
+          : '';
+        console.log(`  ${chalk.blue(session.id.slice(0, 8))} - ${chalk.white(session.command)} [${status}]${progress}${prompt} (${uptime}s)`);
       }
     });
   });
@@ -168,22 +652,15 @@ program
   .argument('<input>', 'Input to send')
   .action(async (sessionId: string, input: string) => {
     await initializeCLI();
-
-    // Find session by partial ID
-    const sessions = sessionManager.listSessions();
-    const session = sessions.find(s => s.id.startsWith(sessionId));
-
-    if (!session) {
-      console.error(chalk.red(`Session not found: ${sessionId}`));
-      process.exit(1);
-    }
+    const client = await connectHost();
 
     try {
-      await sessionManager.sendInput(session.id, input + '\n');
+      // The host resolves partial IDs and rejects ambiguous ones
+      const session = await client.getSession(sessionId);
+      await client.sendInput(session.id, input + '\n');
       console.log(chalk.green(`Input sent to session ${session.id.slice(0, 8)}`));
     } catch (error) {
-      console.error(chalk.red('Failed to send input:'), error);
-      process.exit(1);
+      exitWithError('Failed to send input:', error);
     }
   });
 
@@ -194,24 +671,136 @@ program
   .command('history')
   .description('Get session history')
   .argument('<sessionId>', 'Session ID (can be partial)')
-  .option('-f, --format <format>', 'Output format (text|html|json|raw)', 'text')
+  .option('-f, --format <format>', 'Output format (text|html|json|raw|table)', 'text')
   .option('-l, --lines <count>', 'Number of lines to show', '50')
+  .option('--follow', 'Keep streaming new output until the session terminates')
+  .option('--lines-mode', 'Show complete output lines in order instead of raw output chunks (text|json)')
+  .option('--grep <regex>', 'Only output matching a regular expression')
+  .option('--since <time>', 'Only output since a time (30s, 10m, 2h, 1d or a date)')
+  .option('--source <stream>', 'Only output from one stream (stdout|stderr)')
+  .option('--after <sequence>', 'Page forward: the first entries after a sequence number (see json format)')
   .action(async (sessionId: string, options) => {
+    if (options.linesMode && !['text', 'json'].includes(options.format)) {
+      exitWithError('Lines mode supports the text and json formats, not:', options.format);
+    }
+    if (options.source && !['stdout', 'stderr'].includes(options.source)) {
+      exitWithError('Invalid source (use stdout or stderr):', options.source);
+    }
+    let grep: RegExp | undefined;
+    if (options.grep) {
+      try {
+        grep = new RegExp(options.grep);
+      } catch (error) {
+        exitWithError('Invalid --grep pattern:', error);
+      }
+    }
+    const query: HistoryQuery = {
+      limit: parseInt(options.lines),
+      grep: options.grep,
+      source: options.source,
+      from: options.since ? parseSince(options.since) : undefined,
+      after: options.after !== undefined ? parseInt(options.after) : undefined
+    };
+    if (options.follow && (options.grep || options.since || options.source || options.after)) {
+      exitWithError('--follow cannot be combined with:', '--grep, --since, --source or --after');
+    }
+
     await initializeCLI();
+    const client = await connectHost();
 
-    const sessions = sessionManager.listSessions();
-    const session = sessions.find(s => s.id.startsWith(sessionId));
+    // Lines are printed as their text, or one JSON object per line
+    const printLine = (line: ParsedLine) => {
+      if (options.format === 'json') {
+        console.log(JSON.stringify(line));
+      } else {
+        console.log(line.source === 'stderr' ? chalk.red(line.content) : line.content);
+      }
+    };
 
-    if (!session) {
-      console.error(chalk.red(`Session not found: ${sessionId}`));
-      process.exit(1);
+    // A test runner's results follow its json output as one more object
+    const printTests = async () => {
+      if (options.format !== 'json') {
+        return;
+      }
+      const { tests } = await client.getSession(sessionId);
+      if (tests) {
+        console.log(JSON.stringify({ tests }));
+      }
+    };
+
+    if (options.follow) {
+      const { done, stop } = client.follow(sessionId, {
+        format: options.format as OutputFormat,
+        limit: parseInt(options.lines),
+        lines: options.linesMode
+      }, (event) => {
+        if (event.type === 'output') {
+          console.log(event.data);
+        } else if (event.type === 'line') {
+          printLine(event.line);
+        } else if (event.type === 'limit') {
+          console.log(formatLimitViolation(event.violation));
+        } else if (event.type === 'terminated') {
+          console.log(chalk.yellow(`Session terminated with exit code: ${event.exitCode ?? 0}`));
+          if (event.reason) {
+            console.log(chalk.red(event.reason));
+          }
+        }
+      });
+
+      // Ctrl+C stops following, the session keeps running
+      process.on('SIGINT', stop);
+
+      try {
+        await done;
+      } catch (error) {
+        exitWithError('Failed to follow session:', error);
+      }
+      process.exit(0);
     }
 
-    const history = sessionManager.getSessionHistory(
-      session.id,
-      options.format as OutputFormat,
-      parseInt(options.lines)
-    );
+    if (options.linesMode) {
+      let lines: ParsedLine[];
+      try {
+        // The host filters by sequence and stream; the rest is done here
+        const filtered = grep || query.from !== undefined || query.after !== undefined;
+        lines = await client.getSessionLines(sessionId, {
+          since: query.after,
+          source: query.source,
+          limit: filtered ? undefined : query.limit
+        });
+        if (filtered) {
+          lines = lines.filter(line =>
+            (query.from === undefined || line.timestamp >= query.from) && (!grep || grep.test(line.content))
+          );
+          if (query.limit) {
+            lines = query.after !== undefined ? lines.slice(0, query.limit) : lines.slice(-query.limit);
+          }
+        }
+      } catch (error) {
+        exitWithError('Failed to get lines:', error);
+      }
+
+      if (lines.length === 0) {
+        console.log(chalk.yellow('No history available'));
+        return;
+      }
+      lines.forEach(printLine);
+      await printTests();
+      return;
+    }
+
+    let history: string[];
+    try {
+      history = await client.getSessionHistory(sessionId, options.format as OutputFormat, query);
+    } catch (error) {
+      exitWithError('Failed to get history:', error);
+    }
+
+    // Matching entries are output chunks; as text, show only the lines that match
+    if (grep && options.format === 'text') {
+      history = history.flatMap(entry => entry.split('\n').filter(line => grep!.test(line)));
+    }
 
     if (history.length === 0) {
       console.log(chalk.yellow('No history available'));
@@ -219,6 +808,80 @@ program
     }
 
     history.forEach(line => console.log(line));
+    await printTests();
+  });
+
+/**
+ * Render a session's current screen
+ */
+program
+  .command('snapshot')
+  .description('Show the current visible screen of a session')
+  .argument('<sessionId>', 'Session ID (can be partial)')
+  .option('-f, --format <format>', 'Output format (text|html|json)', 'text')
+  .action(async (sessionId: string, options) => {
+    if (!['text', 'html', 'json'].includes(options.format)) {
+      exitWithError('Invalid snapshot format:', options.format);
+    }
+
+    await initializeCLI();
+    const client = await connectHost();
+
+    try {
+      console.log(await client.getSnapshot(sessionId, options.format as SnapshotFormat));
+    } catch (error) {
+      exitWithError('Failed to get snapshot:', error);
+    }
+  });
+
+/**
+ * List a compiler or linter's diagnostics in the `file:line:col` form editors and terminals link
+ */
+program
+  .command('diagnostics')
+  .description("Show the errors and warnings of a compiler or linter session's latest run")
+  .argument('<sessionId>', 'Session ID (can be partial)')
+  .option('-s, --severity <severity>', 'Only show error, warning or info diagnostics')
+  .option('-f, --format <format>', 'Output format (text|json)', 'text')
+  .action(async (sessionId: string, options) => {
+    if (!['text', 'json'].includes(options.format)) {
+      exitWithError('Invalid diagnostics format:', options.format);
+    }
+    if (options.severity && !['error', 'warning', 'info'].includes(options.severity)) {
+      exitWithError('Invalid severity:', options.severity);
+    }
+
+    await initializeCLI();
+    const client = await connectHost();
+
+    let session: SessionInfo;
+    try {
+      session = await client.getSession(sessionId);
+    } catch (error) {
+      exitWithError('Failed to get diagnostics:', error);
+    }
+    if (!session.diagnostics) {
+      exitWithError('No diagnostics:', `session ${session.id.slice(0, 8)} runs ${session.tool}, whose output is not read for diagnostics`);
+    }
+
+    const diagnostics = session.diagnostics.diagnostics
+      .filter(diagnostic => !options.severity || diagnostic.severity === options.severity);
+    if (options.format === 'json') {
+      console.log(JSON.stringify({ ...session.diagnostics, diagnostics }, null, 2));
+      return;
+    }
+
+    const colors: Record<Diagnostic['severity'], (text: string) => string> = {
+      error: chalk.red,
+      warning: chalk.yellow,
+      info: chalk.gray
+    };
+    for (const diagnostic of diagnostics) {
+      const location = [diagnostic.file, diagnostic.line, diagnostic.column].filter(part => part !== undefined).join(':');
+      const code = diagnostic.code ? chalk.gray(` [${diagnostic.code}]`) : '';
+      console.log(`${location ? `${location}: ` : ''}${colors[diagnostic.severity](diagnostic.severity)}: ${diagnostic.message}${code}`);
+    }
+    console.log(formatDiagnostics(session.diagnostics));
   });
 
 /**
@@ -231,21 +894,65 @@ program
   .option('-f, --force', 'Force termination (SIGKILL)')
   .action(async (sessionId: string, options) => {
     await initializeCLI();
+    const client = await connectHost();
 
-    const sessions = sessionManager.listSessions();
-    const session = sessions.find(s => s.id.startsWith(sessionId));
+    try {
+      const terminatedId = await client.terminateSession(sessionId, options.force);
+      console.log(chalk.green(`Session ${terminatedId.slice(0, 8)} terminated`));
+    } catch (error) {
+      exitWithError('Failed to terminate session:', error);
+    }
+  });
 
-    if (!session) {
-      console.error(chalk.red(`Session not found: ${sessionId}`));
-      process.exit(1);
+/**
+ * Pause and resume a session
+ */
+program
+  .command('pause')
+  .description('Pause a session (SIGSTOP)')
+  .argument('<sessionId>', 'Session ID (can be partial)')
+  .action(async (sessionId: string) => {
+    await initializeCLI();
+    const client = await connectHost();
+
+    try {
+      const pausedId = await client.pauseSession(sessionId);
+      console.log(chalk.green(`Session ${pausedId.slice(0, 8)} paused`));
+    } catch (error) {
+      exitWithError('Failed to pause session:', error);
+    }
+  });
+
+program
+  .command('resume')
+  .description('Resume a paused session (SIGCONT)')
+  .argument('<sessionId>', 'Session ID (can be partial)')
+  .action(async (sessionId: string) => {
+    await initializeCLI();
+    const client = await connectHost();
+
+    try {
+      const resumedId = await client.resumeSession(sessionId);
+      console.log(chalk.green(`Session ${resumedId.slice(0, 8)} resumed`));
+    } catch (error) {
+      exitWithError('Failed to resume session:', error);
     }
+  });
+
+program
+  .command('signal')
+  .description("Send a signal to a session's process group")
+  .argument('<sessionId>', 'Session ID (can be partial)')
+  .argument('<signal>', 'Signal name or number, e.g. TERM, SIGUSR1 or 9')
+  .action(async (sessionId: string, signal: string) => {
+    await initializeCLI();
+    const client = await connectHost();
 
     try {
-      await sessionManager.terminateSession(session.id, options.force);
-      console.log(chalk.green(`Session ${session.id.slice(0, 8)} terminated`));
+      const result = await client.signalSession(sessionId, signal);
+      console.log(chalk.green(`Sent ${result.signal} to session ${result.sessionId.slice(0, 8)}`));
     } catch (error) {
-      console.error(chalk.red('Failed to terminate session:'), error);
-      process.exit(1);
+      exitWithError('Failed to signal session:', error);
     }
   });
 
@@ -265,15 +972,19 @@ program
 
     let sessionsStopped = 0;
     let daemonStopped = false;
+    let hostStopped = false;
+
+    const client = new SessionHostClient(configManager.getConfigPaths().hostSocket);
+    const hostRunning = await client.isRunning();
 
     try {
       // Stop all sessions if requested
       if (options.all || options.sessions || options.clean) {
         console.log(chalk.blue('🛑 Stopping all Universal CLI sessions...'));
         
-        const sessions = sessionManager.listSessions();
+        const sessions = hostRunning ? await client.listSessions() : [];
         const activeSessions = sessions.filter(s => 
-          s.status === 'running' || s.status === 'paused' || s.status === 'idle'
+          s.status === 'running' || s.status === 'awaiting-input' || s.status === 'paused' || s.status === 'idle'
         );
 
         if (activeSessions.length === 0) {
@@ -281,7 +992,7 @@ program
         } else {
           for (const session of activeSessions) {
             try {
-              await sessionManager.terminateSession(session.id, options.force);
+              await client.terminateSession(session.id, options.force);
               sessionsStopped++;
               console.log(chalk.green(`  ✓ Stopped session ${session.id.slice(0, 8)} (${session.command})`));
             } catch (error) {
@@ -328,14 +1039,20 @@ program
         }
       }
 
-      // Shutdown session manager
-      await sessionManager.shutdown();
+      // Shutdown session host
+      if ((options.all || options.clean) && hostRunning) {
+        await client.shutdown();
+        hostStopped = true;
+      }
 
       // Summary
       console.log(chalk.green('\n📋 Stop Summary:'));
       if (sessionsStopped > 0) {
         console.log(chalk.green(`  Sessions stopped: ${sessionsStopped}`));
       }
+      if (hostStopped) {
+        console.log(chalk.green(`  Session host stopped: Yes`));
+      }
       if (daemonStopped) {
         console.log(chalk.green(`  Daemon stopped: Yes`));
       }
@@ -348,7 +1065,7 @@ program
         console.log(chalk.yellow('\nNo specific stop action specified. Available options:'));
         console.log(chalk.cyan('  uhappy stop --sessions    ') + 'Stop all Universal CLI sessions');
         console.log(chalk.cyan('  uhappy stop --daemon      ') + 'Stop Happy CLI daemon');
-        console.log(chalk.cyan('  uhappy stop --all         ') + 'Stop sessions and daemon');
+        console.log(chalk.cyan('  uhappy stop --all         ') + 'Stop sessions, session host and daemon');
         console.log(chalk.cyan('  uhappy stop --clean       ') + 'Stop everything and clean up');
         console.log(chalk.cyan('  uhappy stop --force       ') + 'Force termination (add to any option)');
         console.log(chalk.gray('\nFor single session: uhappy kill <sessionId>'));
@@ -366,15 +1083,32 @@ program
 program
   .command('stats')
   .description('Show system statistics')
-  .action(async () => {
+  .option('-f, --format <format>', 'Output format (text|json); json includes the resource history of each session', 'text')
+  .action(async (options) => {
+    if (!['text', 'json'].includes(options.format)) {
+      exitWithError('Invalid stats format:', options.format);
+    }
+
     await initializeCLI();
+    const client = await connectHost();
+
+    let stats;
+    try {
+      stats = await client.getStats();
+    } catch (error) {
+      exitWithError('Failed to get statistics:', error);
+    }
 
-    const stats = sessionManager.getStats();
+    if (options.format === 'json') {
+      console.log(JSON.stringify(stats, null, 2));
+      return;
+    }
 
     console.log(chalk.green('System Statistics:'));
     console.log(`  Total sessions: ${stats.totalSessions}`);
     console.log(`  Running: ${chalk.green(stats.runningSessions)}`);
     console.log(`  Idle: ${chalk.yellow(stats.idleSessions)}`);
+    console.log(`  Awaiting input: ${chalk.magenta(stats.awaitingInputSessions)}`);
     console.log(`  Paused: ${chalk.blue(stats.pausedSessions)}`);
     console.log(`  Terminated: ${chalk.gray(stats.terminatedSessions)}`);
     console.log(`  Remote connections: ${stats.totalRemoteConnections}`);
@@ -382,6 +1116,108 @@ program
     console.log(chalk.green('\nProcess Statistics:'));
     console.log(`  Active processes: ${stats.processStats.running}`);
     console.log(`  Total buffer size: ${Math.round(stats.processStats.totalBufferSize / 1024)}KB`);
+
+    if (stats.resources.sessions.length > 0) {
+      console.log(chalk.green('\nResources:'));
+      for (const entry of stats.resources.sessions) {
+        console.log(`  ${chalk.blue(entry.sessionId.slice(0, 8))} ${entry.command}`);
+        console.log(`    ${formatResources(entry)}`);
+      }
+    } else if (!stats.resources.supported) {
+      console.log(chalk.gray('\nResource use is not available: this system has no /proc'));
+    }
+  });
+
+/**
+ * Live view of the sessions' resource use
+ */
+program
+  .command('top')
+  .description("Show a live view of the sessions' CPU, memory and IO")
+  .option('-i, --interval <seconds>', 'Seconds between refreshes', '2')
+  .option('-n, --iterations <count>', 'Exit after this many refreshes')
+  .action(async (options) => {
+    const intervalMs = parseFloat(options.interval) * 1000;
+    if (!(intervalMs > 0)) {
+      exitWithError('Invalid interval:', options.interval);
+    }
+    const iterations = options.iterations !== undefined ? parseInt(options.iterations, 10) : Infinity;
+    if (!(iterations > 0)) {
+      exitWithError('Invalid iterations:', options.iterations);
+    }
+
+    await initializeCLI();
+    const client = await connectHost();
+
+    process.on('SIGINT', () => process.exit(0));
+
+    for (let i = 0; i < iterations; i++) {
+      if (i > 0) {
+        await new Promise(resolve => setTimeout(resolve, intervalMs));
+      }
+
+      let sessions: SessionInfo[];
+      try {
+        sessions = await client.listSessions();
+      } catch (error) {
+        exitWithError('Failed to list sessions:', error);
+      }
+
+      const rows = sessions
+        .filter(session => session.resources)
+        .sort((a, b) => b.resources!.current.cpuPercent - a.resources!.current.cpuPercent)
+        .map(session => {
+          const { current } = session.resources!;
+          return [
+            session.id.slice(0, 8),
+            session.status,
+            current.cpuPercent.toFixed(1),
+            formatBytes(current.rssBytes),
+            String(current.processes),
+            String(current.threads),
+            String(current.fds),
+            formatBytes(current.readBytes),
+            formatBytes(current.writeBytes),
+            [session.command, ...session.args].join(' ')
+          ];
+        });
+
+      const header = ['ID', 'STATUS', 'CPU%', 'RSS', 'PROCS', 'THR', 'FDS', 'READ', 'WRITE', 'COMMAND'];
+      const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+      const format = (row: string[]) => row
+        .map((cell, column) => column === row.length - 1 ? cell : cell.padEnd(widths[column]))
+        .join('  ');
+
+      // Clear the screen and move to its top left
+      process.stdout.write('\x1b[2J\x1b[H');
+      console.log(chalk.green(`uhappy top - ${new Date().toLocaleTimeString()}, ${sessions.length} sessions`) + chalk.gray('  (Ctrl-C to exit)\n'));
+      console.log(chalk.bold(format(header)));
+      for (const row of rows) {
+        console.log(format(row));
+      }
+      if (rows.length === 0) {
+        console.log(chalk.gray(sessions.length > 0
+          ? 'No resource samples yet; sessions are sampled every 2 seconds while their process runs'
+          : 'No active sessions'));
+      }
+    }
+  });
+
+/**
+ * Explain tool detection
+ */
+program
+  .command('detect')
+  .description('Show which tool a command would be run as, and why')
+  .argument('<command>', 'Command to detect')
+  .argument('[args...]', 'Command arguments')
+  .option('-c, --cwd <dir>', 'Working directory to find the project configuration and local binaries from')
+  .action(async (command: string, args: string[], options) => {
+    await initializeCLI();
+
+    const detection = await configManager.explainToolDetection(command, args, options.cwd || process.cwd());
+    detection.steps.forEach((step, index) => console.log(chalk.gray(`  ${index + 1}. ${step}`)));
+    console.log(`${chalk.green('Tool:')} ${chalk.blue(detection.tool)}`);
   });
 
 /**
@@ -393,24 +1229,54 @@ const configCmd = program
 
 configCmd
   .command('list')
-  .description('List configured tools')
-  .action(async () => {
+  .description('List configured tools, including those of the project in the working directory')
+  .option('-r, --resolved', 'Show every value of each tool and the layer it came from')
+  .option('-c, --cwd <dir>', 'Working directory to find the project configuration from')
+  .action(async (options) => {
     await initializeCLI();
 
-    const tools = configManager.listTools();
+    const cwd = options.cwd || process.cwd();
+    const tools = Array.from(configManager.resolveTools(cwd).values());
 
     if (tools.length === 0) {
       console.log(chalk.yellow('No tools configured'));
       return;
     }
 
+    const projectConfig = configManager.findProjectConfig(cwd);
+    const plugins = configManager.getPlugins();
+    if (plugins.length > 0) {
+      console.log(chalk.green(`Plugins (${plugins.length}):`));
+      plugins.forEach(({ path, plugin, error }) => {
+        if (!plugin) {
+          console.log(`  ${chalk.red('✗')} ${path}: ${chalk.red(error)}`);
+          return;
+        }
+        const tools = plugin.tools ? plugin.tools.join(', ') : 'all tools';
+        console.log(`  ${chalk.blue(plugin.name)} - ${plugin.description || 'No description'} ${chalk.gray(`[${tools}]`)}`);
+        console.log(chalk.gray(`    ${path === 'builtin' ? 'built-in' : path}`));
+      });
+    }
+
     console.log(chalk.green(`Configured tools (${tools.length}):`));
+    if (projectConfig) {
+      console.log(chalk.gray(`  Project configuration: ${projectConfig}`));
+    }
 
-    tools.forEach(({ name, config }) => {
+    tools.forEach(({ name, config, sources }) => {
       console.log(`  ${chalk.blue(name)} - ${config.description || 'No description'}`);
-      console.log(`    Command: ${config.command}`);
-      if (config.patterns) {
-        console.log(`    Patterns: ${Object.keys(config.patterns).join(', ')}`);
+      if (!options.resolved) {
+        console.log(`    Command: ${[config.command, ...(config.args || [])].join(' ')}`);
+        if (config.patterns) {
+          console.log(`    Patterns: ${Object.keys(config.patterns).join(', ')}`);
+        }
+        return;
+      }
+
+      for (const [path, source] of Object.entries(sources).sort(([a], [b]) => a.localeCompare(b))) {
+        const value = path.split('.').reduce<any>((object, key) => object?.[key], config);
+        const origin = source.tool === name ? source.layer : `${source.layer}, from ${source.tool}`;
+        console.log(`    ${path}: ${JSON.stringify(value)} ${chalk.gray(`[${origin}]`)}`);
       }
     });
   });
@@ -437,6 +1303,39 @@ configCmd
     }
   });
 
+configCmd
+  .command('validate')
+  .description('Check tools.yaml, config.yaml and the project .uhappy.yaml for errors')
+  .action(async () => {
+    const results = await configManager.validateConfigFiles(process.cwd());
+    let valid = true;
+
+    for (const { path, errors } of results) {
+      if (errors.length === 0) {
+        console.log(chalk.green(`✓ ${path}`));
+        continue;
+      }
+      valid = false;
+      console.log(chalk.red(`✗ ${path}`));
+      errors.forEach(error => console.log(`    ${error}`));
+    }
+
+    if (!valid) {
+      process.exit(1);
+    }
+  });
+
+configCmd
+  .command('schema')
+  .description('Print the JSON Schema of a configuration file, for editor autocompletion')
+  .argument('[file]', 'Configuration file (tools|config|project)', 'tools')
+  .action((file: string) => {
+    if (file !== 'tools' && file !== 'config' && file !== 'project') {
+      exitWithError('Unknown configuration file (use tools, config or project):', file);
+    }
+    console.log(JSON.stringify(configJsonSchema(file), null, 2));
+  });
+
 /**
  * Interactive mode
  */
@@ -446,17 +1345,30 @@ program
   .argument('<command>', 'Command to execute')
   .argument('[args...]', 'Command arguments')
   .option('-t, --tool <tool>', 'Specify tool type')
+  .option('--pty', 'Run the tool in a pseudo-terminal (for TUIs and REPLs)')
+  .option('--record', 'Record the session as an asciicast file')
   .action(async (command: string, args: string[], options) => {
     await initializeCLI();
+    const client = await connectHost(true);
 
     try {
-      const sessionId = await sessionManager.createSession({
+      const session = await client.createSession({
         tool: options.tool,
         command,
         args,
-        autoStart: true
+        cwd: process.cwd(),
+        mode: options.pty ? 'pty' : 'pipe',
+        size: options.pty ? localTerminalSize() : undefined,
+        record: options.record
       });
 
+      if (options.pty) {
+        // Ctrl+C and friends are delivered to the tool by its terminal;
+        // the session ends when the tool exits
+        await attachToSession(client, session);
+      }
+
+      const sessionId = session.id;
       console.log(chalk.green(`Interactive session started: ${sessionId.slice(0, 8)}`));
       console.log(chalk.blue('Type your commands below. Press Ctrl+C to exit.'));
 
@@ -467,33 +1379,282 @@ program
 
       process.stdin.on('data', async (key: string) => {
         if (key === '\u0003') { // Ctrl+C
-          await sessionManager.terminateSession(sessionId);
+          await client.terminateSession(sessionId).catch(() => {});
           process.exit(0);
         } else {
-          await sessionManager.sendInput(sessionId, key);
+          await client.sendInput(sessionId, key).catch(() => {});
         }
       });
 
       // Monitor output
-      sessionManager.on('output', (id, output) => {
-        if (id === sessionId) {
-          process.stdout.write(output.ansi);
+      let exitCode = 0;
+      const { done } = client.follow(sessionId, { format: 'raw' }, (event) => {
+        if (event.type === 'output') {
+          process.stdout.write(Buffer.from(event.data, 'base64'));
+        } else if (event.type === 'terminated') {
+          // Ended by a signal, which leaves no exit code
+          exitCode = event.exitCode ?? 1;
         }
       });
 
-      sessionManager.on('sessionTerminated', (id) => {
-        if (id === sessionId) {
-          console.log(chalk.yellow('\nSession terminated'));
-          process.exit(0);
-        }
-      });
+      await done;
+      console.log(chalk.yellow('\nSession terminated'));
+      process.exit(exitCode);
+
+    } catch (error) {
+      exitWithError('Failed to start interactive session:', error);
+    }
+  });
+
+/**
+ * Replay a recorded session
+ */
+program
+  .command('replay')
+  .description('Play back a recorded session in the terminal')
+  .argument('<recording>', 'Recording file, or session ID (full or partial)')
+  .option('-s, --speed <factor>', 'Playback speed multiplier', '1')
+  .option('-i, --idle-limit <seconds>', 'Cap pauses between events to this many seconds')
+  .action(async (ref: string, options) => {
+    await initializeCLI();
+    const store = new RecordingStore(configManager.getConfigPaths().recordingsDir);
+
+    const speed = parseFloat(options.speed);
+    if (!(speed > 0)) {
+      exitWithError('Invalid --speed:', options.speed);
+    }
+    const idleLimit = options.idleLimit !== undefined ? parseFloat(options.idleLimit) : Infinity;
+
+    let recording;
+    try {
+      recording = await store.read(await store.resolve(ref));
+    } catch (error) {
+      exitWithError('Failed to load recording:', error);
+    }
+
+    const { header, events } = recording;
+    if (process.stdout.isTTY && (process.stdout.columns < header.width || process.stdout.rows < header.height)) {
+      console.log(chalk.yellow(`Recorded at ${header.width}x${header.height}; this terminal is smaller, output may wrap`));
+    }
+
+    let previous = 0;
+    for (const [time, code, data] of events) {
+      const pause = Math.min(time - previous, idleLimit) / speed;
+      previous = time;
+      if (pause > 0) {
+        await new Promise(resolve => setTimeout(resolve, pause * 1000));
+      }
+      // Input is echoed by the terminal in the output stream already
+      if (code === 'o') {
+        process.stdout.write(data);
+      }
+    }
+
+    process.stdout.write('\n');
+    console.log(chalk.gray(`Replay finished (${previous.toFixed(1)}s recorded)`));
+  });
+
+/**
+ * Recording management commands
+ */
+const recordingsCmd = program
+  .command('recordings')
+  .description('Manage session recordings');
+
+recordingsCmd
+  .command('list', { isDefault: true })
+  .description('List recordings, newest first')
+  .action(async () => {
+    await initializeCLI();
+    const store = new RecordingStore(configManager.getConfigPaths().recordingsDir);
+    const recordings = await store.list();
+
+    if (recordings.length === 0) {
+      console.log(chalk.yellow(`No recordings in ${store.dir}`));
+      return;
+    }
+
+    console.log(chalk.green(`Recordings (${recordings.length}):`));
+    for (const recording of recordings) {
+      const started = new Date(recording.header.timestamp * 1000).toLocaleString();
+      const size = Math.max(1, Math.round(recording.size / 1024));
+      console.log(`  ${chalk.blue(recording.sessionId.slice(0, 8))} - ${chalk.white(recording.header.command || '')}`);
+      console.log(`    Started: ${started}, Duration: ${recording.duration.toFixed(1)}s, Size: ${size}KB`);
+    }
+  });
+
+recordingsCmd
+  .command('prune')
+  .description('Delete old recordings')
+  .option('--older-than <days>', 'Delete recordings last written more than this many days ago')
+  .option('--keep <count>', 'Keep only the newest recordings')
+  .action(async (options) => {
+    await initializeCLI();
+    if (options.olderThan === undefined && options.keep === undefined) {
+      exitWithError('Nothing to prune:', 'pass --older-than and/or --keep');
+    }
+
+    const store = new RecordingStore(configManager.getConfigPaths().recordingsDir);
+    const deleted = await store.prune({
+      olderThanMs: options.olderThan !== undefined ? parseFloat(options.olderThan) * 24 * 60 * 60 * 1000 : undefined,
+      keep: options.keep !== undefined ? parseInt(options.keep, 10) : undefined
+    });
+
+    console.log(chalk.green(`Deleted ${deleted.length} recording(s)`));
+  });
 
+/**
+ * Session host commands
+ */
+const hostCmd = program
+  .command('host')
+  .description('Manage the background session host');
+
+hostCmd
+  .command('start')
+  .description('Start the session host')
+  .option('--foreground', 'Run the host in this process instead of in the background')
+  .action(async (options) => {
+    await initializeCLI();
+    const paths = configManager.getConfigPaths();
+
+    if (!options.foreground) {
+      const client = await connectHost(true);
+      const { pid } = await client.ping();
+      console.log(chalk.green(`Session host running (PID ${pid})`));
+      process.exit(0);
+    }
+
+    try {
+      await runSessionHost(paths.hostSocket);
     } catch (error) {
-      console.error(chalk.red('Failed to start interactive session:'), error);
+      exitWithError('Failed to start session host:', error);
+    }
+
+    console.log(chalk.green(`Session host listening on ${paths.hostSocket} (PID ${process.pid})`));
+  });
+
+hostCmd
+  .command('stop')
+  .description('Stop the session host and all of its sessions')
+  .action(async () => {
+    await initializeCLI();
+    const client = await connectHost();
+
+    try {
+      await client.shutdown();
+      console.log(chalk.green('Session host stopped'));
+    } catch (error) {
+      exitWithError('Failed to stop session host:', error);
+    }
+  });
+
+hostCmd
+  .command('status')
+  .description('Show session host status')
+  .action(async () => {
+    await initializeCLI();
+    const client = new SessionHostClient(configManager.getConfigPaths().hostSocket);
+
+    try {
+      const { pid, startedAt } = await client.ping();
+      const sessions = await client.listSessions();
+      const uptime = Math.round((Date.now() - startedAt) / 1000);
+      console.log(chalk.green(`Session host running (PID ${pid}, uptime ${uptime}s, ${sessions.length} sessions)`));
+    } catch (error) {
+      console.log(chalk.yellow('Session host is not running'));
       process.exit(1);
     }
   });
 
+/**
+ * Remote control commands
+ */
+const remoteCmd = program
+  .command('remote')
+  .description('WebSocket remote control');
+
+remoteCmd
+  .command('start')
+  .description('Start a remote control server in the session host')
+  .option('-p, --port <port>', 'Port to listen on', '3000')
+  .option('--bind <address>', 'Address to listen on', '127.0.0.1')
+  .option('--allow-origin <origins...>', 'Browser origins allowed to connect, e.g. https://app.example.com')
+  .action(async (options) => {
+    await initializeCLI();
+    const client = await connectHost(true);
+
+    try {
+      const remote = await client.startRemoteServer(parseInt(options.port, 10), options.bind, options.allowOrigin);
+      const state = remote.alreadyRunning ? 'already running' : 'started';
+      console.log(chalk.green(`Remote control server ${state} on ws://${remote.address}:${remote.port}`));
+      console.log(`Token: ${remote.token}`);
+    } catch (error) {
+      exitWithError('Failed to start remote control server:', error);
+    }
+  });
+
+remoteCmd
+  .command('attach')
+  .description('Attach to a session through a remote control server')
+  .argument('<sessionId>', 'Session ID (full or partial)')
+  .option('-u, --url <url>', 'Remote control server URL', 'ws://127.0.0.1:3000')
+  .option('--token <token>', 'Token printed when the server started (or pass it in the URL)')
+  .option('-n, --replay <count>', 'Number of history entries to replay', '100')
+  .option('--snapshot', 'Start from the current screen instead of replaying history')
+  .action(async (sessionId: string, options) => {
+    const { RemoteControlClient } = await import('./RemoteControlClient.js');
+    const client = new RemoteControlClient();
+    let attachedId = sessionId;
+    let isPty = false;
+
+    client.on('status', (message) => {
+      attachedId = message.sessionId;
+      isPty = isPty || message.data.mode === 'pty';
+      if (message.data.status === 'terminated' || message.data.status === 'error') {
+        client.close();
+      }
+    });
+    client.on('output', (message) => {
+      // PTY output is a terminal stream; pipe output arrives line by line
+      if (isPty) {
+        process.stdout.write(message.data.ansi);
+      } else {
+        console.log(message.data.text);
+      }
+    });
+    client.on('snapshot', (message) => {
+      if (isPty) {
+        // Clear the local screen and draw the remote one in its place
+        process.stdout.write('\x1b[H\x1b[2J' + message.data.snapshot);
+      } else {
+        console.log(message.data.snapshot);
+      }
+    });
+    client.on('error', (message) => {
+      console.error(chalk.red(message.data?.error ?? message.message ?? message));
+    });
+    client.on('close', () => process.exit(0));
+
+    try {
+      await client.connect(options.url, {
+        token: options.token,
+        sessionId,
+        replay: parseInt(options.replay, 10),
+        snapshot: options.snapshot ? 'text' : undefined
+      });
+    } catch (error) {
+      exitWithError('Failed to connect to remote control server:', error);
+    }
+
+    // Forward local lines as input
+    process.stdin.setEncoding('utf8');
+    process.stdin.on('data', (chunk: string) => {
+      client.sendInput(attachedId, chunk);
+    });
+    process.stdin.on('end', () => client.close());
+  });
+
 /**
  * Quick test command
  */
@@ -505,6 +1666,10 @@ program
 
     console.log(chalk.blue('🧪 Running Universal Happy CLI test...'));
 
+    // Runs in-process, independent of the session host
+    const sessionManager = new SessionManager();
+    await sessionManager.initialize();
+
     try {
       const sessionId = await sessionManager.createSession({
         command: 'echo',
@@ -535,6 +1700,27 @@ program
     process.exit(0);
   });
 
+/**
+ * Let plugins add their commands. A plugin that fails is reported and
+ * skipped, so it can't take the other commands down with it.
+ */
+function registerPluginCommands(): void {
+  for (const { plugin } of configManager.getPlugins()) {
+    if (!plugin?.registerCommands) {
+      continue;
+    }
+    try {
+      plugin.registerCommands(program, { connectHost: () => connectHost(true) });
+    } catch (error) {
+      console.warn(chalk.yellow(`Plugin '${plugin.name}' failed to add its commands:`), error);
+    }
+  }
+}
+
+// Plugins can add commands, so they are loaded before parsing
+await initializeCLI();
+registerPluginCommands();
+
 // Parse command line arguments
 program.parse();
 
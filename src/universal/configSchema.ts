@@ -0,0 +1,239 @@
+/**
+ * Universal CLI Wrapper - Configuration Schemas
+ *
+ * zod schemas for `tools.yaml`, `config.yaml` and project `.uhappy.yaml`
+ * files. ConfigManager validates the files with them whenever it reads
+ * them, `uhappy config validate` prints their errors by path, and
+ * `uhappy config schema` exports them as JSON Schema for editor autocompletion.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { GlobalConfig, LimitsConfig, RecipeConfig, ToolConfig, ToolConfigLayer } from './types.js';
+
+const RegexSchema = z.string().superRefine((value, ctx) => {
+  try {
+    new RegExp(value);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      // The message already starts with "Invalid regular expression"
+      message: error instanceof Error ? error.message : `Invalid regular expression: ${error}`
+    });
+  }
+});
+
+const EncodingSchema = z.string().superRefine((value, ctx) => {
+  try {
+    new TextDecoder(value);
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unsupported encoding '${value}'` });
+  }
+});
+
+const OutputFormatSchema = z.enum(['raw', 'text', 'html', 'json', 'table']);
+
+const PatternConfigSchema = z.object({
+  stdout: RegexSchema.describe('Pattern for stdout matching').optional(),
+  stderr: RegexSchema.describe('Pattern for stderr matching').optional(),
+  description: z.string().describe('Description of what this pattern detects').optional(),
+  action: z.enum(['log', 'notify', 'trigger']).describe('Action to take when the pattern matches (default: log)').optional(),
+  trigger: z.object({
+    command: z.string().describe('Command to run; match details are passed in UHAPPY_* environment variables').optional(),
+    args: z.array(z.string()).describe('Command arguments').optional(),
+    webhook: z.string().url().describe('URL the match is POSTed to as JSON').optional()
+  }).strict().describe('Command or webhook run by the trigger action').optional(),
+  cooldown: z.number().nonnegative()
+    .describe('Minimum seconds between notify/trigger actions of this pattern in a session (default: 30)').optional()
+}).strict().superRefine((pattern, ctx) => {
+  if (pattern.action === 'trigger' && !pattern.trigger?.command && !pattern.trigger?.webhook) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['trigger'],
+      message: 'The trigger action needs a trigger command or webhook'
+    });
+  }
+});
+
+const OutputProcessingConfigSchema = z.object({
+  preserveColors: z.boolean().describe('Preserve ANSI color codes').optional(),
+  realTime: z.boolean().describe('Enable real-time streaming').optional(),
+  stripProgress: z.boolean().describe('Strip progress bars and animations').optional(),
+  bufferLines: z.number().int().nonnegative().describe('Number of lines to buffer').optional(),
+  tableDetection: z.boolean().describe('Include detected tables in json output (default: true)').optional(),
+  preserveFormatting: z.boolean().describe('Preserve original formatting').optional(),
+  lineNormalization: z.enum(['preserve', 'trim-right', 'collapse'])
+    .describe('Whitespace handling of assembled lines (default: trim-right)').optional(),
+  progressDetection: z.object({
+    enabled: z.boolean(),
+    patterns: z.array(z.string())
+  }).strict().describe('Progress tracking; patterns mark lines whose bar is read as a percentage').optional()
+}).strict();
+
+const InputDetectionConfigSchema = z.object({
+  enabled: z.boolean().describe('Detect prompts at all (default: true)').optional(),
+  prompts: z.array(RegexSchema).describe("Regexes for the tool's own prompts, matched against the trimmed partial line").optional(),
+  builtinPrompts: z.boolean().describe('Also use the built-in prompt patterns (default: true)').optional(),
+  idleMs: z.number().int().nonnegative()
+    .describe('How long output must be quiet before a partial line counts as a prompt (default: 500)').optional(),
+  notify: z.boolean().describe('Push a "waiting for you" notification to the phone (default: true)').optional()
+}).strict();
+
+const ToolDetectConfigSchema = z.object({
+  binaries: z.array(z.string())
+    .describe('Executable names; names with a version (python3.12) also match without it').optional(),
+  argv: z.array(RegexSchema).describe('Regexes matched against the command line, arguments joined with spaces').optional(),
+  version: z.object({
+    args: z.array(z.string()).describe('Arguments to run it with (default: --version)').optional(),
+    match: RegexSchema.describe('Regex the output must match')
+  }).strict().describe('Run the executable and match its output; only binaries are probed, scripts never').optional()
+}).strict();
+
+const LimitActionSchema = z.enum(['warn', 'terminate', 'pause']);
+
+export const LimitsConfigSchema = z.object({
+  timeout: z.number().positive().describe('Seconds the session may run').optional(),
+  idleTimeout: z.number().positive().describe('Seconds the session may go without output').optional(),
+  maxRssMb: z.number().positive().describe('Megabytes of resident memory of the process tree').optional(),
+  maxCpuSeconds: z.number().positive().describe('Seconds of CPU time of the process tree').optional(),
+  maxOutputMb: z.number().positive().describe('Megabytes of output').optional(),
+  action: LimitActionSchema.describe('Action of the limits that have none in actions (default: terminate)').optional(),
+  actions: z.object({
+    timeout: LimitActionSchema.optional(),
+    idleTimeout: LimitActionSchema.optional(),
+    maxRssMb: LimitActionSchema.optional(),
+    maxCpuSeconds: LimitActionSchema.optional(),
+    maxOutputMb: LimitActionSchema.optional()
+  }).strict().describe('Actions of single limits').optional(),
+  graceSeconds: z.number().nonnegative().describe('Seconds between SIGTERM and SIGKILL when terminating (default: 10)').optional()
+}).strict() satisfies z.ZodType<LimitsConfig>;
+
+export const ToolConfigSchema = z.object({
+  command: z.string().describe('Command executable name'),
+  args: z.array(z.string())
+    .describe("Arguments placed before the session's own; makes the tool an alias when its name is run").optional(),
+  description: z.string().describe('Tool description').optional(),
+  env: z.record(z.string()).describe('Additional environment variables').optional(),
+  patterns: z.record(PatternConfigSchema).describe('Pattern matching rules').optional(),
+  outputProcessing: OutputProcessingConfigSchema.describe('Output processing configuration').optional(),
+  mode: z.enum(['direct', 'pipe', 'pty']).describe('Default stdio mode for sessions of this tool').optional(),
+  encoding: EncodingSchema.describe("Character encoding of the tool's output (default: UTF-8)").optional(),
+  inputDetection: InputDetectionConfigSchema.describe('Detection of the tool waiting at a prompt').optional(),
+  detect: ToolDetectConfigSchema
+    .describe("How to recognize the tool in commands that don't use its name or command").optional(),
+  limits: LimitsConfigSchema.describe("Limits on the resources of the tool's sessions").optional(),
+  modes: z.object({
+    interactive: z.boolean().optional(),
+    batch: z.boolean().optional()
+  }).strict().describe('Supported modes').optional()
+}).strict() satisfies z.ZodType<ToolConfig>;
+
+export const GlobalConfigSchema = z.object({
+  outputFormats: z.array(OutputFormatSchema).describe('Supported output formats'),
+  defaultFormat: OutputFormatSchema.describe('Default output format'),
+  bufferSize: z.number().int().positive().describe('Stream buffer size in bytes'),
+  historyMemoryBytes: z.number().int().positive()
+    .describe('Bytes of output history kept in memory per session; older output is spilled to disk'),
+  historyRetentionDays: z.number().nonnegative()
+    .describe('Days to keep the history files of ended sessions; 0 keeps them until deleted'),
+  realTimeThreshold: z.number().nonnegative().describe('Real-time threshold in ms'),
+  sessionTimeout: z.number().positive().describe('Session timeout in seconds'),
+  maxSessions: z.number().int().positive().describe('Maximum number of concurrent sessions'),
+  logLevel: z.enum(['debug', 'info', 'warn', 'error']).describe('Log level'),
+  recordSessions: z.boolean().describe('Record every session as an asciicast file')
+}).strict() satisfies z.ZodType<GlobalConfig>;
+
+export const ToolConfigLayerSchema = ToolConfigSchema.partial().extend({
+  extends: z.string().describe('Tool whose resolved configuration this one starts from').optional()
+}) satisfies z.ZodType<ToolConfigLayer>;
+
+const RecipeConditionSchema = z.object({
+  step: z.string().describe('Name of an earlier step'),
+  exitCode: z.union([z.number().int(), z.array(z.number().int())])
+    .describe('The step exited with this code, or one of these').optional(),
+  matched: z.string().describe("A pattern of the step's tool matched its output").optional(),
+  notMatched: z.string().describe("A pattern of the step's tool never matched its output").optional()
+}).strict();
+
+const RecipeStepSchema = z.object({
+  name: z.string().min(1).describe('Name shown in the summary and used by when; defaults to the command').optional(),
+  command: z.string().min(1).describe('Command to run'),
+  args: z.array(z.string()).describe('Command arguments').optional(),
+  cwd: z.string().describe('Working directory, relative to the directory of .uhappy.yaml').optional(),
+  env: z.record(z.string()).describe('Additional environment variables').optional(),
+  tool: z.string().describe('Tool to run the command as, instead of the detected one').optional(),
+  continueOnError: z.boolean().describe('Carry on with the next steps if this one fails').optional(),
+  when: z.union([RecipeConditionSchema, z.array(RecipeConditionSchema)])
+    .describe('Run the step only if these conditions on earlier steps hold').optional(),
+  timeout: z.number().positive().describe('Seconds before the step is terminated').optional()
+}).strict();
+
+export const RecipeConfigSchema = z.object({
+  description: z.string().describe('Recipe description').optional(),
+  steps: z.array(RecipeStepSchema).min(1).describe('Steps, run in order')
+}).strict().superRefine((recipe, ctx) => {
+  const names = new Set<string>();
+  recipe.steps.forEach((step, index) => {
+    for (const condition of [step.when ?? []].flat()) {
+      if (!names.has(condition.step)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['steps', index, 'when'],
+          message: `'${condition.step}' is not the name of an earlier step`
+        });
+      }
+    }
+
+    const name = step.name ?? step.command;
+    if (names.has(name)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['steps', index, 'name'],
+        message: `Another step is already named '${name}'`
+      });
+    }
+    names.add(name);
+  });
+}) satisfies z.ZodType<RecipeConfig>;
+
+/** `tools.yaml`: tool configurations by name */
+export const ToolsFileSchema = z.object({
+  plugins: z.array(z.string())
+    .describe('Plugin modules (ESM); paths are relative to this file, ~ is the home directory').optional(),
+  tools: z.record(ToolConfigLayerSchema).optional(),
+  metadata: z.object({
+    version: z.string().optional(),
+    lastUpdated: z.string().optional()
+  }).strict().optional()
+}).strict();
+
+/** `.uhappy.yaml`: a project's tools, layered over the user's */
+export const ProjectFileSchema = z.object({
+  tools: z.record(ToolConfigLayerSchema).optional(),
+  recipes: z.record(RecipeConfigSchema).describe('Multi-step recipes run with uhappy run <recipe>').optional()
+}).strict();
+
+/** `config.yaml`: settings left out keep their defaults */
+export const GlobalConfigFileSchema = GlobalConfigSchema.partial();
+
+/**
+ * One line per problem, prefixed with its path in the file,
+ * e.g. `tools.git.patterns.error.stderr: Invalid regular expression: ...`
+ */
+export function formatConfigErrors(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+/**
+ * JSON Schema of a configuration file, for editors' YAML support
+ */
+export function configJsonSchema(file: 'tools' | 'config' | 'project'): object {
+  switch (file) {
+    case 'tools':
+      return zodToJsonSchema(ToolsFileSchema, { name: 'UniversalCliTools', $refStrategy: 'none' });
+    case 'project':
+      return zodToJsonSchema(ProjectFileSchema, { name: 'UniversalCliProject', $refStrategy: 'none' });
+    case 'config':
+      return zodToJsonSchema(GlobalConfigFileSchema, { name: 'UniversalCliConfig', $refStrategy: 'none' });
+  }
+}
@@ -5,20 +5,42 @@
  */
 
 export { SessionManager } from './SessionManager.js';
-export { ProcessManager } from './ProcessManager.js';
+export { ProcessManager, parseSignal } from './ProcessManager.js';
 export { StreamParser } from './StreamParser.js';
 export { FormatProcessor } from './FormatProcessor.js';
-export { ConfigManager } from './ConfigManager.js';
+export { ConfigManager, PROJECT_CONFIG_FILE } from './ConfigManager.js';
+export { SessionHost, runSessionHost } from './SessionHost.js';
+export { SessionHostClient, SessionHostNotRunningError } from './SessionHostClient.js';
+export { RecipeRunner } from './RecipeRunner.js';
+export { RemoteControlServer } from './RemoteControlServer.js';
+export { RemoteControlClient } from './RemoteControlClient.js';
+export { SessionRecorder } from './SessionRecorder.js';
+export { RecordingStore } from './RecordingStore.js';
+export { TerminalScreen, xtermColor } from './TerminalScreen.js';
+export { PatternEngine } from './PatternEngine.js';
+export { PromptDetector } from './PromptDetector.js';
+export { TableDetector } from './TableDetector.js';
+export { ProgressTracker } from './ProgressTracker.js';
+export { HistoryStore } from './HistoryStore.js';
+export { ResourceMonitor } from './ResourceMonitor.js';
+export { LimitWatchdog } from './LimitWatchdog.js';
+export { ToolDetector } from './ToolDetector.js';
+export { testRunnerPlugins } from './TestRunnerAdapters.js';
+export { diagnosticPlugins } from './DiagnosticAdapters.js';
+export { ToolConfigSchema, GlobalConfigSchema, RecipeConfigSchema, LimitsConfigSchema, formatConfigErrors, configJsonSchema } from './configSchema.js';
 
 export type * from './types.js';
 
 // Re-export commonly used types
 export type {
   Session,
+  SessionInfo,
   TerminalOutput,
   ProcessConfig,
   ToolConfig,
   GlobalConfig,
   OutputFormat,
+  ProcessMode,
+  TerminalSize,
   RemoteMessage
 } from './types.js';
\ No newline at end of file
@@ -5,6 +5,9 @@
  * any CLI tool with ANSI color and format processing.
  */
 
+import type { Command } from 'commander';
+import type { SessionHostClient } from './SessionHostClient.js';
+
 export interface TerminalOutput {
   /** Raw bytes from the terminal */
   raw: Buffer;
@@ -18,15 +21,23 @@ export interface TerminalOutput {
   source: 'stdout' | 'stderr';
   /** Timestamp when received */
   timestamp: number;
+  /** Position in the session's history; shares its numbering with parsed lines */
+  sequence?: number;
 }
 
 export interface AnsiSequence {
   /** Type of ANSI sequence */
-  type: 'color' | 'cursor' | 'erase' | 'style' | 'unknown';
+  type: 'color' | 'cursor' | 'erase' | 'style' | 'title' | 'hyperlink' | 'prompt' | 'osc' | 'dcs' | 'unknown';
   /** Raw ANSI escape code */
   code: string;
-  /** Numeric parameters */
+  /** Numeric parameters (the command number for OSC strings) */
   params: number[];
+  /** Payload of OSC and DCS strings, after the command number */
+  data?: string;
+  /** Window title, for `title` sequences */
+  title?: string;
+  /** Link target for `hyperlink` sequences; empty when the link ends */
+  url?: string;
   /** Human-readable description */
   description: string;
   /** Position in the original string */
@@ -49,10 +60,29 @@ export interface ParsedLine {
   content: string;
   /** Whether the line is complete */
   complete: boolean;
+  /** Completed by the partial-line timeout rather than a newline */
+  forced?: boolean;
   /** Source stream */
   source: 'stdout' | 'stderr';
   /** Timestamp */
   timestamp: number;
+  /** Sequence number, shared by all streams so stdout and stderr lines interleave */
+  sequence: number;
+}
+
+/**
+ * How the child process is attached to the wrapper:
+ * - direct: stdio inherited from the wrapper, output not captured
+ * - pipe: stdio piped and captured
+ * - pty: child runs inside a pseudo-terminal, output captured
+ */
+export type ProcessMode = 'direct' | 'pipe' | 'pty';
+
+export interface TerminalSize {
+  /** Number of columns */
+  cols: number;
+  /** Number of rows */
+  rows: number;
 }
 
 export interface ProcessConfig {
@@ -66,13 +96,28 @@ export interface ProcessConfig {
   env?: Record<string, string>;
   /** Process timeout in ms */
   timeout?: number;
+  /**
+   * CPU time limit of each process, set with `ulimit -t` before the command
+   * runs: SIGXCPU at `softSeconds`, SIGKILL at `hardSeconds`. Not on Windows.
+   */
+  cpuLimit?: { softSeconds: number; hardSeconds: number };
   /** Whether to output directly to terminal (default: true) */
   directOutput?: boolean;
+  /** Stdio mode, takes precedence over directOutput when set */
+  mode?: ProcessMode;
+  /** Initial terminal size (PTY mode only) */
+  size?: TerminalSize;
 }
 
 export interface ToolConfig {
   /** Command executable name */
   command: string;
+  /**
+   * Arguments placed before the session's own. A session started with the
+   * tool's name as its command runs `command` with these, so a tool can be
+   * an alias (`dev` → `pnpm dev`).
+   */
+  args?: string[];
   /** Tool description */
   description?: string;
   /** Additional environment variables */
@@ -81,6 +126,20 @@ export interface ToolConfig {
   patterns?: Record<string, PatternConfig>;
   /** Output processing configuration */
   outputProcessing?: OutputProcessingConfig;
+  /** Default stdio mode for sessions of this tool */
+  mode?: ProcessMode;
+  /**
+   * Character encoding of the tool's output, e.g. a legacy code page like
+   * `windows-1252` or `shift_jis`. When unset, output is read as UTF-8 and
+   * bytes that are not valid UTF-8 are read as windows-1252.
+   */
+  encoding?: string;
+  /** Detection of the tool waiting at a prompt */
+  inputDetection?: InputDetectionConfig;
+  /** How to recognize the tool in commands that don't use its name or command */
+  detect?: ToolDetectConfig;
+  /** Limits on the resources of the tool's sessions */
+  limits?: LimitsConfig;
   /** Supported modes */
   modes?: {
     interactive?: boolean;
@@ -88,6 +147,135 @@ export interface ToolConfig {
   };
 }
 
+export interface ToolDetectConfig {
+  /** Executable names, e.g. `py.test`; names with a version (`python3.12`) also match without it */
+  binaries?: string[];
+  /** Regexes matched against the command line, arguments joined with spaces */
+  argv?: string[];
+  /** Run the executable and match its output; only binaries are probed, scripts never */
+  version?: {
+    /** Arguments to run it with (default: `--version`) */
+    args?: string[];
+    /** Regex the output must match */
+    match: string;
+  };
+}
+
+/**
+ * Outcome of tool detection for a command
+ */
+export interface ToolDetection {
+  tool: string;
+  /** How the tool was chosen, step by step */
+  steps: string[];
+  /** Command line the tool was recognized in, after unwrapping wrappers like `npx` */
+  argv: string[];
+}
+
+/**
+ * A tool as one configuration layer defines it: any value may be left to a
+ * lower layer or to the tool it extends
+ */
+export interface ToolConfigLayer extends Partial<ToolConfig> {
+  /** Tool whose resolved configuration this one starts from */
+  extends?: string;
+}
+
+/**
+ * Where tool configuration comes from, lowest precedence first: built-in
+ * defaults, the user's `tools.yaml`, then the nearest `.uhappy.yaml` above
+ * the session's working directory
+ */
+export type ConfigLayer = 'builtin' | 'user' | 'project';
+
+export interface ConfigValueSource {
+  layer: ConfigLayer;
+  /** Tool that set the value; another tool if it was inherited with `extends` */
+  tool: string;
+}
+
+/**
+ * A tool's configuration with all layers and `extends` applied
+ */
+export interface ResolvedToolConfig {
+  name: string;
+  config: ToolConfig;
+  /** Where each value came from, by dotted path (`outputProcessing.realTime`) */
+  sources: Record<string, ConfigValueSource>;
+}
+
+/**
+ * Condition on an earlier step of a recipe; every field given must hold.
+ * Steps that didn't run meet no condition.
+ */
+export interface RecipeCondition {
+  /** Name of an earlier step */
+  step: string;
+  /** The step exited with this code, or one of these */
+  exitCode?: number | number[];
+  /** A pattern of the step's tool matched its output */
+  matched?: string;
+  /** A pattern of the step's tool never matched its output */
+  notMatched?: string;
+}
+
+export interface RecipeStep {
+  /** Name shown in the summary and used by `when`; defaults to the command */
+  name?: string;
+  command: string;
+  args?: string[];
+  /** Working directory, relative to the directory of `.uhappy.yaml` */
+  cwd?: string;
+  env?: Record<string, string>;
+  /** Tool to run the command as, instead of the detected one */
+  tool?: string;
+  /** Carry on with the next steps if this one fails */
+  continueOnError?: boolean;
+  /** Run the step only if these conditions hold */
+  when?: RecipeCondition | RecipeCondition[];
+  /** Seconds before the step is terminated */
+  timeout?: number;
+}
+
+/**
+ * Ordered steps defined under `recipes` in `.uhappy.yaml`, run by `uhappy run`
+ */
+export interface RecipeConfig {
+  description?: string;
+  steps: RecipeStep[];
+}
+
+export interface RecipeStepRun {
+  name: string;
+  command: string;
+  args: string[];
+  status: 'pending' | 'running' | 'succeeded' | 'failed' | 'timed-out' | 'skipped' | 'cancelled';
+  /** Session the step runs in */
+  sessionId?: string;
+  exitCode?: number;
+  /** Patterns of the step's tool that matched its output */
+  matches?: string[];
+  /** Why the step failed or was skipped */
+  reason?: string;
+  startTime?: number;
+  endTime?: number;
+}
+
+/**
+ * One run of a recipe. A step that fails stops the run unless it may
+ * `continueOnError`.
+ */
+export interface RecipeRun {
+  id: string;
+  recipe: string;
+  /** Directory the steps' working directories are relative to */
+  cwd: string;
+  status: 'running' | 'succeeded' | 'failed' | 'cancelled';
+  steps: RecipeStepRun[];
+  startTime: number;
+  endTime?: number;
+}
+
 export interface PatternConfig {
   /** Pattern for stdout matching */
   stdout?: string;
@@ -95,10 +283,72 @@ export interface PatternConfig {
   stderr?: string;
   /** Description of what this pattern detects */
   description?: string;
-  /** Action to take when pattern matches */
+  /** Action to take when pattern matches (default: log) */
   action?: 'log' | 'notify' | 'trigger';
+  /** Command or webhook run by the `trigger` action */
+  trigger?: PatternTrigger;
+  /** Minimum seconds between notify/trigger actions of this pattern in a session (default: 30) */
+  cooldown?: number;
+}
+
+export interface PatternTrigger {
+  /** Command to run; match details are passed in UHAPPY_* environment variables */
+  command?: string;
+  /** Command arguments */
+  args?: string[];
+  /** URL the match is POSTed to as JSON */
+  webhook?: string;
+}
+
+/**
+ * A tool pattern matching a completed output line
+ */
+export interface PatternMatch {
+  sessionId: string;
+  /** Pattern name from the tool config */
+  pattern: string;
+  description?: string;
+  action: NonNullable<PatternConfig['action']>;
+  source: 'stdout' | 'stderr';
+  /** The line that matched, without ANSI sequences */
+  line: string;
+  /** The matched text */
+  match: string;
+  /** Numbered capture groups */
+  groups: (string | undefined)[];
+  /** Named capture groups */
+  namedGroups?: Record<string, string>;
+  timestamp: number;
+}
+
+export interface PatternMatchSummary {
+  count: number;
+  /** Text of the most recent match */
+  lastMatch: string;
+  lastMatchedAt: number;
 }
 
+export interface InputDetectionConfig {
+  /** Detect prompts at all (default: true) */
+  enabled?: boolean;
+  /** Regexes for the tool's own prompts, matched against the trimmed partial line */
+  prompts?: string[];
+  /** Also use the built-in prompt patterns (default: true) */
+  builtinPrompts?: boolean;
+  /** How long output must be quiet before a partial line counts as a prompt (default: 500) */
+  idleMs?: number;
+  /** Push a "waiting for you" notification to the phone (default: true) */
+  notify?: boolean;
+}
+
+/**
+ * How assembled output lines are cleaned up:
+ * - preserve: as written, apart from bell characters and trailing carriage returns
+ * - trim-right: trailing whitespace removed, indentation kept
+ * - collapse: trimmed, with runs of whitespace collapsed to one space
+ */
+export type LineNormalization = 'preserve' | 'trim-right' | 'collapse';
+
 export interface OutputProcessingConfig {
   /** Preserve ANSI color codes */
   preserveColors?: boolean;
@@ -108,17 +358,45 @@ export interface OutputProcessingConfig {
   stripProgress?: boolean;
   /** Number of lines to buffer */
   bufferLines?: number;
-  /** Detect table formatting */
+  /** Include detected tables in `json` output (default: true) */
   tableDetection?: boolean;
   /** Preserve original formatting */
   preserveFormatting?: boolean;
-  /** Progress bar detection */
+  /** Whitespace handling of assembled lines (default: trim-right) */
+  lineNormalization?: LineNormalization;
+  /** Progress tracking; `patterns` mark lines whose bar (`█░`) is read as a percentage */
   progressDetection?: {
     enabled: boolean;
     patterns: string[];
   };
 }
 
+/**
+ * How far along a command is, read from its progress output
+ */
+export interface SessionProgress {
+  /** Completion of the current operation, 0-100 */
+  percent?: number;
+  /** Byte counter, from updates like `12.3MB/45MB` */
+  bytes?: { current: number; total: number };
+  /** Step counter, from `[3/10]` or `Step 3/10` */
+  step?: { current: number; total: number };
+  /** Docker image layers, by layer ID */
+  layers?: Record<string, LayerProgress>;
+  /** The update the progress was last read from */
+  line: string;
+  updatedAt: number;
+}
+
+export interface LayerProgress {
+  /** Docker status, e.g. `Downloading`, `Extracting` or `Pull complete` */
+  status: string;
+  /** Bytes transferred so far */
+  current?: number;
+  /** Layer size in bytes */
+  total?: number;
+}
+
 export interface Session {
   /** Unique session identifier */
   id: string;
@@ -129,7 +407,7 @@ export interface Session {
   /** Command arguments */
   args: string[];
   /** Current session status */
-  status: 'idle' | 'running' | 'paused' | 'terminated' | 'error';
+  status: 'idle' | 'running' | 'awaiting-input' | 'paused' | 'terminated' | 'error';
   /** Session start time */
   startTime: number;
   /** Last activity timestamp */
@@ -140,7 +418,11 @@ export interface Session {
   env: Record<string, string>;
   /** Whether to output directly to terminal */
   directOutput?: boolean;
-  /** Output history */
+  /** Stdio mode the process was spawned with */
+  mode?: ProcessMode;
+  /** Current terminal size (PTY mode only) */
+  terminalSize?: TerminalSize;
+  /** Newest output history, within the memory budget; older output is spilled to disk */
   outputHistory: TerminalOutput[];
   /** Input history */
   inputHistory: string[];
@@ -150,11 +432,47 @@ export interface Session {
   pid?: number;
   /** Exit code if terminated */
   exitCode?: number;
+  /** Signal that ended the process, if one did */
+  signal?: string;
+  /** Asciicast file the session is recorded to, if recording */
+  recordingPath?: string;
+  /** Prompt text the session is waiting at, while `awaiting-input` */
+  prompt?: string;
+  /** Window title last set by the program (OSC 0/2) */
+  title?: string;
+  /** Tool pattern matches so far, by pattern name */
+  patternMatches?: Record<string, PatternMatchSummary>;
+  /** Latest progress reported by the command */
+  progress?: SessionProgress;
+  /** Test results, when the command is a test runner */
+  tests?: TestSummary;
+  /** Problems found by the latest run, when the command is a compiler or linter */
+  diagnostics?: DiagnosticSummary;
+  /** The recipe step the session runs, if it is one */
+  recipe?: { runId: string; name: string; step: number; stepName: string };
+  /** Latest resource use of the process tree, on systems with /proc */
+  resources?: SessionResources;
+  /** Limits the session runs under: its tool's, overridden by its own */
+  limits?: LimitsConfig;
+  /** Limits the session has exceeded, oldest first */
+  limitViolations?: LimitViolation[];
+  /** Why the session was ended, when it was not the program's own doing */
+  exitReason?: string;
+}
+
+/**
+ * Serializable view of a session, as reported by the session host
+ */
+export interface SessionInfo extends Omit<Session, 'env' | 'outputHistory' | 'inputHistory' | 'remoteConnections'> {
+  /** Number of connected remote clients */
+  remoteConnections: number;
+  /** Number of entries in the output history, including those spilled to disk */
+  historySize: number;
 }
 
 export interface RemoteMessage {
   /** Message type */
-  type: 'input' | 'output' | 'control' | 'status' | 'error';
+  type: 'input' | 'output' | 'control' | 'status' | 'error' | 'snapshot' | 'progress' | 'event' | 'limit';
   /** Target session ID */
   sessionId: string;
   /** Message payload */
@@ -165,13 +483,72 @@ export interface RemoteMessage {
   clientId?: string;
 }
 
+/**
+ * Delivers a message to one remote client
+ */
+export type RemoteTransport = (message: RemoteMessage) => void;
+
+/**
+ * Actions a remote client can request with a `control` message
+ */
+export type RemoteControlAction = 'attach' | 'detach' | 'pause' | 'resume' | 'kill' | 'signal' | 'resize' | 'snapshot';
+
+/**
+ * Terminal color: xterm palette index (0-255) or `#rrggbb`
+ */
+export type TerminalColor = number | string;
+
+/**
+ * SGR attributes of a screen cell. `null` colors are the terminal default.
+ */
+export interface CellAttributes {
+  fg: TerminalColor | null;
+  bg: TerminalColor | null;
+  bold: boolean;
+  dim: boolean;
+  italic: boolean;
+  underline: boolean;
+  blink: boolean;
+  inverse: boolean;
+  hidden: boolean;
+  strikethrough: boolean;
+}
+
+export interface ScreenCell {
+  /** Character in the cell; empty for the second half of a wide character */
+  char: string;
+  attrs: CellAttributes;
+}
+
+export type SnapshotFormat = 'text' | 'html' | 'json';
+
+/**
+ * Visible screen of a session, as rendered by TerminalScreen in `json` format
+ */
+export interface ScreenSnapshot {
+  cols: number;
+  rows: number;
+  cursor: { x: number; y: number; visible: boolean };
+  alternateScreen: boolean;
+  title: string;
+  lines: {
+    text: string;
+    /** Runs of cells with the same attributes; colors are resolved to `#rrggbb` */
+    runs: ({ text: string; fg?: string; bg?: string } & Partial<Omit<CellAttributes, 'fg' | 'bg'>>)[];
+  }[];
+}
+
 export interface GlobalConfig {
   /** Supported output formats */
-  outputFormats: ('raw' | 'text' | 'html' | 'json')[];
+  outputFormats: OutputFormat[];
   /** Default output format */
-  defaultFormat: 'raw' | 'text' | 'html' | 'json';
+  defaultFormat: OutputFormat;
   /** Stream buffer size in bytes */
   bufferSize: number;
+  /** Bytes of output history and lines kept in memory per session; older entries are spilled to disk */
+  historyMemoryBytes: number;
+  /** Days to keep the history files of ended sessions; 0 keeps them until deleted */
+  historyRetentionDays: number;
   /** Real-time threshold in ms */
   realTimeThreshold: number;
   /** Session timeout in seconds */
@@ -180,9 +557,77 @@ export interface GlobalConfig {
   maxSessions: number;
   /** Log level */
   logLevel: 'debug' | 'info' | 'warn' | 'error';
+  /** Record every session as an asciicast file */
+  recordSessions: boolean;
+}
+
+/**
+ * Asciicast v2 header line
+ */
+export interface AsciicastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  /** Unix timestamp (seconds) of the recording start */
+  timestamp: number;
+  command?: string;
+  title?: string;
+  env?: Record<string, string>;
+}
+
+/**
+ * Asciicast v2 event: seconds since start, event code and data.
+ * Codes: `o` output, `i` input, `r` resize (`COLSxROWS`).
+ */
+export type AsciicastEvent = [number, 'o' | 'i' | 'r', string];
+
+/**
+ * A recording on disk, as listed by RecordingStore
+ */
+export interface RecordingInfo {
+  path: string;
+  sessionId: string;
+  header: AsciicastHeader;
+  /** Seconds from start to the last event */
+  duration: number;
+  /** File size in bytes */
+  size: number;
+  modifiedAt: number;
+}
+
+export type OutputFormat = 'raw' | 'text' | 'html' | 'json' | 'table';
+
+/**
+ * Selects entries of a session's output history. Without `after`, the
+ * newest `limit` matching entries are returned; with it, the oldest
+ * `limit` entries following that sequence number, for paging forward.
+ */
+export interface HistoryQuery {
+  /** Only entries with a higher sequence number */
+  after?: number;
+  /** Only entries with a lower sequence number */
+  before?: number;
+  /** Only entries received at or after this time (ms since epoch) */
+  from?: number;
+  /** Only entries received before this time (ms since epoch) */
+  to?: number;
+  source?: 'stdout' | 'stderr';
+  /** Regex the entry's plain text must match */
+  grep?: string;
+  limit?: number;
 }
 
-export type OutputFormat = 'raw' | 'text' | 'html' | 'json';
+/**
+ * A column-aligned table found in plain output
+ */
+export interface DetectedTable {
+  /** Column names, from the header line */
+  columns: string[];
+  /** One object per row, keyed by column name */
+  rows: Record<string, string>[];
+  /** Index of the header line in the text the table was found in */
+  line: number;
+}
 
 export interface StreamEvent {
   /** Event type */
@@ -195,4 +640,232 @@ export interface StreamEvent {
   timestamp: number;
   /** Session ID */
   sessionId: string;
-}
\ No newline at end of file
+}
+
+/**
+ * A problem reported by a compiler, linter or test run
+ */
+export interface Diagnostic {
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  /** Tool-specific code, e.g. `TS2322` */
+  code?: string;
+}
+
+/**
+ * Diagnostics of one compiler or linter run, updated live while it runs.
+ * Watch modes start a new run on every rebuild.
+ */
+export interface DiagnosticSummary {
+  source: 'tsc' | 'eslint' | 'gcc' | 'cargo' | 'mypy';
+  /** Runs counted from 1 */
+  run: number;
+  status: 'running' | 'done';
+  errors: number;
+  warnings: number;
+  /** Diagnostics with files resolved against the session's directory */
+  diagnostics: Diagnostic[];
+  updatedAt: number;
+}
+
+/**
+ * Resource use of a session's process tree (the process and all its
+ * descendants) at one moment, read from /proc
+ */
+export interface ResourceSample {
+  timestamp: number;
+  /** CPU time used since the previous sample, in percent of one core */
+  cpuPercent: number;
+  /** Resident memory, in bytes */
+  rssBytes: number;
+  /** Open file descriptors */
+  fds: number;
+  threads: number;
+  /** Processes in the tree, the session's own included */
+  processes: number;
+  /** Bytes the processes running now have read from and written to storage */
+  readBytes: number;
+  writeBytes: number;
+  /** CPU time used by the tree since it started, in seconds */
+  cpuSeconds: number;
+}
+
+export interface SessionResources {
+  current: ResourceSample;
+  peakCpuPercent: number;
+  peakRssBytes: number;
+}
+
+export type LimitName = 'timeout' | 'idleTimeout' | 'maxRssMb' | 'maxCpuSeconds' | 'maxOutputMb';
+
+/**
+ * What to do when a session exceeds a limit: tell the user, end the
+ * session (SIGTERM, then SIGKILL after the grace period) or pause it
+ */
+export type LimitAction = 'warn' | 'terminate' | 'pause';
+
+/**
+ * Limits on a session. Memory and CPU time are those of the whole process
+ * tree, sampled from /proc; systems without it only get the CPU time limit
+ * set with `ulimit` at spawn, which applies to each process on its own.
+ */
+export interface LimitsConfig {
+  /** Seconds the session may run */
+  timeout?: number;
+  /** Seconds the session may go without output */
+  idleTimeout?: number;
+  /** Megabytes of resident memory */
+  maxRssMb?: number;
+  /** Seconds of CPU time */
+  maxCpuSeconds?: number;
+  /** Megabytes of output */
+  maxOutputMb?: number;
+  /** Action of the limits that have none in `actions` (default: terminate) */
+  action?: LimitAction;
+  /** Actions of single limits */
+  actions?: Partial<Record<LimitName, LimitAction>>;
+  /** Seconds between SIGTERM and SIGKILL when terminating (default: 10) */
+  graceSeconds?: number;
+}
+
+export interface LimitViolation {
+  limit: LimitName;
+  action: LimitAction;
+  /** The limit, in the unit of its name */
+  threshold: number;
+  /** Value that went over it, in the same unit */
+  value: number;
+  /** e.g. `used 612 MB of memory, over the limit of 512 MB` */
+  message: string;
+  timestamp: number;
+}
+
+/**
+ * Request of the `getDiagnostics` RPC of a session's Happy API session
+ */
+export interface GetDiagnosticsRequest {
+  /** Only diagnostics of this severity */
+  severity?: Diagnostic['severity'];
+}
+
+export interface GetDiagnosticsResponse {
+  success: boolean;
+  /** The latest run, absent until the tool reports; files can be opened with the `readFile` RPC */
+  diagnostics?: DiagnosticSummary;
+  error?: string;
+}
+
+export interface TestResult {
+  /** Full test name, including its suites */
+  name: string;
+  status: 'running' | 'passed' | 'failed' | 'skipped';
+  /** Where the failure happened */
+  file?: string;
+  line?: number;
+  durationMs?: number;
+  /** Failure message */
+  message?: string;
+}
+
+/**
+ * A test file (vitest, jest, pytest) or package (go test)
+ */
+export interface TestSuite {
+  name: string;
+  status: 'running' | 'passed' | 'failed' | 'skipped';
+  passed: number;
+  failed: number;
+  skipped: number;
+  durationMs?: number;
+  /** Tests the reporter named; runners list only failures by default */
+  tests: TestResult[];
+}
+
+/**
+ * Results of a test run, updated live while it runs
+ */
+export interface TestSummary {
+  runner: 'vitest' | 'jest' | 'pytest' | 'go';
+  status: 'running' | 'passed' | 'failed';
+  passed: number;
+  failed: number;
+  skipped: number;
+  /** Tests the runner expects to run, once it says */
+  total?: number;
+  durationMs?: number;
+  suites: TestSuite[];
+  updatedAt: number;
+}
+
+/**
+ * Structured event a tool adapter reads from a session's output
+ */
+export type ToolEvent =
+  | { type: 'diagnostic'; diagnostic: Diagnostic }
+  | { type: 'test'; test: TestResult }
+  /** Replaces the session's test summary */
+  | { type: 'tests'; summary: TestSummary }
+  /** Replaces the session's diagnostics */
+  | { type: 'diagnostics'; summary: DiagnosticSummary }
+  /** Replaces the session's progress */
+  | { type: 'progress'; progress: Omit<SessionProgress, 'updatedAt'> }
+  /** Moves a running session to `awaiting-input` */
+  | { type: 'prompt'; prompt: string }
+  | { type: 'custom'; name: string; data?: unknown };
+
+/**
+ * What a plugin's adapter gets to know about its session
+ */
+export interface ToolAdapterContext {
+  session: Readonly<Pick<Session, 'id' | 'tool' | 'command' | 'args' | 'cwd' | 'mode'>>;
+  /** The tool's resolved configuration */
+  config: ToolConfig | null;
+  /** Report an event to listeners, remote clients and Happy */
+  emit(event: ToolEvent): void;
+  /** Build output from ANSI text, for `onOutput` hooks that rewrite it */
+  processOutput(ansi: string, source: TerminalOutput['source']): TerminalOutput;
+}
+
+/**
+ * Per-session hooks of a plugin. Exceptions disable the adapter for the
+ * session; they never reach the session itself.
+ */
+export interface ToolAdapter {
+  /** Each output chunk before it enters history; return a replacement to change it */
+  onOutput?(output: TerminalOutput): TerminalOutput | void;
+  /** Each line assembled from the (possibly changed) output, complete or partial */
+  onLine?(line: ParsedLine): void;
+  /** The process exited and its last lines were read */
+  onExit?(exitCode?: number): void;
+  /** The session is gone */
+  dispose?(): void;
+}
+
+export interface PluginCommandContext {
+  /** Connect to the session host, starting it if needed */
+  connectHost(): Promise<SessionHostClient>;
+}
+
+/**
+ * Default export of a plugin module listed under `plugins` in tools.yaml
+ */
+export interface UniversalPlugin {
+  name: string;
+  description?: string;
+  /** Tools whose sessions get an adapter; all tools if left out */
+  tools?: string[];
+  createAdapter?(context: ToolAdapterContext): ToolAdapter | void;
+  /** Add commands to `uhappy` */
+  registerCommands?(program: Command, context: PluginCommandContext): void;
+}
+
+export interface LoadedPlugin {
+  /** Module path, as resolved from tools.yaml; `builtin` for built-in plugins */
+  path: string;
+  plugin?: UniversalPlugin;
+  /** Why the module could not be loaded */
+  error?: string;
+}